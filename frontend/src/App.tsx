@@ -23,6 +23,8 @@ import "react-toastify/dist/ReactToastify.css";
 import { useEffect, useState } from "react";
 import PageLoader from "./components/Loader";
 import { NotificationProvider } from "./context/NotificationContext";
+import { RealtimeProvider } from "./context/RealtimeContext";
+import { DeviceLivenessProvider } from "./context/DeviceLivenessContext";
 import AiRcaChat from "./pages/Ai";
 import AssetBulkUpload from "./asset/UploadAssetCsv";
 import Notifications from "./pages/Notifications";
@@ -60,11 +62,15 @@ export default function App() {
             <Route path="/" element={<Login />} />
 
             <Route element={
+          <RealtimeProvider>
+          <DeviceLivenessProvider>
           <NotificationProvider>
              <ProtectedRoute>
               <DashboardLayout />
             </ProtectedRoute>
           </NotificationProvider>
+          </DeviceLivenessProvider>
+          </RealtimeProvider>
           }>
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/assets" element={<Assets />} />
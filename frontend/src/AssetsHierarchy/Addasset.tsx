@@ -72,7 +72,7 @@ export default function AddAsset({ parentAsset, onClose, onAdd }: AddAssetProps)
     } catch (err: any) {
       console.error("Error creating asset:", err);
 
-      const message = err || "Failed to create asset. Please try again.";
+      const message = err?.message || "Failed to create asset. Please try again.";
 
       toast.error(message, { autoClose: 4000 });
     } finally {
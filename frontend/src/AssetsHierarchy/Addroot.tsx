@@ -60,7 +60,7 @@ export default function AddRoot({ onClose, onAdd }: AddRootProps) {
       if (onAdd) onAdd();
       setTimeout(() => onClose(), 700);
     } catch (err: any) {
-      toast.error(err || "Failed to create asset.");
+      toast.error(err?.message || "Failed to create asset.");
     } finally {
       setLoading(false);
     }
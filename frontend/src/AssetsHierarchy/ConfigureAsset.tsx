@@ -5,7 +5,7 @@ import { X, Trash2, RefreshCw } from "lucide-react";
 import { type Asset } from "@/types/asset";
 import apiAsset from "@/api/axiosAsset";
 import { toast } from "react-toastify";
-import { getSignalTypes } from "@/api/assetApi";
+import { addAssetConfig, deleteAssetConfig, getSignalTypes } from "@/api/assetApi";
 
 interface ConfigureAssetProps {
   asset: Asset;
@@ -128,7 +128,7 @@ export default function ConfigureAsset({ asset, onClose }: ConfigureAssetProps)
   const deleteConfigImmediate = async (assetConfigID: string) => {
     if (!confirm("Delete this configuration?")) return;
     try {
-      await apiAsset.delete(`/AssetConfig/${assetConfigID}`);
+      await deleteAssetConfig(assetConfigID);
       toast.success("Configuration deleted.");
       await fetchConfigs();
     } catch (err: any) {
@@ -151,10 +151,7 @@ export default function ConfigureAsset({ asset, onClose }: ConfigureAssetProps)
       // 1) DELETE marked configs
       for (const d of deletes) {
         try {
-          const res = await apiAsset.delete(`/AssetConfig/${d.assetConfigID}`);
-          if (res.status < 200 || res.status >= 300) {
-            throw new Error(`Delete HTTP ${res.status}`);
-          }
+          await deleteAssetConfig(d.assetConfigID);
         } catch (errDel: any) {
           console.error("Failed to delete", d, errDel);
           toast.error(`Failed to delete ${d.signalName}`);
@@ -164,11 +161,7 @@ export default function ConfigureAsset({ asset, onClose }: ConfigureAssetProps)
       // 2) POST new signals (if any) as an array: { assetId, signals: [...] }
       if (creates.length > 0) {
         try {
-          const payload = { assetId: asset.assetId, signals: creates };
-          const res = await apiAsset.post("/AssetConfig", payload);
-          if (res.status < 200 || res.status >= 300) {
-            throw new Error(`POST HTTP ${res.status}`);
-          }
+          await addAssetConfig({ assetId: asset.assetId, signals: creates });
         } catch (errPost: any) {
           console.error("Failed to create new configs", errPost);
           toast.error("Failed to create new signal(s).");
@@ -30,10 +30,7 @@ export default function DeleteAsset({ asset, open, onClose, onDeleted }: DeleteA
       onClose();
     } catch (err: any) {
       console.log(err)
-      toast.error(
-        err?.response?.data?.message || err.response?.data || err ||
-        "Failed to delete asset. Try again."
-      );
+      toast.error(err?.message || "Failed to delete asset. Try again.");
     }
   };
 
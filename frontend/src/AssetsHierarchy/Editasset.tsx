@@ -61,10 +61,7 @@ export default function EditAsset({ asset, onClose, onUpdated }: EditAssetProps)
       if (onUpdated) onUpdated();
       setTimeout(() => onClose(), 400);
     } catch (err: any) {
-      const message =
-        err?.response?.data?.error ||
-        err?.response?.data?.message ||
-        "Failed to update Asset. Try again.";
+      const message = err?.message || "Failed to update Asset. Try again.";
 
       setErrorMsg(message);
     } finally {
@@ -1,4 +1,5 @@
 import api from "./axios";
+import { ApiError, callApi } from "./apiError";
 
 /**
  * DTOs matching backend responses
@@ -20,8 +21,10 @@ export interface GatewayCredentialsResponse {
  * GET /api/Gateway
  */
 export const getGateways = async (): Promise<Gateway[]> => {
-  const response = await api.get("/Gateway");
-  return response.data;
+  return callApi(async () => {
+    const response = await api.get("/Gateway");
+    return response.data;
+  }, "Failed to fetch gateways");
 };
 
 /**
@@ -32,14 +35,16 @@ export const addGateway = async (
   gatewayName: string
 ): Promise<GatewayCredentialsResponse> => {
   if (!gatewayName || !gatewayName.trim()) {
-    throw new Error("Gateway name is required");
+    throw new ApiError("Gateway name is required", { code: "VALIDATION_ERROR" });
   }
 
-  const response = await api.post(
-    `/Gateway/${encodeURIComponent(gatewayName.trim())}`
-  );
+  return callApi(async () => {
+    const response = await api.post(
+      `/Gateway/${encodeURIComponent(gatewayName.trim())}`
+    );
 
-  return response.data;
+    return response.data;
+  }, "Failed to add gateway");
 };
 
 /**
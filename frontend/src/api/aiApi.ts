@@ -1,41 +1,20 @@
-import axios from "axios";
-
-const baseURL = `${import.meta.env.VITE_API_URL}/api/ai`;
-
-const AiApi = axios.create({
-  baseURL,
-  withCredentials: true,
-});
-
-// 🔁 Auto-refresh token interceptor
-AiApi.interceptors.response.use(
-  (response) => response,
-  async (error) => {
-    const originalRequest = error.config;
-
-    if (error.response?.status === 401 && !originalRequest._retry) {
-      originalRequest._retry = true;
-
-      try {
-       await axios.post(
-          `${import.meta.env.VITE_API_URL}/api/auth/User/refresh-token`,  // Through gateway
-         {},
-        { withCredentials: true }
-       );
-
-        return AiApi(originalRequest);
-      } catch (err) {
-        console.error("Refresh token failed. Redirecting...");
-        localStorage.removeItem("user");
-        if (window.location.pathname !== "/") {
-          window.location.href = "/";
-        }
-        return Promise.reject(err);
-      }
-    }
-
-    return Promise.reject(error);
-  }
-);
+import { createApiClient } from "./client";
+import { callApi } from "./apiError";
+
+const AiApi = createApiClient("ai");
+
+export interface AskAiPayload {
+  prompt: string;
+  system: string;
+  sessionId: string;
+}
+
+// POST /api/ai/ai/ask
+export const askAi = async (payload: AskAiPayload) => {
+  return callApi(async () => {
+    const res = await AiApi.post("/ai/ask", payload);
+    return res.data;
+  }, "Unknown error");
+};
 
 export default AiApi;
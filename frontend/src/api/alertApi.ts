@@ -0,0 +1,129 @@
+// src/api/alertApi.ts
+import apiAsset from "./axiosAsset";
+import { callApi } from "./apiError";
+import type { PaginatedResponse } from "./assetApi";
+
+/* --------------------------------------------------------
+    ALERTS
+    Threshold alerts raised by the asset-service. Deviation,
+    severity and duration are derived server-side, and the
+    analytics are aggregated there, so long windows never
+    have to be pulled into the browser.
+-------------------------------------------------------- */
+
+export const ALERT_SEVERITIES = ["Low", "Medium", "Critical"] as const;
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+export type DeviationDirection = "UP" | "DOWN" | "NONE";
+
+export interface Alert {
+  alertId: string;
+  assetId: string;
+  assetName: string;
+  signalTypeId: string;
+  signalName: string;
+  alertStartUtc: string;
+  // null while the alert is still active
+  alertEndUtc: string | null;
+  minThreshold: number;
+  maxThreshold: number;
+  minObservedValue: number | null;
+  maxObservedValue: number | null;
+  isActive: boolean;
+  isAnalyzed: boolean;
+  // How far the worst reading went past the breached limit, as % of that limit
+  deviationPercent: number;
+  deviationDirection: DeviationDirection;
+  severity: AlertSeverity;
+  durationSeconds: number;
+}
+
+export interface AlertFilter {
+  fromUtc: string;
+  toUtc: string;
+  assetId?: string;
+  signalName?: string;
+  severity?: AlertSeverity;
+}
+
+export interface AlertSignalStats {
+  assetId: string;
+  assetName: string;
+  signalTypeId: string;
+  signalName: string;
+  count: number;
+  critical: number;
+  outOfLimitSeconds: number;
+  meanTimeBetweenAlertsSeconds: number | null;
+  lastAlertUtc: string;
+}
+
+export interface AlertAnalytics {
+  fromUtc: string;
+  toUtc: string;
+  timeZone: string;
+  total: number;
+  active: number;
+  averageDeviationPercent: number;
+  // Out-of-limit time inside the window, summed over alerts
+  totalOutOfLimitSeconds: number;
+  // Mean gap between consecutive alerts on the same signal
+  meanTimeBetweenAlertsSeconds: number | null;
+  bySeverity: { severity: AlertSeverity; count: number }[];
+  // Most frequent first
+  bySignal: AlertSignalStats[];
+  // 24 buckets, hour of day in `timeZone`
+  byHour: { hour: number; count: number }[];
+}
+
+export const ALERT_PAGE_SIZE = 50;
+
+// Alerts often share a start time, so the cursor also carries the id of the last alert loaded
+export interface AlertPage extends PaginatedResponse<Alert> {
+  nextCursorId: string | null;
+}
+
+export interface AlertCursor {
+  cursor: string;
+  cursorId: string;
+}
+
+export const nextAlertCursor = (page: AlertPage): AlertCursor | null =>
+  page.hasMore && page.nextCursor && page.nextCursorId ? { cursor: page.nextCursor, cursorId: page.nextCursorId } : null;
+
+// Newest first; pass nextAlertCursor of the previous page to continue
+export const getAlertsPage = async (
+  filter: AlertFilter,
+  params?: { after?: AlertCursor | null; limit?: number }
+): Promise<AlertPage> => {
+  return callApi(async () => {
+    const res = await apiAsset.get("/alerts/page", {
+      params: {
+        ...filter,
+        limit: params?.limit ?? ALERT_PAGE_SIZE,
+        cursor: params?.after?.cursor,
+        cursorId: params?.after?.cursorId,
+      },
+    });
+    return res.data as AlertPage;
+  }, "Failed to fetch alerts");
+};
+
+export const getAlertAnalytics = async (filter: AlertFilter, timeZone: string): Promise<AlertAnalytics> => {
+  return callApi(async () => {
+    const res = await apiAsset.get("/alerts/analytics", { params: { ...filter, timeZone } });
+    return res.data as AlertAnalytics;
+  }, "Failed to fetch alert analytics");
+};
+
+// Every page of the window, for exports
+export const getAllAlerts = async (filter: AlertFilter): Promise<Alert[]> => {
+  const alerts: Alert[] = [];
+  let after: AlertCursor | null = null;
+  for (;;) {
+    const page: AlertPage = await getAlertsPage(filter, { after, limit: 200 });
+    alerts.push(...page.data);
+    after = nextAlertCursor(page);
+    if (!after) return alerts;
+  }
+};
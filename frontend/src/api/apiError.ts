@@ -0,0 +1,183 @@
+import axios from "axios";
+
+/* --------------------------------------------------------
+    ERROR ENVELOPE
+    Every API module throws this instead of raw axios errors
+    or `err.response.data`, so pages can rely on `err.message`.
+-------------------------------------------------------- */
+export type FieldErrors = Record<string, string[]>;
+
+export class ApiError extends Error {
+  status: number | null;
+  code: string;
+  fieldErrors: FieldErrors;
+  correlationId: string | null;
+  data: unknown;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number | null;
+      code?: string;
+      fieldErrors?: FieldErrors;
+      correlationId?: string | null;
+      data?: unknown;
+    } = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = options.status ?? null;
+    this.code = options.code ?? "UNKNOWN";
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.correlationId = options.correlationId ?? null;
+    this.data = options.data ?? null;
+  }
+
+  get hasFieldErrors() {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  // Messages for one field path, e.g. "device.name" or "devices[2].name"
+  fieldMessages(field: string): string[] {
+    return this.fieldErrors[normalizeField(field)] ?? [];
+  }
+}
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ApiError };
+
+/* --------------------------------------------------------
+    PARSING
+-------------------------------------------------------- */
+
+// ASP.NET model-state keys come back as "Device.Name" or "$.device.name"
+const normalizeField = (key: string) => key.replace(/^\$\.?/, "").toLowerCase();
+
+const asRecord = (data: unknown): Record<string, unknown> | null =>
+  data && typeof data === "object" && !Array.isArray(data)
+    ? (data as Record<string, unknown>)
+    : null;
+
+const firstString = (...values: unknown[]): string | null => {
+  for (const v of values) {
+    if (typeof v === "string" && v.trim()) return v;
+  }
+  return null;
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && !!v.trim()) : [];
+
+// ProblemDetails: { errors: { "Device.Name": ["..."] } }
+const extractFieldErrors = (body: Record<string, unknown> | null): FieldErrors => {
+  const errors = asRecord(body?.errors ?? body?.Errors);
+  if (!errors) return {};
+
+  const out: FieldErrors = {};
+  for (const [key, value] of Object.entries(errors)) {
+    const messages = typeof value === "string" ? [value] : stringList(value);
+    if (messages.length) out[normalizeField(key)] = messages;
+  }
+  return out;
+};
+
+// Backends answer errors as plain strings, { error }, { message } / { Message },
+// ApiResponse { success, error }, ProblemDetails { title } or { errors: string[] }
+const extractMessage = (data: unknown, fieldErrors: FieldErrors): string | null => {
+  if (typeof data === "string") return data.trim() || null;
+
+  const body = asRecord(data);
+  if (!body) return null;
+
+  const direct = firstString(body.error, body.message, body.Message, body.detail);
+  if (direct) return direct;
+
+  const listed = stringList(body.errors ?? body.Errors);
+  if (listed.length) return listed.join("; ");
+
+  const firstField = Object.values(fieldErrors)[0]?.[0];
+  return firstString(firstField, body.title);
+};
+
+const extractCode = (body: Record<string, unknown> | null, status: number | null): string => {
+  const explicit = firstString(body?.code, body?.errorCode);
+  if (explicit) return explicit;
+  if (status === null) return "NETWORK_ERROR";
+  if (status === 400 || status === 422) return "VALIDATION_ERROR";
+  if (status === 401) return "UNAUTHORIZED";
+  if (status === 403) return "FORBIDDEN";
+  if (status === 404) return "NOT_FOUND";
+  if (status === 408) return "TIMEOUT";
+  if (status === 409) return "CONFLICT";
+  if (status >= 500) return "SERVER_ERROR";
+  return `HTTP_${status}`;
+};
+
+const extractCorrelationId = (
+  headers: Record<string, unknown> | undefined,
+  body: Record<string, unknown> | null
+): string | null =>
+  firstString(
+    headers?.["x-correlation-id"],
+    headers?.["x-request-id"],
+    body?.correlationId,
+    body?.traceId
+  );
+
+export const toApiError = (err: unknown, defaultMsg: string): ApiError => {
+  if (err instanceof ApiError) return err;
+
+  if (axios.isAxiosError(err)) {
+    if (axios.isCancel(err)) {
+      return new ApiError("Request was cancelled", { code: "CANCELLED" });
+    }
+
+    const status = err.response?.status ?? null;
+    const data = err.response?.data ?? null;
+    const body = asRecord(data);
+    const fieldErrors = extractFieldErrors(body);
+
+    return new ApiError(extractMessage(data, fieldErrors) ?? defaultMsg, {
+      status,
+      code: extractCode(body, status),
+      fieldErrors,
+      correlationId: extractCorrelationId(
+        err.response?.headers as Record<string, unknown> | undefined,
+        body
+      ),
+      data,
+    });
+  }
+
+  if (err instanceof Error && err.message) {
+    return new ApiError(err.message);
+  }
+
+  return new ApiError(defaultMsg);
+};
+
+/* --------------------------------------------------------
+    RESULT HELPERS
+-------------------------------------------------------- */
+
+// Runs one API call and rethrows any failure as an ApiError
+export const callApi = async <T>(call: () => Promise<T>, defaultMsg: string): Promise<T> => {
+  try {
+    return await call();
+  } catch (err) {
+    throw toApiError(err, defaultMsg);
+  }
+};
+
+// Same as callApi, but resolves to a result instead of throwing
+export const toResult = async <T>(
+  call: () => Promise<T>,
+  defaultMsg: string
+): Promise<ApiResult<T>> => {
+  try {
+    return { ok: true, data: await call() };
+  } catch (err) {
+    return { ok: false, error: toApiError(err, defaultMsg) };
+  }
+};
@@ -1,4 +1,6 @@
 import apiAsset from "./axiosAsset";
+import { callApi } from "./apiError";
+import { cachedQuery, invalidateQueries, queryKey, QueryScope } from "./queryCache";
 
 /* --------------------------------------------------------
     TYPES
@@ -31,11 +33,10 @@ export interface UpdateAssetConfigPayload {
   signalType: string;
 }
 
+// Signal type ids to configure on the asset
 export interface AssetConfigPayload {
   assetId: string;
-  signalName: string;
-  signalAddress: string;
-  signalType: string;
+  signals: string[];
 }
 
 export interface SignalType {
@@ -43,6 +44,9 @@ export interface SignalType {
   signalName: string;
   signalUnit: string;
   defaultRegisterAdress: number;
+  // Defaults for every mapping of this signal type
+  minThreshold: number;
+  maxThreshold: number;
   assetConfigurations: any[];
 }
 
@@ -58,6 +62,16 @@ export interface IMapping {
   registerAdress: number;
   registerId: string;
   createdAt: string;
+  // Per-mapping overrides; null falls back to the signal type's thresholds
+  minThreshold?: number | null;
+  maxThreshold?: number | null;
+  thresholdsEnabled?: boolean;
+}
+
+export interface UpdateThresholdsPayload {
+  minThreshold: number | null;
+  maxThreshold: number | null;
+  enabled: boolean;
 }
 
 // ------------------ Notifications ------------------
@@ -92,140 +106,153 @@ export interface PaginatedResponse<T> {
 
 
 
-/* --------------------------------------------------------
-    HELPER FOR API ERRORS
--------------------------------------------------------- */
-const handleApiError = (err: any, defaultMsg: string) => {
-  return err?.response?.data || err?.message || defaultMsg;
-};
-
 /* --------------------------------------------------------
     ASSET HIERARCHY APIS
 -------------------------------------------------------- */
+// Cached and shared between pages — treat the returned tree as read-only
 export const getAssetHierarchy = async (): Promise<Asset[]> => {
-  try {
-    const res = await apiAsset.get("/AssetHierarchy/GetAssetHierarchy");
-    return res.data as Asset[];
-  } catch (err) {
-    throw handleApiError(err, "Failed to fetch asset hierarchy");
-  }
+  return cachedQuery(queryKey(QueryScope.Assets, "hierarchy"), () =>
+    callApi(async () => {
+      const res = await apiAsset.get("/AssetHierarchy/GetAssetHierarchy");
+      return res.data as Asset[];
+    }, "Failed to fetch asset hierarchy")
+  );
 };
 
 export const insertAsset = async (payload: InsertAssetRequest) => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.post("/AssetHierarchy/InsertAsset", payload);
+    invalidateQueries(QueryScope.Assets);
     return res.data;
-  } catch (err) {
-    throw handleApiError(err, "Failed to insert asset");
-  }
+  }, "Failed to insert asset");
 };
 
 export const getAssetsByParentId = async (parentId: string): Promise<Asset[]> => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.get(`/AssetHierarchy/GetByParentId/${parentId}`);
     return res.data as Asset[];
-  } catch (err) {
-    throw handleApiError(err, `Failed to fetch children for parent ${parentId}`);
-  }
+  }, `Failed to fetch children for parent ${parentId}`);
 };
 
 export const deleteAsset = async (assetId: string) => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.delete(`/AssetHierarchy/DeleteAsset/${assetId}`);
+    invalidateQueries(QueryScope.Assets, QueryScope.Mappings);
     return res.data;
-  } catch (err) {
-    throw handleApiError(err, `Failed to delete asset ${assetId}`);
-  }
+  }, `Failed to delete asset ${assetId}`);
 };
 
 export const updateAsset = async (payload: UpdateAssetRequest) => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.put("/AssetHierarchy/UpdateAsset", payload);
+    invalidateQueries(QueryScope.Assets);
     return res.data;
-  } catch (err) {
-    throw handleApiError(err, "Failed to update asset");
-  }
+  }, "Failed to update asset");
 };
 
 export const getDeletedAssets = async (): Promise<Asset[]> => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.get("/AssetHierarchy/Deleted");
     return res.data as Asset[];
-  } catch (err) {
-    throw handleApiError(err, "Failed to fetch deleted assets");
-  }
+  }, "Failed to fetch deleted assets");
 };
 
 export const restoreAssetById = async (assetId: string) => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.post(`/AssetHierarchy/Restore/${assetId}`);
+    invalidateQueries(QueryScope.Assets, QueryScope.Mappings);
     return res.data;
-  } catch (err) {
-    throw handleApiError(err, `Failed to restore asset ${assetId}`);
-  }
+  }, `Failed to restore asset ${assetId}`);
 };
 
 /* --------------------------------------------------------
     ASSET CONFIG APIS
 -------------------------------------------------------- */
 export const addAssetConfig = async (payload: AssetConfigPayload) => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.post("/AssetConfig", payload);
+    invalidateQueries(QueryScope.Assets, QueryScope.Mappings);
     return res.data;
-  } catch (err) {
-    throw handleApiError(err, "Failed to add asset config");
-  }
+  }, "Failed to add asset config");
 };
 
 export const getAssetConfig = async (assetId: string) => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.get(`/AssetConfig/${assetId}`);
     return res.data;
-  } catch (err) {
-    throw handleApiError(err, `Failed to fetch asset config for ${assetId}`);
-  }
+  }, `Failed to fetch asset config for ${assetId}`);
 };
 
 export const updateAssetConfig = async (
   assetId: string,
   payload: UpdateAssetConfigPayload
 ) => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.put(`/AssetConfig/${assetId}`, payload);
+    invalidateQueries(QueryScope.Assets, QueryScope.Mappings);
     return res.data;
-  } catch (err) {
-    throw handleApiError(err, `Failed to update asset config for ${assetId}`);
-  }
+  }, `Failed to update asset config for ${assetId}`);
+};
+
+export const deleteAssetConfig = async (assetConfigId: string) => {
+  return callApi(async () => {
+    const res = await apiAsset.delete(`/AssetConfig/${assetConfigId}`);
+    invalidateQueries(QueryScope.Assets, QueryScope.Mappings);
+    return res.data;
+  }, `Failed to delete asset config ${assetConfigId}`);
 };
 
 export const getSignalTypes = async (): Promise<SignalType[]> => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.get("/AssetConfig/SiganlTypes"); // fixed typo
     return res.data as SignalType[];
-  } catch (err) {
-    throw handleApiError(err, "Failed to fetch signal types");
-  }
+  }, "Failed to fetch signal types");
+};
+
+// Signal types rarely change; cached for threshold lookups in the live views
+export const getCachedSignalTypes = async (): Promise<SignalType[]> => {
+  return cachedQuery(queryKey(QueryScope.Assets, "signal-types"), getSignalTypes);
 };
 
 /* --------------------------------------------------------
     MAPPING / SIGNAL APIS
 -------------------------------------------------------- */
+// getSignalOnAsset and getMappingById hit the same endpoint, so they share a cache entry
 export const getSignalOnAsset = async (assetId: string): Promise<IMapping[]> => {
-  try {
-    const res = await apiAsset.get(`/Mapping/${assetId}`);
-    return res.data as IMapping[];
-  } catch (err) {
-    throw handleApiError(err, "Failed to fetch signals for asset");
-  }
+  return cachedQuery(queryKey(QueryScope.Mappings, assetId), () =>
+    callApi(async () => {
+      const res = await apiAsset.get(`/Mapping/${assetId}`);
+      return res.data as IMapping[];
+    }, "Failed to fetch signals for asset")
+  );
 };
 
 export const getMappingById = async (id: string): Promise<IMapping[]> => {
-  try {
-    const res = await apiAsset.get(`/Mapping/${id}`);
-    return res.data as IMapping[];
-  } catch (err) {
-    throw handleApiError(err, "Failed to fetch mapping by ID");
-  }
+  return cachedQuery(queryKey(QueryScope.Mappings, id), () =>
+    callApi(async () => {
+      const res = await apiAsset.get(`/Mapping/${id}`);
+      return res.data as IMapping[];
+    }, "Failed to fetch mapping by ID")
+  );
+};
+
+// Every mapping across assets; the live Signals view looks them up by device register
+export const getAllMappings = async (): Promise<IMapping[]> => {
+  return cachedQuery(queryKey(QueryScope.Mappings, "all"), () =>
+    callApi(async () => {
+      const res = await apiAsset.get("/Mapping");
+      return res.data as IMapping[];
+    }, "Failed to fetch mappings")
+  );
+};
+
+// PUT /api/mapping/{mappingId}/thresholds
+export const updateMappingThresholds = async (mappingId: string, payload: UpdateThresholdsPayload) => {
+  return callApi(async () => {
+    const res = await apiAsset.put(`/Mapping/${mappingId}/thresholds`, payload);
+    invalidateQueries(QueryScope.Mappings);
+    return res.data as IMapping;
+  }, "Failed to update thresholds");
 };
 
 /* --------------------------------------------------------
@@ -237,7 +264,7 @@ export const getAllNotifications = async (params?: {
   limit?: number;
   cursor?: string | null;
 }): Promise<PaginatedResponse<GlobalNotification>> => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.get("/Notifications/all", {
       params: {
         limit: params?.limit ?? 10,
@@ -246,9 +273,7 @@ export const getAllNotifications = async (params?: {
     });
 
     return res.data as PaginatedResponse<GlobalNotification>;
-  } catch (err) {
-    throw handleApiError(err, "Failed to fetch notifications");
-  }
+  }, "Failed to fetch notifications");
 };
 
 // -------- User Notifications --------
@@ -257,7 +282,7 @@ export const getMyNotifications = async (params: {
   limit?: number;
   cursor?: string | null;
 }): Promise<PaginatedResponse<UserNotification>> => {
-  try {
+  return callApi(async () => {
     const res = await apiAsset.get("/Notifications/my", {
       params: {
         unread: params.unread,
@@ -267,51 +292,35 @@ export const getMyNotifications = async (params: {
     });
 
     return res.data as PaginatedResponse<UserNotification>;
-  } catch (err) {
-    throw handleApiError(err, "Failed to fetch my notifications");
-  }
+  }, "Failed to fetch my notifications");
 };
 
 // -------- Actions --------
 export const markNotificationAsRead = async (id: string) => {
-  try {
+  return callApi(async () => {
     await apiAsset.post(`/Notifications/read/${id}`);
-  } catch (err) {
-    throw handleApiError(
-      err,
-      `Failed to mark notification ${id} as read`
-    );
-  }
+  }, `Failed to mark notification ${id} as read`);
 };
 
 export const markAllNotificationsAsRead = async () => {
-  try {
+  return callApi(async () => {
     await apiAsset.post("/Notifications/readall");
-  } catch (err) {
-    throw handleApiError(err, "Failed to mark all notifications as read");
-  }
+  }, "Failed to mark all notifications as read");
 };
 
 export const acknowledgeNotification = async (id: string) => {
-  try {
+  return callApi(async () => {
     await apiAsset.post(`/Notifications/ack/${id}`);
-  } catch (err) {
-    throw handleApiError(
-      err,
-      `Failed to acknowledge notification ${id}`
-    );
-  }
+  }, `Failed to acknowledge notification ${id}`);
 };
 
 
 // Report 
 export const getRequestedReports = async () => {
-  try {
+  return callApi(async () => {
     const response = await apiAsset.get("/Reports");
     return response.data;
-  } catch (err) {
-    throw handleApiError(err, "Failed to fetch report history");
-  }
+  }, "Failed to fetch report history");
 };
 
 
@@ -322,16 +331,14 @@ export const requestAssetReport = async (payload: {
   endDate: string;
   reportFormat: string;
 }) => {
-  try {
+  return callApi(async () => {
     await apiAsset.post("/Reports/ReportRequest", payload);
-  } catch (err) {
-    throw handleApiError(err, "Failed to request report");
-  }
+  }, "Failed to request report");
 };
 
 
 export const downloadAssetReport = async (reportId: string) => {
-  try {
+  return callApi(async () => {
     const response = await apiAsset.get(
       `/Reports/download/${reportId}`,
       {
@@ -340,9 +347,7 @@ export const downloadAssetReport = async (reportId: string) => {
     );
 
     return response.data;
-  } catch (err) {
-    throw handleApiError(err, "Failed to download report");
-  }
+  }, "Failed to download report");
 };
 
 
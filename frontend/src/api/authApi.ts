@@ -1,45 +1,8 @@
-import axios from "axios";
+import { createApiClient } from "./client";
 
-const api = axios.create({
-  baseURL: `${import.meta.env.VITE_API_URL}/api/auth`,
-  withCredentials: true,
+// A 401 from these means "not signed in", not "token expired"
+const api = createApiClient("auth", {
+  skipRefreshFor: ["/User/me", "/User/login", "/User/logout", "/User/refresh-token"],
 });
 
-api.interceptors.response.use(
-  (response) => response,
-  async (error) => {
-  const originalRequest = error.config;
-  const url = originalRequest.url || "";
-  const skipRefresh =
-      url.includes("/User/me") ||
-      url.includes("/User/login") ||
-      url.includes("/User/logout") ;
- 
-    if (error.response?.status === 401 && !originalRequest._retry && !skipRefresh) {
-      originalRequest._retry = true;
-
-      try {
-        const response = await axios.post(
-        `${import.meta.env.VITE_API_URL}/api/auth/User/refresh-token`,
-          {},
-          { withCredentials: true }
-          );
-
-        return api(originalRequest);
-      } catch (err) {
-        console.log("Refresh token failed, redirecting to login");
-        // localStorage.removeItem("user");
-        try {
-          await api.post("/User/Logout");
-        } catch {}
-        window.location.href = "/";
-      
-        return Promise.reject(err);
-      }
-    }
-
-    return Promise.reject(error);
-  }
-);
-
-export default api;
\ No newline at end of file
+export default api;
@@ -0,0 +1,74 @@
+/* --------------------------------------------------------
+    BATCH LOADER
+    Collects keys requested during the same tick and resolves
+    them with one `loadMany` call instead of one request each.
+
+    - duplicate keys within a batch share one slot
+    - keys missing from the response resolve to null
+    - a failed batch rejects every caller waiting on it
+-------------------------------------------------------- */
+
+interface Waiter<V> {
+  resolve: (value: V | null) => void;
+  reject: (err: unknown) => void;
+}
+
+interface BatchLoaderOptions {
+  // Upper bound per request; larger batches are split into chunks
+  maxBatchSize?: number;
+}
+
+export interface BatchLoader<V> {
+  load: (key: string) => Promise<V | null>;
+}
+
+export const createBatchLoader = <V>(
+  loadMany: (keys: string[]) => Promise<Map<string, V>>,
+  options: BatchLoaderOptions = {}
+): BatchLoader<V> => {
+  const maxBatchSize = options.maxBatchSize ?? 100;
+
+  let queue = new Map<string, Waiter<V>[]>();
+  let scheduled = false;
+
+  const dispatch = async (keys: string[], waiters: Map<string, Waiter<V>[]>) => {
+    try {
+      const found = await loadMany(keys);
+      for (const key of keys) {
+        const value = found.get(key) ?? null;
+        waiters.get(key)?.forEach((w) => w.resolve(value));
+      }
+    } catch (err) {
+      for (const key of keys) {
+        waiters.get(key)?.forEach((w) => w.reject(err));
+      }
+    }
+  };
+
+  const flush = () => {
+    const batch = queue;
+    queue = new Map();
+    scheduled = false;
+
+    const keys = [...batch.keys()];
+    for (let i = 0; i < keys.length; i += maxBatchSize) {
+      dispatch(keys.slice(i, i + maxBatchSize), batch);
+    }
+  };
+
+  const load = (key: string) =>
+    new Promise<V | null>((resolve, reject) => {
+      const waiters = queue.get(key) ?? [];
+      waiters.push({ resolve, reject });
+      queue.set(key, waiters);
+
+      // setTimeout rather than a microtask so separate effects firing in the
+      // same render still land in one request
+      if (!scheduled) {
+        scheduled = true;
+        setTimeout(flush, 0);
+      }
+    });
+
+  return { load };
+};
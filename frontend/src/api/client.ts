@@ -0,0 +1,114 @@
+import axios, {
+  type AxiosAdapter,
+  type AxiosError,
+  type AxiosInstance,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { MOCK_MODE } from "@/mock/mockMode";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+type RetriableRequest = InternalAxiosRequestConfig & { _retry?: boolean };
+
+interface ApiClientOptions {
+  // Request urls (case-insensitive substring match) whose 401 must not trigger a refresh
+  skipRefreshFor?: string[];
+}
+
+// 🧪 Mock mode: answer every request from the in-memory fixtures (loaded on first use)
+const mockAdapter = (service: string): AxiosAdapter | undefined =>
+  MOCK_MODE
+    ? (config) => import("@/mock").then((m) => m.mockAdapterFor(service)(config))
+    : undefined;
+
+/* --------------------------------------------------------
+    SHARED SESSION HANDLING
+-------------------------------------------------------- */
+
+// No interceptors, so a failing refresh or logout can never re-enter the 401 handler
+const sessionClient = axios.create({
+  baseURL: `${API_URL}/api/auth`,
+  withCredentials: true,
+  adapter: mockAdapter("auth"),
+});
+
+// 🔁 Single-flight refresh: parallel 401s all wait on the same request
+let refreshPromise: Promise<void> | null = null;
+let loggingOut = false;
+
+const refreshSession = (): Promise<void> => {
+  if (!refreshPromise) {
+    refreshPromise = sessionClient
+      .post("/User/refresh-token", {})
+      .then(() => undefined)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+const endSession = async () => {
+  if (loggingOut) return;
+  loggingOut = true;
+
+  try {
+    await sessionClient.post("/User/Logout", {});
+  } catch {
+    // Session is already gone server-side; nothing left to clean up
+  }
+
+  if (window.location.pathname !== "/") {
+    window.location.href = "/";
+  } else {
+    loggingOut = false;
+  }
+};
+
+/* --------------------------------------------------------
+    CLIENT FACTORY
+-------------------------------------------------------- */
+export const createApiClient = (
+  service: string,
+  options: ApiClientOptions = {}
+): AxiosInstance => {
+  const client = axios.create({
+    baseURL: `${API_URL}/api/${service}`,
+    withCredentials: true,
+    adapter: mockAdapter(service),
+  });
+
+  const skipRefreshFor = (options.skipRefreshFor ?? []).map((u) => u.toLowerCase());
+
+  client.interceptors.response.use(
+    (response) => response,
+    async (error: AxiosError) => {
+      const originalRequest = error.config as RetriableRequest | undefined;
+      const url = (originalRequest?.url ?? "").toLowerCase();
+      const skipRefresh = skipRefreshFor.some((u) => url.includes(u));
+
+      if (
+        error.response?.status !== 401 ||
+        !originalRequest ||
+        originalRequest._retry ||
+        skipRefresh
+      ) {
+        return Promise.reject(error);
+      }
+
+      originalRequest._retry = true;
+
+      try {
+        await refreshSession();
+      } catch (refreshErr) {
+        console.error("Refresh token failed. Redirecting...");
+        await endSession();
+        return Promise.reject(refreshErr);
+      }
+
+      return client(originalRequest);
+    }
+  );
+
+  return client;
+};
@@ -1,4 +1,7 @@
 import api from "./axios";
+import { ApiError, callApi, toResult } from "./apiError";
+import { cachedQuery, invalidateQueries, queryKey, QueryScope } from "./queryCache";
+import { createBatchLoader } from "./batchLoader";
 
 /* ============================
    INTERFACES
@@ -28,6 +31,18 @@ export interface CreateDevicePayload {
   configuration?: DeviceConfiguration;
 }
 
+export interface BulkCreateDevicesResult {
+  createdDeviceIds: string[];
+  errors: string[];
+}
+
+// Device entity as returned by the device-service lookups
+export interface DeviceRecord {
+  deviceId: string;
+  name: string;
+  description?: string | null;
+}
+
 export interface Device {
   id: string;
   name: string;
@@ -47,22 +62,84 @@ export const getDevices = async (
   pageSize = 10,
   searchTerm = ""
 ) => {
-  const response = await api.get("/devices", {
-    params: { pageNumber, pageSize, searchTerm },
-  });
-  return response.data.data;
+  return callApi(async () => {
+    const response = await api.get("/devices", {
+      params: { pageNumber, pageSize, searchTerm },
+    });
+    return response.data.data;
+  }, "Failed to fetch devices");
 };
 
 // POST /api/devices
 export const createDevice = async (payload: CreateDevicePayload) => {
-  const response = await api.post("/devices", payload);
-  return response.data.data;
+  return callApi(async () => {
+    const response = await api.post("/devices", payload);
+    invalidateQueries(QueryScope.Devices);
+    return response.data.data;
+  }, "Failed to create device");
+};
+
+// POST /api/devices/bulk
+export const bulkCreateDevices = async (
+  devices: { name: string; description?: string | null }[]
+): Promise<BulkCreateDevicesResult> => {
+  return callApi(async () => {
+    const response = await api.post("/devices/bulk", { devices });
+    invalidateQueries(QueryScope.Devices);
+    return response.data;
+  }, "Device bulk upload failed");
 };
 
 // GET /api/devices/{id}
 export const getDeviceById = async (id: string) => {
-  const response = await api.get(`/devices/${id}`);
-  return response.data.data;
+  return cachedQuery(queryKey(QueryScope.Devices, id), () =>
+    callApi(async () => {
+      const response = await api.get(`/devices/${id}`);
+      return response.data.data;
+    }, `Failed to fetch device ${id}`)
+  );
+};
+
+// POST /api/devices/by-ids (server caps one request at 200 ids)
+const deviceLoader = createBatchLoader<DeviceRecord>(
+  (ids) =>
+    callApi(async () => {
+      const response = await api.post("/devices/by-ids", { deviceIds: ids });
+      const devices: DeviceRecord[] = response.data.data ?? [];
+      const byId = new Map(devices.map((d) => [String(d.deviceId).toLowerCase(), d]));
+      const found = new Map<string, DeviceRecord>();
+      for (const id of ids) {
+        const device = byId.get(id.toLowerCase());
+        if (device) found.set(id, device);
+      }
+      return found;
+    }, "Failed to fetch devices"),
+  { maxBatchSize: 200 }
+);
+
+// Resolves many devices at once; ids requested in the same tick (even from
+// different components) share one request. Unknown ids are left out of the map.
+export const getDevicesByIds = async (ids: string[]) => {
+  const uniqueIds = Array.from(new Set(ids.filter(Boolean)));
+  const devices = await Promise.all(
+    uniqueIds.map((id) =>
+      // A miss is thrown rather than cached, so getDeviceById still reports the 404
+      cachedQuery(queryKey(QueryScope.Devices, id), async () => {
+        const device = await deviceLoader.load(id);
+        if (!device) throw new ApiError(`Device ${id} not found`, { status: 404, code: "NOT_FOUND" });
+        return device;
+      }).catch((err) => {
+        if (err instanceof ApiError && err.code === "NOT_FOUND") return null;
+        throw err;
+      })
+    )
+  );
+
+  const result = new Map<string, DeviceRecord>();
+  uniqueIds.forEach((id, i) => {
+    if (devices[i]) result.set(id, devices[i]);
+  });
+  return result;
 };
 
 // PUT /api/devices/{id}
@@ -78,8 +155,11 @@ export const updateDevice = async (
 
   console.log("Update Device Payload:", payload);
 
-  const response = await api.put(`/devices/${id}`, payload.device);
-  return response.data.data;
+  return callApi(async () => {
+    const response = await api.put(`/devices/${id}`, payload.device);
+    invalidateQueries(queryKey(QueryScope.Devices, id));
+    return response.data.data;
+  }, "Failed to update device");
 };
 
 
@@ -88,54 +168,55 @@ export const addDeviceConfiguration = async (
   deviceId: string,
   configuration: DeviceConfiguration
 ) => {
-  const response = await api.post(`/devices/${deviceId}/configuration`, configuration);
-  // Returns { deviceId: string, configurationId: string }
-  return response.data.data;
+  return callApi(async () => {
+    const response = await api.post(`/devices/${deviceId}/configuration`, configuration);
+    invalidateQueries(queryKey(QueryScope.Devices, deviceId));
+    // Returns { deviceId: string, configurationId: string }
+    return response.data.data;
+  }, "Failed to add device configuration");
 };
 
 // DELETE /api/devices/{id} (soft delete)
 export const deleteDevice = async (id: string) => {
-  const response = await api.delete(`/devices/${id}`);
-  return response.data.data;
+  return callApi(async () => {
+    const response = await api.delete(`/devices/${id}`);
+    invalidateQueries(QueryScope.Devices, QueryScope.Mappings);
+    return response.data.data;
+  }, "Failed to delete device");
 };
 
 // POST /api/devices/{id}/restore
 export const restoreDeviceById = async (id: string) => {
-  const response = await api.post(`/devices/${id}/restore`);
-  return response.data.data;
+  return callApi(async () => {
+    const response = await api.post(`/devices/${id}/restore`);
+    invalidateQueries(QueryScope.Devices, QueryScope.Mappings);
+    return response.data.data;
+  }, "Failed to restore device");
 };
 
 // GET /api/devices/deleted
 export const getDeletedDevices = async () => {
-  const response = await api.get("/devices/deleted");
-  return response.data.data;
+  return callApi(async () => {
+    const response = await api.get("/devices/deleted");
+    return response.data.data;
+  }, "Failed to fetch deleted devices");
 };
 
 // POST /api/devices/match-by-address
+// Resolves to a result so the mapping screen can fall back to "no matches" without a try/catch
 export const matchByRegisterAddress = async (registerAddresses: number[]) => {
-  try {
+  return toResult(async () => {
     const response = await api.post("/devices/match-by-address", {
       RegisterAddresses: registerAddresses
     });
-    
-    console.log('API Response:', response.data);
-    
-    return {
-      success: true,
-      data: response.data.data || []
-    };
-  } catch (error: any) {
-    console.error('Match API Error:', error.response?.data || error);
-    return {
-      success: false,
-      data: [],
-      error: error
-    };
-  }
+    return response.data.data || [];
+  }, "Failed to match devices by register address");
 };
 
 // GET /stats/avg-response-time
 export const getAvgApiResponseTime = async () => {
-  const response = await api.get("/stats/avg-response-time");
-  return response.data.avgResponseTime;
-};
\ No newline at end of file
+  return callApi(async () => {
+    const response = await api.get("/stats/avg-response-time");
+    return response.data.avgResponseTime;
+  }, "Failed to fetch average response time");
+};
@@ -0,0 +1,50 @@
+import * as signalR from "@microsoft/signalr";
+import { MOCK_MODE } from "@/mock/mockMode";
+
+/* --------------------------------------------------------
+    HUB CONNECTIONS
+    Every SignalR hub is built here so mock mode can swap in a
+    simulated connection without the pages knowing.
+-------------------------------------------------------- */
+
+// 🧪 Mock mode: the simulated hub (and the fixtures behind it) is loaded on
+// first use, so none of it ships in a real build. Calls made before it has
+// loaded are forwarded in order once it has.
+const lazyMockHubConnection = (url: string): signalR.HubConnection => {
+  let conn: signalR.HubConnection | null = null;
+  const ready = import("@/mock/mockHub").then((m) => {
+    conn = m.createMockHubConnection(url);
+    return conn;
+  });
+  const later = (fn: (c: signalR.HubConnection) => void) => {
+    ready.then(fn).catch((err) => console.error("Mock hub failed to load", err));
+  };
+
+  const facade: Pick<
+    signalR.HubConnection,
+    "start" | "stop" | "invoke" | "on" | "off" | "onclose" | "onreconnecting" | "onreconnected"
+  > & { readonly state: signalR.HubConnectionState } = {
+    get state() {
+      return conn?.state ?? signalR.HubConnectionState.Disconnected;
+    },
+    start: () => ready.then((c) => c.start()),
+    stop: () => ready.then((c) => c.stop()),
+    invoke: (methodName: string, ...args: unknown[]) => ready.then((c) => c.invoke(methodName, ...args)),
+    on: (methodName: string, handler: (...args: unknown[]) => void) => later((c) => c.on(methodName, handler)),
+    off: (methodName: string, handler?: (...args: unknown[]) => void) =>
+      later((c) => (handler ? c.off(methodName, handler) : c.off(methodName))),
+    onclose: (callback) => later((c) => c.onclose(callback)),
+    onreconnecting: (callback) => later((c) => c.onreconnecting(callback)),
+    onreconnected: (callback) => later((c) => c.onreconnected(callback)),
+  };
+  return facade as unknown as signalR.HubConnection;
+};
+
+export const buildHubConnection = (url: string): signalR.HubConnection => {
+  if (MOCK_MODE) return lazyMockHubConnection(url);
+
+  return new signalR.HubConnectionBuilder()
+    .withUrl(url, { withCredentials: true })
+    .withAutomaticReconnect()
+    .build();
+};
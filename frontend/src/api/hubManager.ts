@@ -0,0 +1,247 @@
+import { HubConnectionState, type HubConnection } from "@microsoft/signalr";
+import { buildHubConnection } from "./hubConnection";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+/* --------------------------------------------------------
+    HUB PAYLOADS (camelCase over the wire)
+-------------------------------------------------------- */
+
+// device-service ModbusHub → "TelemetryUpdate", one batch per device poll
+export interface TelemetryDto {
+  deviceId: string;
+  deviceSlaveId: string;
+  slaveIndex: number;
+  registerAddress: number;
+  signalType: string;
+  value: number;
+  unit: string;
+  timestamp: string;
+  // Read health; a failed read has consecutiveFailures > 0 and repeats the last good value
+  lastGoodReadUtc?: string | null;
+  consecutiveFailures?: number;
+  exceptionCode?: number | null;
+}
+
+// A TelemetryDto as it may arrive when the hub serializes PascalCase; readers try both
+export type TelemetryWireDto = Partial<TelemetryDto> & {
+  [K in keyof TelemetryDto as Capitalize<K>]?: TelemetryDto[K];
+};
+
+// device-service ModbusHub → "DeviceHeartbeat" to every client, every ~5s
+export interface DeviceHeartbeat {
+  deviceId: string;
+  name: string;
+  pollIntervalMs: number;
+  // UTC ISO string; null until the device has returned a good read
+  lastSeenUtc: string | null;
+}
+
+// asset-service NotificationHub → "ReceiveNotification"; `text` is the JSON alert payload
+export interface LiveNotification {
+  id: string;
+  title: string;
+  text: string;
+  createdAt: string;
+  expiresAt: string;
+  priority: number;
+}
+
+export interface HubEventMap {
+  telemetry: { TelemetryUpdate: TelemetryDto[]; DeviceHeartbeat: DeviceHeartbeat[] };
+  notifications: { ReceiveNotification: LiveNotification };
+}
+
+export type HubName = keyof HubEventMap;
+export type HubEvent<H extends HubName> = keyof HubEventMap[H] & string;
+
+export type HubStatus = "idle" | "connecting" | "connected" | "reconnecting" | "disconnected";
+
+export interface HubState {
+  status: HubStatus;
+  error: string | null;
+}
+
+export type HubStates = Record<HubName, HubState>;
+
+const HUB_URLS: Record<HubName, string> = {
+  telemetry: `${API_URL}/api/devices/hubs/modbus`,
+  notifications: `${API_URL}/api/asset/hubs/notifications`,
+};
+
+const HUB_NAMES = Object.keys(HUB_URLS) as HubName[];
+
+/* --------------------------------------------------------
+    HUB MANAGER
+    Owns one connection per hub for the whole session.
+
+    - subscribeToDevice / unsubscribeFromDevice are ref-counted,
+      so several views can watch the same device group
+    - device groups are rejoined after every (re)connect, since
+      the server forgets them with the old connection id
+-------------------------------------------------------- */
+
+export const createHubManager = () => {
+  const connections = new Map<HubName, HubConnection>();
+  const starting = new Map<HubName, Promise<void>>();
+  const deviceRefs = new Map<string, number>();
+  const listeners = new Set<(states: HubStates) => void>();
+  const stopping = new Map<HubName, Promise<void>>();
+
+  let states = Object.fromEntries(
+    HUB_NAMES.map((hub) => [hub, { status: "idle", error: null }])
+  ) as HubStates;
+
+  const setState = (hub: HubName, status: HubStatus, error: string | null = null) => {
+    states = { ...states, [hub]: { status, error } };
+    listeners.forEach((listener) => listener(states));
+  };
+
+  const joinDeviceGroups = async (conn: HubConnection) => {
+    for (const deviceId of deviceRefs.keys()) {
+      try {
+        await conn.invoke("SubscribeToDevice", deviceId);
+      } catch (err) {
+        console.warn("Failed to rejoin device group:", deviceId, err);
+      }
+    }
+  };
+
+  const connectionFor = (hub: HubName): HubConnection => {
+    let conn = connections.get(hub);
+    if (conn) return conn;
+
+    conn = buildHubConnection(HUB_URLS[hub]);
+    const built = conn;
+
+    built.onreconnecting((err) => setState(hub, "reconnecting", err ? String(err.message ?? err) : null));
+    built.onreconnected(async () => {
+      if (hub === "telemetry") await joinDeviceGroups(built);
+      setState(hub, "connected");
+    });
+    built.onclose((err) => {
+      // A deliberate stop is not an outage
+      if (stopping.has(hub)) return;
+      setState(hub, "disconnected", err ? String(err.message ?? err) : "Connection closed");
+    });
+
+    connections.set(hub, built);
+    return built;
+  };
+
+  /* ---- Lifecycle ---- */
+
+  const start = (hub: HubName): Promise<void> => {
+    // Still Disconnecting from a stop: the hub would settle at "idle", so connect once that is done
+    const stopPending = stopping.get(hub);
+    if (stopPending) return stopPending.then(() => start(hub), () => start(hub));
+
+    const conn = connectionFor(hub);
+    const pending = starting.get(hub);
+    if (pending) return pending;
+    if (conn.state !== HubConnectionState.Disconnected) return Promise.resolve();
+
+    setState(hub, "connecting");
+    const promise = conn
+      .start()
+      .then(async () => {
+        if (hub === "telemetry") await joinDeviceGroups(conn);
+        setState(hub, "connected");
+      })
+      .catch((err) => {
+        setState(hub, "disconnected", String(err?.message ?? err));
+        throw err;
+      })
+      .finally(() => starting.delete(hub));
+
+    starting.set(hub, promise);
+    return promise;
+  };
+
+  const stop = (hub: HubName): Promise<void> => {
+    const conn = connections.get(hub);
+    if (!conn) return Promise.resolve();
+    const pending = stopping.get(hub);
+    if (pending) return pending;
+
+    const promise = conn.stop().finally(() => {
+      stopping.delete(hub);
+      setState(hub, "idle");
+    });
+
+    stopping.set(hub, promise);
+    return promise;
+  };
+
+  const startAll = () => Promise.allSettled(HUB_NAMES.map(start));
+  const stopAll = () => Promise.allSettled(HUB_NAMES.map(stop));
+
+  /* ---- Typed events ---- */
+
+  const on = <H extends HubName, E extends HubEvent<H>>(
+    hub: H,
+    event: E,
+    handler: (payload: HubEventMap[H][E]) => void
+  ): (() => void) => {
+    const conn = connectionFor(hub);
+    const wrapped = (payload: HubEventMap[H][E]) => handler(payload);
+    conn.on(event, wrapped);
+    return () => conn.off(event, wrapped);
+  };
+
+  /* ---- Device groups ---- */
+
+  const subscribeToDevice = async (deviceId: string) => {
+    const count = deviceRefs.get(deviceId) ?? 0;
+    deviceRefs.set(deviceId, count + 1);
+    if (count > 0) return;
+
+    // Not connected yet: the group is joined once the connection comes up
+    const conn = connectionFor("telemetry");
+    if (conn.state === HubConnectionState.Connected) {
+      await conn.invoke("SubscribeToDevice", deviceId);
+    }
+  };
+
+  const unsubscribeFromDevice = async (deviceId: string) => {
+    const count = deviceRefs.get(deviceId) ?? 0;
+    if (count > 1) {
+      deviceRefs.set(deviceId, count - 1);
+      return;
+    }
+    deviceRefs.delete(deviceId);
+    if (count === 0) return;
+
+    const conn = connectionFor("telemetry");
+    if (conn.state === HubConnectionState.Connected) {
+      await conn.invoke("UnsubscribeFromDevice", deviceId);
+    }
+  };
+
+  /* ---- State ---- */
+
+  const getStates = () => states;
+
+  const onStateChange = (listener: (states: HubStates) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    start,
+    stop,
+    startAll,
+    stopAll,
+    on,
+    subscribeToDevice,
+    unsubscribeFromDevice,
+    getStates,
+    onStateChange,
+  };
+};
+
+export type HubManager = ReturnType<typeof createHubManager>;
+
+export const hubManager = createHubManager();
@@ -0,0 +1,95 @@
+/* --------------------------------------------------------
+    QUERY CACHE
+    Keyed, in-memory cache for read endpoints that many pages
+    share (asset hierarchy, devices, mappings).
+
+    - fresh entries are served without a request
+    - stale entries are served immediately and refetched in the
+      background (stale-while-revalidate)
+    - concurrent callers for the same key share one request
+    - mutations call invalidateQueries(prefix) so the next read
+      goes to the server
+-------------------------------------------------------- */
+
+interface CacheEntry<T> {
+  data?: T;
+  updatedAt: number;
+  promise?: Promise<T>;
+}
+
+interface QueryOptions {
+  // How long (ms) a cached value is served without revalidating
+  staleTime?: number;
+}
+
+// Query keys are "<scope>:<id>", e.g. "devices:42"; scopes are what mutations invalidate
+export const QueryScope = {
+  Assets: "assets",
+  Devices: "devices",
+  Mappings: "mappings",
+} as const;
+
+const DEFAULT_STALE_TIME = 30_000;
+
+const cache = new Map<string, CacheEntry<unknown>>();
+
+const fetchInto = <T>(key: string, entry: CacheEntry<T>, fetcher: () => Promise<T>): Promise<T> => {
+  if (entry.promise) return entry.promise;
+
+  const promise = fetcher()
+    .then((data) => {
+      // Entry may have been invalidated while the request was in flight
+      if (cache.get(key) === entry) {
+        entry.data = data;
+        entry.updatedAt = Date.now();
+      }
+      return data;
+    })
+    .finally(() => {
+      entry.promise = undefined;
+    });
+
+  entry.promise = promise;
+  return promise;
+};
+
+export const cachedQuery = <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: QueryOptions = {}
+): Promise<T> => {
+  const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+
+  let entry = cache.get(key) as CacheEntry<T> | undefined;
+  if (!entry) {
+    entry = { updatedAt: 0 };
+    cache.set(key, entry);
+  }
+
+  if (entry.data === undefined) {
+    return fetchInto(key, entry, fetcher);
+  }
+
+  if (Date.now() - entry.updatedAt > staleTime) {
+    // Serve stale data now; a failed background refresh keeps the old value
+    fetchInto(key, entry, fetcher).catch((err) =>
+      console.warn(`Background refresh failed for ${key}`, err)
+    );
+  }
+
+  return Promise.resolve(entry.data);
+};
+
+export const queryKey = (scope: string, ...parts: (string | number)[]) =>
+  [scope, ...parts].join(":");
+
+// Drops every entry whose key equals `scope` or starts with "<scope>:"
+export const invalidateQueries = (...scopes: string[]) => {
+  for (const key of [...cache.keys()]) {
+    if (scopes.some((scope) => key === scope || key.startsWith(`${scope}:`))) {
+      cache.delete(key);
+    }
+  }
+};
+
+export const clearQueryCache = () => cache.clear();
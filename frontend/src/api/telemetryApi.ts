@@ -1,7 +1,6 @@
 // src/api/telemetryApi.ts
-import axios from "axios";
-
-const API_BASE_URL = `${import.meta.env.VITE_API_URL}/api/asset`
+import apiAsset from "./axiosAsset";
+import { callApi } from "./apiError";
 
 export interface TelemetryPoint {
   time: string;
@@ -62,54 +61,24 @@ export interface RawTelemetryRequest {
 export const getTelemetryData = async (
   request: TelemetryRequest
 ): Promise<TelemetryResponse> => {
-  try {
-    console.log("🔍 Request payload:", request); // Debug log
-    
-    const response = await axios.post<TelemetryResponse>(
-      `${API_BASE_URL}/TelemetryTest/query`,
-      request,
-      {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-    
-    console.log("✅ Response:", response.data); 
+  console.log("🔍 Request payload:", request); // Debug log
+
+  return callApi(async () => {
+    const response = await apiAsset.post<TelemetryResponse>("/TelemetryTest/query", request);
     return response.data;
-  } catch (error: any) {
-    console.error("❌ Full error:", error); 
-    console.error("❌ Error response:", error.response); 
-    throw new Error(error.response?.data?.error || "Failed to fetch telemetry data");
-  }
+  }, "Failed to fetch telemetry data");
 };
 
 // 🔥 Fetch RAW telemetry data (used for zoom)
 export const getRawTelemetryData = async (
   request: RawTelemetryRequest
 ): Promise<TelemetryResponse> => {
-  try {
-    console.log("🔍 RAW Request payload:", request);
-
-    const response = await axios.post<TelemetryResponse>(
-      `${API_BASE_URL}/TelemetryTest/queryraw`,
-      request,
-      {
-        headers: {
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    console.log("✅ RAW Response:", response.data);
+  console.log("🔍 RAW Request payload:", request);
+
+  return callApi(async () => {
+    const response = await apiAsset.post<TelemetryResponse>("/TelemetryTest/queryraw", request);
     return response.data;
-  } catch (error: any) {
-    console.error("❌ RAW telemetry error:", error);
-    console.error("❌ RAW error response:", error.response);
-    throw new Error(
-      error.response?.data?.error || "Failed to fetch raw telemetry data"
-    );
-  }
+  }, "Failed to fetch raw telemetry data");
 };
 
 
@@ -117,48 +86,36 @@ export const getLastHourData = async (
   assetId: string,
   signalTypeId: string
 ): Promise<TelemetryResponse> => {
-  try {
-    const response = await axios.get<TelemetryResponse>(
-      `${API_BASE_URL}/TelemetryTest/last-hour`,
-      { params: { assetId, signalTypeId } }
-    );
+  return callApi(async () => {
+    const response = await apiAsset.get<TelemetryResponse>("/TelemetryTest/last-hour", {
+      params: { assetId, signalTypeId },
+    });
     return response.data;
-  } catch (error: any) {
-    console.error("Failed to fetch last hour data:", error);
-    throw new Error(error.response?.data?.error || "Failed to fetch data");
-  }
+  }, "Failed to fetch last hour data");
 };
 
 export const getLast24HoursData = async (
   assetId: string,
   signalTypeId: string
 ): Promise<TelemetryResponse> => {
-  try {
-    const response = await axios.get<TelemetryResponse>(
-      `${API_BASE_URL}/TelemetryTest/last-24-hours`,
-      { params: { assetId, signalTypeId } }
-    );
+  return callApi(async () => {
+    const response = await apiAsset.get<TelemetryResponse>("/TelemetryTest/last-24-hours", {
+      params: { assetId, signalTypeId },
+    });
     return response.data;
-  } catch (error: any) {
-    console.error("Failed to fetch last 24 hours data:", error);
-    throw new Error(error.response?.data?.error || "Failed to fetch data");
-  }
+  }, "Failed to fetch last 24 hours data");
 };
 
 export const getLast7DaysData = async (
   assetId: string,
   signalTypeId: string
 ): Promise<TelemetryResponse> => {
-  try {
-    const response = await axios.get<TelemetryResponse>(
-      `${API_BASE_URL}/TelemetryTest/last-7-days`,
-      { params: { assetId, signalTypeId } }
-    );
+  return callApi(async () => {
+    const response = await apiAsset.get<TelemetryResponse>("/TelemetryTest/last-7-days", {
+      params: { assetId, signalTypeId },
+    });
     return response.data;
-  } catch (error: any) {
-    console.error("Failed to fetch last 7 days data:", error);
-    throw new Error(error.response?.data?.error || "Failed to fetch data");
-  }
+  }, "Failed to fetch last 7 days data");
 };
 
 export const getCustomRangeData = async (
@@ -167,14 +124,10 @@ export const getCustomRangeData = async (
   startDate: string,
   endDate?: string
 ): Promise<TelemetryResponse> => {
-  try {
-    const response = await axios.get<TelemetryResponse>(
-      `${API_BASE_URL}/TelemetryTest/custom-range`,
-      { params: { assetId, signalTypeId, startDate, endDate } }
-    );
+  return callApi(async () => {
+    const response = await apiAsset.get<TelemetryResponse>("/TelemetryTest/custom-range", {
+      params: { assetId, signalTypeId, startDate, endDate },
+    });
     return response.data;
-  } catch (error: any) {
-    console.error("Failed to fetch custom range data:", error);
-    throw new Error(error.response?.data?.error || "Failed to fetch data");
-  }
+  }, "Failed to fetch custom range data");
 };
\ No newline at end of file
@@ -1,59 +1,77 @@
 import authApi from "./authApi"; 
-import axios from "axios";
+import { callApi } from "./apiError";
 
 export const getAllUsers = async () => {
-  const res = await authApi.get("/User");
-  return res.data;
+  return callApi(async () => {
+    const res = await authApi.get("/User");
+    return res.data;
+  }, "Failed to fetch users");
 };
 
 export const getUserById = async (id: string | number) => {
-  const res = await authApi.get(`/User/${id}`);
-  return res.data;
+  return callApi(async () => {
+    const res = await authApi.get(`/User/${id}`);
+    return res.data;
+  }, `Failed to fetch user ${id}`);
 };
 
 export const getCurrentUser = async () => {
-  const res = await authApi.get("/User/me");
-  return res.data;
+  return callApi(async () => {
+    const res = await authApi.get("/User/me");
+    return res.data;
+  }, "Failed to fetch current user");
 };
 
 export const updateUser = async (id: string | number, payload: any) => {
-  const res = await authApi.put(`/User/${id}`, payload);
-  return res.data;
+  return callApi(async () => {
+    const res = await authApi.put(`/User/${id}`, payload);
+    return res.data;
+  }, "Failed to update user");
 };
 
 export const deleteUser = async (id: string | number) => {
-  const res = await authApi.delete(`/User/${id}`);
-  return res.data;
+  return callApi(async () => {
+    const res = await authApi.delete(`/User/${id}`);
+    return res.data;
+  }, "Failed to delete user");
 };
 
 // ---------------------- NEW TOUR ENDPOINTS ----------------------
 
 export const getTourStatus = async () => {
-  const res = await authApi.get("/User/tour-status");
-  return res.data; // returns { isTourCompleted: boolean }
+  return callApi(async () => {
+    const res = await authApi.get("/User/tour-status");
+    return res.data; // returns { isTourCompleted: boolean }
+  }, "Failed to fetch tour status");
 };
 
 export const markTourCompleted = async () => {
-  const res = await authApi.post("/User/complete-tour");
-  return res.data; // returns {}
+  return callApi(async () => {
+    const res = await authApi.post("/User/complete-tour");
+    return res.data; // returns {}
+  }, "Failed to mark tour completed");
+};
+
+// ---------------------- PREFERENCES ----------------------
+// One JSON document per key for the signed-in user; 404 when never saved
+
+export const getUserPreference = async (key: string) => {
+  return callApi(async () => {
+    const res = await authApi.get(`/User/preferences/${encodeURIComponent(key)}`);
+    return res.data as { key: string; value: string };
+  }, "Failed to load preference");
+};
+
+export const saveUserPreference = async (key: string, value: string) => {
+  return callApi(async () => {
+    const res = await authApi.put(`/User/preferences/${encodeURIComponent(key)}`, { value });
+    return res.data as { key: string; value: string };
+  }, "Failed to save preference");
 };
 
 export const ChangeUserRole = async (id: number, payload: any) => {
-  try {
+  return callApi(async () => {
     const res = await authApi.patch(`/User/${id}/role`, payload);
     return res.data;
-  } catch (error: any) {
-    
-    if (axios.isAxiosError(error)) {
-     console.log(error)
-      const message =
-        error.response?.data?.error ||
-        error.response?.data?.message ||
-        "Something went wrong";
-
-      throw new Error(message);
-    }
-
-    throw new Error("Unexpected error occurred");
-  }
-};
\ No newline at end of file
+  }, "Something went wrong");
+};
@@ -2,15 +2,21 @@ import React, { useEffect, useState, useRef } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Link2, Unplug, Activity, Sparkles, AlertCircle } from "lucide-react";
+import { Link2, Unplug, Activity, Sparkles, AlertCircle, SlidersHorizontal } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/context/AuthContext";
-import { getMappingById } from "@/api/assetApi";
-import { getDeviceById } from "@/api/deviceApi";
+import { getCachedSignalTypes, getMappingById, type SignalType } from "@/api/assetApi";
+import { getDevicesByIds, type DeviceRecord } from "@/api/deviceApi";
 import axios from "axios";
 import { toast } from "sonner";
 import levelToType from "./mapBackendAsset";
 import apiAsset from "@/api/axiosAsset";
+import { invalidateQueries, QueryScope } from "@/api/queryCache";
+import { describeThresholds, effectiveThresholds } from "@/lib/thresholds";
+import { ThresholdEditorDialog } from "./ThresholdEditorDialog";
+import { SavedTrendViewsCard } from "./SavedTrendViewsCard";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { formatDateTime, parseUtc } from "@/lib/time";
 
 interface AssetDetailsProps {
   selectedAsset: any | null;
@@ -28,6 +34,9 @@ export interface AssetConfig {
   signalName: string;
   registerAdress: number;
   createdAt: Date;
+  minThreshold?: number | null;
+  maxThreshold?: number | null;
+  thresholdsEnabled?: boolean;
 }
 
 export default function AssetDetails({
@@ -36,6 +45,7 @@ export default function AssetDetails({
   onRestore,
 }: AssetDetailsProps) {
   const { user } = useAuth();
+  const timeZone = useTimeZone();
   const isAdmin = user?.role === "Admin";
   const navigate = useNavigate();
   const [assetConfig, setAssetConfig] = useState<AssetConfig[] | null>(null);
@@ -48,6 +58,14 @@ export default function AssetDetails({
 
   const [recommendation, setRecommendation] = useState<string>("");
   const [typedText, setTypedText] = useState<string>("");
+  const [signalTypes, setSignalTypes] = useState<Map<string, SignalType>>(new Map());
+  const [editingThresholds, setEditingThresholds] = useState<AssetConfig | null>(null);
+
+  useEffect(() => {
+    getCachedSignalTypes()
+      .then(types => setSignalTypes(new Map(types.map(t => [t.signalTypeID, t]))))
+      .catch(err => console.error("Failed to load signal types:", err));
+  }, []);
 
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -66,15 +84,14 @@ export default function AssetDetails({
 
       // Fetch unique connected devices
       const uniqueDeviceIds = Array.from(new Set(mappedData.map(d => d.deviceId)));
-      const devices = await Promise.all(
-        uniqueDeviceIds.map(async (id) => {
-          try {
-            const res = await getDeviceById(id);
-            return res?.name ?? res?.data?.name ?? "Unknown Device";
-          } catch {
-            return "Unknown Device";
-          }
-        })
+      let devicesById = new Map<string, DeviceRecord>();
+      try {
+        devicesById = await getDevicesByIds(uniqueDeviceIds);
+      } catch (err) {
+        console.error("Error fetching connected devices:", err);
+      }
+      const devices = uniqueDeviceIds.map(
+        (id) => devicesById.get(id)?.name ?? "Unknown Device"
       );
       setDeviceDetails(devices);
 
@@ -168,6 +185,7 @@ export default function AssetDetails({
     try {
       setDetaching(true);
       await apiAsset.delete(`/Mapping/${selectedAsset.assetId}`);
+      invalidateQueries(QueryScope.Mappings);
       toast.success("Device detached successfully!");
       setAssetConfig(null);
       setTypedText("")
@@ -190,10 +208,7 @@ export default function AssetDetails({
   const assetType = selectedAsset ? levelToType(selectedAsset.level) : "";
   const subAssetCount = selectedAsset?.childrens?.length || 0;
 
-  const formatLocalTime = (utcString: string) => {
-    if (!utcString) return "-";
-    return new Date(utcString + "Z").toLocaleString("en-IN");
-  };
+  const formatLocalTime = (utcString: string) => formatDateTime(utcString, timeZone);
 
 
   const typeWriter = (text: string, speed = 20) => {
@@ -283,7 +298,7 @@ export default function AssetDetails({
         )}
       </div>
                     {alerts && alerts.length > 0 && (
-                      <Button onClick={() => analyseAlert(alerts[0].alertStartUtc)} className="w-full mt-4 relative overflow-hidden rounded-lg px-4 py-2 text-sm font-bold text-white bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 hover:brightness-110 shadow-lg transition-all">
+                      <Button onClick={() => analyseAlert(parseUtc(alerts[0].alertStartUtc).toISOString())} className="w-full mt-4 relative overflow-hidden rounded-lg px-4 py-2 text-sm font-bold text-white bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 hover:brightness-110 shadow-lg transition-all">
                         <span className="flex items-center justify-center gap-2">
                           <Sparkles size={16} />
                           Analyze Alert
@@ -377,14 +392,31 @@ export default function AssetDetails({
                             <div className="flex-1">
                               <p className="font-semibold text-slate-900 dark:text-slate-100 text-sm">{signal.signalName}</p>
                               <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Reg: {signal.registerAdress}</p>
+                              <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                                Limits: {describeThresholds(effectiveThresholds(signal, signalTypes.get(signal.signalTypeId)), signal.signalUnit)}
+                              </p>
                             </div>
                             <Badge className="bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-100 text-xs font-semibold">{signal.signalUnit}</Badge>
+                            {(isAdmin || isEngineer) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="ml-1"
+                                title="Edit thresholds"
+                                onClick={() => setEditingThresholds(signal)}
+                              >
+                                <SlidersHorizontal className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
                         ))}
                       </div>
                     </div>
                   )}
 
+                  {/* Saved Trend Views */}
+                  <SavedTrendViewsCard asset={selectedAsset} />
+
                   {/* Action Buttons */}
                   <div className="flex gap-3 pt-2">
                     {canShowDeviceButton && (
@@ -432,6 +464,13 @@ export default function AssetDetails({
           )}
         </CardContent>
       </Card>
+
+      <ThresholdEditorDialog
+        mapping={editingThresholds}
+        signalType={editingThresholds ? signalTypes.get(editingThresholds.signalTypeId) : undefined}
+        onOpenChange={(open) => !open && setEditingThresholds(null)}
+        onSaved={() => selectedAsset?.assetId && fetchSignalsAndDevices(selectedAsset.assetId)}
+      />
     </div>
   );
 }
@@ -34,6 +34,7 @@ import { toast } from "react-toastify";
 import ConfigureAsset from "@/AssetsHierarchy/ConfigureAsset";
 import { Spinner } from "@/components/ui/spinner";
 import { useNavigate } from "react-router-dom";
+import { SiblingTrendMenu } from "./SiblingTrendMenu";
 
 /* ---------------- Types ---------------- */
 
@@ -117,6 +118,8 @@ const findNode = (list: BackendAsset[], id: string): BackendAsset | null => {
 
 interface NodeProps {
   asset: BackendAsset;
+  // Children of the same parent, this asset included
+  siblings?: BackendAsset[];
   selectedId: string | null;
   onSelect: (a: BackendAsset) => void;
   searchTerm: string;
@@ -137,6 +140,7 @@ interface NodeProps {
 
 const AssetTreeNode: React.FC<NodeProps> = ({
   asset,
+  siblings = [],
   selectedId,
   onSelect,
   searchTerm,
@@ -370,6 +374,11 @@ const expandRecursivelyToMap = (node: BackendAsset, map: Record<string, boolean>
                 </Tooltip>
               )}
 
+              {/* Same signal across siblings */}
+              {asset.level > 2 && siblings.length > 1 && (
+                <SiblingTrendMenu asset={asset} siblings={siblings} />
+              )}
+
             </div>
           </TooltipProvider>
         )}
@@ -381,6 +390,7 @@ const expandRecursivelyToMap = (node: BackendAsset, map: Record<string, boolean>
             <AssetTreeNode
               key={child.assetId}
               asset={child}
+              siblings={asset.childrens}
               selectedId={selectedId}
               onSelect={onSelect}
               searchTerm={searchTerm}
@@ -9,6 +9,7 @@ import { Table, TableHeader, TableBody, TableRow, TableCell, TableHead } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import apiAsset from "@/api/axiosAsset";
+import { invalidateQueries, QueryScope } from "@/api/queryCache";
 import { matchByRegisterAddress } from "@/api/deviceApi";
 import { toast } from "react-toastify";
 import {
@@ -58,12 +59,6 @@ interface MatchedDevice {
   matchedSlaves: MatchedSlave[];
 }
 
-interface MatchResponse {
-  success: boolean;
-  data: MatchedDevice[];
-  error?: any;
-}
-
 interface MappingRequest {
   assetId: string;
   deviceId: string;
@@ -98,7 +93,7 @@ export default function MapDeviceToAsset() {
 
   const [assetConfigs, setAssetConfigs] = useState<AssetConfig[]>([]);
   const [loading, setLoading] = useState(false);
-  const [matchResult, setMatchResult] = useState<MatchResponse | null>(null);
+  const [matchedDevices, setMatchedDevices] = useState<MatchedDevice[]>([]);
   const [existingMappings, setExistingMappings] = useState<ExistingMapping[]>([]);
   const [mappingLoading, setMappingLoading] = useState(false);
   const [modalState, setModalState] = useState<ModalState>({ open: false });
@@ -146,7 +141,7 @@ async function loadAll(): Promise<void> {
       .filter((v) => !Number.isNaN(v));
 
     if (registerAddresses.length === 0) {
-      setMatchResult({ success: true, data: [] });
+      setMatchedDevices([]);
       return;
     }
 
@@ -156,11 +151,12 @@ async function loadAll(): Promise<void> {
     
     console.log('Match Result:', matchResp);
     
-    setMatchResult(matchResp);
+    if (!matchResp.ok) toast.error(matchResp.error.message);
+    setMatchedDevices(matchResp.ok ? matchResp.data : []);
   } catch (err: any) {
     console.error('loadAll error:', err);
     toast.error("Failed to load data");
-    setMatchResult({ success: false, data: [], error: err });
+    setMatchedDevices([]);
   } finally {
     setLoading(false);
   }
@@ -194,8 +190,7 @@ async function loadAll(): Promise<void> {
 
   // devicesForRender: show devices that have at least one register whose signalType is not already mapped for this asset
   const devicesForRender = useMemo(() => {
-    if (!matchResult?.data) return [];
-    return matchResult.data.filter((device) =>
+    return matchedDevices.filter((device) =>
       device.matchedSlaves?.some((slave) =>
         slave.matchedRegisters?.some((r) => {
           const assetCfg = registerToAssetMap.get(Number(r.registerAddress));
@@ -205,13 +200,13 @@ async function loadAll(): Promise<void> {
         })
       )
     );
-  }, [matchResult, mappingsSet, registerToAssetMap, assetid]);
+  }, [matchedDevices, mappingsSet, registerToAssetMap, assetid]);
 
   // mapping lookup by signalTypeID for rendering asset configs -> connected devices/ports
   const mappingLookup = useMemo(() => {
-    // build device name map from matchResult
+    // build device name map from matchedDevices
     const deviceNameById = new Map<string, string | undefined>();
-    (matchResult?.data ?? []).forEach((d) => deviceNameById.set(d.deviceId, d.name));
+    matchedDevices.forEach((d) => deviceNameById.set(d.deviceId, d.name));
 
     const map = new Map<string, ExistingMapping[]>();
     for (const m of existingMappings) {
@@ -231,7 +226,7 @@ async function loadAll(): Promise<void> {
     }
 
     return result;
-  }, [existingMappings, matchResult]);
+  }, [existingMappings, matchedDevices]);
 
   function prettyUnit(u?: string | null) {
     return u ? ` ${u}` : "";
@@ -246,6 +241,7 @@ async function loadAll(): Promise<void> {
     setMappingLoading(true);
 
     apiAsset.delete(`/deletemap/${mappingId}`).then((resp) => {
+      invalidateQueries(QueryScope.Mappings);
       toast.success("Mapping deleted successfully");
       setMappingLoading(false);
       setDeletedMap("")
@@ -290,6 +286,7 @@ async function loadAll(): Promise<void> {
     setMappingLoading(true);
     try {
       await apiAsset.post("/Mapping", payload);
+      invalidateQueries(QueryScope.Mappings);
       toast.success("Mapping created successfully");
       await loadAll();
     } catch (err: any) {
@@ -0,0 +1,48 @@
+import { useNavigate } from "react-router-dom";
+import { Bookmark, Star } from "lucide-react";
+import { TREND_RANGE_LABELS } from "@/lib/trend";
+import { trendViewsForAsset, useTrendViews } from "@/hooks/trendViewsStorage";
+import type { BackendAsset } from "./AssetTree";
+
+interface SavedTrendViewsCardProps {
+  asset: BackendAsset;
+}
+
+// The user's saved trend views that chart this asset; the starred one opens by default from the tree
+export const SavedTrendViewsCard = ({ asset }: SavedTrendViewsCardProps) => {
+  const navigate = useNavigate();
+  const doc = useTrendViews();
+  const views = trendViewsForAsset(doc, asset.assetId);
+
+  if (views.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-purple-200 dark:border-purple-800 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-purple-950 dark:to-fuchsia-950 p-5">
+      <h3 className="font-bold text-purple-900 dark:text-purple-100 mb-4 flex items-center gap-2 text-sm uppercase tracking-wide">
+        <Bookmark className="h-4 w-4" /> Saved Trend Views
+      </h3>
+      <div className="space-y-2">
+        {views.map((view) => {
+          const isDefault = doc.defaults[asset.assetId] === view.id;
+          return (
+            <button
+              key={view.id}
+              onClick={() => navigate("/signal", { state: { asset, savedViewId: view.id } })}
+              className="w-full flex items-center justify-between gap-2 p-3 text-left bg-white dark:bg-slate-800 rounded-lg border border-purple-100 dark:border-purple-800 hover:border-purple-300 dark:hover:border-purple-600 hover:shadow-md transition-all"
+            >
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-900 dark:text-slate-100 text-sm truncate">{view.name}</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  {TREND_RANGE_LABELS[view.range]} · {view.selections.length} asset{view.selections.length !== 1 ? "s" : ""}
+                </p>
+              </div>
+              {isDefault && (
+                <Star className="h-4 w-4 shrink-0 fill-yellow-400 text-yellow-500" aria-label="Default view" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
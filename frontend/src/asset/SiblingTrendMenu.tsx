@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { GitCompareArrows } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getSignalOnAsset, type IMapping } from "@/api/assetApi";
+import type { BackendAsset } from "./AssetTree";
+
+interface SiblingTrendMenuProps {
+  asset: BackendAsset;
+  siblings: BackendAsset[];
+}
+
+// "Same signal across siblings": pick one of this asset's signals and trend it on every sibling
+export const SiblingTrendMenu = ({ asset, siblings }: SiblingTrendMenuProps) => {
+  const navigate = useNavigate();
+  const [signals, setSignals] = useState<IMapping[] | null>(null);
+  const others = siblings.filter((s) => s.assetId !== asset.assetId && !s.isDeleted);
+
+  const loadSignals = async (open: boolean) => {
+    if (!open || signals) return;
+    try {
+      const mappings = await getSignalOnAsset(asset.assetId);
+      setSignals(Array.from(new Map(mappings.map((m) => [m.signalTypeId, m])).values()));
+    } catch (err) {
+      console.error("Failed to fetch signals for asset", err);
+      setSignals([]);
+    }
+  };
+
+  const openTrend = (signalTypeId: string) => {
+    navigate("/signal", { state: { assets: [asset, ...others], signalTypeId } });
+  };
+
+  return (
+    <DropdownMenu onOpenChange={loadSignals}>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="p-1 rounded hover:bg-accent"
+          title="Compare a signal across sibling assets"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <GitCompareArrows className="h-4 w-4" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56 bg-card border border-border" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel>Compare with {others.length} sibling{others.length !== 1 ? "s" : ""}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {signals === null ? (
+          <DropdownMenuItem disabled>Loading...</DropdownMenuItem>
+        ) : signals.length === 0 ? (
+          <DropdownMenuItem disabled>No signals mapped</DropdownMenuItem>
+        ) : (
+          signals.map((s) => (
+            <DropdownMenuItem key={s.signalTypeId} onClick={() => openTrend(s.signalTypeId)}>
+              {s.signalName}
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { updateMappingThresholds, type IMapping, type SignalType } from "@/api/assetApi";
+
+interface ThresholdEditorDialogProps {
+  mapping: Pick<IMapping, "mappingId" | "signalName" | "signalUnit" | "minThreshold" | "maxThreshold" | "thresholdsEnabled"> | null;
+  signalType: SignalType | undefined;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (mapping: IMapping) => void;
+}
+
+const toInput = (v: number | null | undefined) => (v === null || v === undefined ? "" : String(v));
+const fromInput = (v: string) => (v.trim() === "" ? null : Number(v));
+
+// Edits the per-mapping limits; empty fields fall back to the signal type defaults
+export const ThresholdEditorDialog = ({ mapping, signalType, onOpenChange, onSaved }: ThresholdEditorDialogProps) => {
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+  const [enabled, setEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!mapping) return;
+    setMin(toInput(mapping.minThreshold));
+    setMax(toInput(mapping.maxThreshold));
+    setEnabled(mapping.thresholdsEnabled ?? true);
+  }, [mapping]);
+
+  const minValue = fromInput(min);
+  const maxValue = fromInput(max);
+  const invalid =
+    (minValue !== null && Number.isNaN(minValue)) ||
+    (maxValue !== null && Number.isNaN(maxValue)) ||
+    (minValue !== null && maxValue !== null && minValue > maxValue);
+
+  const handleSave = async () => {
+    if (!mapping || invalid) return;
+    setSaving(true);
+    try {
+      const saved = await updateMappingThresholds(mapping.mappingId, {
+        minThreshold: minValue,
+        maxThreshold: maxValue,
+        enabled,
+      });
+      toast.success(`Thresholds saved for ${mapping.signalName}`);
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save thresholds");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unit = mapping?.signalUnit ? ` (${mapping.signalUnit})` : "";
+
+  return (
+    <Dialog open={mapping !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-card">
+        <DialogHeader>
+          <DialogTitle>{mapping?.signalName} thresholds</DialogTitle>
+          <DialogDescription>
+            Leave a limit empty to use the signal type default
+            {signalType ? ` (${signalType.minThreshold} – ${signalType.maxThreshold})` : ""}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="threshold-min">Min{unit}</Label>
+            <Input
+              id="threshold-min"
+              type="number"
+              value={min}
+              placeholder={signalType ? String(signalType.minThreshold) : ""}
+              onChange={(e) => setMin(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="threshold-max">Max{unit}</Label>
+            <Input
+              id="threshold-max"
+              type="number"
+              value={max}
+              placeholder={signalType ? String(signalType.maxThreshold) : ""}
+              onChange={(e) => setMax(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox id="threshold-enabled" checked={enabled} onCheckedChange={(c) => setEnabled(!!c)} />
+          <Label htmlFor="threshold-enabled" className="cursor-pointer">
+            Raise alerts and live alarms for this signal
+          </Label>
+        </div>
+
+        {invalid && <p className="text-sm text-red-600">Min must be a number not greater than max.</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || invalid}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
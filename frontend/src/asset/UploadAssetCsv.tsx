@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import apiAsset from "@/api/axiosAsset";
+import { invalidateQueries, QueryScope } from "@/api/queryCache";
 import { toast } from "react-toastify";
 
 type ParsedRow = Record<string, unknown> & { __rowNum?: number };
@@ -243,6 +244,7 @@ function downloadErrorExcel(skippedAssets: any[]) {
         })),
       });
 
+      invalidateQueries(QueryScope.Assets);
       setApiResponse(res.data);
       setAssets([]);
       //toast.success("Assets uploaded successfully");
@@ -1,4 +1,6 @@
 import React from "react";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { formatDateTime } from "@/lib/time";
 
 type Payload = {
   asset: string;
@@ -13,6 +15,7 @@ type Payload = {
 
 export default function NotificationToast({ data }: { data: Payload }) {
     console.log("Rendering NotificationToast with data:", data);
+  const timeZone = useTimeZone();
   const isHigh = data?.status === "HIGH";
   const isLow = data?.status === "LOW";
 
@@ -43,7 +46,7 @@ export default function NotificationToast({ data }: { data: Payload }) {
             </div>
 
             <div className="text-xs text-gray-600">
-              {new Date(data.timestamp).toLocaleString()}
+              {formatDateTime(data.timestamp, timeZone)}
             </div>
           </div>
 
@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  LIVE_HISTORY_LIMITS,
+  type LiveHistoryMode,
+  type LiveHistoryWindow,
+} from "@/hooks/liveHistoryStorage";
+
+interface HistoryWindowControlProps {
+  value: LiveHistoryWindow;
+  onChange: (value: LiveHistoryWindow) => void;
+}
+
+// "Keep the last [100] [samples | minutes]"
+export const HistoryWindowControl = ({ value, onChange }: HistoryWindowControlProps) => {
+  const [draft, setDraft] = useState(String(value.size));
+  const limits = LIVE_HISTORY_LIMITS[value.mode];
+
+  useEffect(() => setDraft(String(value.size)), [value.size]);
+
+  const commit = () => {
+    const size = Number(draft);
+    if (Number.isFinite(size) && size !== value.size) onChange({ ...value, size });
+    else setDraft(String(value.size));
+  };
+
+  const changeMode = (mode: LiveHistoryMode) => {
+    // Start each mode from a sensible size rather than reinterpreting the number
+    onChange({ mode, size: mode === "minutes" ? 5 : 100 });
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-slate-600">
+      <span>History window</span>
+      <Input
+        type="number"
+        min={limits.min}
+        max={limits.max}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === "Enter" && commit()}
+        className="w-20 h-8"
+      />
+      <Select value={value.mode} onValueChange={(v) => changeMode(v as LiveHistoryMode)}>
+        <SelectTrigger className="w-28 h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-background text-foreground">
+          <SelectItem value="samples">samples</SelectItem>
+          <SelectItem value="minutes">minutes</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
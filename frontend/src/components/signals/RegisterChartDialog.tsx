@@ -0,0 +1,120 @@
+import { useMemo } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { RegisterSnapshot } from "@/workers/telemetryProtocol";
+import { THRESHOLD_BAND_FILL, THRESHOLD_LINE_STROKE, type SignalThresholds } from "@/lib/thresholds";
+import { formatInZone } from "@/lib/time";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+
+interface RegisterChartDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  // Latest snapshot; the chart follows it while the dialog is open
+  register: RegisterSnapshot | undefined;
+  windowLabel: string;
+  // Asset-signal limits of the mapped register, drawn as a band
+  thresholds?: SignalThresholds;
+}
+
+const fmt = (v: number | undefined) => (v !== undefined && Number.isFinite(v) ? v.toFixed(2) : "—");
+
+export const RegisterChartDialog = ({
+  open,
+  onOpenChange,
+  title,
+  register,
+  windowLabel,
+  thresholds,
+}: RegisterChartDialogProps) => {
+  const timeZone = useTimeZone();
+  const showLimits = thresholds?.enabled && (thresholds.min !== undefined || thresholds.max !== undefined);
+
+  const data = useMemo(
+    () =>
+      register
+        ? Array.from(register.values, (value, i) => ({ time: register.timestamps[i], value }))
+        : [],
+    [register]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl bg-card">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {windowLabel} · min {fmt(register?.min)} · avg {fmt(register?.avg)} · max {fmt(register?.max)}
+            {register?.unit ? ` ${register.unit}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {data.length === 0 ? (
+          <div className="h-80 flex items-center justify-center text-slate-500">
+            Waiting for telemetry…
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={320}>
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(t) => formatInZone(t, "HH:mm:ss", timeZone)}
+              />
+              <YAxis domain={["auto", "auto"]} unit={register?.unit ? ` ${register.unit}` : undefined} />
+              <Tooltip
+                labelFormatter={(t) => formatInZone(Number(t), "PP HH:mm:ss", timeZone)}
+                formatter={(v) => [fmt(Number(v)), register?.signalType || "Value"]}
+              />
+              {showLimits && (
+                <ReferenceArea
+                  y1={thresholds?.min}
+                  y2={thresholds?.max}
+                  fill={THRESHOLD_BAND_FILL}
+                  fillOpacity={0.08}
+                  ifOverflow="extendDomain"
+                />
+              )}
+              {showLimits && thresholds?.min !== undefined && (
+                <ReferenceLine y={thresholds.min} stroke={THRESHOLD_LINE_STROKE} ifOverflow="extendDomain" label="min" />
+              )}
+              {showLimits && thresholds?.max !== undefined && (
+                <ReferenceLine y={thresholds.max} stroke={THRESHOLD_LINE_STROKE} ifOverflow="extendDomain" label="max" />
+              )}
+              {register && Number.isFinite(register.avg) && (
+                <ReferenceLine y={register.avg} stroke="#94a3b8" strokeDasharray="4 4" label="avg" />
+              )}
+              <Line
+                type="monotone"
+                dataKey="value"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
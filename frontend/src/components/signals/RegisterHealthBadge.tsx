@@ -0,0 +1,62 @@
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  describeException,
+  healthStatusOf,
+  type RegisterHealth,
+  type RegisterHealthStatus,
+} from "@/lib/registerHealth";
+
+interface RegisterHealthBadgeProps {
+  health: RegisterHealth | null | undefined;
+  // Persisted isHealthy flag; false means the poller stopped reading the register
+  enabled?: boolean;
+  className?: string;
+}
+
+const STYLES: Record<RegisterHealthStatus, string> = {
+  healthy: "bg-emerald-100 text-emerald-700 border-emerald-200",
+  failing: "bg-red-100 text-red-700 border-red-200",
+  disabled: "bg-slate-200 text-slate-600 border-slate-300",
+  unknown: "bg-slate-100 text-slate-500 border-slate-200",
+};
+
+const LABELS: Record<RegisterHealthStatus, string> = {
+  healthy: "Healthy",
+  failing: "Failing",
+  disabled: "Disabled",
+  unknown: "No reads",
+};
+
+const lastGoodText = (health: RegisterHealth | null | undefined) =>
+  health?.lastGoodRead
+    ? `Last good read ${formatDistanceToNow(health.lastGoodRead, { addSuffix: true })}`
+    : "No good read yet";
+
+// Health pill for one register; the tooltip carries the details
+export const RegisterHealthBadge = ({ health, enabled = true, className }: RegisterHealthBadgeProps) => {
+  const status = healthStatusOf(health ?? undefined, enabled);
+  const exception = describeException(health?.exceptionCode ?? null);
+
+  const details = [
+    status === "disabled" ? "Marked unhealthy by the poller; it is no longer read" : null,
+    health && health.consecutiveFailures > 0
+      ? `${health.consecutiveFailures} consecutive failed read${health.consecutiveFailures !== 1 ? "s" : ""}`
+      : null,
+    exception ? `Modbus exception ${exception}` : null,
+    health ? lastGoodText(health) : null,
+  ].filter(Boolean);
+
+  return (
+    <Badge variant="outline" className={cn(STYLES[status], className)} title={details.join("\n") || undefined}>
+      {LABELS[status]}
+      {status === "failing" && (
+        <span className="ml-1 font-mono">
+          ×{health?.consecutiveFailures}
+          {health?.exceptionCode !== null && health?.exceptionCode !== undefined ? ` · E${health.exceptionCode}` : ""}
+        </span>
+      )}
+    </Badge>
+  );
+};
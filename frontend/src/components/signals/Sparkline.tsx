@@ -0,0 +1,71 @@
+import type { SignalThresholds } from "@/lib/thresholds";
+
+interface SparklineProps {
+  values: Float64Array;
+  min: number;
+  max: number;
+  avg: number;
+  // Limit lines are drawn when they fall inside the window's range
+  thresholds?: SignalThresholds;
+  width?: number;
+  height?: number;
+}
+
+const fmt = (v: number) => (Number.isFinite(v) ? v.toFixed(2) : "—");
+
+// Inline trend for one register, with the window's min / avg / max underneath
+export const Sparkline = ({ values, min, max, avg, thresholds, width = 100, height = 30 }: SparklineProps) => {
+  if (!values.length) return <span className="text-xs text-slate-400">No data</span>;
+
+  const len = values.length;
+  const range = max === min ? Math.abs(max) || 1 : max - min;
+  const y = (v: number) => height - ((v - min) / range) * height;
+  const points = Array.from(values, (v, i) => `${(i / Math.max(1, len - 1)) * width},${y(v)}`).join(" ");
+  const limits = thresholds?.enabled
+    ? [thresholds.min, thresholds.max].filter((l): l is number => l !== undefined && l >= min && l <= max)
+    : [];
+
+  return (
+    <div className="inline-flex flex-col gap-0.5">
+      <svg
+        width={width}
+        height={height}
+        className="inline-block"
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+      >
+        <line
+          x1={0}
+          x2={width}
+          y1={y(avg)}
+          y2={y(avg)}
+          strokeWidth={1}
+          strokeDasharray="3 3"
+          className="stroke-slate-300"
+        />
+        {limits.map((limit) => (
+          <line
+            key={limit}
+            x1={0}
+            x2={width}
+            y1={y(limit)}
+            y2={y(limit)}
+            strokeWidth={1}
+            className="stroke-red-400"
+          />
+        ))}
+        <polyline
+          points={points}
+          fill="none"
+          strokeWidth={2}
+          className="stroke-blue-500"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      </svg>
+      <span className="text-[10px] font-mono text-slate-500 whitespace-nowrap">
+        ↓{fmt(min)} · x̄{fmt(avg)} · ↑{fmt(max)}
+      </span>
+    </div>
+  );
+};
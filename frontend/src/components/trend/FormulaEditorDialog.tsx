@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { checkFormula, FORMULA_FUNCTIONS, FORMULA_VARIABLES, formulaVariables, parseFormula } from "@/lib/formula";
+import { seriesKey, type TrendSeries } from "@/lib/trend";
+import { newItemId } from "@/hooks/preferenceStorage";
+import { saveFormula, type FormulaInput, type SavedFormula } from "@/hooks/formulaStorage";
+
+interface FormulaEditorDialogProps {
+  // null closes the dialog; "new" starts an empty formula
+  formula: SavedFormula | "new" | null;
+  // Real series currently on the chart, the only valid inputs
+  seriesOptions: TrendSeries[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const inputId = (input: FormulaInput) => `${input.assetId}|${input.signalTypeId}`;
+
+const selectClass =
+  "flex-1 rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary";
+
+export const FormulaEditorDialog = ({ formula, seriesOptions, onOpenChange }: FormulaEditorDialogProps) => {
+  const [name, setName] = useState("");
+  const [unit, setUnit] = useState("");
+  const [expression, setExpression] = useState("");
+  const [bindings, setBindings] = useState<Record<string, string>>({});
+  const [variableCount, setVariableCount] = useState(2);
+
+  useEffect(() => {
+    if (formula === null) return;
+    const existing = formula === "new" ? null : formula;
+    setName(existing?.name ?? "");
+    setUnit(existing?.unit ?? "");
+    setExpression(existing?.expression ?? "");
+    setBindings(
+      Object.fromEntries(Object.entries(existing?.inputs ?? {}).map(([letter, input]) => [letter, inputId(input)]))
+    );
+    setVariableCount(Math.max(2, Object.keys(existing?.inputs ?? {}).length));
+  }, [formula]);
+
+  const letters = FORMULA_VARIABLES.slice(0, variableCount);
+  const bound = letters.filter((l) => bindings[l]);
+  const error = expression.trim() ? checkFormula(expression, bound) : null;
+  const canSave = !!name.trim() && !!expression.trim() && error === null;
+
+  const handleSave = () => {
+    if (!canSave || formula === null) return;
+    // Only the variables the expression reads are stored; the first one decides the owning asset
+    const used = formulaVariables(parseFormula(expression));
+    const inputs = Object.fromEntries(
+      used.map((letter) => {
+        const [assetId, signalTypeId] = bindings[letter].split("|");
+        return [letter, { assetId, signalTypeId }];
+      })
+    );
+    const owner = inputs[[...used].sort()[0]];
+    if (!owner) {
+      toast.error("A formula needs at least one series input");
+      return;
+    }
+
+    saveFormula({
+      id: formula === "new" ? newItemId() : formula.id,
+      assetId: owner.assetId,
+      name: name.trim(),
+      unit: unit.trim(),
+      expression: expression.trim(),
+      inputs,
+    });
+    toast.success(`Formula "${name.trim()}" saved`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={formula !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-card">
+        <DialogHeader>
+          <DialogTitle>{formula === "new" ? "New formula series" : "Edit formula series"}</DialogTitle>
+          <DialogDescription>
+            Combine plotted signals into a virtual series. It is saved with the asset of its first input.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="formula-name">Name</Label>
+            <Input
+              id="formula-name"
+              value={name}
+              placeholder="Apparent Power"
+              maxLength={60}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="formula-unit">Unit</Label>
+            <Input id="formula-unit" value={unit} placeholder="kVA" maxLength={20} onChange={(e) => setUnit(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Inputs</Label>
+          {letters.map((letter) => (
+            <div key={letter} className="flex items-center gap-2">
+              <span className="w-6 font-mono font-semibold">{letter}</span>
+              <select
+                value={bindings[letter] ?? ""}
+                onChange={(e) => setBindings((prev) => ({ ...prev, [letter]: e.target.value }))}
+                className={selectClass}
+              >
+                <option value="">Not used</option>
+                {seriesOptions.map((s) => (
+                  <option key={inputId(s)} value={inputId(s)}>
+                    {seriesKey(s)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+          {variableCount < FORMULA_VARIABLES.length && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setVariableCount((n) => n + 1)}
+              className="flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Add input
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="formula-expression">Formula</Label>
+          <Textarea
+            id="formula-expression"
+            value={expression}
+            placeholder="A * B / 1000"
+            className="font-mono"
+            rows={2}
+            onChange={(e) => setExpression(e.target.value)}
+          />
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : (
+            <ul className="text-xs text-muted-foreground space-y-0.5">
+              <li>Operators: + - * / and parentheses</li>
+              {Object.values(FORMULA_FUNCTIONS).map((help) => (
+                <li key={help} className="font-mono">
+                  {help}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,73 @@
+import { Pencil, Plus, Sigma, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { deleteFormula, type SavedFormula } from "@/hooks/formulaStorage";
+
+interface FormulaPanelProps {
+  // Saved formulas owned by the charted assets
+  formulas: SavedFormula[];
+  // Formula id -> why it is not plotted, e.g. an input signal not selected
+  unavailable: Map<string, string>;
+  assetName: (assetId: string) => string;
+  canCreate: boolean;
+  onCreate: () => void;
+  onEdit: (formula: SavedFormula) => void;
+}
+
+export const FormulaPanel = ({ formulas, unavailable, assetName, canCreate, onCreate, onEdit }: FormulaPanelProps) => (
+  <Card>
+    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+      <CardTitle className="flex items-center gap-2 text-base">
+        <Sigma className="w-4 h-4" />
+        Formula Series
+      </CardTitle>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onCreate}
+        disabled={!canCreate}
+        title={canCreate ? undefined : "Select at least one signal to use as an input"}
+        className="flex items-center gap-1"
+      >
+        <Plus className="w-4 h-4" />
+        New Formula
+      </Button>
+    </CardHeader>
+    <CardContent className="space-y-2">
+      {formulas.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No formulas for these assets yet. Define one from the plotted signals, e.g. A * B / 1000.
+        </p>
+      ) : (
+        formulas.map((f) => {
+          const reason = unavailable.get(f.id);
+          return (
+            <div key={f.id} className="flex items-start justify-between gap-2 rounded-md border border-border p-3">
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {f.name}
+                  {f.unit && <span className="text-xs text-muted-foreground"> ({f.unit})</span>}
+                  <span className="text-xs text-muted-foreground"> · {assetName(f.assetId)}</span>
+                </p>
+                <p className="font-mono text-xs text-muted-foreground truncate">{f.expression}</p>
+                {reason && <p className="text-xs text-amber-600">{reason}</p>}
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <button className="p-1 rounded hover:bg-accent" title="Edit formula" onClick={() => onEdit(f)}>
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  className="p-1 rounded hover:bg-accent text-destructive"
+                  title="Delete formula"
+                  onClick={() => deleteFormula(f.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,98 @@
+import { useMemo } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { TrendSeriesData } from "@/hooks/use-trend-data";
+import { measureSeries, type MeasureCursors } from "@/lib/measure";
+import { formatDuration, formatInZone } from "@/lib/time";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+
+interface MeasurementTableProps {
+  // Full-resolution series, not the plotted rows
+  data: TrendSeriesData[];
+  cursors: MeasureCursors;
+  colorOf: (key: string) => string;
+  unitOf: (key: string) => string;
+}
+
+const fmt = (v: number | null, digits = 2) => (v === null ? "—" : v.toFixed(digits));
+
+const signed = (v: number | null, digits = 2) => (v === null ? "—" : `${v > 0 ? "+" : ""}${v.toFixed(digits)}`);
+
+export const MeasurementTable = ({ data, cursors, colorOf, unitOf }: MeasurementTableProps) => {
+  const { a, b } = cursors;
+  const timeZone = useTimeZone();
+
+  const rows = useMemo(
+    () => (a === null || b === null ? [] : data.map((d) => measureSeries(d.key, d.response.values, a, b))),
+    [data, a, b]
+  );
+
+  if (a === null || b === null) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {a === null ? "Click the chart to place cursor A." : "Click the chart again to place cursor B."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span>
+          <span className="font-semibold text-blue-600">A</span> {formatInZone(a, "MMM dd HH:mm:ss", timeZone)}
+        </span>
+        <span>
+          <span className="font-semibold text-purple-600">B</span> {formatInZone(b, "MMM dd HH:mm:ss", timeZone)}
+        </span>
+        <span>
+          <span className="text-muted-foreground">Δt </span>
+          <span className="font-semibold">{formatDuration(Math.abs(b - a) / 1000)}</span>
+        </span>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Series</TableHead>
+              <TableHead className="text-right">A</TableHead>
+              <TableHead className="text-right">B</TableHead>
+              <TableHead className="text-right">Δ</TableHead>
+              <TableHead className="text-right">Rate /min</TableHead>
+              <TableHead className="text-right">Min</TableHead>
+              <TableHead className="text-right">Max</TableHead>
+              <TableHead className="text-right">Avg</TableHead>
+              <TableHead className="text-right">Integral</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((m) => {
+              const unit = unitOf(m.key);
+              return (
+                <TableRow key={m.key}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: colorOf(m.key) }} />
+                      <span className="font-medium">{m.key}</span>
+                      {unit && <span className="text-xs text-muted-foreground">({unit})</span>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{fmt(m.valueA)}</TableCell>
+                  <TableCell className="text-right">{fmt(m.valueB)}</TableCell>
+                  <TableCell className="text-right font-semibold">{signed(m.delta)}</TableCell>
+                  <TableCell className="text-right">{signed(m.ratePerMinute, 3)}</TableCell>
+                  <TableCell className="text-right">{fmt(m.min)}</TableCell>
+                  <TableCell className="text-right">{fmt(m.max)}</TableCell>
+                  <TableCell className="text-right">{fmt(m.avg)}</TableCell>
+                  <TableCell className="text-right" title={`${m.samples} samples between the cursors`}>
+                    {fmt(m.integral, 3)}
+                    {unit && m.integral !== null ? ` ${unit}·h` : ""}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
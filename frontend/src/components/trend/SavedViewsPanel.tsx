@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Bookmark, FolderOpen, Save, Star, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { TREND_RANGE_LABELS, type TrendAssetSelection } from "@/lib/trend";
+import { formatInZone } from "@/lib/time";
+import {
+  deleteTrendView,
+  setDefaultTrendView,
+  useTrendViews,
+  type SavedTrendView,
+} from "@/hooks/trendViewsStorage";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+
+interface SavedViewsPanelProps {
+  activeViewId: string | null;
+  // Asset a starred view becomes the default for: the first one on the chart
+  primaryAssetId: string;
+  assetName: (assetId: string) => string;
+  onSave: (name: string, overwriteId: string | null) => void;
+  onOpen: (view: SavedTrendView) => void;
+}
+
+const describeSelections = (selections: TrendAssetSelection[], assetName: (assetId: string) => string) =>
+  selections
+    .map((s) => `${assetName(s.assetId)} (${s.signalTypeIds.length})`)
+    .join(", ");
+
+export const SavedViewsPanel = ({ activeViewId, primaryAssetId, assetName, onSave, onOpen }: SavedViewsPanelProps) => {
+  const { views, defaults } = useTrendViews();
+  const timeZone = useTimeZone();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const active = views.find((v) => v.id === activeViewId) ?? null;
+
+  const save = (overwriteId: string | null) => {
+    const trimmed = overwriteId ? active?.name ?? "" : name.trim();
+    if (!trimmed) return;
+    onSave(trimmed, overwriteId);
+    setName("");
+  };
+
+  const isDefault = (view: SavedTrendView) => !!primaryAssetId && defaults[primaryAssetId] === view.id;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Bookmark className="w-4 h-4" />
+          Saved Views{views.length ? ` (${views.length})` : ""}
+        </Button>
+      </SheetTrigger>
+
+      <SheetContent side="right" className="w-96 p-0 flex flex-col max-h-screen">
+        <SheetHeader className="p-4 border-b">
+          <SheetTitle>Saved Views</SheetTitle>
+          <SheetDescription>Assets, signals, range and chart settings, saved to your account</SheetDescription>
+        </SheetHeader>
+
+        {/* SAVE CURRENT VIEW */}
+        <div className="p-4 border-b space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && save(null)}
+              placeholder="Name this view..."
+              maxLength={80}
+            />
+            <Button onClick={() => save(null)} disabled={!name.trim()} className="flex items-center gap-2">
+              <Save className="w-4 h-4" />
+              Save
+            </Button>
+          </div>
+          {active && (
+            <Button variant="ghost" size="sm" onClick={() => save(active.id)} className="w-full">
+              Update "{active.name}" with the current view
+            </Button>
+          )}
+        </div>
+
+        {/* VIEW LIST */}
+        <div className="flex-1 min-h-0 overflow-y-auto p-2 space-y-2">
+          {views.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground text-center">No saved views yet.</p>
+          ) : (
+            views.map((view) => (
+              <div
+                key={view.id}
+                className={`rounded-md border p-3 ${view.id === activeViewId ? "border-primary bg-primary/5" : "border-border"}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{view.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {describeSelections(view.selections, assetName)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {TREND_RANGE_LABELS[view.range]} · saved {formatInZone(view.savedAt, "MMM dd HH:mm", timeZone)}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <button
+                      className="p-1 rounded hover:bg-accent disabled:opacity-40"
+                      title={
+                        isDefault(view)
+                          ? "Default view for this asset (click to clear)"
+                          : `Open by default for ${assetName(primaryAssetId)}`
+                      }
+                      disabled={!primaryAssetId}
+                      onClick={() => setDefaultTrendView(primaryAssetId, isDefault(view) ? null : view.id)}
+                    >
+                      <Star className={`h-4 w-4 ${isDefault(view) ? "fill-yellow-400 text-yellow-500" : ""}`} />
+                    </button>
+                    <button
+                      className="p-1 rounded hover:bg-accent"
+                      title="Open view"
+                      onClick={() => {
+                        onOpen(view);
+                        setOpen(false);
+                      }}
+                    >
+                      <FolderOpen className="h-4 w-4" />
+                    </button>
+                    <button
+                      className="p-1 rounded hover:bg-accent text-destructive"
+                      title="Delete view"
+                      onClick={() => deleteTrendView(view.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,122 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { TrendSeriesData } from "@/hooks/use-trend-data";
+import { histogram, type SeriesSummary } from "@/lib/seriesStats";
+import { formatInZone } from "@/lib/time";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+
+export interface SeriesStatsEntry {
+  key: string;
+  unit: string;
+  summary: SeriesSummary;
+}
+
+interface SeriesStatsPanelProps {
+  entries: SeriesStatsEntry[];
+  // Full-resolution series for the histogram
+  data: TrendSeriesData[];
+  colorOf: (key: string) => string;
+  // "Last 24 Hours" or the zoomed window
+  windowLabel: string;
+}
+
+const BIN_OPTIONS = [10, 20, 50];
+
+const selectClass =
+  "rounded-md border border-border bg-background px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary";
+
+const fmt = (v: number) => (Math.abs(v) >= 1000 ? v.toFixed(0) : v.toFixed(2));
+
+const StatCell = ({ label, value }: { label: string; value: string }) => (
+  <div>
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="font-semibold">{value}</p>
+  </div>
+);
+
+export const SeriesStatsPanel = ({ entries, data, colorOf, windowLabel }: SeriesStatsPanelProps) => {
+  const [histogramKey, setHistogramKey] = useState("");
+  const [bins, setBins] = useState(20);
+  const timeZone = useTimeZone();
+
+  const selectedKey = entries.some((e) => e.key === histogramKey) ? histogramKey : entries[0]?.key ?? "";
+  const selectedUnit = entries.find((e) => e.key === selectedKey)?.unit ?? "";
+
+  const distribution = useMemo(() => {
+    const values = data.find((d) => d.key === selectedKey)?.response.values ?? [];
+    return histogram(values, bins).map((b) => ({ ...b, label: `${fmt(b.from)}–${fmt(b.to)}` }));
+  }, [data, selectedKey, bins]);
+
+  if (!entries.length) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Statistics</CardTitle>
+        <p className="text-sm text-muted-foreground">{windowLabel}</p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* PER-SERIES CARDS */}
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {entries.map(({ key, unit, summary }) => (
+            <div key={key} className="rounded-md border border-border p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: colorOf(key) }} />
+                <span className="font-medium truncate">{key}</span>
+                {unit && <span className="text-xs text-muted-foreground">({unit})</span>}
+              </div>
+              <div className="grid grid-cols-3 gap-3 text-sm">
+                <StatCell label="Min" value={fmt(summary.min)} />
+                <StatCell label="Max" value={fmt(summary.max)} />
+                <StatCell label="Mean" value={fmt(summary.mean)} />
+                <StatCell label="Std dev (σ)" value={fmt(summary.stdDev)} />
+                <StatCell label="First" value={fmt(summary.first)} />
+                <StatCell label="Last" value={fmt(summary.last)} />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {summary.count.toLocaleString()} samples
+                {summary.firstTime && summary.lastTime
+                  ? ` · ${formatInZone(summary.firstTime, "MMM dd HH:mm", timeZone)} – ${formatInZone(summary.lastTime, "MMM dd HH:mm", timeZone)}`
+                  : ""}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {/* DISTRIBUTION */}
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <p className="font-semibold">Distribution</p>
+            <select value={selectedKey} onChange={(e) => setHistogramKey(e.target.value)} className={selectClass}>
+              {entries.map((e) => (
+                <option key={e.key} value={e.key}>
+                  {e.key}
+                </option>
+              ))}
+            </select>
+            <select value={bins} onChange={(e) => setBins(Number(e.target.value))} className={selectClass}>
+              {BIN_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n} bins
+                </option>
+              ))}
+            </select>
+          </div>
+          <ResponsiveContainer width="100%" height={240}>
+            <BarChart data={distribution}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" fontSize={11} interval="preserveStartEnd" />
+              <YAxis allowDecimals={false} />
+              <Tooltip
+                formatter={(value) => [`${value} samples`, "Count"]}
+                labelFormatter={(label) => `${label}${selectedUnit ? ` ${selectedUnit}` : ""}`}
+              />
+              <Bar dataKey="count" fill={colorOf(selectedKey)} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
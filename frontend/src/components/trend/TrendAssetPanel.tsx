@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Asset, IMapping } from "@/api/assetApi";
+import { seriesKey } from "@/lib/trend";
+
+interface TrendAssetPanelProps {
+  title: string;
+  // Prefix of the guided-tour anchors; only the first two panels carry them
+  tourId?: "main" | "compare";
+  assets: Asset[];
+  assetId: string;
+  onAssetChange: (assetId: string) => void;
+  onRemove?: () => void;
+  loading?: boolean;
+  signals: IMapping[];
+  selected: string[];
+  onToggleSignal: (signalTypeId: string) => void;
+  colorOf: (key: string) => string;
+  onColorChange: (key: string, color: string) => void;
+  deviceNames: string[];
+}
+
+export const TrendAssetPanel = ({
+  title,
+  tourId,
+  assets,
+  assetId,
+  onAssetChange,
+  onRemove,
+  loading = false,
+  signals,
+  selected,
+  onToggleSignal,
+  colorOf,
+  onColorChange,
+  deviceNames,
+}: TrendAssetPanelProps) => {
+  const [dropdownOpen, setDropdownOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+        setDropdownOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handler);
+    return () => document.removeEventListener("mousedown", handler);
+  }, []);
+
+  const assetName = assets.find((a) => a.assetId === assetId)?.name ?? "";
+  const selectedSignals = signals.filter((s) => selected.includes(s.signalTypeId));
+  const tour = (anchor: string) => (tourId ? `tour-${tourId}-${anchor}` : "");
+
+  return (
+    <Card className={tour("asset-card")}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>{title}</CardTitle>
+        {onRemove && (
+          <Button variant="ghost" size="icon" onClick={onRemove} title="Remove asset from chart">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Asset Dropdown */}
+        <div>
+          <label className="block mb-2 font-semibold">Select Asset:</label>
+          {loading ? (
+            <p>Loading...</p>
+          ) : (
+            <select
+              value={assetId}
+              onChange={(e) => onAssetChange(e.target.value)}
+              className={`${tour("asset-dropdown")} w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary`}
+            >
+              <option value="">--Select Asset--</option>
+              {assets.map((a) => (
+                <option key={a.assetId} value={a.assetId}>
+                  {a.name} (Level {a.level})
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {assetId && (
+          <>
+            {/* Signal Selection - Multiple Select */}
+            <div ref={dropdownRef} className={`${tour("signals")} relative`}>
+              <label className="block mb-2 font-semibold">Signals ({selected.length} selected)</label>
+
+              <Button
+                variant="outline"
+                className="w-full justify-between"
+                onClick={() => setDropdownOpen((o) => !o)}
+                disabled={!signals.length}
+              >
+                {selected.length === 0 ? "Select signals" : `${selected.length} signal(s) selected`}
+              </Button>
+
+              {dropdownOpen && (
+                <div className="absolute z-50 mt-1 w-full max-h-60 overflow-y-auto rounded-lg border bg-white dark:bg-gray-800 shadow-lg">
+                  {signals.map((signal) => (
+                    <div
+                      key={signal.signalTypeId}
+                      className="flex items-center gap-2 p-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700"
+                      onClick={() => onToggleSignal(signal.signalTypeId)}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(signal.signalTypeId)}
+                        readOnly
+                        className="w-4 h-4"
+                      />
+                      <span>{signal.signalName}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {selectedSignals.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {selectedSignals.map((signal) => {
+                    const key = seriesKey({ assetName, signalName: signal.signalName });
+                    return (
+                      <div key={signal.signalTypeId} className="flex items-center gap-2">
+                        <span className="flex-1">{signal.signalName}</span>
+                        <input
+                          type="color"
+                          value={colorOf(key)}
+                          onChange={(e) => onColorChange(key, e.target.value)}
+                          className="w-8 h-8 p-0 border-0 rounded"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Device */}
+            <div>
+              <label className={`${tour("device")} block mb-2 font-semibold`}>Assigned Device:</label>
+              <p className="text-foreground">{deviceNames.length ? deviceNames.join(", ") : "Not Assigned"}</p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
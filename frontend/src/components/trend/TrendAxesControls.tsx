@@ -0,0 +1,103 @@
+import { Layers, RotateCcw, SquareStack } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { axisLabel, type AxisSettings, type AxisSide, type TrendAxis, type TrendLayout } from "@/lib/trendAxes";
+
+interface TrendAxesControlsProps {
+  axes: TrendAxis[];
+  settings: Record<string, AxisSettings>;
+  onSettingsChange: (unit: string, settings: AxisSettings) => void;
+  layout: TrendLayout;
+  onLayoutChange: (layout: TrendLayout) => void;
+}
+
+const selectClass =
+  "rounded-md border border-border bg-background px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary";
+
+// Empty input clears the bound back to auto
+const parseBound = (v: string) => {
+  if (v.trim() === "") return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+export const TrendAxesControls = ({ axes, settings, onSettingsChange, layout, onLayoutChange }: TrendAxesControlsProps) => {
+  if (axes.length === 0) return null;
+
+  const update = (unit: string, patch: AxisSettings) => onSettingsChange(unit, { ...settings[unit], ...patch });
+
+  return (
+    <div className="rounded-md border border-border p-3 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-semibold">Y Axes</p>
+        {axes.length > 1 && (
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={layout === "overlay" ? "default" : "outline"}
+              onClick={() => onLayoutChange("overlay")}
+              className="flex items-center gap-1"
+            >
+              <Layers className="w-4 h-4" />
+              Overlay
+            </Button>
+            <Button
+              size="sm"
+              variant={layout === "stacked" ? "default" : "outline"}
+              onClick={() => onLayoutChange("stacked")}
+              className="flex items-center gap-1"
+            >
+              <SquareStack className="w-4 h-4" />
+              Stacked
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {axes.map((axis) => {
+        const current = settings[axis.unit] ?? {};
+        return (
+          <div key={axis.id} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="w-28 truncate font-medium" title={axis.keys.join(", ")}>
+              {axisLabel(axis.unit)} ({axis.keys.length})
+            </span>
+            {layout === "overlay" && (
+              <select
+                value={axis.side}
+                onChange={(e) => update(axis.unit, { side: e.target.value as AxisSide })}
+                className={selectClass}
+              >
+                <option value="left">Left</option>
+                <option value="right">Right</option>
+              </select>
+            )}
+            <Input
+              type="number"
+              placeholder="Min (auto)"
+              value={current.min ?? ""}
+              onChange={(e) => update(axis.unit, { min: parseBound(e.target.value) })}
+              className="h-8 w-28"
+            />
+            <Input
+              type="number"
+              placeholder="Max (auto)"
+              value={current.max ?? ""}
+              onChange={(e) => update(axis.unit, { max: parseBound(e.target.value) })}
+              className="h-8 w-28"
+            />
+            {axis.manual && (
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Back to automatic scaling"
+                onClick={() => update(axis.unit, { min: undefined, max: undefined })}
+              >
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
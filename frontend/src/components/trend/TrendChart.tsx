@@ -0,0 +1,389 @@
+import { useState } from "react";
+import {
+  CartesianGrid,
+  Dot,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+  type DotItemDotProps,
+  type DotProps,
+  type TooltipContentProps,
+} from "recharts";
+import { THRESHOLD_BAND_FILL, THRESHOLD_LINE_STROKE, type SignalThresholds } from "@/lib/thresholds";
+import { referenceAt, type ReferencePoint, type TrendRow } from "@/lib/trend";
+import { axisLabel, axisOfKey, type TrendAxis, type TrendLayout } from "@/lib/trendAxes";
+import type { MeasureCursors } from "@/lib/measure";
+import { formatInZone } from "@/lib/time";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+
+/* ---------------- Tooltip with reference deltas ---------------- */
+type TrendTooltipProps = Pick<TooltipContentProps<number, string>, "active" | "payload" | "label"> & {
+  referencePoint: ReferencePoint | null;
+  timeZone: string;
+};
+
+const deltaClass = (v: number) => (v > 0 ? "text-green-600" : v < 0 ? "text-red-600" : "");
+
+const TrendTooltip = ({ active, payload, label, referencePoint, timeZone }: TrendTooltipProps) => {
+  if (!active || !payload || payload.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 text-card-foreground shadow-lg">
+      <p className="font-semibold mb-2">{formatInZone(Number(label), "MMM dd HH:mm:ss", timeZone)}</p>
+
+      {payload.map((entry) => {
+        const name = String(entry.name);
+        const current = typeof entry.value === "number" ? entry.value : null;
+        const refValue = referencePoint?.values[name];
+        const difference = refValue != null && current != null ? current - refValue : null;
+        const percentChange = difference != null && refValue ? (difference / refValue) * 100 : null;
+
+        return (
+          <div key={name} className="mb-2 pb-2 border-b last:border-b-0">
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.color }} />
+              <span className="font-medium">{name}</span>
+            </div>
+
+            <div className="ml-5 mt-1 space-y-1 text-sm">
+              <div>
+                <span className="text-muted-foreground">Current: </span>
+                <span className="font-semibold">{current?.toFixed(2) ?? "—"}</span>
+              </div>
+
+              {refValue != null && difference != null && (
+                <>
+                  <div>
+                    <span className="text-muted-foreground">Reference: </span>
+                    <span className="font-semibold">{refValue.toFixed(2)}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Difference: </span>
+                    <span className={`font-semibold ${deltaClass(difference)}`}>
+                      {difference > 0 ? "+" : ""}
+                      {difference.toFixed(2)}
+                    </span>
+                  </div>
+                  {percentChange != null && (
+                    <div>
+                      <span className="text-muted-foreground">Change: </span>
+                      <span className={`font-semibold ${deltaClass(percentChange)}`}>
+                        {percentChange > 0 ? "+" : ""}
+                        {percentChange.toFixed(2)}%
+                      </span>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {referencePoint && (
+        <p className="mt-2 border-t pt-2 text-xs text-muted-foreground">
+          Reference Point: {formatInZone(referencePoint.time, "MMM dd HH:mm:ss", timeZone)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const ReferencePointDot = ({ cx, cy }: DotProps) => (
+  <g>
+    <circle cx={cx} cy={cy} r={8} fill="#ff6b6b" stroke="#fff" strokeWidth={2} />
+    <circle cx={cx} cy={cy} r={3} fill="#fff" />
+  </g>
+);
+
+/* ---------------------------- Chart ---------------------------- */
+interface TrendChartProps {
+  rows: TrendRow[];
+  keys: string[];
+  axes: TrendAxis[];
+  layout: TrendLayout;
+  // Series toggled off stay in the legend, greyed out, so they can be toggled back
+  hidden: Set<string>;
+  onToggleSeries: (key: string) => void;
+  colorOf: (key: string) => string;
+  thresholds: { key: string; thresholds: SignalThresholds }[];
+  // Mean line with a ±1σ band per series, when statistical overlays are on
+  bands: { key: string; mean: number; stdDev: number }[];
+  // Overlay series (rolling averages) drawn dashed
+  dashedKeys: Set<string>;
+  referencePoint: ReferencePoint | null;
+  selectingReference: boolean;
+  onPickReference: (point: ReferencePoint) => void;
+  onZoom: (start: number, end: number) => void;
+  // Measure mode: press places or grabs cursor A/B, dragging moves it
+  measuring: boolean;
+  cursors: MeasureCursors;
+  onCursorsChange: (cursors: MeasureCursors) => void;
+}
+
+const CHART_HEIGHT = 400;
+const MIN_SUBPLOT_HEIGHT = 160;
+
+const CURSOR_COLORS = { a: "#2563eb", b: "#9333ea" } as const;
+
+// A press this close to a cursor (as a share of the visible span) grabs it instead of placing one
+const CURSOR_GRAB_TOLERANCE = 0.02;
+
+// Drag to select a window to zoom into; while picking a reference, a click pins that instant instead,
+// and in measure mode presses and drags move the two cursors
+export const TrendChart = ({
+  rows,
+  keys,
+  axes,
+  layout,
+  hidden,
+  onToggleSeries,
+  colorOf,
+  thresholds,
+  bands,
+  dashedKeys,
+  referencePoint,
+  selectingReference,
+  onPickReference,
+  onZoom,
+  measuring,
+  cursors,
+  onCursorsChange,
+}: TrendChartProps) => {
+  const [refAreaLeft, setRefAreaLeft] = useState<number | undefined>(undefined);
+  const [refAreaRight, setRefAreaRight] = useState<number | undefined>(undefined);
+  const [dragging, setDragging] = useState<keyof MeasureCursors | null>(null);
+  const timeZone = useTimeZone();
+
+  const canZoom = !selectingReference && !measuring;
+
+  const activeTime = (label: unknown) => (label === undefined || label === null ? undefined : Number(label));
+
+  const handleClick = (label: unknown) => {
+    const time = activeTime(label);
+    if (!selectingReference || time === undefined) return;
+    const point = referenceAt(rows, keys, time);
+    if (point) onPickReference(point);
+  };
+
+  /* ---- Measurement cursors ---- */
+  const span = rows.length > 1 ? rows[rows.length - 1].time - rows[0].time : 0;
+
+  // Cursors keep their exact time; the drawn line sits on the nearest plotted sample
+  const snap = (time: number | null) => (time === null ? null : referenceAt(rows, [], time)?.time ?? null);
+
+  const grabCursor = (time: number) => {
+    const near = (["a", "b"] as const)
+      .filter((c) => cursors[c] !== null && Math.abs(cursors[c]! - time) <= span * CURSOR_GRAB_TOLERANCE)
+      .sort((x, y) => Math.abs(cursors[x]! - time) - Math.abs(cursors[y]! - time))[0];
+    if (near) return near;
+    if (cursors.a === null) return "a";
+    if (cursors.b === null) return "b";
+    return Math.abs(cursors.a - time) <= Math.abs(cursors.b - time) ? "a" : "b";
+  };
+
+  const handleMouseDown = (label: unknown) => {
+    const time = activeTime(label);
+    if (measuring) {
+      if (time === undefined) return;
+      const cursor = grabCursor(time);
+      setDragging(cursor);
+      onCursorsChange({ ...cursors, [cursor]: time });
+    } else if (canZoom) {
+      setRefAreaLeft(time);
+    }
+  };
+
+  const handleMouseMove = (label: unknown) => {
+    const time = activeTime(label);
+    if (measuring) {
+      if (dragging && time !== undefined && time !== cursors[dragging]) onCursorsChange({ ...cursors, [dragging]: time });
+    } else if (canZoom && refAreaLeft !== undefined) {
+      setRefAreaRight(time);
+    }
+  };
+
+  const handleMouseUp = () => {
+    setDragging(null);
+    if (canZoom && refAreaLeft !== undefined && refAreaRight !== undefined && refAreaLeft !== refAreaRight) {
+      onZoom(refAreaLeft, refAreaRight);
+    }
+    setRefAreaLeft(undefined);
+    setRefAreaRight(undefined);
+  };
+
+  const cursorA = snap(cursors.a);
+  const cursorB = snap(cursors.b);
+
+  // One LineChart over the given axes; stacked layouts render one per axis, synced on the time axis
+  const renderPlot = (plotAxes: TrendAxis[], height: number, showTime: boolean, plotKey: string) => {
+    if (!plotAxes.length) return null;
+    const primaryAxisId = plotAxes[0].id;
+    const plotKeys = plotAxes.flatMap((a) => a.keys);
+    const visibleKeys = plotKeys.filter((key) => !hidden.has(key));
+    const visibleThresholds = thresholds.filter((t) => plotKeys.includes(t.key) && !hidden.has(t.key));
+    const axisIdOf = (key: string) => axisOfKey(plotAxes, key)?.id ?? primaryAxisId;
+    const overflowOf = (key: string) => (axisOfKey(plotAxes, key)?.manual ? "hidden" : "extendDomain");
+
+    return (
+      <ResponsiveContainer key={plotKey} width="100%" height={height}>
+        <LineChart
+          data={rows}
+          syncId={layout === "stacked" ? "trend-subplots" : undefined}
+          onClick={(e) => handleClick(e?.activeLabel)}
+          onMouseDown={(e) => handleMouseDown(e?.activeLabel)}
+          onMouseMove={(e) => handleMouseMove(e?.activeLabel)}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => setDragging(null)}
+          style={{ cursor: selectingReference ? "crosshair" : measuring ? "ew-resize" : "default" }}
+        >
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="time" hide={!showTime} tickFormatter={(tick) => formatInZone(tick, "MMM dd HH:mm", timeZone)} />
+          {plotAxes.map((axis) => (
+            <YAxis
+              key={axis.id}
+              yAxisId={axis.id}
+              orientation={axis.side}
+              domain={axis.domain}
+              allowDataOverflow={axis.manual}
+              hide={axis.keys.every((key) => hidden.has(key))}
+              label={{ value: axisLabel(axis.unit), angle: -90, position: axis.side === "left" ? "insideLeft" : "insideRight", fontSize: 12 }}
+            />
+          ))}
+          <Tooltip
+            content={({ active, payload, label }: TooltipContentProps<number, string>) => (
+              <TrendTooltip active={active} payload={payload} label={label} referencePoint={referencePoint} timeZone={timeZone} />
+            )}
+          />
+          <Legend onClick={(entry) => onToggleSeries(String(entry.dataKey))} wrapperStyle={{ cursor: "pointer" }} />
+
+          {/* Threshold band: only unambiguous with a single plotted series */}
+          {visibleThresholds.length === 1 && visibleKeys.length === 1 && (
+            <ReferenceArea
+              yAxisId={axisIdOf(visibleThresholds[0].key)}
+              y1={visibleThresholds[0].thresholds.min}
+              y2={visibleThresholds[0].thresholds.max}
+              fill={THRESHOLD_BAND_FILL}
+              fillOpacity={0.08}
+              ifOverflow={overflowOf(visibleThresholds[0].key)}
+            />
+          )}
+          {visibleThresholds.flatMap(({ key, thresholds: limits }) =>
+            (["min", "max"] as const)
+              .filter((bound) => limits[bound] !== undefined)
+              .map((bound) => (
+                <ReferenceLine
+                  key={`${key}-${bound}`}
+                  yAxisId={axisIdOf(key)}
+                  y={limits[bound]}
+                  stroke={visibleKeys.length === 1 ? THRESHOLD_LINE_STROKE : colorOf(key)}
+                  strokeDasharray="4 4"
+                  ifOverflow={overflowOf(key)}
+                  label={{ value: `${key} ${bound}`, position: "insideTopRight", fontSize: 10, fill: "#64748b" }}
+                />
+              ))
+          )}
+
+          {bands
+            .filter((b) => plotKeys.includes(b.key) && !hidden.has(b.key))
+            .flatMap(({ key, mean, stdDev }) => [
+              <ReferenceArea
+                key={`${key}-sigma`}
+                yAxisId={axisIdOf(key)}
+                y1={mean - stdDev}
+                y2={mean + stdDev}
+                fill={colorOf(key)}
+                fillOpacity={0.08}
+                ifOverflow={overflowOf(key)}
+              />,
+              <ReferenceLine
+                key={`${key}-mean`}
+                yAxisId={axisIdOf(key)}
+                y={mean}
+                stroke={colorOf(key)}
+                strokeDasharray="2 4"
+                ifOverflow={overflowOf(key)}
+                label={{ value: `${key} mean`, position: "insideBottomLeft", fontSize: 10, fill: "#64748b" }}
+              />,
+            ])}
+
+          {referencePoint && (
+            <ReferenceLine
+              yAxisId={primaryAxisId}
+              x={referencePoint.time}
+              stroke="#ff6b6b"
+              strokeWidth={2}
+              strokeDasharray="5 5"
+              label={{ value: "Reference", position: "top", fill: "#ff6b6b", fontSize: 12 }}
+            />
+          )}
+
+          {plotKeys.map((key) => (
+            <Line
+              key={key}
+              yAxisId={axisIdOf(key)}
+              type="monotone"
+              dataKey={key}
+              stroke={colorOf(key)}
+              name={key}
+              hide={hidden.has(key)}
+              strokeDasharray={dashedKeys.has(key) ? "6 3" : undefined}
+              dot={
+                referencePoint
+                  ? ({ cx, cy, index, payload }: DotItemDotProps) =>
+                      (payload as TrendRow | undefined)?.time === referencePoint.time ? (
+                        <ReferencePointDot key={index} cx={cx} cy={cy} />
+                      ) : (
+                        <Dot key={index} cx={cx} cy={cy} r={0} />
+                      )
+                  : false
+              }
+              strokeWidth={dashedKeys.has(key) ? 1.5 : 2}
+              activeDot={{ r: 6 }}
+              connectNulls
+            />
+          ))}
+
+          {measuring && cursorA !== null && cursorB !== null && (
+            <ReferenceArea yAxisId={primaryAxisId} x1={cursorA} x2={cursorB} fill="#6366f1" fillOpacity={0.06} />
+          )}
+          {measuring &&
+            (["a", "b"] as const).map((c) => {
+              const x = c === "a" ? cursorA : cursorB;
+              return (
+                x !== null && (
+                  <ReferenceLine
+                    key={`cursor-${c}`}
+                    yAxisId={primaryAxisId}
+                    x={x}
+                    stroke={CURSOR_COLORS[c]}
+                    strokeWidth={2}
+                    label={{ value: c.toUpperCase(), position: "top", fill: CURSOR_COLORS[c], fontSize: 12 }}
+                  />
+                )
+              );
+            })}
+
+          {canZoom && refAreaLeft !== undefined && refAreaRight !== undefined && (
+            <ReferenceArea yAxisId={primaryAxisId} x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  if (layout === "overlay" || axes.length < 2) return renderPlot(axes, CHART_HEIGHT, true, "overlay");
+
+  const subplotHeight = Math.max(MIN_SUBPLOT_HEIGHT, Math.round(CHART_HEIGHT / axes.length));
+  return (
+    <div className="space-y-2">
+      {axes.map((axis, index) => renderPlot([axis], subplotHeight, index === axes.length - 1, axis.id))}
+    </div>
+  );
+};
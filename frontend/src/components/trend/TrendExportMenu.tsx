@@ -0,0 +1,86 @@
+import type { RefObject } from "react";
+import { toast } from "react-toastify";
+import { Download } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import {
+  buildChartSvg,
+  buildTrendTable,
+  exportChartPng,
+  exportChartSvg,
+  exportTrendCsv,
+  exportTrendXlsx,
+  type ChartLegendItem,
+  type ExportSeries,
+  type TrendExportInfo,
+} from "@/lib/trendExport";
+import { formatInZone } from "@/lib/time";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+
+interface TrendExportMenuProps {
+  // Visible series at the resolution the chart was loaded with
+  series: ExportSeries[];
+  // Wraps the rendered chart; its SVG surfaces become the image
+  chartRef: RefObject<HTMLDivElement | null>;
+  legend: ChartLegendItem[];
+  title: string;
+  info: TrendExportInfo;
+  disabled: boolean;
+}
+
+export const TrendExportMenu = ({ series, chartRef, legend, title, info, disabled }: TrendExportMenuProps) => {
+  const timeZone = useTimeZone();
+  const fileName = () => `trend_${formatInZone(Date.now(), "yyyyMMdd_HHmm", timeZone)}`;
+
+  const exportData = (kind: "csv" | "xlsx") => {
+    const table = buildTrendTable(series, timeZone);
+    if (!table.rows.length) {
+      toast.error("Nothing to export for the visible series");
+      return;
+    }
+    if (kind === "csv") exportTrendCsv(table, fileName());
+    else exportTrendXlsx(table, series, info, fileName());
+  };
+
+  const exportImage = async (kind: "png" | "svg") => {
+    const image = chartRef.current ? buildChartSvg(chartRef.current, title, legend) : null;
+    if (!image) {
+      toast.error("The chart is not ready to export yet");
+      return;
+    }
+    try {
+      if (kind === "svg") exportChartSvg(image, fileName());
+      else await exportChartPng(image, fileName());
+    } catch (err) {
+      console.error("Chart export failed", err);
+      toast.error("Failed to export the chart image");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} className="flex items-center gap-2">
+          <Download className="w-4 h-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48 bg-card border border-border">
+        <DropdownMenuLabel>Data</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => exportData("csv")}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportData("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Chart</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => exportImage("png")}>PNG image</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportImage("svg")}>SVG image</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,88 @@
+import { format } from "date-fns";
+import { Calendar as CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TREND_RANGE_LABELS, type TrendRange } from "@/lib/trend";
+
+interface SingleDatePickerProps {
+  value: Date | null;
+  onChange: (date: Date | null) => void;
+  placeholder: string;
+  disabled: (date: Date) => boolean;
+}
+
+const SingleDatePicker = ({ value, onChange, placeholder, disabled }: SingleDatePickerProps) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button variant="outline">
+        <CalendarIcon className="mr-2 h-4 w-4" />
+        {value ? format(value, "PPP") : placeholder}
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className="w-auto p-0">
+      <Calendar
+        mode="single"
+        selected={value ?? undefined}
+        onSelect={(d) => onChange(d ?? null)}
+        disabled={disabled}
+        initialFocus
+      />
+    </PopoverContent>
+  </Popover>
+);
+
+interface TrendRangePickerProps {
+  range: TrendRange;
+  onRangeChange: (range: TrendRange) => void;
+  customStart: Date | null;
+  customEnd: Date | null;
+  onCustomStartChange: (date: Date | null) => void;
+  onCustomEndChange: (date: Date | null) => void;
+}
+
+export const TrendRangePicker = ({
+  range,
+  onRangeChange,
+  customStart,
+  customEnd,
+  onCustomStartChange,
+  onCustomEndChange,
+}: TrendRangePickerProps) => (
+  <Card className="tour-time-range">
+    <CardHeader>
+      <CardTitle>Time Range</CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <select
+        value={range}
+        onChange={(e) => onRangeChange(e.target.value as TrendRange)}
+        className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+      >
+        {(Object.keys(TREND_RANGE_LABELS) as TrendRange[]).map((r) => (
+          <option key={r} value={r}>
+            {TREND_RANGE_LABELS[r]}
+          </option>
+        ))}
+      </select>
+      {range === "custom" && (
+        <div className="tour-custom-range flex flex-col gap-2 md:flex-row md:items-center md:gap-2">
+          <SingleDatePicker
+            value={customStart}
+            onChange={onCustomStartChange}
+            placeholder="Start Date"
+            disabled={(date) => date > new Date()}
+          />
+          <span>to</span>
+          <SingleDatePicker
+            value={customEnd}
+            onChange={onCustomEndChange}
+            placeholder="End Date"
+            disabled={(date) => (customStart ? date < customStart : false) || date > new Date()}
+          />
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,44 @@
+import { Fragment } from "react";
+import { ChevronRight } from "lucide-react";
+import type { ZoomWindow } from "@/hooks/use-trend-data";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { formatInZone } from "@/lib/time";
+
+interface ZoomBreadcrumbProps {
+  rangeLabel: string;
+  levels: ZoomWindow[];
+  onSelect: (level: number) => void;
+}
+
+const describeWindow = ({ start, end }: ZoomWindow, timeZone: string) => {
+  const at = (t: number, pattern: string) => formatInZone(t, pattern, timeZone);
+  return at(start, "yyyy-MM-dd") === at(end, "yyyy-MM-dd")
+    ? `${at(start, "MMM dd HH:mm:ss")} – ${at(end, "HH:mm:ss")}`
+    : `${at(start, "MMM dd HH:mm")} – ${at(end, "MMM dd HH:mm")}`;
+};
+
+// Full range first, then every drill-down level; clicking one returns to it
+export const ZoomBreadcrumb = ({ rangeLabel, levels, onSelect }: ZoomBreadcrumbProps) => {
+  const timeZone = useTimeZone();
+  const labels = [rangeLabel, ...levels.map((w) => describeWindow(w, timeZone))];
+
+  return (
+    <nav aria-label="Zoom levels" className="flex flex-wrap items-center gap-1 text-sm">
+      {labels.map((label, level) => {
+        const current = level === levels.length;
+        return (
+          <Fragment key={level}>
+            {level > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+            <button
+              onClick={() => onSelect(level)}
+              disabled={current}
+              className={`rounded px-2 py-0.5 ${current ? "bg-primary/10 font-semibold text-foreground" : "text-primary hover:underline"}`}
+            >
+              {label}
+            </button>
+          </Fragment>
+        );
+      })}
+    </nav>
+  );
+};
@@ -1,7 +1,10 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
 import authApi from "@/api/authApi";
 import { getCurrentUser,markTourCompleted } from "@/api/userApi";
+import { callApi } from "@/api/apiError";
+import { clearQueryCache } from "@/api/queryCache";
 import { clearTourData } from "@/hooks/tourStorage";
+import { clearPreferenceStores, setPreferenceOwner } from "@/hooks/preferenceStorage";
 
 interface User {
   username: string;
@@ -54,6 +57,11 @@ useEffect(() => {
     }
   }, [initialized]);
 
+  // Preference mirrors are kept per user; none is read or synced while signed out
+  useEffect(() => {
+    setPreferenceOwner(user?.email ?? null);
+  }, [user?.email]);
+
 
 
 
@@ -67,7 +75,7 @@ useEffect(() => {
   // };
 
   const login = async (email: string, password: string) => {
-  await authApi.post("/User/Login", { email, password });
+  await callApi(() => authApi.post("/User/Login", { email, password }), "Login failed");
 
   const currentUser = await getCurrentUser();
   const { userId, ...safeUser } = currentUser;
@@ -78,7 +86,10 @@ useEffect(() => {
 
  
   const verifyOtp = async (email: string, otp: string) => {
-    const response = await authApi.post("/User/OtpVerify", { email, otp });
+    const response = await callApi(
+      () => authApi.post("/User/OtpVerify", { email, otp }),
+      "OTP verification failed"
+    );
 
     // const currentUser = await getCurrentUser();
     // setUser(currentUser);
@@ -87,19 +98,24 @@ useEffect(() => {
 
  
   const signup = async (username: string, email: string, password: string) => {
-    await authApi.post("/User/Register", { username, email, password });
+    await callApi(
+      () => authApi.post("/User/Register", { username, email, password }),
+      "Registration failed"
+    );
   };
 
 
   const logout = async () => {
     try {
       clearTourData();
+      clearPreferenceStores();
       await markTourCompleted();
       await authApi.post("/User/Logout");
     } catch (err) {
       console.warn("Logout API failed:", err);
     } finally {
       // localStorage.removeItem("user");
+      clearQueryCache();
       setUser(null);
     }
   };
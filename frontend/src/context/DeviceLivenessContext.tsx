@@ -0,0 +1,107 @@
+// src/context/DeviceLivenessContext.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import { useHubEvent } from "@/hooks/use-realtime";
+import {
+  DeviceLivenessContext,
+  type DeviceLivenessEntry,
+} from "@/hooks/use-device-liveness";
+import { livenessOf } from "@/lib/liveness";
+
+const TICK_MS = 2000;
+
+type SeenRecord = Omit<DeviceLivenessEntry, "liveness">;
+
+export const DeviceLivenessProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [seen, setSeen] = useState<Map<string, SeenRecord>>(() => new Map());
+  const [now, setNow] = useState(() => Date.now());
+  const watchingSince = useRef(Date.now());
+  const previous = useRef<Map<string, DeviceLivenessEntry>>(new Map());
+
+  /** --------------------------------------------------------
+   * HEARTBEATS: every configured device, every ~5s
+  -------------------------------------------------------- */
+  useHubEvent("telemetry", "DeviceHeartbeat", (heartbeats) => {
+    if (!Array.isArray(heartbeats)) return;
+    setSeen(prev => {
+      const next = new Map<string, SeenRecord>();
+      for (const hb of heartbeats) {
+        const fromServer = hb.lastSeenUtc ? Date.parse(hb.lastSeenUtc) : NaN;
+        const known = prev.get(hb.deviceId)?.lastSeen ?? null;
+        next.set(hb.deviceId, {
+          deviceId: hb.deviceId,
+          name: hb.name,
+          pollIntervalMs: hb.pollIntervalMs,
+          // Live telemetry may be fresher than the heartbeat
+          lastSeen: Number.isNaN(fromServer) ? known : Math.max(fromServer, known ?? 0),
+        });
+      }
+      return next;
+    });
+  });
+
+  /** --------------------------------------------------------
+   * LIVE TELEMETRY: fresher for devices someone is watching
+  -------------------------------------------------------- */
+  useHubEvent("telemetry", "TelemetryUpdate", (payload) => {
+    const deviceId = Array.isArray(payload) ? payload[0]?.deviceId : undefined;
+    if (!deviceId) return;
+    // A batch of failed reads means the device answered, but with nothing usable
+    if (!payload.some(dto => !dto.consecutiveFailures)) return;
+    setSeen(prev => {
+      const current = prev.get(deviceId);
+      if (!current) return prev;
+      const next = new Map(prev);
+      next.set(deviceId, { ...current, lastSeen: Date.now() });
+      return next;
+    });
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const devices = useMemo(() => {
+    const out = new Map<string, DeviceLivenessEntry>();
+    for (const [id, record] of seen) {
+      out.set(id, {
+        ...record,
+        liveness: livenessOf(record.lastSeen, record.pollIntervalMs, now, watchingSince.current),
+      });
+    }
+    return out;
+  }, [seen, now]);
+
+  /** --------------------------------------------------------
+   * NOTIFY WHEN A DEVICE CROSSES THE OFFLINE THRESHOLD
+   * Devices already offline when we start watching are only
+   * counted, not announced.
+  -------------------------------------------------------- */
+  useEffect(() => {
+    for (const [id, entry] of devices) {
+      const before = previous.current.get(id)?.liveness;
+      if (entry.liveness === "offline" && (before === "live" || before === "stale")) {
+        toast.warning(`${entry.name} went offline — no data for over ${Math.round((now - (entry.lastSeen ?? now)) / 1000)}s`, {
+          toastId: `device-offline-${id}`,
+          autoClose: 8000,
+        });
+      }
+      if (before === "offline" && entry.liveness === "live") {
+        toast.success(`${entry.name} is back online`, { toastId: `device-online-${id}` });
+      }
+    }
+    previous.current = devices;
+  }, [devices, now]);
+
+  const offlineCount = useMemo(
+    () => [...devices.values()].filter(d => d.liveness === "offline").length,
+    [devices]
+  );
+
+  return (
+    <DeviceLivenessContext.Provider value={{ devices, offlineCount, now }}>
+      {children}
+    </DeviceLivenessContext.Provider>
+  );
+};
@@ -1,8 +1,8 @@
 // src/context/NotificationContext.tsx
-import React, { createContext, useContext, useState, useEffect } from "react";
-import * as signalR from "@microsoft/signalr";
+import React, { createContext, useContext, useState, useEffect, useRef } from "react";
 import { toast } from "react-toastify";
 import { AssetAlertToast } from "../notification/AssetAlertToast";
+import { useHubEvent } from "@/hooks/use-realtime";
 
 import {
   getAllNotifications,
@@ -130,42 +130,52 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
 
   /** ===================================================
    * SIGNALR REAL-TIME NOTIFICATIONS
+   * The hub connection is shared (RealtimeContext); only the
+   * handler reads the current tab, so switching tabs no longer
+   * tears the connection down.
   =================================================== */
-  useEffect(() => {
-    const connection = new signalR.HubConnectionBuilder()
-      .withUrl(`${import.meta.env.VITE_API_URL}/api/asset/hubs/notifications`, { withCredentials: true })
-      .withAutomaticReconnect()
-      .build();
-
-    connection.start().catch(console.error);
-
-    connection.on("ReceiveNotification", (notif: NotificationType) => {
-      playNotificationSound();
-
-      let parsed = null;
-      try {
-        parsed = typeof notif.text === "string" ? JSON.parse(notif.text) : notif.text;
-      } catch (err) {
-        console.error("JSON parse failed", err);
-      }
-      const data = parsed ? structuredClone(parsed) : null;
-
-      toast(() => <AssetAlertToast data={data} />, {
-        position: "top-right",
-        autoClose: 7000,
-        pauseOnHover: true,
-        closeOnClick: true,
-        draggable: true,
-      });
+  const activeTabRef = useRef(activeTab);
+  activeTabRef.current = activeTab;
 
-      setUnreadCount(prev => prev + 1);
+  useHubEvent("notifications", "ReceiveNotification", (notif) => {
+    playNotificationSound();
 
-      // Only add to list if tab is not "read"
-      if (activeTab !== "read") setRendered(prev => [notif, ...prev]);
+    let parsed = null;
+    try {
+      parsed = typeof notif.text === "string" ? JSON.parse(notif.text) : notif.text;
+    } catch (err) {
+      console.error("JSON parse failed", err);
+    }
+    const data = parsed ? structuredClone(parsed) : null;
+
+    toast(() => <AssetAlertToast data={data} />, {
+      position: "top-right",
+      autoClose: 7000,
+      pauseOnHover: true,
+      closeOnClick: true,
+      draggable: true,
     });
 
-    return () => connection.stop();
-  }, [activeTab]);
+    setUnreadCount(prev => prev + 1);
+
+    // Only add to list if tab is not "read"
+    if (activeTabRef.current !== "read") {
+      setRendered(prev => [
+        {
+          recipientId: "",
+          notificationId: notif.id,
+          title: notif.title,
+          text: notif.text,
+          isRead: false,
+          isAcknowledged: false,
+          createdAt: notif.createdAt,
+          readAt: null,
+          acknowledgedAt: null,
+        },
+        ...prev,
+      ]);
+    }
+  });
 
   /** ===================================================
    * MARK SINGLE NOTIFICATION READ
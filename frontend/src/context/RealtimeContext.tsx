@@ -0,0 +1,27 @@
+// src/context/RealtimeContext.tsx
+import React, { useEffect, useState } from "react";
+import { hubManager, type HubStates } from "@/api/hubManager";
+import { RealtimeContext } from "@/hooks/use-realtime";
+
+export const RealtimeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [hubs, setHubs] = useState<HubStates>(() => hubManager.getStates());
+
+  /** --------------------------------------------------------
+   * ONE CONNECTION PER HUB FOR THE SESSION
+  -------------------------------------------------------- */
+  useEffect(() => {
+    const unsubscribe = hubManager.onStateChange(setHubs);
+    hubManager.startAll();
+
+    return () => {
+      unsubscribe();
+      hubManager.stopAll();
+    };
+  }, []);
+
+  return (
+    <RealtimeContext.Provider value={{ hubs, manager: hubManager }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
@@ -96,9 +96,7 @@ export default function AddDeviceForm() {
       toast.success("Device created successfully!");
       navigate("/devices");
     } catch (err: any) {
-      toast.error(
-        err?.response?.data?.message || "Failed to create device"
-      );
+      toast.error(err?.message || "Failed to create device");
     } finally {
       setLoading(false);
     }
@@ -1,6 +1,7 @@
 import React, { useEffect, useState, useCallback } from "react";
 import { useParams } from "react-router-dom";
 import api from "@/api/axios";
+import { invalidateQueries, queryKey, QueryScope } from "@/api/queryCache";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,6 +11,9 @@ import { Label } from "@/components/ui/label";
 import { Plus, Save, X, Edit2, Trash2, Database, Loader, Settings2, Cable } from "lucide-react";
 import { toast } from "react-toastify";
 import apiAsset from "@/api/axiosAsset";
+import { RegisterHealthBadge } from "@/components/signals/RegisterHealthBadge";
+import { registerHealthKey, useRegisterHealth } from "@/hooks/use-register-health";
+import { healthStatusOf, isUnhealthy } from "@/lib/registerHealth";
 
 export type RegisterPayload = {
   registerId?: string;
@@ -70,11 +74,24 @@ export default function ModbusPortManager() {
   const [signals, setSignals] = useState<Array<{ id: number; name: string }>>([]);
   const params = useParams<{ id?: string }>();
   const [existingMappings, setExistingMappings] = useState<string[]>([]);
+  const [onlyUnhealthy, setOnlyUnhealthy] = useState(false);
 
   const deviceId = params.id;
 
   const selectedSlave = slaves.find(p => p.slaveIndex === selectedSlaveIndex) ?? null;
 
+  // Live read health from the poller, combined with the persisted isHealthy flag
+  const liveHealth = useRegisterHealth(deviceId);
+  const registerStatus = (slaveIndex: number, reg: RegisterPayload) =>
+    healthStatusOf(liveHealth.get(registerHealthKey(slaveIndex, reg.registerAddress)), reg.isHealthy);
+  const unhealthyIn = (slave: SlaveData) =>
+    slave.registers.filter(reg => isUnhealthy(registerStatus(slave.slaveIndex, reg))).length;
+
+  // Keep the original index: edit / delete address registers by position
+  const visibleRegisters = (selectedSlave?.registers ?? [])
+    .map((reg, idx) => ({ reg, idx }))
+    .filter(({ reg }) => !onlyUnhealthy || isUnhealthy(registerStatus(selectedSlave!.slaveIndex, reg)));
+
   // Helper: returns the leading digit based on register type
   const typeDigit = (t?: RegisterPayload["registerType"]) => {
     switch (t) {
@@ -433,6 +450,7 @@ export default function ModbusPortManager() {
         await api.post(`/devices/${deviceId}/ports`, payload);
         toast.success("Slave created on server");
       }
+      if (deviceId) invalidateQueries(queryKey(QueryScope.Devices, deviceId));
 
       await loadSlaves();
     } catch (err: any) {
@@ -506,9 +524,12 @@ export default function ModbusPortManager() {
                       <p className="text-xs text-muted-foreground mt-1">
                         {slave.registers.length} registers
                       </p>
+                      {unhealthyIn(slave) > 0 && (
+                        <p className="text-xs text-red-600 mt-0.5">{unhealthyIn(slave)} unhealthy</p>
+                      )}
                     </div>
                     <div
-                      className={`w-3 h-3 rounded-full ${slave.isHealthy ? "bg-emerald-500" : "bg-red-500"}`}
+                      className={`w-3 h-3 rounded-full ${!slave.isHealthy ? "bg-red-500" : unhealthyIn(slave) > 0 ? "bg-amber-500" : "bg-emerald-500"}`}
                     ></div>
                   </div>
                 </button>
@@ -762,12 +783,28 @@ export default function ModbusPortManager() {
                 )}
 
                 {/* Registers List */}
+                {selectedSlave.registers.length > 0 && (
+                  <div className="flex items-center justify-end gap-2">
+                    <Checkbox
+                      id="onlyUnhealthy"
+                      checked={onlyUnhealthy}
+                      onCheckedChange={(c) => setOnlyUnhealthy(!!c)}
+                    />
+                    <Label htmlFor="onlyUnhealthy" className="text-sm font-medium cursor-pointer">
+                      Only unhealthy registers ({unhealthyIn(selectedSlave)})
+                    </Label>
+                  </div>
+                )}
                 {selectedSlave.registers.length === 0 ? (
                   <div className="bg-card rounded-2xl border border-border shadow-sm p-12 text-center">
                   <Database className="w-12 h-12 mx-auto text-muted-foreground mb-3" />
                   <p className="text-muted-foreground text-sm">No registers configured</p>
                   <p className="text-muted-foreground/70 text-xs mt-1">Add a register to get started</p>
                 </div>
+                ) : visibleRegisters.length === 0 ? (
+                  <div className="bg-card rounded-2xl border border-border shadow-sm p-12 text-center">
+                    <p className="text-muted-foreground text-sm">All registers on this slave are healthy</p>
+                  </div>
                 ) : (
                    <div className="bg-card rounded-2xl border border-border shadow-sm overflow-hidden">
                     <div className="overflow-x-auto">
@@ -780,13 +817,14 @@ export default function ModbusPortManager() {
                             <th className="px-6 py-4 text-left text-xs font-semibold text-foreground/80 uppercase tracking-wider">Scale</th>
                             <th className="px-6 py-4 text-left text-xs font-semibold text-foreground/80 uppercase tracking-wider">Unit</th>
                             <th className="px-6 py-4 text-left text-xs font-semibold text-foreground/80 uppercase tracking-wider">Byte Order</th>
+                            <th className="px-6 py-4 text-left text-xs font-semibold text-foreground/80 uppercase tracking-wider">Health</th>
 
                             <th className="px-6 py-4 text-left text-xs font-semibold text-foreground/80 uppercase tracking-wider">Status</th>
                             <th className="px-6 py-4 text-left text-xs font-semibold text-foreground/80 uppercase tracking-wider">Actions</th>
                           </tr>
                         </thead>
                         <tbody className="divide-y divide-border bg-card">
-                          {selectedSlave.registers.map((reg, idx) => (
+                          {visibleRegisters.map(({ reg, idx }) => (
                             <tr key={idx} className="hover:bg-accent transition-colors">
                               <td className="px-6 py-4 text-sm font-mono font-medium text-foreground">{reg.registerAddress}</td>
                               <td className="px-6 py-4 text-sm text-foreground/80">{reg.registerLength}</td>
@@ -794,6 +832,12 @@ export default function ModbusPortManager() {
                               <td className="px-6 py-4 text-sm text-foreground/80">{reg.scale}</td>
                               <td className="px-6 py-4 text-sm text-foreground/80">{reg.unit || "—"}</td>
                               <td className="px-6 py-4 text-sm text-foreground/80">{reg.byteOrder || "—"}</td>
+                              <td className="px-6 py-4 text-sm">
+                                <RegisterHealthBadge
+                                  health={liveHealth.get(registerHealthKey(selectedSlave.slaveIndex, reg.registerAddress))}
+                                  enabled={reg.isHealthy}
+                                />
+                              </td>
                               <td className="px-6 py-4 text-sm w-[7.2rem] text-center">
                                 <span className={`inline-flex items-center w-[7.2rem]   px-4 py-1 rounded-full text-xs font-medium ${reg?.registerId ? existingMappings.includes(reg.registerId) ? "bg-emerald-100 text-emerald-700 border border-emerald-200" : "bg-red-100 text-red-700 border border-red-200" : " bg-slate-100 text-slate-500 border border-slate-200"}`}>
                                   {reg?.registerId ? existingMappings.includes(reg.registerId) ? "connected" : "not connected" : "loading..."}
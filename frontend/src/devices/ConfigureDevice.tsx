@@ -177,10 +177,7 @@ export default function ConfigureDevice() {
       toast.success("Device configured successfully");
       navigate("/devices");
     } catch (err: any) {
-      toast.error(
-        err?.response?.data?.message ??
-          "Failed to update device"
-      );
+      toast.error(err?.message ?? "Failed to update device");
     } finally {
       setLoading(false);
     }
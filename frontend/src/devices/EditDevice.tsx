@@ -19,6 +19,7 @@ import {
 import { Label } from "@/components/ui/label";
 import { Settings2, Cpu, Save, ArrowLeft,AlertTriangle} from "lucide-react";
 import { getDeviceById, updateDevice } from "@/api/deviceApi";
+import { ApiError } from "@/api/apiError";
 import { toast } from "react-toastify";
 
 export default function EditDeviceForm() {
@@ -43,6 +44,7 @@ export default function EditDeviceForm() {
   });
 
   const [loading, setLoading] = useState(false);
+  const [submitError, setSubmitError] = useState<ApiError | null>(null);
 
 useEffect(() => {
     if (!deviceId) return;
@@ -82,11 +84,11 @@ useEffect(() => {
         // Prevent double toasts
         if (!toastShown) {
           toastShown = true;
-          if(error.response?.status === 401){
+          if(error.status === 401){
             toast.error("unauthorized! Please login again.");
             navigate("/login");
           }
-          if (error.response?.status === 404) {
+          if (error.status === 404) {
             toast.error("Device not found!");
             navigate("/devices");
           } else {
@@ -190,6 +192,7 @@ const ipOrLocalhostRegex =
     if (!validateForm()) return;
 
     setLoading(true);
+    setSubmitError(null);
 
     const payload = {
       device: { ...deviceDetails },
@@ -205,20 +208,19 @@ const ipOrLocalhostRegex =
       toast.success("Device updated successfully!");
       setTimeout(() => navigate("/devices"), 1000);
     } catch (err: any) {
-      if(err.response?.status === 401){
+      if(err.status === 401){
         toast.error("unauthorized! Please login again.");
         navigate("/login");
       }
       console.error("Error editing device:", err);
 
-      // Extract backend message
-      const backendMessage =
-        err?.response?.data?.error || 
-        err?.response?.data?.message || 
-        err?.response?.data?.data?.message ||
-        "Failed to Edit device. Please try again.";
+      // Field-level messages are shown next to their inputs instead of a toast
+      if (err instanceof ApiError && err.hasFieldErrors) {
+        setSubmitError(err);
+        return;
+      }
 
-      toast.error(backendMessage, {
+      toast.error(err?.message || "Failed to Edit device. Please try again.", {
         position: "top-right",
         autoClose: 4000,
         theme: "colored",
@@ -229,7 +231,13 @@ const ipOrLocalhostRegex =
     }
   };
 
-  
+  // Server-side validation messages for one request field, e.g. "device.name"
+  const renderServerError = (field: string) => {
+    const messages = submitError?.fieldMessages(field) ?? [];
+    if (!messages.length) return null;
+    return <p className="text-red-500 text-xs mt-1">{messages.join(" ")}</p>;
+  };
+
   return (
     <div className="flex justify-center items-center min-h-[85vh] bg-gradient-to-b from-background to-muted/30 text-foreground p-4 ">
       <Card className="w-full max-w-2xl shadow-lg border border-border/60 bg-card/90 backdrop-blur-sm ">
@@ -265,6 +273,7 @@ const ipOrLocalhostRegex =
                     }
                     required
                   />
+                  {renderServerError("device.name")}
                 </div>
 
                 <div className="grid gap-2">
@@ -277,6 +286,7 @@ const ipOrLocalhostRegex =
                       setDeviceDetails({ ...deviceDetails, description: e.target.value })
                     }
                   />
+                  {renderServerError("device.description")}
                 </div>
 
                 <div className="grid gap-2">
@@ -294,6 +304,7 @@ const ipOrLocalhostRegex =
                       <SelectItem value="ModbusTCP">ModbusTCP</SelectItem>
                     </SelectContent>
                   </Select>
+                  {renderServerError("device.protocol")}
                 </div>
               </div>
             </div>
@@ -315,6 +326,7 @@ const ipOrLocalhostRegex =
                     onChange={handleChange}
                     required
                   />
+                  {renderServerError("configuration.name")}
                 </div>
 
                 <div className="grid gap-2">
@@ -327,6 +339,7 @@ const ipOrLocalhostRegex =
                     onChange={handleChange}
                     required
                   />
+                  {renderServerError("configuration.pollIntervalMs")}
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
@@ -389,6 +402,7 @@ const ipOrLocalhostRegex =
                     </Select>
                   </div> */}
                 </div>
+                {renderServerError("configuration.protocolSettingsJson")}
               </div>
             </div>
 
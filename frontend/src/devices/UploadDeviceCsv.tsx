@@ -7,7 +7,8 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
-import api from "@/api/axios";
+import { bulkCreateDevices } from "@/api/deviceApi";
+import { ApiError } from "@/api/apiError";
 import { toast } from "react-toastify";
 
 const DEVICE_NAME_RE = /^[A-Za-z0-9 _-]+$/;
@@ -34,6 +35,9 @@ type ApiResponse = {
 
 const REQUIRED_HEADERS = ["devicename"];
 
+// Server validation keys look like "devices[3].name"
+const SERVER_FIELD_RE = /^devices\[(\d+)\]\.(name|description)$/;
+
 export default function DeviceBulkUpload() {
   const [devices, setDevices] = useState<Device[]>([]);
   const [globalErrors, setGlobalErrors] = useState<string[]>([]);
@@ -41,6 +45,8 @@ export default function DeviceBulkUpload() {
   const [saving, setSaving] = useState(false);
   const [dragOver, setDragOver] = useState(false);
   const [apiResponse, setApiResponse] = useState<ApiResponse | null>(null);
+  const [serverErrors, setServerErrors] = useState<FieldError[]>([]);
+  const [serverGlobalErrors, setServerGlobalErrors] = useState<string[]>([]);
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -157,6 +163,8 @@ export default function DeviceBulkUpload() {
     const { global, fieldErrors } = validate(devices);
     setGlobalErrors(global);
     setFieldErrors(fieldErrors);
+    setServerErrors([]);
+    setServerGlobalErrors([]);
   }, [devices]);
 
   /* -------------------- File Handling -------------------- */
@@ -227,6 +235,36 @@ export default function DeviceBulkUpload() {
     XLSX.writeFile(wb, "device_upload_errors.xlsx");
   }
 
+  /* -------------------- Server Errors -------------------- */
+
+  function mapServerErrors(err: ApiError) {
+    const mapped: FieldError[] = [];
+    const unmatched: string[] = [];
+
+    Object.entries(err.fieldErrors).forEach(([key, messages]) => {
+      const match = SERVER_FIELD_RE.exec(key);
+      const deviceIndex = match ? Number(match[1]) : -1;
+
+      if (!match || !devices[deviceIndex]) {
+        unmatched.push(...messages);
+        return;
+      }
+
+      const rows = devices[deviceIndex].sourceRows;
+      mapped.push({
+        deviceIndex,
+        field: match[2] as FieldError["field"],
+        messages,
+        rowInfo: rows.length ? `Rows: ${rows.join(", ")}` : "",
+      });
+    });
+
+    if (!err.hasFieldErrors) unmatched.push(err.message);
+
+    setServerErrors(mapped);
+    setServerGlobalErrors(unmatched);
+  }
+
   /* -------------------- Save -------------------- */
 
   async function handleSave() {
@@ -235,18 +273,23 @@ export default function DeviceBulkUpload() {
 
     setSaving(true);
     try {
-      const res = await api.post("/devices/bulk", {
-        devices: devices.map(d => ({
+      const res = await bulkCreateDevices(
+        devices.map(d => ({
           name: d.name.trim(),
           description: d.description?.trim() ?? null,
-        })),
-      });
+        }))
+      );
 
-      setApiResponse(res.data);
+      setApiResponse(res);
       setDevices([]);
       toast.success("Device bulk upload completed");
-    } catch (e: any) {
-      toast.error(e?.response?.data?.message || "Upload failed");
+    } catch (e) {
+      if (e instanceof ApiError && e.status === 400) {
+        mapServerErrors(e);
+        toast.error("Server rejected some devices — see errors below");
+      } else {
+        toast.error((e as Error)?.message || "Upload failed");
+      }
     } finally {
       setSaving(false);
     }
@@ -321,6 +364,25 @@ export default function DeviceBulkUpload() {
           </div>
         )}
 
+        {(serverGlobalErrors.length > 0 || serverErrors.length > 0) && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 space-y-1">
+            {serverGlobalErrors.map((msg, i) => (
+              <div key={`g-${i}`}>{msg}</div>
+            ))}
+            {serverErrors.map((e, i) => (
+              <div key={`f-${i}`}>
+                <span className="font-medium">{devices[e.deviceIndex]?.name}</span>
+                {" "}({e.field}{e.rowInfo ? `, ${e.rowInfo}` : ""}): {e.messages.join(", ")}
+              </div>
+            ))}
+            {serverErrors.length > 0 && (
+              <Button size="sm" variant="outline" onClick={() => downloadErrorExcel(serverErrors)}>
+                Download Error Report
+              </Button>
+            )}
+          </div>
+        )}
+
         <div className="flex justify-end">
           <Button disabled={!devices.length || saving} onClick={handleSave}>
             {saving ? "Saving..." : "Save Devices"}
@@ -0,0 +1,84 @@
+// 📌 src/hooks/formulaStorage.ts
+import { createPreferenceStore, isRecord } from "./preferenceStorage";
+
+/* --------------------------------------------------------
+    SAVED FORMULAS
+    Formula series belong to an asset and are offered on the
+    trend page whenever that asset is charted.
+-------------------------------------------------------- */
+
+export const FORMULAS_KEY = "trendFormulas";
+
+export interface FormulaInput {
+  assetId: string;
+  signalTypeId: string;
+}
+
+export interface SavedFormula {
+  id: string;
+  assetId: string;
+  name: string;
+  unit: string;
+  expression: string;
+  // Variable letter -> the signal it reads
+  inputs: Record<string, FormulaInput>;
+}
+
+interface FormulasDocument {
+  formulas: SavedFormula[];
+}
+
+const EMPTY: FormulasDocument = { formulas: [] };
+
+const parseFormula = (v: unknown): SavedFormula | null => {
+  if (!isRecord(v) || typeof v.id !== "string" || typeof v.assetId !== "string" || typeof v.expression !== "string") {
+    return null;
+  }
+  const inputs = isRecord(v.inputs)
+    ? Object.fromEntries(
+        Object.entries(v.inputs)
+          .filter((entry): entry is [string, Record<string, unknown>] => isRecord(entry[1]))
+          .map(([name, i]) => [name, { assetId: String(i.assetId ?? ""), signalTypeId: String(i.signalTypeId ?? "") }])
+      )
+    : {};
+  return {
+    id: v.id,
+    assetId: v.assetId,
+    name: typeof v.name === "string" && v.name ? v.name : "Formula",
+    unit: typeof v.unit === "string" ? v.unit : "",
+    expression: v.expression,
+    inputs,
+  };
+};
+
+const parse = (raw: string | null): FormulasDocument => {
+  if (!raw) return EMPTY;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed) || !Array.isArray(parsed.formulas)) return EMPTY;
+    return { formulas: parsed.formulas.map(parseFormula).filter((f): f is SavedFormula => f !== null) };
+  } catch {
+    return EMPTY;
+  }
+};
+
+const store = createPreferenceStore<FormulasDocument>({
+  storageKey: FORMULAS_KEY,
+  preferenceKey: "trend-formulas",
+  parse,
+  isEmpty: (doc) => doc.formulas.length === 0,
+});
+
+// ----- Insert or replace a formula by id -----
+export const saveFormula = (formula: SavedFormula) => {
+  const { formulas } = store.read();
+  const exists = formulas.some((f) => f.id === formula.id);
+  store.write({ formulas: exists ? formulas.map((f) => (f.id === formula.id ? formula : f)) : [...formulas, formula] });
+};
+
+export const deleteFormula = (id: string) => {
+  store.write({ formulas: store.read().formulas.filter((f) => f.id !== id) });
+};
+
+// ----- React hook: every saved formula, re-rendering on every change -----
+export const useFormulas = () => store.useDocument().formulas;
@@ -0,0 +1,63 @@
+// 📌 src/hooks/liveHistoryStorage.ts
+import { useCallback, useEffect, useState } from "react";
+import { DEFAULT_HISTORY_WINDOW } from "@/workers/telemetryProtocol";
+
+const LIVE_HISTORY_KEY = "live_history_window";
+
+export type LiveHistoryMode = "samples" | "minutes";
+
+export interface LiveHistoryWindow {
+  mode: LiveHistoryMode;
+  size: number;
+}
+
+export const DEFAULT_LIVE_HISTORY = DEFAULT_HISTORY_WINDOW;
+
+// Upper bounds keep the worker's ring buffers (and the session cache) bounded
+export const LIVE_HISTORY_LIMITS: Record<LiveHistoryMode, { min: number; max: number }> = {
+  samples: { min: 10, max: 2000 },
+  minutes: { min: 1, max: 60 },
+};
+
+export const clampLiveHistory = (value: LiveHistoryWindow): LiveHistoryWindow => {
+  const mode: LiveHistoryMode = value.mode === "minutes" ? "minutes" : "samples";
+  const { min, max } = LIVE_HISTORY_LIMITS[mode];
+  const size = Math.round(Number(value.size));
+  return { mode, size: Number.isFinite(size) ? Math.min(max, Math.max(min, size)) : DEFAULT_LIVE_HISTORY.size };
+};
+
+// ----- Stored per user, so shared browsers keep separate settings -----
+const storageKey = (userKey: string) => `${LIVE_HISTORY_KEY}:${userKey.toLowerCase()}`;
+
+export const getLiveHistoryWindow = (userKey: string): LiveHistoryWindow => {
+  try {
+    const raw = localStorage.getItem(storageKey(userKey));
+    return raw ? clampLiveHistory(JSON.parse(raw)) : DEFAULT_LIVE_HISTORY;
+  } catch {
+    return DEFAULT_LIVE_HISTORY;
+  }
+};
+
+export const setLiveHistoryWindow = (userKey: string, value: LiveHistoryWindow) => {
+  localStorage.setItem(storageKey(userKey), JSON.stringify(clampLiveHistory(value)));
+};
+
+// ----- React hook: [window, update] for the given user -----
+export const useLiveHistoryWindow = (userKey: string) => {
+  const [historyWindow, setHistoryWindow] = useState(() => getLiveHistoryWindow(userKey));
+
+  useEffect(() => {
+    setHistoryWindow(getLiveHistoryWindow(userKey));
+  }, [userKey]);
+
+  const update = useCallback(
+    (next: LiveHistoryWindow) => {
+      const clamped = clampLiveHistory(next);
+      setLiveHistoryWindow(userKey, clamped);
+      setHistoryWindow(clamped);
+    },
+    [userKey]
+  );
+
+  return [historyWindow, update] as const;
+};
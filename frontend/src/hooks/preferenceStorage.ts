@@ -0,0 +1,154 @@
+// 📌 src/hooks/preferenceStorage.ts
+import { useSyncExternalStore } from "react";
+import { ApiError } from "@/api/apiError";
+import { getUserPreference, saveUserPreference } from "@/api/userApi";
+
+/* --------------------------------------------------------
+    USER PREFERENCE DOCUMENTS
+    A JSON document saved per user through the auth-service
+    preferences endpoint, mirrored in localStorage so it loads
+    instantly and keeps working when the endpoint is down.
+-------------------------------------------------------- */
+
+interface PreferenceStoreOptions<T> {
+  // localStorage key of the local mirror; the signed-in user is appended
+  storageKey: string;
+  // Key of the server-side preference document
+  preferenceKey: string;
+  // Must tolerate null and malformed input, returning an empty document
+  parse: (raw: string | null) => T;
+  isEmpty: (doc: T) => boolean;
+}
+
+// Every store, so logout can drop all cached documents at once
+const clearers = new Set<() => void>();
+// ...and so a change of user re-reads (and re-syncs) every one
+const ownerListeners = new Set<() => void>();
+
+// Whose documents the mirrors hold; null until a user is known
+let owner: string | null = null;
+
+// ----- Mirrors are kept per user, so one user's documents are never read or uploaded for another -----
+export const setPreferenceOwner = (userKey: string | null) => {
+  const next = userKey ? userKey.toLowerCase() : null;
+  if (next === owner) return;
+  owner = next;
+  ownerListeners.forEach((notify) => notify());
+};
+
+// ----- Drop every cached document (use on logout; the next user syncs their own) -----
+export const clearPreferenceStores = () => clearers.forEach((clear) => clear());
+
+export const createPreferenceStore = <T>({ storageKey, preferenceKey, parse, isEmpty }: PreferenceStoreOptions<T>) => {
+  // localStorage only notifies *other* tabs, so same-tab writers announce themselves
+  const changeEvent = `${storageKey}-change`;
+
+  const ownKey = () => (owner ? `${storageKey}:${owner}` : null);
+
+  const readRaw = () => {
+    const key = ownKey();
+    return key ? localStorage.getItem(key) : null;
+  };
+
+  const writeLocal = (doc: T) => {
+    const key = ownKey();
+    if (!key) return;
+    try {
+      localStorage.setItem(key, JSON.stringify(doc));
+    } catch (e) {
+      console.warn("Failed to write localStorage", e);
+    }
+    window.dispatchEvent(new Event(changeEvent));
+  };
+
+  const read = (): T => parse(readRaw());
+
+  const pushToServer = (doc: T) =>
+    saveUserPreference(preferenceKey, JSON.stringify(doc)).catch((err) =>
+      console.warn(`Preference "${preferenceKey}" kept locally only:`, err)
+    );
+
+  let synced: Promise<void> | null = null;
+  let listeners = 0;
+
+  // Once per user per session: the server copy wins; their local-only document is uploaded
+  const sync = () => {
+    const syncedFor = owner;
+    if (!syncedFor) return Promise.resolve();
+    synced ??= getUserPreference(preferenceKey)
+      .then((res) => {
+        if (owner === syncedFor) writeLocal(parse(res.value));
+      })
+      .catch((err) => {
+        if (err instanceof ApiError && err.status === 404) {
+          // The mirror read here is the same user's, since it is keyed by them
+          const local = owner === syncedFor ? read() : null;
+          if (local !== null && !isEmpty(local)) void pushToServer(local);
+          return;
+        }
+        console.warn(`Failed to load preference "${preferenceKey}", using local copy:`, err);
+      });
+    return synced;
+  };
+
+  // Replace the document locally, then persist it for the user
+  const write = (doc: T) => {
+    if (!owner) return;
+    writeLocal(doc);
+    void pushToServer(doc);
+  };
+
+  clearers.add(() => {
+    const key = ownKey();
+    if (key) localStorage.removeItem(key);
+    synced = null;
+    window.dispatchEvent(new Event(changeEvent));
+  });
+
+  ownerListeners.add(() => {
+    synced = null;
+    window.dispatchEvent(new Event(changeEvent));
+    if (listeners) void sync();
+  });
+
+  // Subscribe to changes from this tab and others; the first subscriber triggers the sync
+  const subscribe = (listener: () => void) => {
+    listeners++;
+    void sync();
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === null || e.key === ownKey()) listener();
+    };
+    window.addEventListener(changeEvent, listener);
+    window.addEventListener("storage", onStorage);
+    return () => {
+      listeners--;
+      window.removeEventListener(changeEvent, listener);
+      window.removeEventListener("storage", onStorage);
+    };
+  };
+
+  // Snapshot is cached per raw value so useSyncExternalStore sees a stable reference
+  let lastRaw: string | null | undefined;
+  let lastSnapshot: T;
+
+  const getSnapshot = () => {
+    const raw = readRaw();
+    if (raw !== lastRaw) {
+      lastRaw = raw;
+      lastSnapshot = parse(raw);
+    }
+    return lastSnapshot;
+  };
+
+  // React hook: the current document, re-rendering on every change
+  const useDocument = () => useSyncExternalStore(subscribe, getSnapshot);
+
+  return { read, write, sync, subscribe, useDocument };
+};
+
+// Ids for items inside a document; crypto.randomUUID is unavailable on plain-http plant hosts
+export const newItemId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Shared by document parsers
+export const isRecord = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
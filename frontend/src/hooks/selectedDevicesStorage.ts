@@ -0,0 +1,86 @@
+// 📌 src/hooks/selectedDevicesStorage.ts
+import { useSyncExternalStore } from "react";
+
+export const SELECTED_DEVICES_KEY = "selectedDeviceIds";
+
+// sessionStorage only notifies *other* tabs, so same-tab writers announce themselves
+const CHANGE_EVENT = "selected-devices-change";
+
+export type SelectedDevice = { deviceId: string; name: string };
+
+const parse = (raw: string | null): SelectedDevice[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((x) => {
+        if (x && typeof x === "object") {
+          const id = String(x.deviceId ?? x.id ?? "");
+          const name = String(x.name ?? x.displayName ?? "");
+          if (id) return { deviceId: id, name };
+        }
+        return null;
+      })
+      .filter((x): x is SelectedDevice => x !== null);
+  } catch {
+    return [];
+  }
+};
+
+// ----- Read the current selection -----
+export const readSelectedDevices = (): SelectedDevice[] =>
+  parse(sessionStorage.getItem(SELECTED_DEVICES_KEY));
+
+// ----- Replace the selection and notify listeners -----
+export const writeSelectedDevices = (devices: SelectedDevice[]) => {
+  try {
+    if (devices.length) sessionStorage.setItem(SELECTED_DEVICES_KEY, JSON.stringify(devices));
+    else sessionStorage.removeItem(SELECTED_DEVICES_KEY);
+  } catch (e) {
+    console.warn("Failed to write sessionStorage", e);
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+// ----- Add or remove one device; returns true when it is now selected -----
+export const toggleSelectedDevice = (deviceId: string, name: string) => {
+  const current = readSelectedDevices();
+  const exists = current.some((sd) => sd.deviceId === deviceId);
+  writeSelectedDevices(
+    exists ? current.filter((sd) => sd.deviceId !== deviceId) : [...current, { deviceId, name }]
+  );
+  return !exists;
+};
+
+export const clearSelectedDevices = () => writeSelectedDevices([]);
+
+// ----- Subscribe to changes from this tab and others -----
+export const onSelectedDevicesChange = (listener: () => void) => {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === SELECTED_DEVICES_KEY || e.key === null) listener();
+  };
+  window.addEventListener(CHANGE_EVENT, listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, listener);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+// Snapshot is cached per raw value so useSyncExternalStore sees a stable reference
+let lastRaw: string | null = null;
+let lastSnapshot: SelectedDevice[] = [];
+
+const getSnapshot = () => {
+  const raw = sessionStorage.getItem(SELECTED_DEVICES_KEY);
+  if (raw !== lastRaw) {
+    lastRaw = raw;
+    lastSnapshot = parse(raw);
+  }
+  return lastSnapshot;
+};
+
+// ----- React hook: current selection, re-rendering on every change -----
+export const useSelectedDevices = () =>
+  useSyncExternalStore(onSelectedDevicesChange, getSnapshot);
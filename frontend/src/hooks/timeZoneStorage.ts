@@ -0,0 +1,49 @@
+// 📌 src/hooks/timeZoneStorage.ts
+import { isValidTimeZone, PLANT_TIME_ZONE } from "@/lib/time";
+import { createPreferenceStore, isRecord } from "./preferenceStorage";
+
+/* --------------------------------------------------------
+    TIME ZONE PREFERENCE
+    The zone a user reads and picks times in. Empty means
+    "follow the plant default".
+-------------------------------------------------------- */
+
+export const TIME_ZONE_KEY = "timeZonePreference";
+
+interface TimeZoneDocument {
+  timeZone: string;
+}
+
+const EMPTY: TimeZoneDocument = { timeZone: "" };
+
+const parse = (raw: string | null): TimeZoneDocument => {
+  if (!raw) return EMPTY;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed) || typeof parsed.timeZone !== "string" || !isValidTimeZone(parsed.timeZone)) return EMPTY;
+    return { timeZone: parsed.timeZone };
+  } catch {
+    return EMPTY;
+  }
+};
+
+const store = createPreferenceStore<TimeZoneDocument>({
+  storageKey: TIME_ZONE_KEY,
+  preferenceKey: "time-zone",
+  parse,
+  isEmpty: (doc) => !doc.timeZone,
+});
+
+// ----- Pass "" to go back to the plant default -----
+export const setTimeZonePreference = (timeZone: string) => {
+  store.write({ timeZone: isValidTimeZone(timeZone) ? timeZone : "" });
+};
+
+// ----- Outside React (toast builders, exports): the zone in effect right now -----
+export const currentTimeZone = () => store.read().timeZone || PLANT_TIME_ZONE;
+
+// ----- React hook: the user's own choice, "" when following the plant -----
+export const useTimeZonePreference = () => store.useDocument().timeZone;
+
+// ----- React hook: the zone to render and read times in -----
+export const useTimeZone = () => useTimeZonePreference() || PLANT_TIME_ZONE;
@@ -0,0 +1,159 @@
+// 📌 src/hooks/trendViewsStorage.ts
+import { createPreferenceStore, isRecord } from "./preferenceStorage";
+import { TREND_RANGE_LABELS, type TrendAssetSelection, type TrendRange } from "@/lib/trend";
+import type { AxisSettings, TrendLayout } from "@/lib/trendAxes";
+
+/* --------------------------------------------------------
+    SAVED TREND VIEWS
+    The user's named trend configurations, kept in one
+    preference document.
+-------------------------------------------------------- */
+
+export const TREND_VIEWS_KEY = "savedTrendViews";
+
+export interface SavedTrendView {
+  id: string;
+  name: string;
+  selections: TrendAssetSelection[];
+  range: TrendRange;
+  // ISO strings; only meaningful for a custom range
+  customStart: string | null;
+  customEnd: string | null;
+  colors: Record<string, string>;
+  hidden: string[];
+  // Per-unit axis side and manual scaling
+  axes: Record<string, AxisSettings>;
+  layout: TrendLayout;
+  savedAt: string;
+}
+
+export interface TrendViewsDocument {
+  views: SavedTrendView[];
+  // assetId -> id of the view that opens by default for that asset
+  defaults: Record<string, string>;
+}
+
+const EMPTY: TrendViewsDocument = { views: [], defaults: {} };
+
+const parseBound = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+
+const parseAxes = (v: unknown): Record<string, AxisSettings> =>
+  isRecord(v)
+    ? Object.fromEntries(
+        Object.entries(v)
+          .filter((entry): entry is [string, Record<string, unknown>] => isRecord(entry[1]))
+          .map(([unit, a]) => [
+            unit,
+            {
+              side: a.side === "left" || a.side === "right" ? a.side : undefined,
+              min: parseBound(a.min),
+              max: parseBound(a.max),
+            },
+          ])
+      )
+    : {};
+
+const parseView = (v: unknown): SavedTrendView | null => {
+  if (!isRecord(v) || typeof v.id !== "string" || typeof v.name !== "string") return null;
+  const range = typeof v.range === "string" && v.range in TREND_RANGE_LABELS ? (v.range as TrendRange) : "today";
+  const selections = Array.isArray(v.selections)
+    ? v.selections
+        .filter(isRecord)
+        .map((s) => ({
+          assetId: String(s.assetId ?? ""),
+          signalTypeIds: Array.isArray(s.signalTypeIds) ? s.signalTypeIds.map(String) : [],
+        }))
+        .filter((s) => s.assetId)
+    : [];
+  return {
+    id: v.id,
+    name: v.name,
+    selections,
+    range,
+    customStart: typeof v.customStart === "string" ? v.customStart : null,
+    customEnd: typeof v.customEnd === "string" ? v.customEnd : null,
+    colors: isRecord(v.colors) ? Object.fromEntries(Object.entries(v.colors).map(([k, c]) => [k, String(c)])) : {},
+    hidden: Array.isArray(v.hidden) ? v.hidden.map(String) : [],
+    axes: parseAxes(v.axes),
+    layout: v.layout === "stacked" ? "stacked" : "overlay",
+    savedAt: typeof v.savedAt === "string" ? v.savedAt : new Date(0).toISOString(),
+  };
+};
+
+const parse = (raw: string | null): TrendViewsDocument => {
+  if (!raw) return EMPTY;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) return EMPTY;
+    const views = Array.isArray(parsed.views)
+      ? parsed.views.map(parseView).filter((v): v is SavedTrendView => v !== null)
+      : [];
+    const ids = new Set(views.map((v) => v.id));
+    const defaults = isRecord(parsed.defaults)
+      ? Object.fromEntries(
+          Object.entries(parsed.defaults).filter((entry): entry is [string, string] => ids.has(String(entry[1])))
+        )
+      : {};
+    return { views, defaults };
+  } catch {
+    return EMPTY;
+  }
+};
+
+const store = createPreferenceStore<TrendViewsDocument>({
+  storageKey: TREND_VIEWS_KEY,
+  preferenceKey: "trend-views",
+  parse,
+  isEmpty: (doc) => doc.views.length === 0,
+});
+
+// ----- Read the cached document -----
+export const readTrendViews = store.read;
+
+// ----- Replace the document locally, then persist it for the user -----
+export const writeTrendViews = store.write;
+
+/* ---- EDITS ---- */
+
+// ----- Insert or replace a view by id -----
+export const saveTrendView = (view: SavedTrendView) => {
+  const doc = readTrendViews();
+  const exists = doc.views.some((v) => v.id === view.id);
+  writeTrendViews({
+    ...doc,
+    views: exists ? doc.views.map((v) => (v.id === view.id ? view : v)) : [...doc.views, view],
+  });
+};
+
+// ----- Remove a view and any defaults pointing at it -----
+export const deleteTrendView = (id: string) => {
+  const doc = readTrendViews();
+  writeTrendViews({
+    views: doc.views.filter((v) => v.id !== id),
+    defaults: Object.fromEntries(Object.entries(doc.defaults).filter(([, viewId]) => viewId !== id)),
+  });
+};
+
+// ----- Make a view the default for an asset, or clear it with null -----
+export const setDefaultTrendView = (assetId: string, viewId: string | null) => {
+  const doc = readTrendViews();
+  const defaults = { ...doc.defaults };
+  if (viewId) defaults[assetId] = viewId;
+  else delete defaults[assetId];
+  writeTrendViews({ ...doc, defaults });
+};
+
+export const findTrendView = (doc: TrendViewsDocument, id: string | null | undefined) =>
+  id ? doc.views.find((v) => v.id === id) ?? null : null;
+
+export const defaultTrendViewFor = (doc: TrendViewsDocument, assetId: string | null | undefined) =>
+  assetId ? findTrendView(doc, doc.defaults[assetId]) : null;
+
+// Views that chart the asset, its default first
+export const trendViewsForAsset = (doc: TrendViewsDocument, assetId: string) =>
+  doc.views
+    .filter((v) => v.selections.some((s) => s.assetId === assetId))
+    .sort((a, b) => Number(doc.defaults[assetId] === b.id) - Number(doc.defaults[assetId] === a.id));
+
+// ----- React hook: the saved views document, re-rendering on every change -----
+export const useTrendViews = store.useDocument;
@@ -0,0 +1,120 @@
+// src/hooks/use-alerts.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  getAlertAnalytics,
+  getAlertsPage,
+  nextAlertCursor,
+  type Alert,
+  type AlertCursor,
+  type AlertAnalytics,
+  type AlertFilter,
+} from "@/api/alertApi";
+import { useTimeZone } from "./timeZoneStorage";
+
+// Stable across renders for the same filter values
+const filterKey = (f: AlertFilter) =>
+  [f.fromUtc, f.toUtc, f.assetId ?? "", f.signalName ?? "", f.severity ?? ""].join("|");
+
+/**
+ * Aggregated alert analytics for a window, with hours bucketed in the
+ * user's time zone. Refetches when the filter or the zone changes.
+ */
+export const useAlertAnalytics = (filter: AlertFilter) => {
+  const timeZone = useTimeZone();
+  const [analytics, setAnalytics] = useState<AlertAnalytics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const key = filterKey(filter);
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getAlertAnalytics(filterRef.current, timeZone)
+      .then(result => {
+        if (!cancelled) setAnalytics(result);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error("Failed to load alert analytics", err);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, timeZone, reloadToken]);
+
+  const reload = useCallback(() => setReloadToken(t => t + 1), []);
+
+  return { analytics, loading, error, reload };
+};
+
+/**
+ * The alerts in a window, newest first, one server page at a time.
+ * Changing the filter starts again from the first page.
+ */
+export const useAlertPages = (filter: AlertFilter) => {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [nextCursor, setNextCursor] = useState<AlertCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const key = filterKey(filter);
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+  // Pages requested for an older filter are dropped when they land
+  const generation = useRef(0);
+
+  useEffect(() => {
+    const current = ++generation.current;
+    setAlerts([]);
+    setNextCursor(null);
+    setHasMore(false);
+    setLoading(true);
+    setLoadingMore(false);
+    setError(null);
+    getAlertsPage(filterRef.current)
+      .then(page => {
+        if (current !== generation.current) return;
+        setAlerts(page.data);
+        setNextCursor(nextAlertCursor(page));
+        setHasMore(page.hasMore);
+      })
+      .catch(err => {
+        if (current !== generation.current) return;
+        console.error("Failed to load alerts", err);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (current === generation.current) setLoading(false);
+      });
+  }, [key]);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || loadingMore) return;
+    const current = generation.current;
+    setLoadingMore(true);
+    try {
+      const page = await getAlertsPage(filterRef.current, { after: nextCursor });
+      if (current !== generation.current) return;
+      setAlerts(prev => [...prev, ...page.data]);
+      setNextCursor(nextAlertCursor(page));
+      setHasMore(page.hasMore);
+    } catch (err) {
+      if (current !== generation.current) return;
+      console.error("Failed to load more alerts", err);
+      setError(err instanceof Error ? err.message : "Failed to load more alerts");
+    } finally {
+      if (current === generation.current) setLoadingMore(false);
+    }
+  }, [hasMore, loadingMore, nextCursor]);
+
+  return { alerts, hasMore, loading, loadingMore, error, loadMore };
+};
@@ -0,0 +1,28 @@
+// src/hooks/use-device-liveness.ts
+import { createContext, useContext } from "react";
+import type { Liveness } from "@/lib/liveness";
+
+export interface DeviceLivenessEntry {
+  deviceId: string;
+  name: string;
+  pollIntervalMs: number;
+  // Last good sample (epoch ms), from heartbeats or live telemetry
+  lastSeen: number | null;
+  liveness: Liveness;
+}
+
+export interface DeviceLivenessContextProps {
+  devices: Map<string, DeviceLivenessEntry>;
+  offlineCount: number;
+  // Re-evaluated on a timer so consumers can age their own samples
+  now: number;
+}
+
+// Provided by DeviceLivenessProvider (src/context/DeviceLivenessContext.tsx)
+export const DeviceLivenessContext = createContext<DeviceLivenessContextProps | undefined>(undefined);
+
+export const useDeviceLiveness = () => {
+  const ctx = useContext(DeviceLivenessContext);
+  if (!ctx) throw new Error("useDeviceLiveness must be used within DeviceLivenessProvider");
+  return ctx;
+};
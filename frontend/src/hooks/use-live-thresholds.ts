@@ -0,0 +1,50 @@
+// src/hooks/use-live-thresholds.ts
+import { useCallback, useEffect, useState } from "react";
+import { getAllMappings, getCachedSignalTypes, type IMapping } from "@/api/assetApi";
+import { effectiveThresholds, type SignalThresholds } from "@/lib/thresholds";
+
+export interface LiveSignalLimits {
+  mapping: IMapping;
+  thresholds: SignalThresholds;
+}
+
+const limitKey = (deviceId: string, deviceSlaveId: string, registerAddress: number) =>
+  `${deviceId}:${deviceSlaveId}:${registerAddress}`.toLowerCase();
+
+/**
+ * Asset-signal thresholds for live device registers. A register only has
+ * limits once it is mapped to an asset signal; `reloadKey` refetches after
+ * the selection changes so newly mapped registers pick theirs up.
+ */
+export const useLiveThresholds = (reloadKey: string) => {
+  const [limits, setLimits] = useState<Map<string, LiveSignalLimits>>(() => new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getAllMappings(), getCachedSignalTypes()])
+      .then(([mappings, signalTypes]) => {
+        if (cancelled) return;
+        const types = new Map(signalTypes.map(t => [t.signalTypeID, t]));
+        setLimits(
+          new Map(
+            mappings.map(m => [
+              limitKey(m.deviceId, m.devicePortId, m.registerAdress),
+              { mapping: m, thresholds: effectiveThresholds(m, types.get(m.signalTypeId)) },
+            ])
+          )
+        );
+      })
+      .catch(err => console.warn("Failed to load signal thresholds", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  return useCallback(
+    (deviceId: string, deviceSlaveId: string, registerAddress: number) =>
+      limits.get(limitKey(deviceId, deviceSlaveId, registerAddress)),
+    [limits]
+  );
+};
@@ -0,0 +1,42 @@
+// src/hooks/use-realtime.ts
+import { createContext, useContext, useEffect, useRef } from "react";
+import type {
+  HubEvent,
+  HubEventMap,
+  HubManager,
+  HubName,
+  HubStates,
+} from "@/api/hubManager";
+
+export interface RealtimeContextProps {
+  hubs: HubStates;
+  manager: HubManager;
+}
+
+// Provided by RealtimeProvider (src/context/RealtimeContext.tsx)
+export const RealtimeContext = createContext<RealtimeContextProps | undefined>(undefined);
+
+export const useRealtime = () => {
+  const ctx = useContext(RealtimeContext);
+  if (!ctx) throw new Error("useRealtime must be used within RealtimeProvider");
+  return ctx;
+};
+
+/** Subscribes to a hub event for the lifetime of the component; the latest handler is always called. */
+export const useHubEvent = <H extends HubName, E extends HubEvent<H>>(
+  hub: H,
+  event: E,
+  handler: (payload: HubEventMap[H][E]) => void
+) => {
+  const { manager } = useRealtime();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(
+    () => manager.on(hub, event, (payload) => handlerRef.current(payload)),
+    [manager, hub, event]
+  );
+};
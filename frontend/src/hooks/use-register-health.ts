@@ -0,0 +1,41 @@
+// src/hooks/use-register-health.ts
+import { useEffect, useState } from "react";
+import { useHubEvent, useRealtime } from "@/hooks/use-realtime";
+import { healthFromDto, type RegisterHealth } from "@/lib/registerHealth";
+
+export const registerHealthKey = (slaveIndex: number, registerAddress: number) =>
+  `${slaveIndex}:${registerAddress}`;
+
+/**
+ * Live read health of one device's registers, keyed by registerHealthKey.
+ * Joins the device's hub group while mounted; groups are ref-counted, so
+ * this does not disturb a Signals view watching the same device.
+ */
+export const useRegisterHealth = (deviceId: string | undefined) => {
+  const { manager } = useRealtime();
+  const [health, setHealth] = useState<Map<string, RegisterHealth>>(() => new Map());
+
+  useEffect(() => {
+    if (!deviceId) return;
+    setHealth(new Map());
+    manager.subscribeToDevice(deviceId).catch(err => console.warn("Failed to subscribe to device", deviceId, err));
+    return () => {
+      manager.unsubscribeFromDevice(deviceId).catch(() => {});
+    };
+  }, [manager, deviceId]);
+
+  useHubEvent("telemetry", "TelemetryUpdate", (payload) => {
+    if (!deviceId || !Array.isArray(payload) || payload[0]?.deviceId !== deviceId) return;
+
+    const now = Date.now();
+    setHealth(prev => {
+      const next = new Map(prev);
+      for (const dto of payload) {
+        next.set(registerHealthKey(dto.slaveIndex, dto.registerAddress), healthFromDto(dto, now));
+      }
+      return next;
+    });
+  });
+
+  return health;
+};
@@ -0,0 +1,125 @@
+// src/hooks/use-telemetry-buffer.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { TelemetryDto } from "@/api/hubManager";
+import type { LiveHistoryWindow } from "./liveHistoryStorage";
+import type {
+  DeviceSnapshot,
+  PersistedDevice,
+  TelemetryWorkerRequest,
+  TelemetryWorkerResponse,
+} from "@/workers/telemetryProtocol";
+
+const toPersisted = (snapshot: DeviceSnapshot): PersistedDevice => ({
+  deviceId: snapshot.deviceId,
+  lastUpdate: snapshot.lastUpdate,
+  registers: snapshot.slaves.flatMap((slave) =>
+    slave.registers.map((reg) => ({
+      registerAddress: reg.registerAddress,
+      slaveIndex: slave.slaveIndex,
+      deviceSlaveId: slave.deviceSlaveId,
+      signalType: reg.signalType,
+      unit: reg.unit,
+      values: Array.from(reg.values),
+      timestamps: Array.from(reg.timestamps),
+    }))
+  ),
+});
+
+const readPersisted = (key: string): PersistedDevice[] => {
+  try {
+    const parsed = JSON.parse(sessionStorage.getItem(key) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+interface TelemetryBufferOptions {
+  // sessionStorage key; buffers survive reloads (written on unmount / page hide, not per update)
+  persistKey?: string;
+  // How much history each register keeps; defaults to the last 100 samples
+  historyWindow?: LiveHistoryWindow;
+}
+
+/**
+ * Buffers live telemetry for `deviceIds` in a Web Worker and re-renders with
+ * throttled snapshots.
+ */
+export const useTelemetryBuffer = (
+  deviceIds: string[],
+  { persistKey, historyWindow }: TelemetryBufferOptions = {}
+) => {
+  const [devices, setDevices] = useState<Map<string, DeviceSnapshot>>(() => new Map());
+  const workerRef = useRef<Worker | null>(null);
+  const latestRef = useRef(devices);
+  latestRef.current = devices;
+
+  const post = (msg: TelemetryWorkerRequest) => workerRef.current?.postMessage(msg);
+
+  /* ---- Worker lifecycle ---- */
+  useEffect(() => {
+    const worker = new Worker(new URL("../workers/telemetry.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    workerRef.current = worker;
+
+    worker.onmessage = (e: MessageEvent<TelemetryWorkerResponse>) => {
+      if (e.data.type !== "snapshot" || !e.data.devices.length) return;
+      setDevices((prev) => {
+        const next = new Map(prev);
+        for (const snapshot of e.data.devices) next.set(snapshot.deviceId, snapshot);
+        return next;
+      });
+    };
+
+    if (persistKey) worker.postMessage({ type: "hydrate", devices: readPersisted(persistKey) });
+
+    const persist = () => {
+      if (!persistKey) return;
+      try {
+        sessionStorage.setItem(persistKey, JSON.stringify([...latestRef.current.values()].map(toPersisted)));
+      } catch (e) {
+        console.warn("Failed to persist telemetry", e);
+      }
+    };
+    window.addEventListener("pagehide", persist);
+
+    return () => {
+      window.removeEventListener("pagehide", persist);
+      persist();
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [persistKey]);
+
+  /* ---- History window ---- */
+  const windowMode = historyWindow?.mode;
+  const windowSize = historyWindow?.size;
+  useEffect(() => {
+    if (windowMode && windowSize) post({ type: "configure", window: { mode: windowMode, size: windowSize } });
+  }, [persistKey, windowMode, windowSize]);
+
+  /* ---- Keep only the devices on screen ---- */
+  const idsKey = deviceIds.join(",");
+  useEffect(() => {
+    const keep = idsKey ? idsKey.split(",") : [];
+    post({ type: "retain", deviceIds: keep });
+    setDevices((prev) => {
+      const next = new Map([...prev].filter(([id]) => keep.includes(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [idsKey]);
+
+  const ingest = useCallback((batch: TelemetryDto[]) => post({ type: "ingest", batch }), []);
+
+  const reset = useCallback(() => {
+    post({ type: "reset" });
+    latestRef.current = new Map();
+    setDevices(latestRef.current);
+    if (persistKey) {
+      try { sessionStorage.removeItem(persistKey); } catch { /* storage unavailable */ }
+    }
+  }, [persistKey]);
+
+  return { devices, ingest, reset };
+};
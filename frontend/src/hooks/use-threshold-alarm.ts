@@ -0,0 +1,91 @@
+// src/hooks/use-threshold-alarm.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import type { Breach } from "@/lib/thresholds";
+
+const ALARM_SOUND_KEY = "live_alarm_sound";
+
+export interface LiveBreach {
+  key: string;
+  label: string;
+  value: number;
+  unit: string;
+  breach: Exclude<Breach, null>;
+  limit: number | undefined;
+}
+
+/** --------------------------------------------------------
+ * ALARM TONE: alternating two-tone, clearly different from
+ * the notification chime so the two are not confused
+-------------------------------------------------------- */
+function playAlarmTone() {
+  const audioCtx = new window.AudioContext();
+
+  function playTone(frequency: number, duration: number, startTime: number) {
+    const oscillator = audioCtx.createOscillator();
+    oscillator.type = "square";
+    oscillator.frequency.setValueAtTime(frequency, startTime);
+
+    const gainNode = audioCtx.createGain();
+    gainNode.gain.setValueAtTime(0.08, startTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
+
+    oscillator.connect(gainNode);
+    gainNode.connect(audioCtx.destination);
+
+    oscillator.start(startTime);
+    oscillator.stop(startTime + duration);
+  }
+
+  const now = audioCtx.currentTime;
+  for (let i = 0; i < 3; i++) {
+    playTone(880, 0.12, now + i * 0.3);
+    playTone(660, 0.12, now + i * 0.3 + 0.15);
+  }
+  setTimeout(() => audioCtx.close().catch(() => {}), 1200);
+}
+
+/**
+ * Raises a local alarm the moment a live value leaves its limits, without
+ * waiting for the asset-service notification. Only transitions into a
+ * breach alarm; a register that stays out of range is not repeated.
+ */
+export const useThresholdAlarm = (breaches: LiveBreach[]) => {
+  const [soundOn, setSoundOn] = useState(() => localStorage.getItem(ALARM_SOUND_KEY) !== "off");
+  const active = useRef<Set<string>>(new Set());
+
+  const toggleSound = useCallback(() => {
+    setSoundOn(prev => {
+      localStorage.setItem(ALARM_SOUND_KEY, prev ? "off" : "on");
+      return !prev;
+    });
+  }, []);
+
+  const breachKey = breaches.map(b => `${b.key}:${b.breach}`).join("|");
+
+  useEffect(() => {
+    const current = new Set(breaches.map(b => `${b.key}:${b.breach}`));
+    const fresh = breaches.filter(b => !active.current.has(`${b.key}:${b.breach}`));
+    active.current = current;
+    if (!fresh.length) return;
+
+    if (soundOn) {
+      try {
+        playAlarmTone();
+      } catch (err) {
+        console.warn("Alarm sound unavailable", err);
+      }
+    }
+
+    for (const b of fresh) {
+      toast.error(
+        `${b.label}: ${b.value.toFixed(2)}${b.unit ? ` ${b.unit}` : ""} is ${b.breach === "high" ? "above" : "below"} ${b.limit ?? "its limit"}`,
+        { toastId: `limit-${b.key}-${b.breach}`, autoClose: 6000 }
+      );
+    }
+    // breachKey captures every change that matters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [breachKey]);
+
+  return { soundOn, toggleSound };
+};
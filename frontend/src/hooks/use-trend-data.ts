@@ -0,0 +1,366 @@
+// src/hooks/use-trend-data.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { getSignalOnAsset, type IMapping } from "@/api/assetApi";
+import { getDevicesByIds } from "@/api/deviceApi";
+import {
+  getRawTelemetryData,
+  getTelemetryData,
+  TimeRange,
+  type TelemetryPoint,
+  type TelemetryResponse,
+} from "@/api/telemetryApi";
+import {
+  mergeSeries,
+  resolveTrendRange,
+  seriesKey,
+  trendRangeBounds,
+  type TrendRange,
+  type TrendRow,
+  type TrendSeries,
+} from "@/lib/trend";
+import { DEFAULT_MAX_POINTS, downsample } from "@/lib/downsample";
+import { evaluateFormula } from "@/lib/formula";
+import { ROLLING_WINDOWS, rollingAverage } from "@/lib/seriesStats";
+import type { SavedFormula } from "./formulaStorage";
+import { useTimeZone } from "./timeZoneStorage";
+
+export interface TrendSeriesData {
+  key: string;
+  series: TrendSeries;
+  response: TelemetryResponse;
+  // Set on overlays computed from another series (rolling averages): the source series key
+  derivedFrom?: string;
+}
+
+export interface ZoomWindow {
+  start: number;
+  end: number;
+}
+
+/* ---------------- Formula series ---------------- */
+// Formula series get a synthetic signal type id so they never collide with a real one
+export const formulaSignalTypeId = (formulaId: string) => `formula:${formulaId}`;
+
+// Formulas whose inputs are all loaded, evaluated over the same window as their inputs
+const deriveFormulaSeries = (formulas: SavedFormula[], base: TrendSeriesData[]): TrendSeriesData[] =>
+  formulas.flatMap(f => {
+    const inputs: Record<string, TelemetryPoint[]> = {};
+    let first: TrendSeriesData | undefined;
+    for (const [name, input] of Object.entries(f.inputs)) {
+      const d = base.find(b => b.series.assetId === input.assetId && b.series.signalTypeId === input.signalTypeId);
+      if (!d) return [];
+      inputs[name] = d.response.values;
+      first ??= d;
+    }
+    if (!first) return [];
+
+    let values: TelemetryPoint[];
+    try {
+      values = evaluateFormula(f.expression, inputs);
+    } catch (err) {
+      console.warn(`Formula "${f.name}" could not be evaluated:`, err);
+      return [];
+    }
+
+    const series: TrendSeries = {
+      assetId: f.assetId,
+      assetName: base.find(b => b.series.assetId === f.assetId)?.series.assetName ?? first.series.assetName,
+      signalTypeId: formulaSignalTypeId(f.id),
+      signalName: `${f.name} (ƒ)`,
+      unit: f.unit,
+    };
+    const response: TelemetryResponse = {
+      ...first.response,
+      assetId: f.assetId,
+      deviceId: "",
+      signalTypeId: series.signalTypeId,
+      signalName: series.signalName,
+      unit: f.unit,
+      values,
+      stats: null,
+    };
+    return [toSeriesData(series, response)];
+  });
+
+/* ---------------- Rolling averages ---------------- */
+const rollingLabel = (windowMs: number) =>
+  ROLLING_WINDOWS.find(w => w.ms === windowMs)?.label ?? `${Math.round(windowMs / 60_000)} min`;
+
+const deriveRollingAverage = (source: TrendSeriesData, windowMs: number): TrendSeriesData => {
+  const series: TrendSeries = {
+    ...source.series,
+    signalTypeId: `${source.series.signalTypeId}:avg`,
+    signalName: `${source.series.signalName} avg ${rollingLabel(windowMs)}`,
+  };
+  return {
+    ...toSeriesData(series, {
+      ...source.response,
+      signalName: series.signalName,
+      values: rollingAverage(source.response.values, windowMs),
+      stats: null,
+    }),
+    derivedFrom: source.key,
+  };
+};
+
+// One drill-down step: a raw window and the samples fetched for it
+interface ZoomLevel {
+  window: ZoomWindow;
+  data: TrendSeriesData[];
+}
+
+// Samples fetched vs. samples handed to the chart
+export interface TrendResolution {
+  rawPoints: number;
+  renderedPoints: number;
+  maxPoints: number;
+}
+
+const toSeriesData = (series: TrendSeries, response: TelemetryResponse): TrendSeriesData => ({
+  key: seriesKey(series),
+  series,
+  response,
+});
+
+export interface AssetSignals {
+  // One entry per signal type
+  signals: IMapping[];
+  deviceNames: string[];
+}
+
+const loadAssetSignals = async (assetId: string): Promise<AssetSignals> => {
+  try {
+    const mappings = await getSignalOnAsset(assetId);
+    const signals = Array.from(new Map(mappings.map(m => [m.signalTypeId, m])).values());
+    const deviceIds = Array.from(new Set(mappings.map(m => m.deviceId).filter(Boolean)));
+    try {
+      const devices = await getDevicesByIds(deviceIds);
+      return { signals, deviceNames: deviceIds.map(id => devices.get(id)?.name ?? "Unknown Device") };
+    } catch (err) {
+      console.error(`Failed to fetch devices for asset ${assetId}`, err);
+      return { signals, deviceNames: deviceIds.map(() => "Unknown Device") };
+    }
+  } catch (err) {
+    console.error(`Failed to fetch signals for asset ${assetId}`, err);
+    return { signals: [], deviceNames: ["Error"] };
+  }
+};
+
+/**
+ * Signals mapped to each of the given assets and the names of the devices
+ * feeding them, keyed by assetId. Mapping lookups are cached, so re-running
+ * for an unchanged asset costs nothing.
+ */
+export const useAssetSignals = (assetIds: string[]) => {
+  const [byAsset, setByAsset] = useState<Map<string, AssetSignals>>(() => new Map());
+  const idsKey = assetIds.filter(Boolean).join("|");
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split("|") : [];
+    let cancelled = false;
+
+    Promise.all(ids.map(loadAssetSignals)).then(results => {
+      if (!cancelled) setByAsset(new Map(ids.map((id, i) => [id, results[i]])));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey]);
+
+  return byAsset;
+};
+
+/**
+ * Shared data layer of the trend workspace. Fetches the backend-aggregated
+ * series for the range, and swaps in raw samples while zoomed into a window.
+ * Series that fail to load are dropped rather than failing the whole chart.
+ * `initialZoom` (e.g. from a shared link) is applied once the first
+ * aggregated load completes.
+ */
+interface TrendDataOptions {
+  // Restored from a shared link; applied once the first aggregated load lands
+  initialZoom?: ZoomWindow | null;
+  // Per-series point budget for the plot; 0 plots every sample
+  maxPoints?: number;
+  formulas?: SavedFormula[];
+  // Trailing average overlaid on every series; 0 turns it off
+  rollingWindowMs?: number;
+}
+
+const NO_FORMULAS: SavedFormula[] = [];
+
+export const useTrendData = (
+  series: TrendSeries[],
+  range: TrendRange,
+  customStart: Date | null,
+  customEnd: Date | null,
+  {
+    initialZoom = null,
+    maxPoints = DEFAULT_MAX_POINTS,
+    formulas = NO_FORMULAS,
+    rollingWindowMs = 0,
+  }: TrendDataOptions = {}
+) => {
+  const [aggregated, setAggregated] = useState<TrendSeriesData[]>([]);
+  // Drill-down history; empty means the whole range at aggregated resolution
+  const [zoomStack, setZoomStack] = useState<ZoomLevel[]>([]);
+  const [loading, setLoading] = useState(false);
+  const timeZone = useTimeZone();
+
+  // Latest request wins; slower earlier responses are discarded
+  const requestId = useRef(0);
+  const seriesRef = useRef(series);
+  seriesRef.current = series;
+  const pendingZoom = useRef(initialZoom);
+
+  const seriesSignature = series.map(s => `${s.assetId}:${s.signalTypeId}:${seriesKey(s)}`).join("|");
+
+  // Fetch raw samples for a window and either drill into it or swap it in for the current level
+  const loadWindow = useCallback(async (start: number, end: number, mode: "push" | "replace") => {
+    if (start === end) return;
+    if (start > end) [start, end] = [end, start];
+
+    const id = ++requestId.current;
+    setLoading(true);
+    try {
+      const startDate = new Date(start).toISOString();
+      const endDate = new Date(end).toISOString();
+      const results = await Promise.all(
+        seriesRef.current.map(s =>
+          getRawTelemetryData({
+            assetId: s.assetId,
+            signalTypeId: s.signalTypeId,
+            timeRange: TimeRange.Custom,
+            startDate,
+            endDate,
+          })
+            .then(response => toSeriesData(s, response))
+            .catch(err => {
+              console.error(`Failed to fetch RAW data for signal ${s.signalName}:`, err);
+              return null;
+            })
+        )
+      );
+      if (id !== requestId.current) return;
+      const level = { window: { start, end }, data: results.filter((r): r is TrendSeriesData => r !== null) };
+      setZoomStack(prev => (mode === "push" ? [...prev, level] : [...prev.slice(0, -1), level]));
+    } catch (err) {
+      console.error("Failed to fetch RAW telemetry:", err);
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  }, []);
+
+  const zoomTo = useCallback((start: number, end: number) => loadWindow(start, end, "push"), [loadWindow]);
+
+  useEffect(() => {
+    const id = ++requestId.current;
+    const current = seriesRef.current;
+    setZoomStack([]);
+
+    const query = resolveTrendRange(range, customStart, customEnd, timeZone);
+    if (!current.length || !query) {
+      setAggregated([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    Promise.all(
+      current.map(s =>
+        getTelemetryData({ assetId: s.assetId, signalTypeId: s.signalTypeId, ...query })
+          .then(response => toSeriesData(s, response))
+          .catch(err => {
+            console.error(`Failed to fetch data for signal ${s.signalName}:`, err);
+            return null;
+          })
+      )
+    ).then(results => {
+      if (id !== requestId.current) return;
+      setAggregated(results.filter((r): r is TrendSeriesData => r !== null));
+      setLoading(false);
+
+      const pending = pendingZoom.current;
+      pendingZoom.current = null;
+      if (pending) zoomTo(pending.start, pending.end);
+    });
+  }, [seriesSignature, range, customStart, customEnd, timeZone, zoomTo]);
+
+  // Level 0 is the full range; higher levels index into the drill-down history
+  const zoomToLevel = useCallback((level: number) => {
+    requestId.current++;
+    setLoading(false);
+    setZoomStack(prev => prev.slice(0, Math.max(0, level)));
+  }, []);
+
+  // Like zoomToLevel, drops a drill-down still in flight so it cannot land after stepping back
+  const zoomBack = useCallback(() => {
+    requestId.current++;
+    setLoading(false);
+    setZoomStack(prev => prev.slice(0, -1));
+  }, []);
+
+  const zoomOut = useCallback(() => zoomToLevel(0), [zoomToLevel]);
+
+  const top = zoomStack.length ? zoomStack[zoomStack.length - 1] : null;
+  const zoomWindow = top?.window ?? null;
+  const bounds = trendRangeBounds(range, customStart, customEnd, timeZone);
+
+  // Shift the current window by half its width, clamped to the selected range, and fetch it
+  const pan = useCallback(
+    (direction: -1 | 1) => {
+      if (!zoomWindow || !bounds) return;
+      const width = zoomWindow.end - zoomWindow.start;
+      const shift = (width / 2) * direction;
+      const start = Math.min(Math.max(zoomWindow.start + shift, bounds.start), bounds.end - width);
+      if (start === zoomWindow.start) return;
+      loadWindow(start, start + width, "replace");
+    },
+    [zoomWindow, bounds, loadWindow]
+  );
+
+  const canPan = {
+    left: !!zoomWindow && !!bounds && zoomWindow.start > bounds.start,
+    right: !!zoomWindow && !!bounds && zoomWindow.end < bounds.end,
+  };
+
+  // `data` stays full-resolution for export and statistics; only the plotted rows are thinned
+  const base = top?.data ?? aggregated;
+  const data = useMemo(() => {
+    const withFormulas = [...base, ...deriveFormulaSeries(formulas, base)];
+    return rollingWindowMs > 0
+      ? [...withFormulas, ...withFormulas.map(d => deriveRollingAverage(d, rollingWindowMs))]
+      : withFormulas;
+  }, [base, formulas, rollingWindowMs]);
+  const plotted = useMemo(
+    () => data.map(d => ({ key: d.key, values: downsample(d.response.values, maxPoints) })),
+    [data, maxPoints]
+  );
+  const rows = useMemo<TrendRow[]>(() => mergeSeries(plotted), [plotted]);
+
+  const resolution = useMemo<TrendResolution>(
+    () => ({
+      rawPoints: data.reduce((sum, d) => sum + d.response.values.length, 0),
+      renderedPoints: plotted.reduce((sum, p) => sum + p.values.length, 0),
+      maxPoints,
+    }),
+    [data, plotted, maxPoints]
+  );
+
+  return {
+    data,
+    rows,
+    resolution,
+    loading,
+    isRawView: top !== null,
+    zoomWindow,
+    zoomStack: zoomStack.map(l => l.window),
+    zoomTo,
+    zoomBack,
+    zoomToLevel,
+    zoomOut,
+    pan,
+    canPan,
+  };
+};
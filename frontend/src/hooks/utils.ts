@@ -1,9 +1,12 @@
+import { formatDateTime } from "@/lib/time";
+import { currentTimeZone } from "./timeZoneStorage";
+
 export function formatNotification(data: any) {
   return (
     `🔔 ${data.asset} • ${data.signal}\n` +
     `Status: ${data.status} (${data.value})\n` +
     `Range: ${data.min} - ${data.max}\n` +
     `Deviation: ${data.percent}%\n` +
-    `⏱ ${new Date(data.timestamp).toLocaleString()}`
+    `⏱ ${formatDateTime(data.timestamp, currentTimeZone())}`
   );
 }
@@ -0,0 +1,59 @@
+// 📡 ConnectionStatus.tsx
+
+import { Wifi, WifiOff, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useRealtime } from "@/hooks/use-realtime";
+import type { HubName, HubStatus } from "@/api/hubManager";
+
+const HUB_LABELS: Record<HubName, string> = {
+  telemetry: "Live telemetry",
+  notifications: "Notifications",
+};
+
+const STATUS_LABELS: Record<HubStatus, string> = {
+  idle: "not started",
+  connecting: "connecting…",
+  connected: "connected",
+  reconnecting: "reconnecting…",
+  disconnected: "disconnected",
+};
+
+export default function ConnectionStatus() {
+  const { hubs, manager } = useRealtime();
+  const entries = Object.entries(hubs) as [HubName, (typeof hubs)[HubName]][];
+
+  // The worst hub decides the icon
+  const anyDown = entries.some(([, h]) => h.status === "disconnected");
+  const anyPending = entries.some(([, h]) => h.status === "connecting" || h.status === "reconnecting");
+
+  const title = entries
+    .map(([hub, h]) => `${HUB_LABELS[hub]}: ${STATUS_LABELS[h.status]}${h.error ? ` (${h.error})` : ""}`)
+    .join("\n");
+
+  // Automatic reconnect has given up → let the user try again
+  const handleClick = () => {
+    entries
+      .filter(([, h]) => h.status === "disconnected")
+      .forEach(([hub]) => manager.start(hub).catch(() => {}));
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      onClick={handleClick}
+      title={anyDown ? `${title}\nClick to reconnect` : title}
+      className="text-sm gap-2"
+    >
+      {anyDown ? (
+        <WifiOff className="w-5 h-5 text-red-500" />
+      ) : anyPending ? (
+        <Loader2 className="w-5 h-5 text-amber-500 animate-spin" />
+      ) : (
+        <Wifi className="w-5 h-5 text-emerald-500" />
+      )}
+      <span className="hidden md:inline text-foreground">
+        {anyDown ? "Offline" : anyPending ? "Connecting" : "Live"}
+      </span>
+    </Button>
+  );
+}
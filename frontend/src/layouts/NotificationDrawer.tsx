@@ -12,6 +12,8 @@ import {
     SheetOverlay,
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { formatDateTime } from "@/lib/time";
 
 interface NotificationDrawerProps {
     open: boolean;
@@ -20,17 +22,12 @@ interface NotificationDrawerProps {
 
 export const NotificationDrawer: React.FC<NotificationDrawerProps> = ({ open, onOpenChange }) => {
     const { notifications, markAsRead, acknowledge } = useNotifications();
+    const timeZone = useTimeZone();
 
     const fmt = (n: number | null | undefined) =>
         typeof n === "number" && Number.isFinite(n) ? (Math.round(n * 10) / 10).toLocaleString() : "-";
 
-    const fmtDate = (iso: string | null | undefined) => {
-        try {
-            return iso ? new Date(iso).toLocaleString() : "-";
-        } catch {
-            return "-";
-        }
-    };
+    const fmtDate = (iso: string | null | undefined) => formatDateTime(iso, timeZone);
 
     const parsePayload = (notif: any) => {
         let data: any = null;
@@ -76,7 +73,7 @@ export const NotificationDrawer: React.FC<NotificationDrawerProps> = ({ open, on
                                         <div>
                                             <h3 className="font-semibold">{notif.title ?? "Notification"}</h3>
                                             <p className="text-sm text-gray-700">{notif.text}</p>
-                                            <p className="text-xs text-gray-400 mt-1">{new Date(notif.createdAt).toLocaleString()}</p>
+                                            <p className="text-xs text-gray-400 mt-1">{fmtDate(notif.createdAt)}</p>
                                         </div>
                                     </div>
                                 </div>
@@ -191,7 +188,7 @@ export const NotificationDrawer: React.FC<NotificationDrawerProps> = ({ open, on
                                     <div>
                                         <h3 className="font-semibold">{notif.title ?? "Notification"}</h3>
                                         <pre className="text-xs text-gray-700 mt-1 max-w-full overflow-auto">{JSON.stringify(data)}</pre>
-                                        <p className="text-xs text-gray-400 mt-1">{new Date(notif.createdAt).toLocaleString()}</p>
+                                        <p className="text-xs text-gray-400 mt-1">{fmtDate(notif.createdAt)}</p>
                                     </div>
                                 </div>
                             </div>
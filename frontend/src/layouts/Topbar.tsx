@@ -15,6 +15,7 @@ import toast from "react-hot-toast";
 import { useAuth } from "@/context/AuthContext";
 import { useNotifications } from "@/context/NotificationContext";
 import StartTourButton from "./StartTourButton";
+import ConnectionStatus from "./ConnectionStatus";
 // import TourInfoPopup from "@/components/TourInfoPopup";
 
 interface TopbarProps {
@@ -75,6 +76,9 @@ export default function Topbar({ onToggleSidebar }: TopbarProps) {
 
       <div className="flex items-center gap-3">
 
+        {/* Realtime hub status */}
+        <ConnectionStatus />
+
         {/* Theme toggle */}
         <ThemeToggle />
         <StartTourButton/>
@@ -0,0 +1,30 @@
+/* --------------------------------------------------------
+    STABLE SERIES COLOURS
+    Hash a series key into a seeded colour so the same asset
+    and signal get the same line colour on every load.
+-------------------------------------------------------- */
+
+function mulberry32(a: number) {
+  return function () {
+    let t = (a += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashStringToInt(s: string) {
+  let h = 2166136261 >>> 0;
+  for (let i = 0; i < s.length; i++) {
+    h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+}
+
+// Hex rather than rgb() so the value can seed an <input type="color">
+export function colorForString(str: string) {
+  const seed = hashStringToInt(str);
+  const rnd = mulberry32(seed);
+  const channel = () => (Math.floor(rnd() * 200) + 20).toString(16).padStart(2, "0");
+  return `#${channel()}${channel()}${channel()}`;
+}
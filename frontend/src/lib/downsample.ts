@@ -0,0 +1,71 @@
+import type { TelemetryPoint } from "@/api/telemetryApi";
+
+/* --------------------------------------------------------
+    DOWNSAMPLING
+    Largest-triangle-three-buckets keeps the visual shape of a
+    series with a fraction of its points. Each bucket also keeps
+    its minimum and maximum sample, so short spikes survive even
+    when the triangle pick lands elsewhere in the bucket.
+-------------------------------------------------------- */
+
+// Per-series point budget choices; 0 renders every sample
+export const RESOLUTION_OPTIONS = [500, 1000, 2000, 5000, 0] as const;
+
+export const DEFAULT_MAX_POINTS = 1000;
+
+export const downsample = (points: TelemetryPoint[], maxPoints: number): TelemetryPoint[] => {
+  if (maxPoints <= 0 || points.length <= maxPoints || points.length < 3) return points;
+
+  const times = points.map(p => new Date(p.time).getTime());
+  const last = points.length - 1;
+
+  // Up to three survivors per bucket (triangle pick, min, max) plus both endpoints
+  const bucketCount = Math.max(1, Math.floor((maxPoints - 2) / 3));
+  const bucketSize = (points.length - 2) / bucketCount;
+  const bucketStart = (i: number) => Math.min(Math.floor(i * bucketSize) + 1, last);
+
+  const keep = new Set<number>([0, last]);
+  let anchor = 0;
+
+  for (let b = 0; b < bucketCount; b++) {
+    const start = bucketStart(b);
+    const end = bucketStart(b + 1);
+    if (end <= start) continue;
+
+    // Average of the next bucket; the final bucket looks at the last point
+    const nextEnd = b + 1 < bucketCount ? bucketStart(b + 2) : last + 1;
+    let avgTime = 0;
+    let avgValue = 0;
+    for (let j = end; j < nextEnd; j++) {
+      avgTime += times[j];
+      avgValue += points[j].value;
+    }
+    const count = nextEnd - end;
+    avgTime = count ? avgTime / count : times[last];
+    avgValue = count ? avgValue / count : points[last].value;
+
+    let pick = start;
+    let maxArea = -1;
+    let minIdx = start;
+    let maxIdx = start;
+    for (let j = start; j < end; j++) {
+      const area = Math.abs(
+        (times[anchor] - avgTime) * (points[j].value - points[anchor].value) -
+          (times[anchor] - times[j]) * (avgValue - points[anchor].value)
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        pick = j;
+      }
+      if (points[j].value < points[minIdx].value) minIdx = j;
+      if (points[j].value > points[maxIdx].value) maxIdx = j;
+    }
+
+    keep.add(pick).add(minIdx).add(maxIdx);
+    anchor = pick;
+  }
+
+  return Array.from(keep)
+    .sort((x, y) => x - y)
+    .map(i => points[i]);
+};
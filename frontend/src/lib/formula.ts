@@ -0,0 +1,276 @@
+import type { TelemetryPoint } from "@/api/telemetryApi";
+import { toSamples, valueAt } from "@/lib/measure";
+
+/* --------------------------------------------------------
+    FORMULA SERIES
+    Virtual series computed from plotted signals, e.g.
+    "A * B / 1000" or "ma(abs(A - B), 10)". Variables are
+    single letters bound to real series; inputs are aligned on
+    the union of their timestamps by linear interpolation.
+-------------------------------------------------------- */
+
+export class FormulaError extends Error {
+  // Character offset of the problem in the expression, when known
+  position: number | null;
+
+  constructor(message: string, position: number | null = null) {
+    super(message);
+    this.name = "FormulaError";
+    this.position = position;
+  }
+}
+
+export const FORMULA_FUNCTIONS = {
+  abs: "abs(x): absolute value",
+  ma: "ma(x, n): moving average over the last n samples",
+  deriv: "deriv(x): rate of change per minute",
+  integ: "integ(x): running integral in value-hours",
+} as const;
+
+type FormulaFunction = keyof typeof FORMULA_FUNCTIONS;
+
+const ARITY: Record<FormulaFunction, number> = { abs: 1, ma: 2, deriv: 1, integ: 1 };
+
+export const FORMULA_VARIABLES = "ABCDEFGH".split("");
+
+type FormulaNode =
+  | { type: "num"; value: number }
+  | { type: "var"; name: string }
+  | { type: "neg"; arg: FormulaNode }
+  | { type: "bin"; op: "+" | "-" | "*" | "/"; left: FormulaNode; right: FormulaNode }
+  | { type: "call"; fn: FormulaFunction; args: FormulaNode[] };
+
+/* ---- PARSING ---- */
+
+interface Token {
+  kind: "num" | "ident" | "op";
+  text: string;
+  pos: number;
+}
+
+const TOKEN = /\s*(?:(\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|([A-Za-z_]\w*)|([-+*/(),]))/y;
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < expression.length) {
+    if (!expression.slice(TOKEN.lastIndex).trim()) break;
+    const pos = TOKEN.lastIndex;
+    const m = TOKEN.exec(expression);
+    if (!m) {
+      const at = pos + (expression.slice(pos).length - expression.slice(pos).trimStart().length);
+      throw new FormulaError(`Unexpected "${expression[at]}"`, at);
+    }
+    const start = m.index + m[0].length - (m[1] ?? m[2] ?? m[3]).length;
+    if (m[1]) tokens.push({ kind: "num", text: m[1], pos: start });
+    else if (m[2]) tokens.push({ kind: "ident", text: m[2], pos: start });
+    else tokens.push({ kind: "op", text: m[3], pos: start });
+  }
+  return tokens;
+};
+
+export const parseFormula = (expression: string): FormulaNode => {
+  const tokens = tokenize(expression);
+  let i = 0;
+
+  const peek = () => tokens[i];
+  const atEnd = () => i >= tokens.length;
+  const expect = (text: string) => {
+    const t = tokens[i];
+    if (!t || t.text !== text) throw new FormulaError(`Expected "${text}"`, t?.pos ?? expression.length);
+    i++;
+  };
+
+  const parseExpr = (): FormulaNode => {
+    let node = parseTerm();
+    while (!atEnd() && (peek().text === "+" || peek().text === "-")) {
+      const op = tokens[i++].text as "+" | "-";
+      node = { type: "bin", op, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary();
+    while (!atEnd() && (peek().text === "*" || peek().text === "/")) {
+      const op = tokens[i++].text as "*" | "/";
+      node = { type: "bin", op, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (!atEnd() && peek().text === "-") {
+      i++;
+      return { type: "neg", arg: parseUnary() };
+    }
+    if (!atEnd() && peek().text === "+") i++;
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const t = tokens[i];
+    if (!t) throw new FormulaError("Unexpected end of formula", expression.length);
+    i++;
+
+    if (t.kind === "num") return { type: "num", value: Number(t.text) };
+
+    if (t.kind === "ident") {
+      const fn = t.text.toLowerCase();
+      if (fn in FORMULA_FUNCTIONS) {
+        expect("(");
+        const args = [parseExpr()];
+        while (!atEnd() && peek().text === ",") {
+          i++;
+          args.push(parseExpr());
+        }
+        expect(")");
+        const arity = ARITY[fn as FormulaFunction];
+        if (args.length !== arity) {
+          throw new FormulaError(`${fn}() takes ${arity} argument${arity > 1 ? "s" : ""}`, t.pos);
+        }
+        if (fn === "ma") {
+          const n = args[1];
+          if (n.type !== "num" || !Number.isInteger(n.value) || n.value < 1) {
+            throw new FormulaError("ma() window must be a whole number of samples", t.pos);
+          }
+        }
+        return { type: "call", fn: fn as FormulaFunction, args };
+      }
+      if (!FORMULA_VARIABLES.includes(t.text)) {
+        throw new FormulaError(`Unknown name "${t.text}"`, t.pos);
+      }
+      return { type: "var", name: t.text };
+    }
+
+    if (t.text === "(") {
+      const node = parseExpr();
+      expect(")");
+      return node;
+    }
+    throw new FormulaError(`Unexpected "${t.text}"`, t.pos);
+  };
+
+  if (!tokens.length) throw new FormulaError("Formula is empty", 0);
+  const root = parseExpr();
+  if (!atEnd()) throw new FormulaError(`Unexpected "${peek().text}"`, peek().pos);
+  return root;
+};
+
+// Variables the formula reads, in first-use order
+export const formulaVariables = (node: FormulaNode): string[] => {
+  const found = new Set<string>();
+  const walk = (n: FormulaNode) => {
+    if (n.type === "var") found.add(n.name);
+    else if (n.type === "neg") walk(n.arg);
+    else if (n.type === "bin") {
+      walk(n.left);
+      walk(n.right);
+    } else if (n.type === "call") n.args.forEach(walk);
+  };
+  walk(node);
+  return Array.from(found);
+};
+
+// Error message for the editor, or null when the formula can be evaluated with these bindings
+export const checkFormula = (expression: string, bound: string[]): string | null => {
+  try {
+    const missing = formulaVariables(parseFormula(expression)).filter((v) => !bound.includes(v));
+    return missing.length ? `Bind ${missing.join(", ")} to a series` : null;
+  } catch (err) {
+    return err instanceof Error ? err.message : "Invalid formula";
+  }
+};
+
+/* ---- EVALUATION ---- */
+
+type Column = (number | null)[];
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_HOUR = 3_600_000;
+
+const evaluateNode = (node: FormulaNode, grid: number[], columns: Record<string, Column>): Column => {
+  switch (node.type) {
+    case "num":
+      return grid.map(() => node.value);
+    case "var":
+      return columns[node.name] ?? grid.map(() => null);
+    case "neg":
+      return evaluateNode(node.arg, grid, columns).map((v) => (v === null ? null : -v));
+    case "bin": {
+      const left = evaluateNode(node.left, grid, columns);
+      const right = evaluateNode(node.right, grid, columns);
+      return left.map((l, i) => {
+        const r = right[i];
+        if (l === null || r === null) return null;
+        switch (node.op) {
+          case "+":
+            return l + r;
+          case "-":
+            return l - r;
+          case "*":
+            return l * r;
+          case "/":
+            return r === 0 ? null : l / r;
+        }
+      });
+    }
+    case "call": {
+      const x = evaluateNode(node.args[0], grid, columns);
+      switch (node.fn) {
+        case "abs":
+          return x.map((v) => (v === null ? null : Math.abs(v)));
+        case "ma": {
+          const n = node.args[1].type === "num" ? node.args[1].value : 1;
+          const window: number[] = [];
+          let sum = 0;
+          return x.map((v) => {
+            if (v === null) return null;
+            window.push(v);
+            sum += v;
+            if (window.length > n) sum -= window.shift()!;
+            return sum / window.length;
+          });
+        }
+        case "deriv": {
+          let prev = -1;
+          return x.map((v, i) => {
+            if (v === null) return null;
+            const p = prev;
+            prev = i;
+            if (p < 0 || grid[i] === grid[p]) return null;
+            return (v - x[p]!) / ((grid[i] - grid[p]) / MS_PER_MINUTE);
+          });
+        }
+        case "integ": {
+          let prev = -1;
+          let total = 0;
+          return x.map((v, i) => {
+            if (v === null) return null;
+            if (prev >= 0) total += ((v + x[prev]!) / 2) * ((grid[i] - grid[prev]) / MS_PER_HOUR);
+            prev = i;
+            return total;
+          });
+        }
+      }
+    }
+  }
+};
+
+// Evaluate on the union of the inputs' timestamps; a point is dropped where any input is missing
+export const evaluateFormula = (expression: string, inputs: Record<string, TelemetryPoint[]>): TelemetryPoint[] => {
+  const node = parseFormula(expression);
+  const variables = formulaVariables(node);
+  if (!variables.length) return [];
+
+  const samples = Object.fromEntries(variables.map((v) => [v, toSamples(inputs[v] ?? [])]));
+  const grid = Array.from(new Set(variables.flatMap((v) => samples[v].map((s) => s.t)))).sort((a, b) => a - b);
+  const columns = Object.fromEntries(variables.map((v) => [v, grid.map((t) => valueAt(samples[v], t))]));
+
+  const result = evaluateNode(node, grid, columns);
+  const points: TelemetryPoint[] = [];
+  result.forEach((value, i) => {
+    if (value !== null && Number.isFinite(value)) points.push({ time: new Date(grid[i]).toISOString(), value });
+  });
+  return points;
+};
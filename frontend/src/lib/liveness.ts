@@ -0,0 +1,59 @@
+/* --------------------------------------------------------
+    LIVENESS RULES
+    A device (or register) is judged against its own poll
+    interval: a few missed polls make it stale, many make it
+    offline. Floors keep fast pollers from flapping and cover
+    the ~5s heartbeat cadence.
+-------------------------------------------------------- */
+
+export type Liveness = "live" | "stale" | "offline" | "unknown";
+
+export const STALE_AFTER_POLLS = 3;
+export const OFFLINE_AFTER_POLLS = 10;
+
+const MIN_STALE_MS = 10_000;
+const MIN_OFFLINE_MS = 30_000;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+export const livenessThresholds = (pollIntervalMs: number | null | undefined) => {
+  const interval = pollIntervalMs && pollIntervalMs > 0 ? pollIntervalMs : DEFAULT_POLL_INTERVAL_MS;
+  return {
+    staleMs: Math.max(MIN_STALE_MS, interval * STALE_AFTER_POLLS),
+    offlineMs: Math.max(MIN_OFFLINE_MS, interval * OFFLINE_AFTER_POLLS),
+  };
+};
+
+/**
+ * `lastSeen` is the last good sample (epoch ms). A device never seen is
+ * "unknown" until we have been watching longer than the offline threshold.
+ */
+export const livenessOf = (
+  lastSeen: number | null,
+  pollIntervalMs: number | null | undefined,
+  now: number,
+  watchingSince: number = now
+): Liveness => {
+  const { staleMs, offlineMs } = livenessThresholds(pollIntervalMs);
+
+  if (lastSeen === null) return now - watchingSince >= offlineMs ? "offline" : "unknown";
+
+  const age = now - lastSeen;
+  if (age >= offlineMs) return "offline";
+  if (age >= staleMs) return "stale";
+  return "live";
+};
+
+export const LIVENESS_LABELS: Record<Liveness, string> = {
+  live: "Live",
+  stale: "Stale",
+  offline: "Offline",
+  unknown: "Waiting",
+};
+
+// Tailwind classes for the status dot
+export const LIVENESS_DOT: Record<Liveness, string> = {
+  live: "bg-emerald-500 animate-pulse",
+  stale: "bg-amber-500",
+  offline: "bg-red-500",
+  unknown: "bg-slate-300",
+};
@@ -0,0 +1,93 @@
+import type { TelemetryPoint } from "@/api/telemetryApi";
+
+/* --------------------------------------------------------
+    TWO-CURSOR MEASUREMENT
+    Everything is computed from the full-resolution samples,
+    not the downsampled plot, so values and statistics do not
+    depend on the chosen chart resolution.
+-------------------------------------------------------- */
+
+export interface MeasureCursors {
+  a: number | null;
+  b: number | null;
+}
+
+export interface SeriesMeasurement {
+  key: string;
+  valueA: number | null;
+  valueB: number | null;
+  delta: number | null;
+  // Change per minute between the cursors
+  ratePerMinute: number | null;
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  // Trapezoidal area in value-hours (kW over the window gives kWh)
+  integral: number | null;
+  samples: number;
+}
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_HOUR = 3_600_000;
+
+export interface Sample {
+  t: number;
+  v: number;
+}
+
+export const toSamples = (values: TelemetryPoint[]): Sample[] =>
+  values.map(p => ({ t: new Date(p.time).getTime(), v: p.value })).sort((x, y) => x.t - y.t);
+
+// Linear interpolation between the neighbouring samples; null outside the series
+export const valueAt = (samples: Sample[], time: number): number | null => {
+  if (!samples.length || time < samples[0].t || time > samples[samples.length - 1].t) return null;
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].t <= time) lo = mid;
+    else hi = mid;
+  }
+  const a = samples[lo];
+  const b = samples[hi];
+  if (b.t === a.t) return a.v;
+  return a.v + ((b.v - a.v) * (time - a.t)) / (b.t - a.t);
+};
+
+export const measureSeries = (key: string, values: TelemetryPoint[], from: number, to: number): SeriesMeasurement => {
+  const [start, end] = from <= to ? [from, to] : [to, from];
+  const samples = toSamples(values);
+  const valueA = valueAt(samples, from);
+  const valueB = valueAt(samples, to);
+  const delta = valueA !== null && valueB !== null ? valueB - valueA : null;
+  const dt = to - from;
+
+  // Window samples bounded by the interpolated cursor values, so the integral covers exactly [start, end]
+  const startValue = valueAt(samples, start);
+  const endValue = valueAt(samples, end);
+  const inside = [
+    ...(startValue !== null ? [{ t: start, v: startValue }] : []),
+    ...samples.filter(s => s.t > start && s.t < end),
+    ...(endValue !== null && end !== start ? [{ t: end, v: endValue }] : []),
+  ];
+
+  let integral = 0;
+  for (let i = 1; i < inside.length; i++) {
+    integral += ((inside[i].v + inside[i - 1].v) / 2) * ((inside[i].t - inside[i - 1].t) / MS_PER_HOUR);
+  }
+  const windowValues = inside.map(s => s.v);
+
+  return {
+    key,
+    valueA,
+    valueB,
+    delta,
+    ratePerMinute: delta !== null && dt !== 0 ? delta / (dt / MS_PER_MINUTE) : null,
+    // reduce rather than Math.min(...) so dense raw windows cannot overflow the call stack
+    min: windowValues.length ? windowValues.reduce((m, v) => Math.min(m, v)) : null,
+    max: windowValues.length ? windowValues.reduce((m, v) => Math.max(m, v)) : null,
+    avg: windowValues.length ? windowValues.reduce((sum, v) => sum + v, 0) / windowValues.length : null,
+    integral: inside.length > 1 ? integral : null,
+    samples: samples.filter(s => s.t >= start && s.t <= end).length,
+  };
+};
@@ -0,0 +1,70 @@
+import type { TelemetryWireDto } from "@/api/hubManager";
+
+/* --------------------------------------------------------
+    REGISTER HEALTH
+    Per-register read state reported by the poller with every
+    TelemetryUpdate. A register is "failing" from its first
+    failed read until the next good one, and "disabled" once
+    the poller has marked it unhealthy and stopped reading it.
+-------------------------------------------------------- */
+
+export interface RegisterHealth {
+  // Epoch ms of the last good read; null if it never answered
+  lastGoodRead: number | null;
+  consecutiveFailures: number;
+  // Modbus exception code of the last failure, if the slave sent one
+  exceptionCode: number | null;
+}
+
+export type RegisterHealthStatus = "healthy" | "failing" | "disabled" | "unknown";
+
+// Standard Modbus exception codes
+export const MODBUS_EXCEPTIONS: Record<number, string> = {
+  1: "Illegal function",
+  2: "Illegal data address",
+  3: "Illegal data value",
+  4: "Slave device failure",
+  5: "Acknowledge",
+  6: "Slave device busy",
+  8: "Memory parity error",
+  10: "Gateway path unavailable",
+  11: "Gateway target failed to respond",
+};
+
+export const describeException = (code: number | null) =>
+  code === null ? null : `${code} · ${MODBUS_EXCEPTIONS[code] ?? "Unknown exception"}`;
+
+type HealthFields = Pick<
+  TelemetryWireDto,
+  | "lastGoodReadUtc"
+  | "LastGoodReadUtc"
+  | "consecutiveFailures"
+  | "ConsecutiveFailures"
+  | "exceptionCode"
+  | "ExceptionCode"
+>;
+
+// Accepts camelCase or PascalCase, like the telemetry worker
+export const healthFromDto = (raw: HealthFields, receivedAt: number): RegisterHealth => {
+  const failures = Number(raw.consecutiveFailures ?? raw.ConsecutiveFailures ?? 0) || 0;
+  const lastGood = Date.parse(String(raw.lastGoodReadUtc ?? raw.LastGoodReadUtc ?? ""));
+  const code = raw.exceptionCode ?? raw.ExceptionCode;
+  return {
+    // Older pollers send no health fields: a plain reading is a good read
+    lastGoodRead: Number.isNaN(lastGood) ? (failures > 0 ? null : receivedAt) : lastGood,
+    consecutiveFailures: failures,
+    exceptionCode: code === null || code === undefined ? null : Number(code),
+  };
+};
+
+/**
+ * `enabled` is the persisted DevicePort/Register isHealthy flag: the
+ * poller clears it after repeated exceptions and stops reading the register.
+ */
+export const healthStatusOf = (health: RegisterHealth | undefined, enabled = true): RegisterHealthStatus => {
+  if (!enabled) return "disabled";
+  if (!health) return "unknown";
+  return health.consecutiveFailures > 0 ? "failing" : "healthy";
+};
+
+export const isUnhealthy = (status: RegisterHealthStatus) => status === "failing" || status === "disabled";
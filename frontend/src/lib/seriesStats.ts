@@ -0,0 +1,99 @@
+import type { TelemetryPoint, TelemetryStats } from "@/api/telemetryApi";
+
+/* --------------------------------------------------------
+    SERIES STATISTICS
+    Min/max/average/first/last come from the service's
+    TelemetryStats when it sent them (they cover every stored
+    sample, not just the aggregated buckets); the spread and
+    distribution are computed from the fetched values.
+-------------------------------------------------------- */
+
+export interface SeriesSummary {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+  first: number;
+  last: number;
+  firstTime: string;
+  lastTime: string;
+}
+
+export const summarizeSeries = (values: TelemetryPoint[], stats: TelemetryStats | null): SeriesSummary | null => {
+  if (!values.length && !stats?.count) return null;
+
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(({ value }) => {
+    sum += value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+  const localMean = values.length ? sum / values.length : 0;
+  const variance = values.length
+    ? values.reduce((acc, { value }) => acc + (value - localMean) ** 2, 0) / values.length
+    : 0;
+
+  return {
+    count: stats?.count ?? values.length,
+    min: stats?.min ?? min,
+    max: stats?.max ?? max,
+    mean: stats?.average ?? localMean,
+    stdDev: Math.sqrt(variance),
+    first: stats?.firstValue ?? values[0]?.value ?? 0,
+    last: stats?.lastValue ?? values[values.length - 1]?.value ?? 0,
+    firstTime: stats?.firstTimestamp ?? values[0]?.time ?? "",
+    lastTime: stats?.lastTimestamp ?? values[values.length - 1]?.time ?? "",
+  };
+};
+
+/* ---- ROLLING AVERAGE ---- */
+
+export const ROLLING_WINDOWS = [
+  { label: "5 min", ms: 5 * 60_000 },
+  { label: "15 min", ms: 15 * 60_000 },
+  { label: "1 hour", ms: 60 * 60_000 },
+  { label: "1 day", ms: 24 * 60 * 60_000 },
+] as const;
+
+// Trailing time-based mean, so irregular sampling does not skew the window
+export const rollingAverage = (values: TelemetryPoint[], windowMs: number): TelemetryPoint[] => {
+  const times = values.map(p => new Date(p.time).getTime());
+  const out: TelemetryPoint[] = [];
+  let start = 0;
+  let sum = 0;
+  values.forEach((p, i) => {
+    sum += p.value;
+    while (times[i] - times[start] > windowMs) sum -= values[start++].value;
+    out.push({ time: p.time, value: sum / (i - start + 1) });
+  });
+  return out;
+};
+
+/* ---- DISTRIBUTION ---- */
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export const histogram = (values: TelemetryPoint[], binCount: number): HistogramBin[] => {
+  if (!values.length || binCount < 1) return [];
+  const min = values.reduce((m, p) => Math.min(m, p.value), Infinity);
+  const max = values.reduce((m, p) => Math.max(m, p.value), -Infinity);
+  // A flat signal still gets one bin holding every sample
+  const width = max > min ? (max - min) / binCount : 1;
+  const bins: HistogramBin[] = Array.from({ length: max > min ? binCount : 1 }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach(({ value }) => {
+    const index = Math.min(bins.length - 1, Math.floor((value - min) / width));
+    bins[index].count++;
+  });
+  return bins;
+};
@@ -0,0 +1,43 @@
+import type { IMapping, SignalType } from "@/api/assetApi";
+import type { Signal } from "@/types/asset";
+
+/* --------------------------------------------------------
+    SIGNAL THRESHOLDS
+    Effective limits of one asset signal: the mapping's own
+    override when set, otherwise the signal type's defaults.
+    The same rule the asset-service alert pipeline applies.
+-------------------------------------------------------- */
+
+export type SignalThresholds = NonNullable<Signal["thresholds"]>;
+
+export type Breach = "low" | "high" | null;
+
+const finite = (v: number | null | undefined) =>
+  v !== null && v !== undefined && Number.isFinite(v) ? v : undefined;
+
+export const effectiveThresholds = (
+  mapping: Pick<IMapping, "minThreshold" | "maxThreshold" | "thresholdsEnabled">,
+  signalType: Pick<SignalType, "minThreshold" | "maxThreshold"> | undefined
+): SignalThresholds => ({
+  min: finite(mapping.minThreshold) ?? finite(signalType?.minThreshold),
+  max: finite(mapping.maxThreshold) ?? finite(signalType?.maxThreshold),
+  enabled: mapping.thresholdsEnabled ?? true,
+});
+
+export const breachOf = (value: number, thresholds: SignalThresholds | undefined): Breach => {
+  if (!thresholds?.enabled || !Number.isFinite(value)) return null;
+  if (thresholds.min !== undefined && value < thresholds.min) return "low";
+  if (thresholds.max !== undefined && value > thresholds.max) return "high";
+  return null;
+};
+
+export const describeThresholds = (thresholds: SignalThresholds | undefined, unit = "") => {
+  if (!thresholds || (thresholds.min === undefined && thresholds.max === undefined)) return "No limits";
+  const suffix = unit ? ` ${unit}` : "";
+  const range = `${thresholds.min ?? "−∞"} – ${thresholds.max ?? "+∞"}${suffix}`;
+  return thresholds.enabled ? range : `${range} (alarm off)`;
+};
+
+// Chart colours for the normal band and the limit lines
+export const THRESHOLD_BAND_FILL = "#10b981";
+export const THRESHOLD_LINE_STROKE = "#ef4444";
@@ -0,0 +1,141 @@
+import { format } from "date-fns";
+
+/* --------------------------------------------------------
+    TIME ZONES
+    The services store and expect UTC. Timestamps are shown
+    in the user's time zone (their preference, else the
+    plant's), and dates they pick are read in that zone
+    before being sent back as UTC.
+-------------------------------------------------------- */
+
+export const isValidTimeZone = (timeZone: string) => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Set per deployment with VITE_PLANT_TIMEZONE; the browser's zone otherwise
+const configuredPlantZone: string = import.meta.env.VITE_PLANT_TIMEZONE ?? "";
+export const PLANT_TIME_ZONE = isValidTimeZone(configuredPlantZone) ? configuredPlantZone : BROWSER_TIME_ZONE;
+
+export const listTimeZones = (): string[] => {
+  const zones = Intl.supportedValuesOf("timeZone");
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+};
+
+export type TimeInput = string | number | Date;
+
+// Service DateTimes often arrive without an offset; they are UTC
+const NO_OFFSET = /T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+export const parseUtc = (value: TimeInput): Date => {
+  if (value instanceof Date) return value;
+  if (typeof value === "number") return new Date(value);
+  return new Date(NO_OFFSET.test(value) ? `${value}Z` : value);
+};
+
+/* ---- Wall clock ---- */
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const partsIn = (date: Date, timeZone: string) => {
+  let formatter = partFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach((p) => {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  });
+  return parts;
+};
+
+// How far `timeZone` is ahead of UTC at that instant
+export const timeZoneOffsetMs = (date: Date, timeZone: string) => {
+  const p = partsIn(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, date.getUTCMilliseconds());
+  return asUtc - date.getTime();
+};
+
+// A Date whose local fields read as the wall clock in `timeZone`; for date-fns formatting only
+const wallClock = (date: Date, timeZone: string) => {
+  const p = partsIn(date, timeZone);
+  return new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, date.getMilliseconds());
+};
+
+// date-fns pattern, rendered in `timeZone`
+export const formatInZone = (value: TimeInput, pattern: string, timeZone: string) => {
+  const date = parseUtc(value);
+  return Number.isNaN(date.getTime()) ? "-" : format(wallClock(date, timeZone), pattern);
+};
+
+export const DATE_TIME_PATTERN = "dd MMM yyyy, hh:mm:ss a";
+
+export const formatDateTime = (value: TimeInput | null | undefined, timeZone: string) =>
+  value === null || value === undefined || value === "" ? "-" : formatInZone(value, DATE_TIME_PATTERN, timeZone);
+
+// "2d 3h", "1h 20m", "45s": the two largest units of a span
+export const formatDuration = (seconds: number) => {
+  const s = Math.max(0, Math.round(seconds));
+  const units: [string, number][] = [
+    ["d", Math.floor(s / 86_400)],
+    ["h", Math.floor((s % 86_400) / 3_600)],
+    ["m", Math.floor((s % 3_600) / 60)],
+    ["s", s % 60],
+  ];
+  const first = units.findIndex(([, n]) => n > 0);
+  if (first < 0) return "0s";
+  return units
+    .slice(first, first + 2)
+    .filter(([, n]) => n > 0)
+    .map(([unit, n]) => `${n}${unit}`)
+    .join(" ");
+};
+
+// "GMT+4" style label for headers and pickers
+export const timeZoneAbbreviation = (timeZone: string, at: Date = new Date()) =>
+  new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(at)
+    .find((p) => p.type === "timeZoneName")?.value ?? timeZone;
+
+/* ---- Picked dates to UTC ---- */
+
+/**
+ * Read a "yyyy-MM-dd" or "yyyy-MM-ddTHH:mm[:ss]" wall-clock value (what
+ * date and datetime-local inputs produce) as a time in `timeZone`.
+ */
+export const zonedToUtc = (local: string, timeZone: string): Date => {
+  const [datePart, timePart = "00:00"] = local.split("T");
+  const [y, m, d] = datePart.split("-").map(Number);
+  const [h, mi, s = 0] = timePart.split(":").map(Number);
+  const guess = Date.UTC(y, m - 1, d, h, mi, s);
+  const first = guess - timeZoneOffsetMs(new Date(guess), timeZone);
+  // Near a DST change the offset at the result can differ from the offset at the guess
+  return new Date(guess - timeZoneOffsetMs(new Date(first), timeZone));
+};
+
+// Value for a datetime-local input showing `value` in `timeZone`
+export const toZonedInput = (value: TimeInput, timeZone: string) => formatInZone(value, "yyyy-MM-dd'T'HH:mm", timeZone);
+
+// Midnight in `timeZone` of the calendar day a date picker returned (a local-midnight Date)
+export const startOfPickedDay = (day: Date, timeZone: string) => zonedToUtc(format(day, "yyyy-MM-dd"), timeZone);
+
+// Midnight in `timeZone` at the start of today
+export const startOfTodayIn = (timeZone: string) =>
+  zonedToUtc(formatInZone(new Date(), "yyyy-MM-dd", timeZone), timeZone);
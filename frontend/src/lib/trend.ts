@@ -0,0 +1,136 @@
+import { TimeRange, type TelemetryPoint } from "@/api/telemetryApi";
+import { startOfPickedDay, startOfTodayIn } from "./time";
+
+/* --------------------------------------------------------
+    HISTORICAL TRENDS
+    Time ranges, series identity and the time-aligned merge
+    behind the trend workspace.
+-------------------------------------------------------- */
+
+export type TrendRange = "1h" | "today" | "24h" | "7d" | "30d" | "custom";
+
+export const TREND_RANGE_LABELS: Record<TrendRange, string> = {
+  "1h": "Last Hour",
+  today: "Today",
+  "24h": "Last 24 Hours",
+  "7d": "Last 7 Days",
+  "30d": "Last 30 Days",
+  custom: "Custom Range",
+};
+
+export interface TrendQueryWindow {
+  timeRange: TimeRange;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Null while a custom range is still missing its start date. "Today" and picked
+// days begin at midnight in the user's time zone
+export const resolveTrendRange = (
+  range: TrendRange,
+  customStart: Date | null,
+  customEnd: Date | null,
+  timeZone: string
+): TrendQueryWindow | null => {
+  switch (range) {
+    case "1h":
+      return { timeRange: TimeRange.LastHour };
+    case "24h":
+      return { timeRange: TimeRange.Last24Hours };
+    case "7d":
+      return { timeRange: TimeRange.Last7Days };
+    case "30d":
+      return { timeRange: TimeRange.Last30Days };
+    case "today":
+      return {
+        timeRange: TimeRange.Custom,
+        startDate: startOfTodayIn(timeZone).toISOString(),
+        endDate: new Date().toISOString(),
+      };
+    case "custom":
+      if (!customStart) return null;
+      return {
+        timeRange: TimeRange.Custom,
+        startDate: startOfPickedDay(customStart, timeZone).toISOString(),
+        endDate: (customEnd ? startOfPickedDay(customEnd, timeZone) : new Date()).toISOString(),
+      };
+  }
+};
+
+const RANGE_SPAN_MS: Partial<Record<TrendRange, number>> = {
+  "1h": 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+// The range as epoch bounds, so zoom windows can be panned without leaving it
+export const trendRangeBounds = (
+  range: TrendRange,
+  customStart: Date | null,
+  customEnd: Date | null,
+  timeZone: string
+): { start: number; end: number } | null => {
+  const query = resolveTrendRange(range, customStart, customEnd, timeZone);
+  if (!query) return null;
+  const end = query.endDate ? new Date(query.endDate).getTime() : Date.now();
+  const start = query.startDate ? new Date(query.startDate).getTime() : end - (RANGE_SPAN_MS[range] ?? 0);
+  return { start, end };
+};
+
+/** ------------------------------------------------------------------
+ * One plotted line: a signal of an asset. The key doubles as the
+ * chart dataKey and the legend name.
+------------------------------------------------------------------ */
+export interface TrendSeries {
+  assetId: string;
+  assetName: string;
+  signalTypeId: string;
+  signalName: string;
+  unit: string;
+}
+
+// One asset on the chart and the signal types plotted for it
+export interface TrendAssetSelection {
+  assetId: string;
+  signalTypeIds: string[];
+}
+
+export const seriesKey = (series: Pick<TrendSeries, "assetName" | "signalName">) =>
+  `${series.assetName}-${series.signalName}`;
+
+export type TrendRow = { time: number } & Record<string, number>;
+
+// A pinned instant whose values the tooltip compares against
+export interface ReferencePoint {
+  time: number;
+  values: Record<string, number>;
+}
+
+// Pin the row nearest to `time`; a shared link may name an instant between samples
+export const referenceAt = (rows: TrendRow[], keys: string[], time: number): ReferencePoint | null => {
+  if (!rows.length) return null;
+  const row = rows.reduce((best, r) => (Math.abs(r.time - time) < Math.abs(best.time - time) ? r : best));
+  const values: Record<string, number> = {};
+  keys.forEach(key => {
+    if (row[key] != null) values[key] = row[key];
+  });
+  return { time: row.time, values };
+};
+
+// Align every series on a shared time axis; a row only holds the series sampled at that instant
+export const mergeSeries = (results: { key: string; values: TelemetryPoint[] }[]): TrendRow[] => {
+  const timeMap = new Map<number, TrendRow>();
+  for (const { key, values } of results) {
+    for (const point of values) {
+      const t = new Date(point.time).getTime();
+      let row = timeMap.get(t);
+      if (!row) {
+        row = { time: t } as TrendRow;
+        timeMap.set(t, row);
+      }
+      row[key] = point.value;
+    }
+  }
+  return Array.from(timeMap.values()).sort((a, b) => a.time - b.time);
+};
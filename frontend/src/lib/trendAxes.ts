@@ -0,0 +1,60 @@
+/* --------------------------------------------------------
+    TREND AXES
+    Series that share a unit share a Y axis, so a 0-1 power
+    factor is not flattened next to a 0-415 V voltage. Units
+    alternate left/right unless the user pins a side, and any
+    axis can be given a manual min/max.
+-------------------------------------------------------- */
+
+export type AxisSide = "left" | "right";
+
+// Overlay: every axis on one chart. Stacked: one sub-plot per axis on a shared time axis
+export type TrendLayout = "overlay" | "stacked";
+
+export interface AxisSettings {
+  side?: AxisSide;
+  min?: number;
+  max?: number;
+}
+
+type AxisBound = number | "auto";
+
+export interface TrendAxis {
+  id: string;
+  unit: string;
+  keys: string[];
+  side: AxisSide;
+  domain: [AxisBound, AxisBound];
+  // True when the user fixed either bound, so data outside it is clipped rather than rescaled
+  manual: boolean;
+}
+
+export const axisIdFor = (unit: string) => `axis-${unit || "none"}`;
+
+export const axisLabel = (unit: string) => unit || "No unit";
+
+// One axis per distinct unit, in the order the units first appear
+export const groupAxes = (
+  series: { key: string; unit: string }[],
+  settings: Record<string, AxisSettings>
+): TrendAxis[] => {
+  const byUnit = new Map<string, string[]>();
+  series.forEach(({ key, unit }) => {
+    const u = unit.trim();
+    byUnit.set(u, [...(byUnit.get(u) ?? []), key]);
+  });
+
+  return Array.from(byUnit, ([unit, keys], index) => {
+    const s = settings[unit] ?? {};
+    return {
+      id: axisIdFor(unit),
+      unit,
+      keys,
+      side: s.side ?? (index % 2 === 0 ? "left" : "right"),
+      domain: [s.min ?? "auto", s.max ?? "auto"],
+      manual: s.min !== undefined || s.max !== undefined,
+    };
+  });
+};
+
+export const axisOfKey = (axes: TrendAxis[], key: string) => axes.find((a) => a.keys.includes(key));
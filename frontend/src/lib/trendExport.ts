@@ -0,0 +1,226 @@
+import * as XLSX from "xlsx";
+import type { TelemetryPoint } from "@/api/telemetryApi";
+import { mergeSeries } from "./trend";
+import { formatInZone } from "./time";
+
+/* --------------------------------------------------------
+    TREND EXPORT
+    The on-screen series, merged on the same time axis as
+    the chart (raw or aggregated, never the downsampled
+    rows), as CSV/XLSX; and the chart itself as SVG/PNG.
+-------------------------------------------------------- */
+
+export interface ExportSeries {
+  key: string;
+  assetName: string;
+  signalName: string;
+  unit: string;
+  values: TelemetryPoint[];
+}
+
+export interface TrendTable {
+  headers: string[];
+  // UTC and zoned timestamps, then one value per series; null where a series has no sample at that instant
+  rows: (string | number | null)[][];
+}
+
+// Context written next to the data: what window and which kind of samples
+export interface TrendExportInfo {
+  window: string;
+  samples: string;
+}
+
+export const columnHeader = (s: Pick<ExportSeries, "assetName" | "signalName" | "unit">) =>
+  `${s.assetName} / ${s.signalName}${s.unit ? ` (${s.unit})` : ""}`;
+
+export const buildTrendTable = (series: ExportSeries[], timeZone: string): TrendTable => {
+  const merged = mergeSeries(series.map(s => ({ key: s.key, values: s.values })));
+  return {
+    headers: ["Time (UTC)", `Time (${timeZone})`, ...series.map(columnHeader)],
+    rows: merged.map(row => [
+      new Date(row.time).toISOString(),
+      formatInZone(row.time, "yyyy-MM-dd HH:mm:ss", timeZone),
+      ...series.map(s => row[s.key] ?? null),
+    ]),
+  };
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const tableSheet = (table: TrendTable) => XLSX.utils.aoa_to_sheet([table.headers, ...table.rows]);
+
+export const exportTrendCsv = (table: TrendTable, filename: string) => {
+  const csv = XLSX.utils.sheet_to_csv(tableSheet(table));
+  // BOM so spreadsheet apps read units such as °C correctly
+  downloadBlob(new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }), `${filename}.csv`);
+};
+
+export const exportTrendXlsx = (table: TrendTable, series: ExportSeries[], info: TrendExportInfo, filename: string) => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, tableSheet(table), "Data");
+
+  const seriesSheet = XLSX.utils.json_to_sheet(
+    series.map(s => ({
+      Column: columnHeader(s),
+      Asset: s.assetName,
+      Signal: s.signalName,
+      Unit: s.unit,
+      Samples: s.values.length,
+    }))
+  );
+  XLSX.utils.book_append_sheet(wb, seriesSheet, "Series");
+
+  const infoSheet = XLSX.utils.aoa_to_sheet([
+    ["Window", info.window],
+    ["Samples", info.samples],
+    ["Exported (UTC)", new Date().toISOString()],
+  ]);
+  XLSX.utils.book_append_sheet(wb, infoSheet, "Export");
+
+  XLSX.writeFile(wb, `${filename}.xlsx`);
+};
+
+/* ---- Chart image ---- */
+
+export interface ChartLegendItem {
+  label: string;
+  color: string;
+  dashed?: boolean;
+}
+
+export interface ChartImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const PADDING = 16;
+const TITLE_HEIGHT = 28;
+const LEGEND_ROW_HEIGHT = 20;
+const FONT = "ui-sans-serif, system-ui, sans-serif";
+
+const svgElement = (name: string, attrs: Record<string, string | number>) => {
+  const el = document.createElementNS(SVG_NS, name);
+  Object.entries(attrs).forEach(([k, v]) => el.setAttribute(k, String(v)));
+  return el;
+};
+
+// Rough label width, enough to wrap the legend without measuring text
+const legendItemWidth = (label: string) => 28 + label.length * 7;
+
+/**
+ * Stack every plot surface under `container` (one in overlay layout, one per
+ * axis when stacked) into a single standalone SVG. The recharts legend is
+ * HTML, so it is redrawn from `legend` below the plots.
+ */
+export const buildChartSvg = (container: HTMLElement, title: string, legend: ChartLegendItem[]): ChartImage | null => {
+  const surfaces = Array.from(container.querySelectorAll<SVGSVGElement>("svg.recharts-surface")).filter(
+    s => !s.closest(".recharts-legend-wrapper")
+  );
+  if (!surfaces.length) return null;
+
+  const sizes = surfaces.map(s => s.getBoundingClientRect());
+  const plotWidth = Math.max(...sizes.map(r => r.width));
+  const width = plotWidth + PADDING * 2;
+
+  // Wrap legend entries into rows
+  const legendRows: ChartLegendItem[][] = [[]];
+  let rowWidth = 0;
+  legend.forEach(item => {
+    const w = legendItemWidth(item.label);
+    if (rowWidth + w > plotWidth && legendRows[legendRows.length - 1].length) {
+      legendRows.push([]);
+      rowWidth = 0;
+    }
+    legendRows[legendRows.length - 1].push(item);
+    rowWidth += w;
+  });
+
+  const plotsHeight = sizes.reduce((sum, r) => sum + r.height, 0);
+  const legendHeight = legend.length ? legendRows.length * LEGEND_ROW_HEIGHT + PADDING / 2 : 0;
+  const height = PADDING + TITLE_HEIGHT + plotsHeight + legendHeight + PADDING;
+
+  const root = svgElement("svg", { xmlns: SVG_NS, width, height, viewBox: `0 0 ${width} ${height}` });
+  root.setAttribute("font-family", FONT);
+  root.appendChild(svgElement("rect", { width, height, fill: "#ffffff" }));
+
+  const heading = svgElement("text", { x: PADDING, y: PADDING + 16, "font-size": 16, "font-weight": 600, fill: "#111827" });
+  heading.textContent = title;
+  root.appendChild(heading);
+
+  let y = PADDING + TITLE_HEIGHT;
+  surfaces.forEach((surface, i) => {
+    const clone = surface.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute("x", String(PADDING));
+    clone.setAttribute("y", String(y));
+    clone.setAttribute("width", String(sizes[i].width));
+    clone.setAttribute("height", String(sizes[i].height));
+    clone.setAttribute("font-size", "12");
+    root.appendChild(clone);
+    y += sizes[i].height;
+  });
+
+  y += PADDING / 2;
+  legendRows.forEach(row => {
+    let x = PADDING;
+    row.forEach(item => {
+      root.appendChild(
+        svgElement("line", {
+          x1: x,
+          y1: y + LEGEND_ROW_HEIGHT / 2,
+          x2: x + 18,
+          y2: y + LEGEND_ROW_HEIGHT / 2,
+          stroke: item.color,
+          "stroke-width": 2,
+          ...(item.dashed ? { "stroke-dasharray": "6 3" } : {}),
+        })
+      );
+      const label = svgElement("text", { x: x + 24, y: y + LEGEND_ROW_HEIGHT / 2 + 4, "font-size": 12, fill: "#374151" });
+      label.textContent = item.label;
+      root.appendChild(label);
+      x += legendItemWidth(item.label);
+    });
+    y += LEGEND_ROW_HEIGHT;
+  });
+
+  return { svg: new XMLSerializer().serializeToString(root), width, height };
+};
+
+export const exportChartSvg = (image: ChartImage, filename: string) =>
+  downloadBlob(new Blob([image.svg], { type: "image/svg+xml;charset=utf-8" }), `${filename}.svg`);
+
+// Rasterise the SVG at `scale`x for a crisp PNG
+export const exportChartPng = (image: ChartImage, filename: string, scale = 2) =>
+  new Promise<void>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.width * scale;
+      canvas.height = image.height * scale;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0);
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error("Chart image could not be encoded"));
+          return;
+        }
+        downloadBlob(blob, `${filename}.png`);
+        resolve();
+      }, "image/png");
+    };
+    img.onerror = () => reject(new Error("Chart image could not be rendered"));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+  });
@@ -0,0 +1,69 @@
+import { TREND_RANGE_LABELS, type TrendAssetSelection, type TrendRange } from "@/lib/trend";
+
+/* --------------------------------------------------------
+    TREND VIEW IN THE URL
+    ?a=<assetId>:<signalTypeId>,<signalTypeId>   (repeated)
+    &range=24h  &from=<iso>&to=<iso>           (custom only)
+    &zoom=<startMs>-<endMs>  &ref=<timeMs>
+-------------------------------------------------------- */
+
+export interface TrendViewState {
+  selections: TrendAssetSelection[];
+  range: TrendRange;
+  customStart: Date | null;
+  customEnd: Date | null;
+  zoom: { start: number; end: number } | null;
+  referenceTime: number | null;
+}
+
+const isTrendRange = (v: string | null): v is TrendRange => v !== null && v in TREND_RANGE_LABELS;
+
+const parseDate = (v: string | null) => {
+  if (!v) return null;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d;
+};
+
+const parseTime = (v: string | null) => {
+  const n = Number(v);
+  return v && Number.isFinite(n) ? n : null;
+};
+
+export const encodeTrendView = (view: TrendViewState): URLSearchParams => {
+  const params = new URLSearchParams();
+  view.selections
+    .filter(s => s.assetId)
+    .forEach(s => params.append("a", s.signalTypeIds.length ? `${s.assetId}:${s.signalTypeIds.join(",")}` : s.assetId));
+  params.set("range", view.range);
+  if (view.range === "custom") {
+    if (view.customStart) params.set("from", view.customStart.toISOString());
+    if (view.customEnd) params.set("to", view.customEnd.toISOString());
+  }
+  if (view.zoom) params.set("zoom", `${Math.round(view.zoom.start)}-${Math.round(view.zoom.end)}`);
+  if (view.referenceTime !== null) params.set("ref", String(view.referenceTime));
+  return params;
+};
+
+// Null when the URL carries no trend view, so the caller falls back to its defaults
+export const decodeTrendView = (params: URLSearchParams): Partial<TrendViewState> | null => {
+  const assets = params.getAll("a");
+  if (!assets.length && !params.has("range")) return null;
+
+  const view: Partial<TrendViewState> = {};
+  if (assets.length) {
+    view.selections = assets.map(entry => {
+      const [assetId, signals = ""] = entry.split(":");
+      return { assetId, signalTypeIds: signals.split(",").filter(Boolean) };
+    });
+  }
+
+  const range = params.get("range");
+  if (isTrendRange(range)) view.range = range;
+  view.customStart = parseDate(params.get("from"));
+  view.customEnd = parseDate(params.get("to"));
+
+  const [start, end] = (params.get("zoom") ?? "").split("-").map(v => parseTime(v));
+  view.zoom = start != null && end != null && start < end ? { start, end } : null;
+  view.referenceTime = parseTime(params.get("ref"));
+  return view;
+};
@@ -0,0 +1,140 @@
+import {
+  ALERT_SEVERITIES,
+  type Alert,
+  type AlertAnalytics,
+  type AlertFilter,
+  type AlertSeverity,
+  type AlertSignalStats,
+} from "@/api/alertApi";
+import { formatInZone } from "@/lib/time";
+import type { MockAlert } from "./fixtures";
+
+/* --------------------------------------------------------
+    ALERT METRICS
+    Mirrors AlertMetrics and AlertAnalyticsService in the
+    asset-service so /alerts/page and /alerts/analytics
+    answer with the same shapes and numbers.
+-------------------------------------------------------- */
+
+const deviationOf = (a: MockAlert) => {
+  if (a.maxObservedValue !== null && a.maxObservedValue > a.maxThreshold)
+    return { percent: ((a.maxObservedValue - a.maxThreshold) / (a.maxThreshold || 1)) * 100, direction: "UP" as const };
+  if (a.minObservedValue !== null && a.minObservedValue < a.minThreshold)
+    return { percent: ((a.minThreshold - a.minObservedValue) / (a.minThreshold || 1)) * 100, direction: "DOWN" as const };
+  return { percent: 0, direction: "NONE" as const };
+};
+
+const severityOf = (percent: number): AlertSeverity => (percent >= 25 ? "Critical" : percent >= 10 ? "Medium" : "Low");
+
+const endOf = (a: MockAlert, now: number) => (a.alertEndUtc ? Date.parse(a.alertEndUtc) : now);
+
+export const toAlertDto = (a: MockAlert, now = Date.now()): Alert => {
+  const { percent, direction } = deviationOf(a);
+  return {
+    alertId: a.alertId,
+    assetId: a.assetId,
+    assetName: a.assetName,
+    signalTypeId: a.signalTypeId,
+    signalName: a.signalName,
+    alertStartUtc: a.alertStartUtc,
+    alertEndUtc: a.alertEndUtc,
+    minThreshold: a.minThreshold,
+    maxThreshold: a.maxThreshold,
+    minObservedValue: a.minObservedValue,
+    maxObservedValue: a.maxObservedValue,
+    isActive: a.isActive,
+    isAnalyzed: a.isAnalyzed,
+    deviationPercent: Math.round(percent * 100) / 100,
+    deviationDirection: direction,
+    severity: severityOf(percent),
+    durationSeconds: Math.max(0, (endOf(a, now) - Date.parse(a.alertStartUtc)) / 1000),
+  };
+};
+
+// Oldest first, like AlertRepository.GetFilteredAsync
+export const filterAlerts = (alerts: MockAlert[], filter: Partial<AlertFilter>) => {
+  const from = filter.fromUtc ? Date.parse(filter.fromUtc) : 0;
+  const to = filter.toUtc ? Date.parse(filter.toUtc) : Date.now();
+  return alerts
+    .filter((a) => {
+      const start = Date.parse(a.alertStartUtc);
+      return start >= from && start <= to;
+    })
+    .filter((a) => !filter.assetId || a.assetId === filter.assetId)
+    .filter((a) => !filter.signalName || a.signalName === filter.signalName)
+    .filter((a) => !filter.severity || severityOf(deviationOf(a).percent) === filter.severity)
+    .sort((a, b) => a.alertStartUtc.localeCompare(b.alertStartUtc));
+};
+
+const meanGapSeconds = (alerts: MockAlert[]) =>
+  alerts.length < 2
+    ? null
+    : (Date.parse(alerts[alerts.length - 1].alertStartUtc) - Date.parse(alerts[0].alertStartUtc)) /
+      1000 /
+      (alerts.length - 1);
+
+export const alertAnalytics = (
+  alerts: MockAlert[],
+  filter: AlertFilter,
+  timeZone: string,
+  now = Date.now()
+): AlertAnalytics => {
+  const from = Date.parse(filter.fromUtc);
+  const to = Date.parse(filter.toUtc);
+  const dtos = alerts.map((a) => toAlertDto(a, now));
+
+  const byHour = Array.from({ length: 24 }, (_, hour) => ({ hour, count: 0 }));
+  alerts.forEach((a) => byHour[Number(formatInZone(a.alertStartUtc, "H", timeZone))].count++);
+
+  const groups = new Map<string, MockAlert[]>();
+  alerts.forEach((a) => {
+    const key = `${a.assetId}:${a.signalTypeId}`;
+    groups.set(key, [...(groups.get(key) ?? []), a]);
+  });
+
+  const bySignal: AlertSignalStats[] = [...groups.values()]
+    .map((group) => {
+      const last = group[group.length - 1];
+      return {
+        assetId: last.assetId,
+        assetName: last.assetName,
+        signalTypeId: last.signalTypeId,
+        signalName: last.signalName,
+        count: group.length,
+        critical: group.filter((a) => severityOf(deviationOf(a).percent) === "Critical").length,
+        outOfLimitSeconds: group.reduce((sum, a) => {
+          const start = Math.max(Date.parse(a.alertStartUtc), from);
+          const end = Math.min(endOf(a, now), to);
+          return sum + Math.max(0, (end - start) / 1000);
+        }, 0),
+        meanTimeBetweenAlertsSeconds: meanGapSeconds(group),
+        lastAlertUtc: last.alertStartUtc,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.count - a.count || a.assetName.localeCompare(b.assetName) || a.signalName.localeCompare(b.signalName)
+    );
+
+  const gaps = bySignal.reduce((sum, s) => sum + s.count - 1, 0);
+  const gapSeconds = bySignal.reduce((sum, s) => sum + (s.meanTimeBetweenAlertsSeconds ?? 0) * (s.count - 1), 0);
+
+  return {
+    fromUtc: filter.fromUtc,
+    toUtc: filter.toUtc,
+    timeZone,
+    total: alerts.length,
+    active: alerts.filter((a) => a.isActive).length,
+    averageDeviationPercent: dtos.length
+      ? Math.round((dtos.reduce((sum, d) => sum + d.deviationPercent, 0) / dtos.length) * 100) / 100
+      : 0,
+    totalOutOfLimitSeconds: bySignal.reduce((sum, s) => sum + s.outOfLimitSeconds, 0),
+    meanTimeBetweenAlertsSeconds: gaps > 0 ? gapSeconds / gaps : null,
+    bySeverity: ALERT_SEVERITIES.map((severity) => ({
+      severity,
+      count: dtos.filter((d) => d.severity === severity).length,
+    })),
+    bySignal,
+    byHour,
+  };
+};
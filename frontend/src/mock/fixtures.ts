@@ -0,0 +1,456 @@
+import type { IMapping, SignalType } from "@/api/assetApi";
+import type { Gateway } from "@/api/GatewayApi";
+import { SIGNAL_PROFILES, isInExcursion, profileFor, syntheticValue } from "./syntheticSignals";
+
+/* --------------------------------------------------------
+    MOCK DATABASE
+    Mutable, in-memory copy of what the backend services would
+    store. Route handlers read and write these arrays directly;
+    a page reload resets everything.
+-------------------------------------------------------- */
+
+export interface MockAsset {
+  assetId: string;
+  name: string;
+  level: number;
+  parentId: string | null;
+  isDeleted: boolean;
+}
+
+export interface MockAssetConfig {
+  assetConfigID: string;
+  assetId: string;
+  signalTypeID: string;
+}
+
+export interface MockSignalType extends SignalType {
+  minThreshold: number;
+  maxThreshold: number;
+}
+
+export interface MockRegister {
+  registerId: string;
+  registerAddress: number;
+  registerLength: number;
+  dataType: string;
+  scale: number;
+  unit: string | null;
+  isHealthy: boolean;
+  byteOrder: string | null;
+  wordSwap: boolean;
+  deviceSlaveId: string;
+}
+
+export interface MockSlave {
+  deviceSlaveId: string;
+  deviceId: string;
+  slaveIndex: number;
+  isHealthy: boolean;
+  registers: MockRegister[];
+}
+
+export interface MockDevice {
+  deviceId: string;
+  gatewayId: string;
+  name: string;
+  description: string | null;
+  protocol: string;
+  isDeleted: boolean;
+  deviceConfigurationId: string | null;
+  deviceConfiguration: {
+    configurationId: string;
+    name: string;
+    pollIntervalMs: number;
+    protocolSettingsJson: string | null;
+    createdAt: string;
+  } | null;
+  deviceSlave: MockSlave[];
+  createdAt: string;
+}
+
+export interface MockUser {
+  userId: number;
+  username: string;
+  email: string;
+  role: string;
+}
+
+export interface MockNotification {
+  id: string;
+  title: string;
+  text: string;
+  createdAt: string;
+  expiresAt: string;
+  priority: number;
+  isRead: boolean;
+  isAcknowledged: boolean;
+  readAt: string | null;
+  acknowledgedAt: string | null;
+}
+
+export interface MockReport {
+  reportId: string;
+  assetId: string;
+  assetName: string;
+  signalIds: string;
+  fileName: string;
+  status: string;
+  requestedAt: string;
+}
+
+export interface MockAlert {
+  alertId: string;
+  assetId: string;
+  assetName: string;
+  signalTypeId: string;
+  signalName: string;
+  mappingId: string;
+  alertStartUtc: string;
+  alertEndUtc: string | null;
+  minThreshold: number;
+  maxThreshold: number;
+  minObservedValue: number | null;
+  maxObservedValue: number | null;
+  reminderTimeHours: number;
+  isActive: boolean;
+  isAnalyzed: boolean;
+  createdUtc: string;
+  updatedUtc: string;
+}
+
+/* ---- IDS ---- */
+
+// Fixed, readable GUIDs so links and bookmarks survive a reload
+const guid = (prefix: string, n: number) =>
+  `${prefix}-0000-4000-8000-${String(n).padStart(12, "0")}`;
+
+export const newId = () => crypto.randomUUID();
+
+const minutesAgo = (m: number) => new Date(Date.now() - m * 60_000).toISOString();
+
+/* ---- ASSETS ---- */
+
+const A = {
+  punePlant: guid("a0000000", 1),
+  assembly: guid("a0000000", 2),
+  lineA: guid("a0000000", 3),
+  press01: guid("a0000000", 4),
+  press02: guid("a0000000", 5),
+  lineB: guid("a0000000", 6),
+  conveyor01: guid("a0000000", 7),
+  utilities: guid("a0000000", 8),
+  compressorHouse: guid("a0000000", 9),
+  compressor01: guid("a0000000", 10),
+  chennaiPlant: guid("a0000000", 11),
+  packaging: guid("a0000000", 12),
+  lineC: guid("a0000000", 13),
+  filler01: guid("a0000000", 14),
+  oldLine: guid("a0000000", 15),
+};
+
+const assets: MockAsset[] = [
+  { assetId: A.punePlant, name: "Pune Plant", level: 1, parentId: null, isDeleted: false },
+  { assetId: A.assembly, name: "Assembly", level: 2, parentId: A.punePlant, isDeleted: false },
+  { assetId: A.lineA, name: "Line A", level: 3, parentId: A.assembly, isDeleted: false },
+  { assetId: A.press01, name: "Press 01", level: 4, parentId: A.lineA, isDeleted: false },
+  { assetId: A.press02, name: "Press 02", level: 4, parentId: A.lineA, isDeleted: false },
+  { assetId: A.lineB, name: "Line B", level: 3, parentId: A.assembly, isDeleted: false },
+  { assetId: A.conveyor01, name: "Conveyor 01", level: 4, parentId: A.lineB, isDeleted: false },
+  { assetId: A.utilities, name: "Utilities", level: 2, parentId: A.punePlant, isDeleted: false },
+  { assetId: A.compressorHouse, name: "Compressor House", level: 3, parentId: A.utilities, isDeleted: false },
+  { assetId: A.compressor01, name: "Compressor 01", level: 4, parentId: A.compressorHouse, isDeleted: false },
+  { assetId: A.chennaiPlant, name: "Chennai Plant", level: 1, parentId: null, isDeleted: false },
+  { assetId: A.packaging, name: "Packaging", level: 2, parentId: A.chennaiPlant, isDeleted: false },
+  { assetId: A.lineC, name: "Line C", level: 3, parentId: A.packaging, isDeleted: false },
+  { assetId: A.filler01, name: "Filler 01", level: 4, parentId: A.lineC, isDeleted: false },
+  { assetId: A.oldLine, name: "Line D (decommissioned)", level: 3, parentId: A.packaging, isDeleted: true },
+];
+
+/* ---- SIGNAL TYPES ---- */
+
+const signalTypes: MockSignalType[] = Object.entries(SIGNAL_PROFILES).map(([address, p], i) => ({
+  signalTypeID: guid("50000000", i + 1),
+  signalName: p.signalType,
+  signalUnit: p.unit,
+  defaultRegisterAdress: Number(address),
+  minThreshold: p.min,
+  maxThreshold: p.max,
+  assetConfigurations: [],
+}));
+
+export const signalTypeByAddress = (address: number) =>
+  signalTypes.find((s) => s.defaultRegisterAdress === address);
+
+/* ---- DEVICES ---- */
+
+let registerSeq = 0;
+
+const makeDevice = (
+  n: number,
+  name: string,
+  description: string,
+  pollIntervalMs: number,
+  slaves: [slaveIndex: number, addresses: number[]][]
+): MockDevice => {
+  const deviceId = guid("d0000000", n);
+  const configurationId = guid("c0000000", n);
+
+  return {
+    deviceId,
+    gatewayId: n <= 3 ? "gw-pune-01" : "gw-chennai-01",
+    name,
+    description,
+    protocol: "ModbusTCP",
+    isDeleted: false,
+    deviceConfigurationId: configurationId,
+    deviceConfiguration: {
+      configurationId,
+      name: `${name} config`,
+      pollIntervalMs,
+      protocolSettingsJson: JSON.stringify({ IpAddress: `10.0.${n}.10`, Port: 502, SlaveId: 1 }),
+      createdAt: minutesAgo(60 * 24 * 30),
+    },
+    deviceSlave: slaves.map(([slaveIndex, addresses], i) => {
+      const deviceSlaveId = guid("d5000000", n * 10 + i);
+      return {
+        deviceSlaveId,
+        deviceId,
+        slaveIndex,
+        isHealthy: true,
+        registers: addresses.map((registerAddress) => ({
+          registerId: guid("e0000000", ++registerSeq),
+          registerAddress,
+          registerLength: 2,
+          dataType: "float32",
+          scale: 1,
+          unit: SIGNAL_PROFILES[registerAddress]?.unit ?? null,
+          isHealthy: true,
+          byteOrder: "Big",
+          wordSwap: false,
+          deviceSlaveId,
+        })),
+      };
+    }),
+    createdAt: minutesAgo(60 * 24 * 30),
+  };
+};
+
+const devices: MockDevice[] = [
+  makeDevice(1, "PLC-Press-01", "Press line A, cabinet 1", 1000, [[1, [40001, 40003, 40005, 40009]], [2, [40011]]]),
+  makeDevice(2, "PLC-Press-02", "Press line A, cabinet 2", 1000, [[1, [40001, 40003, 40005, 40009]]]),
+  makeDevice(3, "Conveyor-Drive-01", "VFD on conveyor B", 2000, [[1, [40003, 40007, 40015]]]),
+  makeDevice(4, "Compressor-Ctrl-01", "Screw compressor controller", 5000, [[1, [40005, 40011, 40013]]]),
+  makeDevice(5, "Filler-PLC-01", "Chennai filler", 2000, [[1, [40001, 40005, 40013]]]),
+  makeDevice(6, "Chiller-01", "Stops reporting after start-up, to demo offline detection", 5000, [[1, [40005, 40011]]]),
+];
+
+const deletedDevice = makeDevice(7, "Spare-PLC", "Retired spare", 1000, [[1, [40001]]]);
+deletedDevice.isDeleted = true;
+devices.push(deletedDevice);
+
+// Devices the mock hub never sends telemetry for
+export const SILENT_DEVICE_IDS = new Set([guid("d0000000", 6)]);
+
+// "deviceId:slaveIndex:registerAddress" → Modbus exception code the mock hub
+// reports for part of every minute, to demo register health
+export const FLAKY_REGISTERS = new Map([[`${guid("d0000000", 1)}:2:40011`, 2]]);
+
+/* ---- ASSET CONFIG + MAPPINGS ---- */
+
+const assetConfigs: MockAssetConfig[] = [];
+const mappings: IMapping[] = [];
+
+const mapDevice = (assetId: string, device: MockDevice, createdMinutesAgo: number) => {
+  for (const slave of device.deviceSlave) {
+    for (const reg of slave.registers) {
+      const signal = signalTypeByAddress(reg.registerAddress);
+      if (!signal) continue;
+
+      if (!assetConfigs.some((c) => c.assetId === assetId && c.signalTypeID === signal.signalTypeID)) {
+        assetConfigs.push({ assetConfigID: newId(), assetId, signalTypeID: signal.signalTypeID });
+      }
+
+      mappings.push({
+        mappingId: guid("f0000000", mappings.length + 1),
+        assetId,
+        signalTypeId: signal.signalTypeID,
+        deviceId: device.deviceId,
+        devicePortId: slave.deviceSlaveId,
+        signalUnit: signal.signalUnit,
+        signalName: signal.signalName,
+        registerAdress: reg.registerAddress,
+        registerId: reg.registerId,
+        createdAt: minutesAgo(createdMinutesAgo),
+      });
+    }
+  }
+};
+
+mapDevice(A.press01, devices[0], 60 * 24 * 20);
+mapDevice(A.press02, devices[1], 60 * 24 * 18);
+mapDevice(A.conveyor01, devices[2], 60 * 24 * 15);
+mapDevice(A.compressor01, devices[3], 60 * 24 * 12);
+mapDevice(A.filler01, devices[4], 60 * 24 * 10);
+
+// Configured but not yet mapped, so the mapping screen has work to do
+assetConfigs.push(
+  { assetConfigID: newId(), assetId: A.lineB, signalTypeID: signalTypes[0].signalTypeID },
+  { assetConfigID: newId(), assetId: A.lineB, signalTypeID: signalTypes[2].signalTypeID }
+);
+
+/* ---- GATEWAYS + USERS ---- */
+
+const gateways: Gateway[] = [
+  { name: "gw-pune-01", clientId: "gw-pune-01" },
+  { name: "gw-chennai-01", clientId: "gw-chennai-01" },
+];
+
+const users: MockUser[] = [
+  { userId: 1, username: "demo.admin", email: "admin@demo.local", role: "Admin" },
+  { userId: 2, username: "demo.engineer", email: "engineer@demo.local", role: "Engineer" },
+  { userId: 3, username: "demo.operator", email: "operator@demo.local", role: "User" },
+];
+
+/* ---- ALERTS + NOTIFICATIONS ---- */
+
+// Alert payload in the shape the asset-service serializes into notification text
+export const buildAlertPayload = (
+  assetName: string,
+  signal: MockSignalType,
+  value: number,
+  timestamp: string
+) => {
+  const high = value > signal.maxThreshold;
+  const limit = high ? signal.maxThreshold : signal.minThreshold;
+  const percent = (Math.abs(value - limit) / (limit === 0 ? 1 : Math.abs(limit))) * 100;
+
+  return {
+    asset: assetName,
+    signal: signal.signalName,
+    value,
+    min: signal.minThreshold,
+    max: signal.maxThreshold,
+    unit: signal.signalUnit,
+    status: high ? "HIGH" : "LOW",
+    percent: Math.round(percent * 10) / 10,
+    timestamp,
+  };
+};
+
+const alerts: MockAlert[] = [];
+const notifications: MockNotification[] = [];
+
+// Walk the last 7 days and record every synthetic excursion as a closed alert
+const seedAlerts = () => {
+  const now = Date.now();
+  const stepMs = 15_000;
+
+  for (const m of mappings) {
+    const signal = signalTypes.find((s) => s.signalTypeID === m.signalTypeId);
+    const asset = assets.find((a) => a.assetId === m.assetId);
+    if (!signal || !asset || !profileFor(m.registerAdress).excursions) continue;
+
+    let start: number | null = null;
+    let peak = -Infinity;
+
+    for (let t = now - 7 * 24 * 3600_000; t <= now; t += stepMs) {
+      const inExcursion = isInExcursion(m.registerAdress, t, m.deviceId);
+      if (inExcursion) {
+        start ??= t;
+        peak = Math.max(peak, syntheticValue(m.registerAdress, t, m.deviceId));
+        continue;
+      }
+      if (start === null) continue;
+
+      alerts.push({
+        alertId: newId(),
+        assetId: asset.assetId,
+        assetName: asset.name,
+        signalTypeId: signal.signalTypeID,
+        signalName: signal.signalName,
+        mappingId: m.mappingId,
+        alertStartUtc: new Date(start).toISOString(),
+        alertEndUtc: new Date(t).toISOString(),
+        minThreshold: signal.minThreshold,
+        maxThreshold: signal.maxThreshold,
+        minObservedValue: signal.maxThreshold,
+        maxObservedValue: peak,
+        reminderTimeHours: 24,
+        isActive: false,
+        isAnalyzed: alerts.length % 3 === 0,
+        createdUtc: new Date(start).toISOString(),
+        updatedUtc: new Date(t).toISOString(),
+      });
+      start = null;
+      peak = -Infinity;
+    }
+  }
+
+  // Newest alerts double as the notification inbox
+  alerts
+    .slice()
+    .sort((a, b) => b.alertStartUtc.localeCompare(a.alertStartUtc))
+    .slice(0, 25)
+    .forEach((alert, i) => {
+      const signal = signalTypes.find((s) => s.signalTypeID === alert.signalTypeId)!;
+      notifications.push({
+        id: newId(),
+        title: `Alert START: ${alert.signalName} exceeded`,
+        text: JSON.stringify(
+          buildAlertPayload(alert.assetName, signal, alert.maxObservedValue ?? signal.maxThreshold, alert.alertStartUtc)
+        ),
+        createdAt: alert.alertStartUtc,
+        expiresAt: new Date(Date.parse(alert.alertStartUtc) + 30 * 24 * 3600_000).toISOString(),
+        priority: 0,
+        isRead: i >= 4,
+        isAcknowledged: i >= 8,
+        readAt: i >= 4 ? alert.updatedUtc : null,
+        acknowledgedAt: i >= 8 ? alert.updatedUtc : null,
+      });
+    });
+};
+
+seedAlerts();
+
+/* ---- REPORTS ---- */
+
+const reports: MockReport[] = [
+  {
+    reportId: newId(),
+    assetId: A.press01,
+    assetName: "Press 01",
+    signalIds: signalTypes.slice(0, 3).map((s) => s.signalTypeID).join(","),
+    fileName: "Press01_weekly.xlsx",
+    status: "Completed",
+    requestedAt: minutesAgo(60 * 26),
+  },
+  {
+    reportId: newId(),
+    assetId: A.compressor01,
+    assetName: "Compressor 01",
+    signalIds: signalTypes[5].signalTypeID,
+    fileName: "Compressor01_pressure.pdf",
+    status: "Completed",
+    requestedAt: minutesAgo(60 * 3),
+  },
+];
+
+/* ---- EXPORT ---- */
+
+export const db = {
+  assets,
+  signalTypes,
+  assetConfigs,
+  devices,
+  mappings,
+  gateways,
+  users,
+  alerts,
+  notifications,
+  reports,
+  // Mock session: starts signed in as the admin so demos skip the login screen
+  currentUserId: 1 as number | null,
+  tourCompleted: true,
+  // "<userId>:<key>" -> JSON document, as stored by the auth-service preferences table
+  preferences: new Map<string, string>(),
+};
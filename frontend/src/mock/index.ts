@@ -0,0 +1,28 @@
+import type { AxiosAdapter } from "axios";
+import { createMockAdapter, type MockRoute } from "./mockAdapter";
+import { aiRoutes } from "./routes/aiRoutes";
+import { assetRoutes } from "./routes/assetRoutes";
+import { authRoutes } from "./routes/authRoutes";
+import { deviceRoutes } from "./routes/deviceRoutes";
+import { telemetryRoutes } from "./routes/telemetryRoutes";
+
+export { createMockHubConnection } from "./mockHub";
+
+// Keyed by the service segment passed to createApiClient ("/api/<service>")
+const ROUTES: Record<string, MockRoute[]> = {
+  devices: deviceRoutes,
+  asset: [...assetRoutes, ...telemetryRoutes],
+  auth: authRoutes,
+  ai: aiRoutes,
+};
+
+const adapters = new Map<string, AxiosAdapter>();
+
+export const mockAdapterFor = (service: string): AxiosAdapter => {
+  let adapter = adapters.get(service);
+  if (!adapter) {
+    adapter = createMockAdapter(service, ROUTES[service] ?? []);
+    adapters.set(service, adapter);
+  }
+  return adapter;
+};
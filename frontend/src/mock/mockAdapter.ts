@@ -0,0 +1,128 @@
+import {
+  AxiosError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { MOCK_LATENCY_MS } from "./mockMode";
+
+/* --------------------------------------------------------
+    MOCK ADAPTER
+    Swapped in as the axios adapter of every API client in mock
+    mode. Requests are matched against a per-service route table;
+    handlers answer with the same body shape the real service uses.
+-------------------------------------------------------- */
+
+export interface MockRequest {
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+export interface MockReply {
+  status: number;
+  data: unknown;
+}
+
+export type MockHandler = (req: MockRequest) => MockReply;
+
+export type MockRoute = [method: string, path: string, handler: MockHandler];
+
+/* ---- REPLY HELPERS ---- */
+
+export const ok = (data: unknown = null): MockReply => ({ status: 200, data });
+
+export const fail = (status: number, data: unknown): MockReply => ({ status, data });
+
+// device-service wraps everything in ApiResponse<T>
+export const apiOk = (data: unknown): MockReply =>
+  ok({ success: true, data, error: null });
+
+export const apiFail = (status: number, error: string): MockReply =>
+  fail(status, { success: false, data: null, error });
+
+/* ---- ROUTING ---- */
+
+interface CompiledRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+}
+
+// "/devices/:id/ports" -> /^\/devices\/([^/]+)\/ports$/i
+const compile = ([method, path, handler]: MockRoute): CompiledRoute => {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return "([^/]+)";
+  });
+  return { method: method.toUpperCase(), pattern: new RegExp(`^${source}$`, "i"), keys, handler };
+};
+
+const parseBody = (data: unknown) => {
+  if (typeof data !== "string" || !data) return data ?? null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const createMockAdapter = (service: string, routes: MockRoute[]): AxiosAdapter => {
+  const compiled = routes.map(compile);
+
+  return async (config: InternalAxiosRequestConfig) => {
+    const method = (config.method ?? "get").toUpperCase();
+    const path = "/" + (config.url ?? "").split("?")[0].replace(/^\/+/, "");
+
+    await delay(MOCK_LATENCY_MS * (0.5 + Math.random()));
+
+    let reply: MockReply = fail(404, { message: `No mock for ${method} /api/${service}${path}` });
+
+    for (const route of compiled) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+
+      const params = Object.fromEntries(
+        route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])])
+      );
+
+      try {
+        reply = route.handler({
+          params,
+          query: (config.params ?? {}) as Record<string, unknown>,
+          body: parseBody(config.data),
+        });
+      } catch (err) {
+        console.error(`Mock handler crashed for ${method} ${path}`, err);
+        reply = fail(500, { message: "Mock handler error" });
+      }
+      break;
+    }
+
+    const response: AxiosResponse = {
+      data: reply.data,
+      status: reply.status,
+      statusText: String(reply.status),
+      headers: {},
+      config,
+      request: { responseURL: path },
+    };
+
+    if (reply.status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${reply.status}`,
+        reply.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+
+    return response;
+  };
+};
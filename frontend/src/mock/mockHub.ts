@@ -0,0 +1,234 @@
+import { HubConnectionState, type HubConnection } from "@microsoft/signalr";
+import { FLAKY_REGISTERS, SILENT_DEVICE_IDS, buildAlertPayload, db, newId } from "./fixtures";
+import { syntheticValue } from "./syntheticSignals";
+
+/* --------------------------------------------------------
+    MOCK HUB CONNECTION
+    Stands in for a SignalR HubConnection in mock mode.
+
+    - modbus hub: SubscribeToDevice / UnsubscribeFromDevice manage
+      groups; each subscribed device pushes "TelemetryUpdate" at
+      its configured poll interval, and every client gets a
+      "DeviceHeartbeat" for all configured devices every 5s
+    - FLAKY_REGISTERS fail for the first FLAKY_FAIL_MS of every
+      minute, with the same health fields the poller sends
+    - notification hub: pushes "ReceiveNotification" for a
+      synthetic threshold breach every NOTIFY_EVERY_MS
+-------------------------------------------------------- */
+
+type Handler = (...args: unknown[]) => void;
+
+const TICK_MS = 500;
+const HEARTBEAT_MS = 5_000;
+const FIRST_NOTIFICATION_MS = 20_000;
+const NOTIFY_EVERY_MS = 90_000;
+const FLAKY_PERIOD_MS = 60_000;
+const FLAKY_FAIL_MS = 20_000;
+
+class MockHubConnection {
+  state: HubConnectionState = HubConnectionState.Disconnected;
+  connectionId: string | null = null;
+  baseUrl: string;
+
+  private handlers = new Map<string, Handler[]>();
+  private closeCallbacks: ((error?: Error) => void)[] = [];
+  private reconnectingCallbacks: ((error?: Error) => void)[] = [];
+  private reconnectedCallbacks: ((connectionId?: string) => void)[] = [];
+  private groups = new Set<string>();
+  private lastSent = new Map<string, number>();
+  private registerHealth = new Map<string, { lastGoodReadUtc: string | null; value: number; failures: number }>();
+  private startedAt = 0;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(url: string) {
+    this.baseUrl = url;
+  }
+
+  private get isModbusHub() {
+    return /modbus/i.test(this.baseUrl);
+  }
+
+  /* ---- HubConnection surface ---- */
+
+  on(methodName: string, handler: Handler) {
+    const key = methodName.toLowerCase();
+    this.handlers.set(key, [...(this.handlers.get(key) ?? []), handler]);
+  }
+
+  off(methodName: string, handler?: Handler) {
+    const key = methodName.toLowerCase();
+    if (!handler) {
+      this.handlers.delete(key);
+      return;
+    }
+    this.handlers.set(key, (this.handlers.get(key) ?? []).filter((h) => h !== handler));
+  }
+
+  onclose(callback: (error?: Error) => void) {
+    this.closeCallbacks.push(callback);
+  }
+
+  // The mock never drops, so reconnect callbacks are kept but never fired
+  onreconnecting(callback: (error?: Error) => void) {
+    this.reconnectingCallbacks.push(callback);
+  }
+
+  onreconnected(callback: (connectionId?: string) => void) {
+    this.reconnectedCallbacks.push(callback);
+  }
+
+  async start() {
+    if (this.state !== HubConnectionState.Disconnected) {
+      throw new Error("Cannot start a HubConnection that is not in the 'Disconnected' state.");
+    }
+    this.state = HubConnectionState.Connecting;
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    this.state = HubConnectionState.Connected;
+    this.connectionId = newId();
+
+    if (this.isModbusHub) {
+      this.startedAt = Date.now();
+      this.timers.push(setInterval(() => this.pushTelemetry(), TICK_MS));
+      this.timers.push(setInterval(() => this.pushHeartbeat(), HEARTBEAT_MS));
+    } else {
+      this.timers.push(
+        setTimeout(() => {
+          this.pushNotification();
+          this.timers.push(setInterval(() => this.pushNotification(), NOTIFY_EVERY_MS));
+        }, FIRST_NOTIFICATION_MS)
+      );
+    }
+  }
+
+  async stop() {
+    if (this.state === HubConnectionState.Disconnected) return;
+    this.timers.forEach((t) => clearInterval(t));
+    this.timers = [];
+    this.groups.clear();
+    this.state = HubConnectionState.Disconnected;
+    this.connectionId = null;
+    this.closeCallbacks.forEach((cb) => cb());
+  }
+
+  async invoke(methodName: string, ...args: unknown[]) {
+    if (this.state !== HubConnectionState.Connected) {
+      throw new Error("Cannot send data if the connection is not in the 'Connected' State.");
+    }
+    const deviceId = String(args[0] ?? "");
+
+    switch (methodName) {
+      case "SubscribeToDevice":
+        this.groups.add(deviceId);
+        return;
+      case "UnsubscribeFromDevice":
+        this.groups.delete(deviceId);
+        this.lastSent.delete(deviceId);
+        return;
+      default:
+        throw new Error(`Method '${methodName}' does not exist on the mock hub.`);
+    }
+  }
+
+  async send(methodName: string, ...args: unknown[]) {
+    await this.invoke(methodName, ...args);
+  }
+
+  /* ---- Simulation ---- */
+
+  private emit(methodName: string, ...args: unknown[]) {
+    (this.handlers.get(methodName.toLowerCase()) ?? []).forEach((h) => h(...args));
+  }
+
+  private pushTelemetry() {
+    const now = Date.now();
+
+    for (const deviceId of this.groups) {
+      const device = db.devices.find((d) => d.deviceId === deviceId && !d.isDeleted);
+      if (!device || SILENT_DEVICE_IDS.has(device.deviceId)) continue;
+
+      const interval = device.deviceConfiguration?.pollIntervalMs ?? 1000;
+      if (now - (this.lastSent.get(deviceId) ?? 0) < interval) continue;
+      this.lastSent.set(deviceId, now);
+
+      // Same shape as the device-service TelemetryDto (camelCase over the wire)
+      const payload = device.deviceSlave.flatMap((slave) =>
+        slave.registers.map((reg) => {
+          const key = `${device.deviceId}:${slave.slaveIndex}:${reg.registerAddress}`;
+          const exceptionCode = FLAKY_REGISTERS.get(key);
+          const failing = exceptionCode !== undefined && now % FLAKY_PERIOD_MS < FLAKY_FAIL_MS;
+          const health = this.registerHealth.get(key) ?? { lastGoodReadUtc: null, value: 0, failures: 0 };
+
+          if (failing) {
+            health.failures++;
+          } else {
+            health.value = syntheticValue(reg.registerAddress, now, device.deviceId) * reg.scale;
+            health.lastGoodReadUtc = new Date(now).toISOString();
+            health.failures = 0;
+          }
+          this.registerHealth.set(key, health);
+
+          return {
+            deviceId: device.deviceId,
+            deviceSlaveId: slave.deviceSlaveId,
+            slaveIndex: slave.slaveIndex,
+            registerAddress: reg.registerAddress,
+            signalType: db.signalTypes.find((s) => s.defaultRegisterAdress === reg.registerAddress)?.signalName ?? `Register ${reg.registerAddress}`,
+            value: health.value,
+            unit: reg.unit ?? "",
+            timestamp: new Date(now).toISOString(),
+            lastGoodReadUtc: health.lastGoodReadUtc,
+            consecutiveFailures: health.failures,
+            exceptionCode: failing ? exceptionCode : null,
+          };
+        })
+      );
+
+      if (payload.length) this.emit("TelemetryUpdate", payload);
+    }
+  }
+
+  // Silent devices answer once at connect, then go quiet (→ stale → offline)
+  private pushHeartbeat() {
+    const now = Date.now();
+    const heartbeats = db.devices
+      .filter((d) => !d.isDeleted && d.deviceConfiguration)
+      .map((d) => ({
+        deviceId: d.deviceId,
+        name: d.name,
+        pollIntervalMs: d.deviceConfiguration?.pollIntervalMs ?? 1000,
+        lastSeenUtc: new Date(SILENT_DEVICE_IDS.has(d.deviceId) ? this.startedAt : now).toISOString(),
+      }));
+    this.emit("DeviceHeartbeat", heartbeats);
+  }
+
+  private pushNotification() {
+    const mapping = db.mappings[Math.floor(Math.random() * db.mappings.length)];
+    const signal = db.signalTypes.find((s) => s.signalTypeID === mapping?.signalTypeId);
+    const asset = db.assets.find((a) => a.assetId === mapping?.assetId);
+    if (!mapping || !signal || !asset) return;
+
+    const now = new Date();
+    const value = Math.round(signal.maxThreshold * 1.06 * 100) / 100;
+    const notification = {
+      id: newId(),
+      title: `Alert START: ${signal.signalName} exceeded`,
+      text: JSON.stringify(buildAlertPayload(asset.name, signal, value, now.toISOString())),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + 30 * 24 * 3600_000).toISOString(),
+      priority: 0,
+    };
+
+    db.notifications.push({
+      ...notification,
+      isRead: false,
+      isAcknowledged: false,
+      readAt: null,
+      acknowledgedAt: null,
+    });
+    this.emit("ReceiveNotification", notification);
+  }
+}
+
+export const createMockHubConnection = (url: string): HubConnection =>
+  new MockHubConnection(url) as unknown as HubConnection;
@@ -0,0 +1,12 @@
+/* --------------------------------------------------------
+    MOCK MODE SWITCH
+    `npm run dev:mock` (or VITE_USE_MOCKS=true) serves every API
+    call and both SignalR hubs from in-memory fixtures, so the
+    frontend runs without the gateway or any backend service.
+-------------------------------------------------------- */
+
+export const MOCK_MODE =
+  import.meta.env.MODE === "mock" || import.meta.env.VITE_USE_MOCKS === "true";
+
+// Simulated network latency, so loading states still show up in demos
+export const MOCK_LATENCY_MS = Number(import.meta.env.VITE_MOCK_LATENCY_MS ?? 200);
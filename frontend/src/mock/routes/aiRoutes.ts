@@ -0,0 +1,40 @@
+import { db } from "../fixtures";
+import { fail, ok, type MockRoute } from "../mockAdapter";
+
+/* --------------------------------------------------------
+    AI SERVICE  (/api/ai)
+    Canned RCA answer built from the alert fixtures, in the
+    YAML-ish text format the AI page renders.
+-------------------------------------------------------- */
+
+const answerFor = (prompt: string) => {
+  const lower = prompt.toLowerCase();
+  const asset =
+    db.assets.find((a) => !a.isDeleted && lower.includes(a.name.toLowerCase())) ??
+    db.assets.find((a) => a.assetId === db.alerts[db.alerts.length - 1]?.assetId);
+
+  const alerts = db.alerts.filter((a) => a.assetId === asset?.assetId).slice(-5);
+  const anomalies = alerts.length
+    ? alerts
+        .map((a) => `  - ${a.signalName} peaked at ${a.maxObservedValue} (limit ${a.maxThreshold}) on ${new Date(a.alertStartUtc).toLocaleString()}`)
+        .join("\n")
+    : "  - None in the last 7 days";
+
+  return [
+    `asset: ${asset?.name ?? "Unknown asset"}`,
+    "anomalies:",
+    anomalies,
+    "checks:",
+    "  - Inspect cooling fans and filters",
+    "  - Verify bearing lubrication schedule",
+    "  - Compare load profile with the previous shift",
+  ].join("\n");
+};
+
+export const aiRoutes: MockRoute[] = [
+  ["POST", "/ai/ask", ({ body }) => {
+    const { prompt } = (body ?? {}) as { prompt?: string };
+    if (!prompt?.trim()) return fail(400, { error: "Prompt is required" });
+    return ok({ data: answerFor(prompt) });
+  }],
+];
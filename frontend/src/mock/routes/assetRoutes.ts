@@ -0,0 +1,360 @@
+import type { Asset, IMapping } from "@/api/assetApi";
+import { db, newId, type MockAsset, type MockNotification } from "../fixtures";
+import { fail, ok, type MockRoute } from "../mockAdapter";
+import { alertAnalytics, filterAlerts, toAlertDto } from "../alertMetrics";
+import type { AlertFilter } from "@/api/alertApi";
+
+/* --------------------------------------------------------
+    ASSET SERVICE  (/api/asset)
+    Hierarchy, asset config, mappings, notifications, reports
+    and alerts. The asset-service answers with bare bodies.
+-------------------------------------------------------- */
+
+const findAsset = (id: string) => db.assets.find((a) => a.assetId === id);
+
+const toTree = (parentId: string | null): Asset[] =>
+  db.assets
+    .filter((a) => a.parentId === parentId && !a.isDeleted)
+    .map((a) => ({ ...a, childrens: toTree(a.assetId) }));
+
+const toFlat = (a: MockAsset) => ({ ...a, childrens: [] });
+
+const configsFor = (assetId: string) =>
+  db.assetConfigs
+    .filter((c) => c.assetId === assetId)
+    .flatMap((c) => {
+      const signal = db.signalTypes.find((s) => s.signalTypeID === c.signalTypeID);
+      return signal
+        ? [{
+            assetConfigID: c.assetConfigID,
+            signalTypeID: signal.signalTypeID,
+            signalName: signal.signalName,
+            signalUnit: signal.signalUnit,
+            regsiterAdress: signal.defaultRegisterAdress,
+          }]
+        : [];
+    });
+
+const removeWhere = <T>(list: T[], predicate: (item: T) => boolean) => {
+  const kept = list.filter((item) => !predicate(item));
+  list.splice(0, list.length, ...kept);
+};
+
+// Cursor is the offset into the newest-first list
+const page = <T>(items: T[], query: Record<string, unknown>) => {
+  const limit = Number(query.limit ?? 10);
+  const offset = Number(query.cursor ?? 0) || 0;
+  const data = items.slice(offset, offset + limit);
+  const hasMore = offset + limit < items.length;
+  return { data, nextCursor: hasMore ? String(offset + limit) : null, hasMore };
+};
+
+const newestFirst = () =>
+  db.notifications.slice().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const toUserNotification = (n: MockNotification) => ({
+  recipientId: String(db.currentUserId ?? 0),
+  notificationId: n.id,
+  title: n.title,
+  text: n.text,
+  isRead: n.isRead,
+  isAcknowledged: n.isAcknowledged,
+  createdAt: n.createdAt,
+  readAt: n.readAt,
+  acknowledgedAt: n.acknowledgedAt,
+});
+
+const markRead = (n: MockNotification) => {
+  if (n.isRead) return;
+  n.isRead = true;
+  n.readAt = new Date().toISOString();
+};
+
+export const assetRoutes: MockRoute[] = [
+  /* ---- HIERARCHY ---- */
+  ["GET", "/AssetHierarchy/GetAssetHierarchy", () => ok(toTree(null))],
+
+  ["GET", "/AssetHierarchy/GetByParentId/:parentId", ({ params }) =>
+    ok(db.assets.filter((a) => a.parentId === params.parentId && !a.isDeleted).map(toFlat))],
+
+  ["POST", "/AssetHierarchy/InsertAsset", ({ body }) => {
+    const { parentId, name, level } = (body ?? {}) as { parentId: string | null; name: string; level: number };
+    if (!name?.trim()) return fail(400, { message: "Asset name is required" });
+    if (db.assets.some((a) => !a.isDeleted && a.parentId === parentId && a.name.toLowerCase() === name.trim().toLowerCase())) {
+      return fail(409, { message: `An asset named '${name.trim()}' already exists here` });
+    }
+    const asset: MockAsset = { assetId: newId(), name: name.trim(), level: Number(level), parentId, isDeleted: false };
+    db.assets.push(asset);
+    return ok(toFlat(asset));
+  }],
+
+  ["PUT", "/AssetHierarchy/UpdateAsset", ({ body }) => {
+    const { assetId, newName } = (body ?? {}) as { assetId: string; newName: string };
+    const asset = findAsset(assetId);
+    if (!asset) return fail(404, { message: "Asset not found" });
+    if (!newName?.trim()) return fail(400, { message: "Asset name is required" });
+    asset.name = newName.trim();
+    return ok(toFlat(asset));
+  }],
+
+  ["DELETE", "/AssetHierarchy/DeleteAsset/:id", ({ params }) => {
+    const asset = findAsset(params.id);
+    if (!asset || asset.isDeleted) return fail(404, { message: "Asset not found" });
+    if (db.assets.some((a) => a.parentId === asset.assetId && !a.isDeleted)) {
+      return fail(400, { message: "Delete or move the child assets first" });
+    }
+    asset.isDeleted = true;
+    removeWhere(db.mappings, (m) => m.assetId === asset.assetId);
+    return ok({ message: "Asset deleted" });
+  }],
+
+  ["GET", "/AssetHierarchy/Deleted", () => ok(db.assets.filter((a) => a.isDeleted).map(toFlat))],
+
+  ["POST", "/AssetHierarchy/Restore/:id", ({ params }) => {
+    const asset = findAsset(params.id);
+    if (!asset || !asset.isDeleted) return fail(404, { message: "Deleted asset not found" });
+    const parent = asset.parentId ? findAsset(asset.parentId) : null;
+    if (parent?.isDeleted) return fail(400, { message: "Restore the parent asset first" });
+    asset.isDeleted = false;
+    return ok({ message: "Asset restored" });
+  }],
+
+  ["POST", "/AssetHierarchy/bulk-upload", ({ body }) => {
+    const rows = ((body as { assets?: { assetName: string; parentName: string | null; level: number }[] })?.assets ?? []);
+    const addedAssets: string[] = [];
+    const skippedAssets: { assetName: string; reason: string }[] = [];
+
+    for (const row of rows) {
+      const parent = row.parentName
+        ? db.assets.find((a) => !a.isDeleted && a.name.toLowerCase() === row.parentName!.toLowerCase())
+        : null;
+      if (row.parentName && !parent) {
+        skippedAssets.push({ assetName: row.assetName, reason: `Parent '${row.parentName}' not found` });
+        continue;
+      }
+      const parentId = parent?.assetId ?? null;
+      if (db.assets.some((a) => !a.isDeleted && a.parentId === parentId && a.name.toLowerCase() === row.assetName.toLowerCase())) {
+        skippedAssets.push({ assetName: row.assetName, reason: "Already exists" });
+        continue;
+      }
+      db.assets.push({ assetId: newId(), name: row.assetName, level: Number(row.level), parentId, isDeleted: false });
+      addedAssets.push(row.assetName);
+    }
+    return ok({ addedAssets, skippedAssets });
+  }],
+
+  /* ---- ASSET CONFIG ---- */
+  ["GET", "/AssetConfig/SiganlTypes", () => ok(db.signalTypes)],
+
+  ["GET", "/AssetConfig/:assetId", ({ params }) => ok(configsFor(params.assetId))],
+
+  ["POST", "/AssetConfig", ({ body }) => {
+    const req = (body ?? {}) as { assetId: string; signals?: string[]; signalType?: string };
+    const ids = req.signals ?? (req.signalType ? [req.signalType] : []);
+    for (const signalTypeID of ids) {
+      if (!db.assetConfigs.some((c) => c.assetId === req.assetId && c.signalTypeID === signalTypeID)) {
+        db.assetConfigs.push({ assetConfigID: newId(), assetId: req.assetId, signalTypeID });
+      }
+    }
+    return ok(configsFor(req.assetId));
+  }],
+
+  ["PUT", "/AssetConfig/:assetId", ({ params }) => ok(configsFor(params.assetId))],
+
+  ["DELETE", "/AssetConfig/:id", ({ params }) => {
+    const config = db.assetConfigs.find((c) => c.assetConfigID === params.id);
+    if (!config) return fail(404, { message: "Config not found" });
+    removeWhere(db.assetConfigs, (c) => c === config);
+    removeWhere(db.mappings, (m) => m.assetId === config.assetId && m.signalTypeId === config.signalTypeID);
+    return ok({ message: "Deleted" });
+  }],
+
+  /* ---- MAPPING ---- */
+  ["GET", "/Mapping", () => ok(db.mappings)],
+
+  ["GET", "/Mapping/:assetId", ({ params }) => ok(db.mappings.filter((m) => m.assetId === params.assetId))],
+
+  ["POST", "/Mapping", ({ body }) => {
+    const req = (body ?? {}) as {
+      assetId: string;
+      deviceId: string;
+      devicePortId: string;
+      registers: { registerId: string; registerAddress: number; signalTypeId: string }[];
+    };
+    const created: IMapping[] = [];
+    for (const reg of req.registers ?? []) {
+      const signal = db.signalTypes.find((s) => s.signalTypeID === reg.signalTypeId);
+      if (!signal) continue;
+      if (db.mappings.some((m) => m.assetId === req.assetId && m.signalTypeId === signal.signalTypeID)) {
+        return fail(409, { message: `${signal.signalName} is already mapped on this asset` });
+      }
+      created.push({
+        mappingId: newId(),
+        assetId: req.assetId,
+        signalTypeId: signal.signalTypeID,
+        deviceId: req.deviceId,
+        devicePortId: req.devicePortId,
+        signalUnit: signal.signalUnit,
+        signalName: signal.signalName,
+        registerAdress: reg.registerAddress,
+        registerId: reg.registerId,
+        createdAt: new Date().toISOString(),
+      });
+    }
+    db.mappings.push(...created);
+    return ok(created);
+  }],
+
+  ["PUT", "/Mapping/:mappingId/thresholds", ({ params, body }) => {
+    const mapping = db.mappings.find((m) => m.mappingId === params.mappingId);
+    if (!mapping) return fail(404, { message: "Mapping not found." });
+    const req = (body ?? {}) as { minThreshold?: number | null; maxThreshold?: number | null; enabled?: boolean };
+    if (req.minThreshold != null && req.maxThreshold != null && req.minThreshold > req.maxThreshold) {
+      return fail(400, { message: "Min threshold cannot be greater than max threshold." });
+    }
+    mapping.minThreshold = req.minThreshold ?? null;
+    mapping.maxThreshold = req.maxThreshold ?? null;
+    mapping.thresholdsEnabled = req.enabled ?? true;
+    return ok(mapping);
+  }],
+
+  ["DELETE", "/Mapping/:assetId", ({ params }) => {
+    removeWhere(db.mappings, (m) => m.assetId === params.assetId);
+    return ok({ message: "Mappings removed" });
+  }],
+
+  ["DELETE", "/deletemap/:mappingId", ({ params }) => {
+    removeWhere(db.mappings, (m) => m.mappingId === params.mappingId);
+    return ok({ message: "Mapping removed" });
+  }],
+
+  /* ---- NOTIFICATIONS ---- */
+  ["GET", "/Notifications/all", ({ query }) =>
+    ok(page(newestFirst().map(({ id, title, text, createdAt, expiresAt, priority }) =>
+      ({ id, title, text, createdAt, expiresAt, priority })), query))],
+
+  ["GET", "/Notifications/my", ({ query }) => {
+    const unread = String(query.unread) === "true";
+    return ok(page(newestFirst().filter((n) => !unread || !n.isRead).map(toUserNotification), query));
+  }],
+
+  ["POST", "/Notifications/read/:id", ({ params }) => {
+    const n = db.notifications.find((x) => x.id === params.id);
+    if (!n) return fail(404, { message: "Notification not found" });
+    markRead(n);
+    return ok();
+  }],
+
+  ["POST", "/Notifications/readall", () => {
+    db.notifications.forEach(markRead);
+    return ok();
+  }],
+
+  ["POST", "/Notifications/ack/:id", ({ params }) => {
+    const n = db.notifications.find((x) => x.id === params.id);
+    if (!n) return fail(404, { message: "Notification not found" });
+    markRead(n);
+    n.isAcknowledged = true;
+    n.acknowledgedAt = new Date().toISOString();
+    return ok();
+  }],
+
+  /* ---- REPORTS ---- */
+  ["GET", "/Reports", () =>
+    ok(db.reports.slice().sort((a, b) => b.requestedAt.localeCompare(a.requestedAt)))],
+
+  ["POST", "/Reports/ReportRequest", ({ body }) => {
+    const req = (body ?? {}) as { assetID: string; signalIDs: string[]; reportFormat: string };
+    const asset = findAsset(req.assetID);
+    if (!asset) return fail(404, { message: "Asset not found" });
+
+    const ext = String(req.reportFormat).toLowerCase().includes("pdf") ? "pdf" : "xlsx";
+    const report = {
+      reportId: newId(),
+      assetId: asset.assetId,
+      assetName: asset.name,
+      signalIds: (req.signalIDs ?? []).join(","),
+      fileName: `${asset.name.replace(/\s+/g, "")}_${Date.now()}.${ext}`,
+      status: "Pending",
+      requestedAt: new Date().toISOString(),
+    };
+    db.reports.push(report);
+
+    // The real worker picks requests off a queue; finish after a few seconds
+    setTimeout(() => {
+      report.status = "Completed";
+    }, 5000);
+    return ok({ message: "Report requested" });
+  }],
+
+  ["GET", "/Reports/download/:id", ({ params }) => {
+    const report = db.reports.find((r) => r.reportId === params.id);
+    if (!report) return fail(404, { message: "Report not found" });
+    const csv = `Report,${report.fileName}\nAsset,${report.assetName}\nGenerated,${new Date().toISOString()}\n`;
+    return ok(new Blob([csv], { type: "text/csv" }));
+  }],
+
+  /* ---- ALERTS ---- */
+  ["GET", "/alerts", ({ query }) => {
+    const from = query.fromUtc ? Date.parse(String(query.fromUtc)) : 0;
+    const to = query.toUtc ? Date.parse(String(query.toUtc)) : Date.now();
+    return ok(
+      db.alerts
+        .filter((a) => !query.assetId || a.assetId === query.assetId)
+        .filter((a) => {
+          const start = Date.parse(a.alertStartUtc);
+          return start >= from && start <= to;
+        })
+        .sort((a, b) => b.alertStartUtc.localeCompare(a.alertStartUtc))
+    );
+  }],
+
+  ["GET", "/alerts/page", ({ query }) => {
+    const filter = query as unknown as AlertFilter;
+    if (!filter.fromUtc || !filter.toUtc) return fail(400, { message: "fromUtc and toUtc are required." });
+    const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 200);
+    const cursor = query.cursor ? Date.parse(String(query.cursor)) : Infinity;
+    const cursorId = String(query.cursorId ?? "");
+    // Newest first, ties broken by id, like AlertRepository.GetPageAsync
+    const matching = filterAlerts(db.alerts, filter)
+      .sort((a, b) => b.alertStartUtc.localeCompare(a.alertStartUtc) || (a.alertId < b.alertId ? 1 : -1))
+      .filter((a) => {
+        const start = Date.parse(a.alertStartUtc);
+        return start < cursor || (start === cursor && !!cursorId && a.alertId < cursorId);
+      });
+    const page = matching.slice(0, limit);
+    const last = page[page.length - 1];
+    return ok({
+      data: page.map((a) => toAlertDto(a)),
+      nextCursor: last?.alertStartUtc ?? null,
+      nextCursorId: last?.alertId ?? null,
+      hasMore: matching.length > limit,
+    });
+  }],
+
+  ["GET", "/alerts/analytics", ({ query }) => {
+    const filter = query as unknown as AlertFilter;
+    if (!filter.fromUtc || !filter.toUtc) return fail(400, { message: "fromUtc and toUtc are required." });
+    const timeZone = String(query.timeZone || "UTC");
+    return ok(alertAnalytics(filterAlerts(db.alerts, filter), filter, timeZone));
+  }],
+
+  ["GET", "/alerts/asset/:id/pending", ({ params }) =>
+    ok(db.alerts.filter((a) => a.assetId === params.id && !a.isAnalyzed).slice(-5))],
+
+  ["POST", "/alerts/analyze-asset", ({ body }) => {
+    const { assetId } = (body ?? {}) as { assetId: string };
+    const asset = findAsset(assetId);
+    const recent = db.alerts.filter((a) => a.assetId === assetId && !a.isAnalyzed);
+    recent.forEach((a) => (a.isAnalyzed = true));
+
+    const signals = [...new Set(recent.map((a) => a.signalName))];
+    const rca = recent.length
+      ? `${asset?.name ?? "The asset"} had ${recent.length} threshold excursions (${signals.join(", ")}). ` +
+        "They are short and periodic, which points to a cyclic load rather than a failing component. " +
+        "Check cooling airflow and bearing lubrication at the next planned stop."
+      : `No unanalysed alerts for ${asset?.name ?? "this asset"} in the selected window.`;
+
+    return ok({ success: true, recommendation: JSON.stringify({ rca }) });
+  }],
+];
@@ -0,0 +1,104 @@
+import { db, type MockUser } from "../fixtures";
+import { fail, ok, type MockRoute } from "../mockAdapter";
+
+/* --------------------------------------------------------
+    AUTH SERVICE  (/api/auth)
+    Any password is accepted for a known email; the "session"
+    is just db.currentUserId.
+-------------------------------------------------------- */
+
+const ROLES = ["Admin", "Engineer", "User"];
+
+const findUser = (id: string) => db.users.find((u) => String(u.userId) === id);
+
+const signIn = (email: string | undefined) => {
+  const user = db.users.find((u) => u.email.toLowerCase() === (email ?? "").toLowerCase());
+  if (!user) return fail(401, { Message: "Invalid email or password." });
+  db.currentUserId = user.userId;
+  return ok({ access_token: "mock-access-token", refresh_token: "mock-refresh-token", message: "Login successful" });
+};
+
+export const authRoutes: MockRoute[] = [
+  ["POST", "/User/Login", ({ body }) => signIn((body as { email?: string })?.email)],
+
+  ["POST", "/User/OtpVerify", ({ body }) => signIn((body as { email?: string })?.email)],
+
+  ["POST", "/User/Register", ({ body }) => {
+    const { username, email } = (body ?? {}) as { username?: string; email?: string };
+    if (!username?.trim() || !email?.trim()) return fail(400, { Message: "Invalid input data." });
+    if (db.users.some((u) => u.email.toLowerCase() === email.toLowerCase())) {
+      return fail(400, { Message: "A user with this email already exists." });
+    }
+    const user: MockUser = {
+      userId: Math.max(0, ...db.users.map((u) => u.userId)) + 1,
+      username: username.trim(),
+      email: email.trim(),
+      role: "User",
+    };
+    db.users.push(user);
+    return { status: 201, data: user };
+  }],
+
+  ["POST", "/User/Logout", () => {
+    db.currentUserId = null;
+    return ok({ message: "Logged out" });
+  }],
+
+  ["POST", "/User/refresh-token", () =>
+    db.currentUserId === null ? fail(401, { Message: "Invalid refresh token." }) : ok({ message: "Token refreshed" })],
+
+  ["GET", "/User/me", () => {
+    const user = db.users.find((u) => u.userId === db.currentUserId);
+    return user ? ok(user) : fail(401, { Message: "User is not authenticated." });
+  }],
+
+  ["GET", "/User/tour-status", () => ok({ isTourCompleted: db.tourCompleted })],
+
+  ["POST", "/User/complete-tour", () => {
+    db.tourCompleted = true;
+    return ok({});
+  }],
+
+  ["GET", "/User/preferences/:key", ({ params }) => {
+    const value = db.preferences.get(`${db.currentUserId}:${params.key}`);
+    return value === undefined ? fail(404, { Message: "Preference not found." }) : ok({ key: params.key, value });
+  }],
+
+  ["PUT", "/User/preferences/:key", ({ params, body }) => {
+    const value = String((body as { value?: string })?.value ?? "");
+    db.preferences.set(`${db.currentUserId}:${params.key}`, value);
+    return ok({ key: params.key, value });
+  }],
+
+  ["GET", "/User", () => ok(db.users)],
+
+  ["GET", "/User/:id", ({ params }) => {
+    const user = findUser(params.id);
+    return user ? ok(user) : fail(404, { Message: "User not found." });
+  }],
+
+  ["PUT", "/User/:id", ({ params, body }) => {
+    const user = findUser(params.id);
+    if (!user) return fail(404, { Message: "User not found." });
+    const { username, email } = (body ?? {}) as Partial<MockUser>;
+    if (username?.trim()) user.username = username.trim();
+    if (email?.trim()) user.email = email.trim();
+    return ok(user);
+  }],
+
+  ["PATCH", "/User/:id/role", ({ params, body }) => {
+    const user = findUser(params.id);
+    if (!user) return fail(404, { Message: "User not found." });
+    const role = (body as { Role?: string; role?: string })?.Role ?? (body as { role?: string })?.role;
+    if (!role || !ROLES.includes(role)) return fail(400, { Message: "Invalid role." });
+    user.role = role;
+    return ok({ Message: `Role updated successfully Please Login Again` });
+  }],
+
+  ["DELETE", "/User/:id", ({ params }) => {
+    const user = findUser(params.id);
+    if (!user) return fail(404, { Message: "User not found." });
+    db.users.splice(db.users.indexOf(user), 1);
+    return ok({ Message: "User deleted." });
+  }],
+];
@@ -0,0 +1,261 @@
+import { db, newId, type MockDevice, type MockRegister, type MockSlave } from "../fixtures";
+import { apiFail, apiOk, fail, ok, type MockRoute } from "../mockAdapter";
+
+/* --------------------------------------------------------
+    DEVICE SERVICE  (/api/devices)
+    Devices, ports, gateways and stats. Bodies are wrapped in
+    ApiResponse like the real controllers.
+-------------------------------------------------------- */
+
+const MAX_DEVICES = 20;
+
+interface DeviceBody {
+  name?: string;
+  description?: string | null;
+  protocol?: string;
+  gatewayClientId?: string;
+  configuration?: { name?: string; pollIntervalMs?: number; protocolSettingsJson?: string } | null;
+}
+
+interface PortBody {
+  slaveIndex: number;
+  isHealthy?: boolean;
+  registers?: Partial<MockRegister>[];
+}
+
+const activeDevices = () => db.devices.filter((d) => !d.isDeleted);
+
+const findDevice = (id: string) =>
+  db.devices.find((d) => d.deviceId.toLowerCase() === id.toLowerCase());
+
+const applyConfiguration = (device: MockDevice, cfg: DeviceBody["configuration"]) => {
+  if (!cfg) return;
+  const configurationId = device.deviceConfiguration?.configurationId ?? newId();
+  device.deviceConfigurationId = configurationId;
+  device.deviceConfiguration = {
+    configurationId,
+    name: cfg.name ?? device.deviceConfiguration?.name ?? `${device.name} config`,
+    pollIntervalMs: Number(cfg.pollIntervalMs ?? device.deviceConfiguration?.pollIntervalMs ?? 1000),
+    protocolSettingsJson: cfg.protocolSettingsJson ?? device.deviceConfiguration?.protocolSettingsJson ?? null,
+    createdAt: device.deviceConfiguration?.createdAt ?? new Date().toISOString(),
+  };
+};
+
+const createDevice = (body: DeviceBody): MockDevice => {
+  const device: MockDevice = {
+    deviceId: newId(),
+    gatewayId: body.gatewayClientId ?? db.gateways[0]?.clientId ?? "",
+    name: (body.name ?? "").trim(),
+    description: body.description ?? null,
+    protocol: body.protocol ?? "ModbusTCP",
+    isDeleted: false,
+    deviceConfigurationId: null,
+    deviceConfiguration: null,
+    deviceSlave: [],
+    createdAt: new Date().toISOString(),
+  };
+  applyConfiguration(device, body.configuration);
+  db.devices.push(device);
+  return device;
+};
+
+const toSlave = (deviceId: string, body: PortBody, existing?: MockSlave): MockSlave => {
+  const deviceSlaveId = existing?.deviceSlaveId ?? newId();
+  return {
+    deviceSlaveId,
+    deviceId,
+    slaveIndex: Number(body.slaveIndex),
+    isHealthy: body.isHealthy ?? true,
+    registers: (body.registers ?? []).map((r) => ({
+      registerId: r.registerId ?? newId(),
+      registerAddress: Number(r.registerAddress),
+      registerLength: Number(r.registerLength ?? 2),
+      dataType: r.dataType ?? "float32",
+      scale: Number(r.scale ?? 1),
+      unit: r.unit ?? null,
+      isHealthy: r.isHealthy ?? true,
+      byteOrder: r.byteOrder ?? null,
+      wordSwap: !!r.wordSwap,
+      deviceSlaveId,
+    })),
+  };
+};
+
+export const deviceRoutes: MockRoute[] = [
+  ["GET", "/devices", ({ query }) => {
+    const pageNumber = Math.max(1, Number(query.pageNumber ?? 1));
+    const pageSize = Math.max(1, Number(query.pageSize ?? 10));
+    const term = String(query.searchTerm ?? "").toLowerCase();
+
+    const all = activeDevices().filter(
+      (d) => !term || d.name.toLowerCase().includes(term) || (d.description ?? "").toLowerCase().includes(term)
+    );
+
+    return apiOk({
+      items: all.slice((pageNumber - 1) * pageSize, pageNumber * pageSize),
+      pageNumber,
+      pageSize,
+      totalCount: all.length,
+      totalPages: Math.ceil(all.length / pageSize),
+    });
+  }],
+
+  ["POST", "/devices", ({ body }) => {
+    const dto = (body ?? {}) as DeviceBody;
+    if (!dto.name?.trim()) {
+      return fail(400, {
+        success: false,
+        data: null,
+        error: "Validation failed.",
+        errors: { Name: ["Device name is required."] },
+      });
+    }
+    if (activeDevices().length >= MAX_DEVICES) {
+      return apiFail(400, `Maximum of ${MAX_DEVICES} devices allowed.`);
+    }
+    return apiOk(createDevice(dto).deviceId);
+  }],
+
+  ["POST", "/devices/bulk", ({ body }) => {
+    const rows = ((body as { devices?: DeviceBody[] })?.devices ?? []);
+    const result = { createdDeviceIds: [] as string[], errors: [] as string[] };
+
+    if (activeDevices().length + rows.length > MAX_DEVICES) {
+      result.errors.push(
+        `Cannot create ${rows.length} devices. Total devices after creation would be ${activeDevices().length + rows.length}, but maximum allowed is ${MAX_DEVICES}.`
+      );
+      return ok(result);
+    }
+
+    rows.forEach((row, i) => {
+      if (!row.name?.trim()) {
+        result.errors.push(`Row ${i + 1}: Device name is required.`);
+        return;
+      }
+      result.createdDeviceIds.push(createDevice(row).deviceId);
+    });
+    return ok(result);
+  }],
+
+  ["POST", "/devices/by-ids", ({ body }) => {
+    const ids = ((body as { deviceIds?: string[] })?.deviceIds ?? []).map((id) => id.toLowerCase());
+    if (ids.length === 0) return apiFail(400, "DeviceIds are required.");
+    return apiOk(activeDevices().filter((d) => ids.includes(d.deviceId.toLowerCase())));
+  }],
+
+  ["GET", "/devices/deleted", () => apiOk(db.devices.filter((d) => d.isDeleted))],
+
+  ["POST", "/devices/match-by-address", ({ body }) => {
+    const addresses = (body as { RegisterAddresses?: number[] })?.RegisterAddresses ?? [];
+    if (addresses.length === 0) return fail(400, "registerAddresses required");
+
+    const matched = activeDevices()
+      .map((d) => ({
+        deviceId: d.deviceId,
+        name: d.name,
+        description: d.description,
+        protocol: d.protocol,
+        matchedSlaves: d.deviceSlave
+          .map((s) => ({
+            deviceSlaveId: s.deviceSlaveId,
+            slaveIndex: s.slaveIndex,
+            isHealthy: s.isHealthy,
+            matchedRegisters: s.registers.filter((r) => addresses.includes(r.registerAddress)),
+          }))
+          .filter((s) => s.matchedRegisters.length > 0),
+      }))
+      .filter((d) => d.matchedSlaves.length > 0);
+
+    return apiOk(matched);
+  }],
+
+  ["GET", "/devices/:id", ({ params }) => {
+    const device = findDevice(params.id);
+    return device && !device.isDeleted ? apiOk(device) : apiFail(404, "Device not found.");
+  }],
+
+  ["PUT", "/devices/:id", ({ params, body }) => {
+    const device = findDevice(params.id);
+    if (!device || device.isDeleted) return apiFail(404, "Device not found.");
+
+    const req = (body ?? {}) as DeviceBody & { device?: DeviceBody };
+    const dto = req.device ?? req;
+    if (dto.name !== undefined && !dto.name.trim()) {
+      return fail(400, {
+        success: false,
+        data: null,
+        error: "Validation failed for device: Device name is required.",
+        errors: { "Device.Name": ["Device name is required."] },
+      });
+    }
+
+    if (dto.name !== undefined) device.name = dto.name.trim();
+    if (dto.description !== undefined) device.description = dto.description;
+    if (dto.protocol !== undefined) device.protocol = dto.protocol;
+    applyConfiguration(device, req.configuration ?? dto.configuration);
+    return apiOk(null);
+  }],
+
+  ["DELETE", "/devices/:id", ({ params }) => {
+    const device = findDevice(params.id);
+    if (!device || device.isDeleted) return apiFail(404, "Device not found.");
+    device.isDeleted = true;
+    db.mappings.splice(0, db.mappings.length, ...db.mappings.filter((m) => m.deviceId !== device.deviceId));
+    return apiOk(null);
+  }],
+
+  ["POST", "/devices/:id/restore", ({ params }) => {
+    const device = findDevice(params.id);
+    if (!device || !device.isDeleted) return apiFail(404, "Deleted device not found.");
+    device.isDeleted = false;
+    return apiOk(null);
+  }],
+
+  ["POST", "/devices/:id/configuration", ({ params, body }) => {
+    const device = findDevice(params.id);
+    if (!device) return apiFail(404, "Device not found.");
+    applyConfiguration(device, body as DeviceBody["configuration"]);
+    return apiOk({ deviceId: device.deviceId, configurationId: device.deviceConfigurationId });
+  }],
+
+  ["GET", "/devices/:id/ports", ({ params }) => {
+    const device = findDevice(params.id);
+    return apiOk(device?.deviceSlave ?? []);
+  }],
+
+  ["POST", "/devices/:id/ports", ({ params, body }) => {
+    const device = findDevice(params.id);
+    if (!device) return apiFail(404, "Device not found.");
+
+    const dto = body as PortBody;
+    if (device.deviceSlave.some((s) => s.slaveIndex === Number(dto.slaveIndex))) {
+      return apiFail(400, `Slave ${dto.slaveIndex} already exists on this device.`);
+    }
+    const slave = toSlave(device.deviceId, dto);
+    device.deviceSlave.push(slave);
+    return apiOk(slave.deviceSlaveId);
+  }],
+
+  ["PUT", "/devices/:id/ports/:slaveIndex", ({ params, body }) => {
+    const device = findDevice(params.id);
+    const index = device?.deviceSlave.findIndex((s) => s.slaveIndex === Number(params.slaveIndex)) ?? -1;
+    if (!device || index < 0) return apiFail(404, "Port not found.");
+
+    device.deviceSlave[index] = toSlave(device.deviceId, body as PortBody, device.deviceSlave[index]);
+    return apiOk(null);
+  }],
+
+  ["GET", "/Gateway", () => ok(db.gateways)],
+
+  ["POST", "/Gateway/:name", ({ params }) => {
+    if (db.gateways.some((g) => g.name.toLowerCase() === params.name.toLowerCase())) {
+      return fail(409, { message: `Gateway '${params.name}' already exists.` });
+    }
+    const clientId = `${params.name.toLowerCase().replace(/\s+/g, "-")}-${newId().slice(0, 8)}`;
+    db.gateways.push({ name: params.name, clientId });
+    return ok({ message: "Gateway onboarded", clientId, clientSecret: newId().replace(/-/g, "") });
+  }],
+
+  ["GET", "/stats/avg-response-time", () =>
+    ok({ avgResponseTime: Math.round((35 + Math.random() * 20) * 10) / 10 })],
+];
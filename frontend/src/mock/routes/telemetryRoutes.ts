@@ -0,0 +1,114 @@
+import type { TelemetryPoint, TelemetryResponse } from "@/api/telemetryApi";
+import { db } from "../fixtures";
+import { fail, ok, type MockRoute } from "../mockAdapter";
+import { syntheticValue } from "../syntheticSignals";
+
+/* --------------------------------------------------------
+    TELEMETRY HISTORY  (/api/asset/TelemetryTest)
+    Sampled from the same synthetic curves the mock hub streams,
+    so history and live values agree.
+-------------------------------------------------------- */
+
+const HOUR = 3600_000;
+
+// TimeRange enum value -> [name, span]
+const RANGES: Record<number, [string, number]> = {
+  0: ["LastHour", HOUR],
+  1: ["Last6Hours", 6 * HOUR],
+  2: ["Last24Hours", 24 * HOUR],
+  3: ["Last7Days", 7 * 24 * HOUR],
+  4: ["Last30Days", 30 * 24 * HOUR],
+};
+
+// Aggregated queries return ~300 buckets; raw queries up to ~2000 samples
+const AGGREGATED_POINTS = 300;
+const RAW_POINTS = 2000;
+
+interface TelemetryQuery {
+  assetId?: string;
+  signalTypeId?: string;
+  timeRange?: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+const buildSeries = (
+  q: TelemetryQuery,
+  rangeName: string,
+  start: number,
+  end: number,
+  maxPoints: number,
+  minStepMs: number
+) => {
+  const signal = db.signalTypes.find((s) => s.signalTypeID === q.signalTypeId);
+  if (!q.assetId || !signal) return fail(400, { message: "assetId and signalTypeId are required" });
+  if (end <= start) return fail(400, { message: "endDate must be after startDate" });
+
+  const mapping = db.mappings.find(
+    (m) => m.assetId === q.assetId && m.signalTypeId === signal.signalTypeID
+  );
+  const address = mapping?.registerAdress ?? signal.defaultRegisterAdress;
+  const seed = mapping?.deviceId ?? q.assetId;
+
+  const step = Math.max(minStepMs, Math.ceil((end - start) / maxPoints));
+  const values: TelemetryPoint[] = [];
+  for (let t = start - (start % step) + step; t <= end; t += step) {
+    values.push({ time: new Date(t).toISOString(), value: syntheticValue(address, t, seed) });
+  }
+
+  const nums = values.map((v) => v.value);
+  const response: TelemetryResponse = {
+    assetId: q.assetId,
+    deviceId: mapping?.deviceId ?? "",
+    signalTypeId: signal.signalTypeID,
+    signalName: signal.signalName,
+    unit: signal.signalUnit,
+    timeRange: rangeName,
+    startTime: new Date(start).toISOString(),
+    endTime: new Date(end).toISOString(),
+    values,
+    stats: values.length
+      ? {
+          count: values.length,
+          min: Math.min(...nums),
+          max: Math.max(...nums),
+          average: Math.round((nums.reduce((a, b) => a + b, 0) / nums.length) * 100) / 100,
+          firstValue: nums[0],
+          lastValue: nums[nums.length - 1],
+          firstTimestamp: values[0].time,
+          lastTimestamp: values[values.length - 1].time,
+        }
+      : null,
+  };
+  return ok(response);
+};
+
+const lastSpan = (q: TelemetryQuery, range: number) => {
+  const [name, span] = RANGES[range];
+  const now = Date.now();
+  return buildSeries(q, name, now - span, now, AGGREGATED_POINTS, 1000);
+};
+
+const customSpan = (q: TelemetryQuery, maxPoints: number, minStepMs: number) => {
+  const end = q.endDate ? Date.parse(q.endDate) : Date.now();
+  const start = q.startDate ? Date.parse(q.startDate) : end - HOUR;
+  if (Number.isNaN(start) || Number.isNaN(end)) return fail(400, { message: "Invalid date range" });
+  return buildSeries(q, "Custom", start, Math.min(end, Date.now()), maxPoints, minStepMs);
+};
+
+export const telemetryRoutes: MockRoute[] = [
+  ["POST", "/TelemetryTest/query", ({ body }) => {
+    const q = (body ?? {}) as TelemetryQuery;
+    const range = Number(q.timeRange ?? 0);
+    return RANGES[range] ? lastSpan(q, range) : customSpan(q, AGGREGATED_POINTS, 1000);
+  }],
+
+  ["POST", "/TelemetryTest/queryraw", ({ body }) =>
+    customSpan((body ?? {}) as TelemetryQuery, RAW_POINTS, 1000)],
+
+  ["GET", "/TelemetryTest/last-hour", ({ query }) => lastSpan(query as TelemetryQuery, 0)],
+  ["GET", "/TelemetryTest/last-24-hours", ({ query }) => lastSpan(query as TelemetryQuery, 2)],
+  ["GET", "/TelemetryTest/last-7-days", ({ query }) => lastSpan(query as TelemetryQuery, 3)],
+  ["GET", "/TelemetryTest/custom-range", ({ query }) =>
+    customSpan(query as TelemetryQuery, AGGREGATED_POINTS, 1000)],
+];
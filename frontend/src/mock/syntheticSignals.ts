@@ -0,0 +1,81 @@
+/* --------------------------------------------------------
+    SYNTHETIC MODBUS VALUES
+    Deterministic in (register, time, seed): the history returned
+    by the mock telemetry endpoints lines up with the values the
+    mock hub pushes live.
+-------------------------------------------------------- */
+
+export interface SignalProfile {
+  signalType: string;
+  unit: string;
+  nominal: number;
+  amplitude: number;
+  noise: number;
+  periodSec: number;
+  min: number;
+  max: number;
+  // Periodically drifts above `max` so alerts and notifications have something to show
+  excursions?: boolean;
+}
+
+// Keyed by default register address (matches the signal type fixtures)
+export const SIGNAL_PROFILES: Record<number, SignalProfile> = {
+  40001: { signalType: "Voltage", unit: "V", nominal: 230, amplitude: 6, noise: 1.5, periodSec: 600, min: 210, max: 250 },
+  40003: { signalType: "Current", unit: "A", nominal: 16, amplitude: 4, noise: 0.6, periodSec: 300, min: 0, max: 28 },
+  40005: { signalType: "Temperature", unit: "°C", nominal: 62, amplitude: 8, noise: 0.8, periodSec: 1800, min: 20, max: 80, excursions: true },
+  40007: { signalType: "Frequency", unit: "Hz", nominal: 50, amplitude: 0.12, noise: 0.03, periodSec: 120, min: 49.5, max: 50.5 },
+  40009: { signalType: "Vibration", unit: "mm/s", nominal: 3.2, amplitude: 1.1, noise: 0.35, periodSec: 240, min: 0, max: 7.1, excursions: true },
+  40011: { signalType: "Pressure", unit: "bar", nominal: 6.2, amplitude: 0.6, noise: 0.1, periodSec: 420, min: 4, max: 8 },
+  40013: { signalType: "Flow Rate", unit: "m³/h", nominal: 38, amplitude: 5, noise: 1.2, periodSec: 900, min: 10, max: 55 },
+  40015: { signalType: "Speed", unit: "rpm", nominal: 1450, amplitude: 25, noise: 6, periodSec: 180, min: 1300, max: 1550 },
+};
+
+const FALLBACK_PROFILE: SignalProfile = {
+  signalType: "Generic", unit: "", nominal: 50, amplitude: 10, noise: 2, periodSec: 300, min: 0, max: 100,
+};
+
+const EXCURSION_EVERY_SEC = 60 * 60;
+const EXCURSION_LENGTH_SEC = 45;
+
+export const profileFor = (registerAddress: number): SignalProfile =>
+  SIGNAL_PROFILES[registerAddress] ?? FALLBACK_PROFILE;
+
+// Small string hash (FNV-1a) so every device/asset gets its own phase and noise
+export const hashString = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Pseudo-random in [-1, 1), stable for the same inputs
+const jitter = (seed: number, second: number) => {
+  const x = Math.sin(seed * 12.9898 + second * 78.233) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
+};
+
+export const isInExcursion = (registerAddress: number, timeMs: number, seed = "") => {
+  if (!profileFor(registerAddress).excursions) return false;
+  const offset = hashString(`${seed}:${registerAddress}`) % EXCURSION_EVERY_SEC;
+  return (Math.floor(timeMs / 1000) + offset) % EXCURSION_EVERY_SEC < EXCURSION_LENGTH_SEC;
+};
+
+export const syntheticValue = (registerAddress: number, timeMs: number, seed = "") => {
+  const p = profileFor(registerAddress);
+  const h = hashString(`${seed}:${registerAddress}`);
+  const phase = ((h % 1000) / 1000) * Math.PI * 2;
+  const second = Math.floor(timeMs / 1000);
+
+  let value =
+    p.nominal +
+    p.amplitude * Math.sin((2 * Math.PI * timeMs) / (p.periodSec * 1000) + phase) +
+    p.noise * jitter(h, second);
+
+  if (isInExcursion(registerAddress, timeMs, seed)) {
+    value = p.max + (p.max - p.min) * (0.04 + 0.04 * Math.abs(jitter(h + 1, second)));
+  }
+
+  return Math.round(value * 100) / 100;
+};
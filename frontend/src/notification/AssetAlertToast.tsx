@@ -1,10 +1,12 @@
 import React from "react";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { formatDateTime } from "@/lib/time";
 
 const fmt = (v: any) => (v ?? "-");
-const fmtDate = (d: any) =>
-  d ? new Date(d).toLocaleString() : "-";
 
 export const AssetAlertToast = ({ data }: { data: any }) => {
+  const timeZone = useTimeZone();
+
   if (!data || typeof data !== "object") {
     return <div className="text-sm text-gray-500">No alert data</div>;
   }
@@ -53,7 +55,7 @@ export const AssetAlertToast = ({ data }: { data: any }) => {
             </div>
 
             <div className="text-xs text-gray-600">
-              {fmtDate(data.timestamp)}
+              {formatDateTime(data.timestamp, timeZone)}
             </div>
           </div>
 
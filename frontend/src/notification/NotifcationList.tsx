@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect } from "react";
 import { useNotifications } from "../context/NotificationContext";
 import { Bell ,Eye} from "lucide-react";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { formatDateTime } from "@/lib/time";
 
 export const NotificationList = () => {
   const {
@@ -16,6 +18,7 @@ export const NotificationList = () => {
 
   const [filter, setFilter] = useState<"all" | "read" | "unread">(activeTab);
   const loaderRef = useRef<HTMLDivElement | null>(null);
+  const timeZone = useTimeZone();
 
 
   const fmt = (n: number | null | undefined) =>
@@ -23,13 +26,7 @@ export const NotificationList = () => {
       ? (Math.round(n * 10) / 10).toLocaleString()
       : "-";
 
-  const fmtDate = (iso: string | null | undefined) => {
-    try {
-      return iso ? new Date(iso).toLocaleString() : "-";
-    } catch {
-      return "-";
-    }
-  };
+  const fmtDate = (iso: string | null | undefined) => formatDateTime(iso, timeZone);
 
   const parsePayload = (notif: any) => {
     try {
@@ -2,7 +2,7 @@ import React, { useEffect, useRef, useState } from "react";
 import { Send, AlertCircle, Zap, Settings2, MessageSquare } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
 import { useNavigate } from "react-router-dom";
-import AiApi from "@/api/aiApi";
+import { askAi } from "@/api/aiApi";
 
 // Improved AI RCA Chat component
 // - Parses the `res.data` payload you showed (data is a YAML-ish string inside data)
@@ -114,21 +114,11 @@ export default function AiRcaChat() {
     setPrompt("");
 
     try {
-      const res = await AiApi.post(
-        "/ai/ask",
-        {
-          prompt: userText,
-          system,
-          sessionId: user.username,
-        },
-        {
-          headers: {
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      const data = res.data;
+      const data = await askAi({
+        prompt: userText,
+        system,
+        sessionId: user.username,
+      });
 
       // Same fallback logic as your fetch version
       const raw =
@@ -157,12 +147,7 @@ export default function AiRcaChat() {
     } catch (err: any) {
       console.error(err);
 
-      // Axios error handling
-      const message =
-        err.response?.data?.message ||
-        err.response?.statusText ||
-        err.message ||
-        "Unknown error";
+      const message = err.message || "Unknown error";
 
       setError(message);
     } finally {
@@ -1,5 +1,4 @@
-import { useEffect, useMemo, useState, useRef } from "react";
-import apiAsset from "@/api/axiosAsset";
+import { useMemo, useState, useRef, type ReactNode } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -14,170 +13,127 @@ import { Download, TrendingUp, AlertTriangle, Clock, Activity } from "lucide-rea
 import "jspdf-autotable";
 import autoTable from "jspdf-autotable";
 import { useParams } from "react-router-dom";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { useAlertAnalytics, useAlertPages } from "@/hooks/use-alerts";
+import { getAllAlerts, type Alert, type AlertFilter, type AlertSeverity } from "@/api/alertApi";
+import { formatDateTime, formatDuration, formatInZone, timeZoneAbbreviation, zonedToUtc } from "@/lib/time";
 
 
 
 // -------------------- Utilities --------------------
-const formatLocalTime = (utcString: string | undefined) => {
-  if (!utcString) return "-";
-  return new Date(utcString + "Z").toLocaleString("en-IN", {
-    timeZone: "Asia/Kolkata",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true
-  });
-};
-
-const formatLocalDate = (utcString: string | undefined) => {
-  if (!utcString) return "-";
-  return new Date(utcString + "Z").toLocaleDateString("en-IN", {
-    timeZone: "Asia/Kolkata",
-    day: "2-digit",
-    month: "2-digit",
-    year: "numeric"
-  });
-};
-
-
-
-const formatLocalHourMin = (utcString: string | undefined) => {
-  if (!utcString) return "-";
-  return new Date(utcString + "Z").toLocaleTimeString("en-IN", {
-    timeZone: "Asia/Kolkata",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: true
-  });
-};
-
-
-const getDurationSec = (a: any) => {
-  const start = new Date(a.alertStartUtc).getTime();
-  const end = a.alertEndUtc
-    ? new Date(a.alertEndUtc).getTime()
-    : Date.now();
-  return (end - start) / 1000;
-};
-
-
-const getDeviation = (a: any) => {
-  if (a.maxObservedValue > a.maxThreshold) {
-    return { percent: ((a.maxObservedValue - a.maxThreshold) / (a.maxThreshold || 1)) * 100, direction: "UP" };
-  }
-  if (a.minObservedValue < a.minThreshold) {
-    return { percent: ((a.minThreshold - a.minObservedValue) / (a.minThreshold || 1)) * 100, direction: "DOWN" };
-  }
-  return { percent: 0, direction: "NONE" };
-};
-
-const getSeverity = (percent: number) => {
-  if (percent >= 25) return "Critical";
-  if (percent >= 10) return "Medium";
-  return "Low";
-};
+const StatTile = ({ icon, label, value, hint }: { icon: ReactNode; label: string; value: string; hint?: string }) => (
+  <Card className="border-gray-200 shadow-sm">
+    <CardContent className="p-4 flex items-center gap-3">
+      {icon}
+      <div>
+        <p className="text-xs text-gray-500">{label}</p>
+        <p className="text-xl font-bold text-gray-900">{value}</p>
+        {hint && <p className="text-xs text-gray-500">{hint}</p>}
+      </div>
+    </CardContent>
+  </Card>
+);
 
 // -------------------- Component --------------------
 export default function AlertsAnalyticsPage() {
-  const [alerts, setAlerts] = useState<any[]>([]);
   const [signalFilter, setSignalFilter] = useState("ALL");
   const [severityFilter, setSeverityFilter] = useState("ALL");
   const [deviationRange, setDeviationRange] = useState([0, 1000]);
   const [fromLocal, setFromLocal] = useState<string>("");
   const [toLocal, setToLocal] = useState<string>("");
   const [preset, setPreset] = useState<string>("24h");
-  const [loading, setLoading] = useState(false);
   const chartsRef = useRef<HTMLDivElement>(null);
   let {assetId} = useParams()
 
-const istToUtcISOString = (ist: string) => {
-  const localDate = new Date(ist);
-  const utcTime = new Date(
-    localDate.getTime() - localDate.getTimezoneOffset() * 60000
-  );
-  return utcTime.toISOString();
-};
+  const timeZone = useTimeZone();
+  const zoneLabel = timeZoneAbbreviation(timeZone);
+
+  const formatLocalTime = (utcString: string | undefined) => formatDateTime(utcString, timeZone);
+  const formatLocalHourMin = (utcString: string | undefined) =>
+    utcString ? formatInZone(utcString, "hh:mm a", timeZone) : "-";
 
+// The pickers hold wall-clock times in the user's zone
 const [fromUtc, toUtc] = useMemo(() => {
   // If user selected 'to', otherwise default to now
-  const toIST = toLocal ? new Date(toLocal) : new Date();
-  let fromIST: Date;
+  const to = toLocal ? zonedToUtc(toLocal, timeZone) : new Date();
+  let from: Date;
 
   if (fromLocal) {
-    fromIST = new Date(fromLocal);
+    from = zonedToUtc(fromLocal, timeZone);
   } else {
     switch (preset) {
       case "24h":
-        fromIST = new Date(toIST.getTime() - 24 * 60 * 60 * 1000);
+        from = new Date(to.getTime() - 24 * 60 * 60 * 1000);
         break;
       case "2d":
-        fromIST = new Date(toIST.getTime() - 2 * 24 * 60 * 60 * 1000);
+        from = new Date(to.getTime() - 2 * 24 * 60 * 60 * 1000);
         break;
       case "7d":
-        fromIST = new Date(toIST.getTime() - 7 * 24 * 60 * 60 * 1000);
+        from = new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
         break;
       case "1m":
-        fromIST = new Date(toIST.getTime() - 30 * 24 * 60 * 60 * 1000);
+        from = new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
         break;
       default:
-        fromIST = new Date(toIST.getTime() - 24 * 60 * 60 * 1000);
+        from = new Date(to.getTime() - 24 * 60 * 60 * 1000);
     }
   }
 
-  // Convert IST -> UTC
-  const toUtcString = new Date(toIST.getTime() - 5.5 * 60 * 60 * 1000).toISOString();
-  const fromUtcString = new Date(fromIST.getTime() - 5.5 * 60 * 60 * 1000).toISOString();
+  return [from.toISOString(), to.toISOString()];
+}, [fromLocal, toLocal, preset, timeZone]);
 
-  return [fromUtcString, toUtcString];
-}, [fromLocal, toLocal, preset]);
 
 
+  // Signal and severity are filtered by the service, on every page and in the analytics
+  const windowFilter: AlertFilter = { fromUtc, toUtc, assetId };
+  const filter: AlertFilter = {
+    ...windowFilter,
+    signalName: signalFilter !== "ALL" ? signalFilter : undefined,
+    severity: severityFilter !== "ALL" ? (severityFilter as AlertSeverity) : undefined,
+  };
+
+  const { alerts, hasMore, loading, loadingMore, loadMore } = useAlertPages(filter);
+  const { analytics } = useAlertAnalytics(filter);
+  // Unfiltered, so the signal picker keeps listing every signal in the window
+  const { analytics: windowAnalytics } = useAlertAnalytics(windowFilter);
 
-  const loadAlerts = async () => {
-    setLoading(true);
+  const signals = Array.from(new Set((windowAnalytics?.bySignal ?? []).map(s => s.signalName))).sort();
+
+  const stats = useMemo(() => ({
+    total: analytics?.total ?? 0,
+    critical: analytics?.bySeverity.find(s => s.severity === "Critical")?.count ?? 0,
+    avgDeviation: analytics?.averageDeviationPercent ?? 0,
+    totalDuration: analytics?.totalOutOfLimitSeconds ?? 0,
+    meanTimeBetween: analytics?.meanTimeBetweenAlertsSeconds ?? null,
+  }), [analytics]);
+
+  const byHour = useMemo(
+    () => (analytics?.byHour ?? []).map(h => ({ ...h, label: String(h.hour).padStart(2, "0") })),
+    [analytics]
+  );
+
+  const exportRows = (list: Alert[]) => list.map(a => ({
+    Asset: a.assetName,
+    Signal: a.signalName,
+    StartTime: formatLocalTime(a.alertStartUtc),
+    EndTime: formatLocalTime(a.alertEndUtc ?? undefined),
+    DurationSec: Math.round(a.durationSeconds),
+    DeviationPercent: a.deviationPercent,
+    Severity: a.severity,
+    Status: a.isActive ? "Active" : "Closed"
+  }));
+
+  // Exports cover the whole window, not just the pages loaded so far
+  const loadAllForExport = async () => {
     try {
-      const response = await apiAsset.get("/alerts", { params: { fromUtc, toUtc , assetId} });
-      setAlerts(response.data);
-    } catch (error) {
-      console.error("Failed to load alerts", error);
-    } finally {
-      setLoading(false);
+      return await getAllAlerts(filter);
+    } catch (err) {
+      console.error("Failed to load alerts for export", err);
+      alert("Failed to load alerts for export.");
+      return null;
     }
   };
 
-  useEffect(() => { loadAlerts(); }, [fromUtc, toUtc]);
-
-  const enrichedAlerts = useMemo(() => alerts.map(a => {
-    const dev = getDeviation(a);
-    return {
-      ...a,
-      deviationPercent: Number(dev.percent.toFixed(2)),
-      deviationDirection: dev.direction,
-      severity: getSeverity(dev.percent),
-      durationSec: getDurationSec(a),
-    };
-  }), [alerts]);
-
-  const filtered = enrichedAlerts.filter(a => {
-    if (signalFilter !== "ALL" && a.signalName !== signalFilter) return false;
-    if (severityFilter !== "ALL" && a.severity !== severityFilter) return false;
-    //if (a.deviationPercent < deviationRange[0] || a.deviationPercent > deviationRange[1]) return false;
-    return true;
-  });
-
-  const signals = Array.from(new Set(alerts.map(a => a.signalName)));
-
-  const stats = useMemo(() => {
-    const total = filtered.length;
-    const critical = filtered.filter(a => a.severity === "Critical").length;
-    const avgDeviation = filtered.length > 0 ? (filtered.reduce((sum, a) => sum + a.deviationPercent, 0) / filtered.length).toFixed(2) : 0;
-    const totalDuration = filtered.reduce((sum, a) => sum + a.durationSec, 0);
-    return { total, critical, avgDeviation, totalDuration };
-  }, [filtered]);
-
   // -------------------- Export with Charts --------------------
  const exportWithChartsPDF = async () => {
   try {
@@ -209,7 +165,7 @@ const [fromUtc, toUtc] = useMemo(() => {
     pdf.setFontSize(16);
     pdf.text("Detailed Alerts Data", 10, 15);
 
-    const tableData = filtered.slice(0, 50).map(a => [
+    const tableData = alerts.slice(0, 50).map(a => [
       a.assetName,
       a.signalName,
       formatLocalTime(a.alertStartUtc),
@@ -219,7 +175,7 @@ const [fromUtc, toUtc] = useMemo(() => {
     ]);
 
     autoTable(pdf, {
-      head: [["Asset", "Signal", "Start Time (IST)", "Deviation", "Severity", "Status"]],
+      head: [["Asset", "Signal", `Start Time (${zoneLabel})`, "Deviation", "Severity", "Status"]],
       body: tableData,
       startY: 25,
       styles: { fontSize: 8, cellPadding: 2 },
@@ -235,44 +191,41 @@ const [fromUtc, toUtc] = useMemo(() => {
 };
 
 
-  const exportExcel = () => {
-    const ws1 = XLSX.utils.json_to_sheet(filtered.map(a => ({
-      Asset: a.assetName,
-      Signal: a.signalName,
-      StartTime: formatLocalTime(a.alertStartUtc),
-      EndTime: formatLocalTime(a.alertEndUtc),
-      DurationSec: a.durationSec,
-      DeviationPercent: a.deviationPercent,
-      Severity: a.severity,
-      Status: a.isActive ? "Active" : "Closed"
-    })));
+  const exportExcel = async () => {
+    const all = await loadAllForExport();
+    if (!all) return;
+    const ws1 = XLSX.utils.json_to_sheet(exportRows(all));
 
     const statsData = [
       { Metric: "Total Alerts", Value: stats.total },
       { Metric: "Critical Alerts", Value: stats.critical },
       { Metric: "Avg Deviation %", Value: stats.avgDeviation },
-      { Metric: "Total Duration (sec)", Value: stats.totalDuration }
+      { Metric: "Total Duration (sec)", Value: Math.round(stats.totalDuration) },
+      { Metric: "Mean Time Between Alerts (sec)", Value: stats.meanTimeBetween === null ? "-" : Math.round(stats.meanTimeBetween) }
     ];
     const ws2 = XLSX.utils.json_to_sheet(statsData);
 
+    const ws3 = XLSX.utils.json_to_sheet((analytics?.bySignal ?? []).map(s => ({
+      Asset: s.assetName,
+      Signal: s.signalName,
+      Alerts: s.count,
+      Critical: s.critical,
+      OutOfLimitSec: Math.round(s.outOfLimitSeconds),
+      MeanTimeBetweenSec: s.meanTimeBetweenAlertsSeconds === null ? "-" : Math.round(s.meanTimeBetweenAlertsSeconds),
+      LastAlert: formatLocalTime(s.lastAlertUtc)
+    })));
+
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws1, "Alerts");
     XLSX.utils.book_append_sheet(wb, ws2, "Summary");
+    XLSX.utils.book_append_sheet(wb, ws3, "By Signal");
     XLSX.writeFile(wb, "alerts_report.xlsx");
   };
 
-  const exportCSV = () => {
-    const data = filtered.map(a => ({
-      Asset: a.assetName,
-      Signal: a.signalName,
-      StartTime: formatLocalTime(a.alertStartUtc),
-      EndTime: formatLocalTime(a.alertEndUtc),
-      DurationSec: a.durationSec,
-      DeviationPercent: a.deviationPercent,
-      Severity: a.severity,
-      Status: a.isActive ? "Active" : "Closed"
-    }));
-    const ws = XLSX.utils.json_to_sheet(data);
+  const exportCSV = async () => {
+    const all = await loadAllForExport();
+    if (!all) return;
+    const ws = XLSX.utils.json_to_sheet(exportRows(all));
     const csv = XLSX.utils.sheet_to_csv(ws);
     const blob = new Blob([csv]);
     const a = document.createElement("a");
@@ -320,7 +273,7 @@ const [fromUtc, toUtc] = useMemo(() => {
           <CardContent className="p-6">
             <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
               <div className="space-y-2">
-                <label className="text-xs font-semibold text-gray-700">From (IST)</label>
+                <label className="text-xs font-semibold text-gray-700">From ({zoneLabel})</label>
                 <Input 
                   type="datetime-local" 
                   value={fromLocal} 
@@ -329,7 +282,7 @@ const [fromUtc, toUtc] = useMemo(() => {
                 />
               </div>
               <div className="space-y-2">
-                <label className="text-xs font-semibold text-gray-700">To (IST)</label>
+                <label className="text-xs font-semibold text-gray-700">To ({zoneLabel})</label>
                 <Input 
                   type="datetime-local" 
                   value={toLocal} 
@@ -392,6 +345,33 @@ const [fromUtc, toUtc] = useMemo(() => {
           </CardContent>
         </Card>
 
+        {/* Summary - aggregated by the service over the whole window */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <StatTile
+            icon={<Activity className="w-6 h-6 text-blue-600" />}
+            label="Total Alerts"
+            value={String(stats.total)}
+            hint={analytics?.active ? `${analytics.active} active` : undefined}
+          />
+          <StatTile
+            icon={<AlertTriangle className="w-6 h-6 text-red-600" />}
+            label="Critical"
+            value={String(stats.critical)}
+            hint={`Avg deviation ${stats.avgDeviation}%`}
+          />
+          <StatTile
+            icon={<Clock className="w-6 h-6 text-amber-600" />}
+            label="Time Out of Limits"
+            value={formatDuration(stats.totalDuration)}
+          />
+          <StatTile
+            icon={<TrendingUp className="w-6 h-6 text-green-600" />}
+            label="Mean Time Between Alerts"
+            value={stats.meanTimeBetween === null ? "-" : formatDuration(stats.meanTimeBetween)}
+            hint="Per signal, averaged"
+          />
+        </div>
+
         {/* Main Content - Left: Signals, Right: Charts */}
         <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
           {/* LEFT SIDE - Alert Cards */}
@@ -402,7 +382,7 @@ const [fromUtc, toUtc] = useMemo(() => {
     <div className="flex justify-between items-center mb-4">
       <h2 className="text-xl font-bold text-gray-900">Alert Details</h2>
       <Badge variant="outline" className="border-gray-300 text-gray-700">
-        {filtered.length} items
+        {hasMore ? `${alerts.length} of ${stats.total}` : alerts.length} items
       </Badge>
     </div>
 
@@ -411,7 +391,7 @@ const [fromUtc, toUtc] = useMemo(() => {
       <div className="flex-1 flex items-center justify-center">
         <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
       </div>
-    ) : filtered.length === 0 ? (
+    ) : alerts.length === 0 ? (
       <div className="flex-1 flex items-center justify-center">
         <p className="text-gray-500 text-sm">
           No alerts found matching your criteria
@@ -420,7 +400,7 @@ const [fromUtc, toUtc] = useMemo(() => {
     ) : (
       /* 🔥 Scrollable List */
       <div className="flex-1 overflow-y-auto space-y-3 pr-2">
-        {filtered.map((a) => (
+        {alerts.map((a) => (
           <Card
             key={a.alertId}
             className={`border-l-4 shadow-sm hover:shadow-md transition-all ${
@@ -466,13 +446,13 @@ const [fromUtc, toUtc] = useMemo(() => {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Observed:</span>
                   <span className="font-mono">
-                    {a.minObservedValue} – {a.maxObservedValue}
+                    {a.minObservedValue ?? "-"} – {a.maxObservedValue ?? "-"}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Duration:</span>
                   <span className="font-semibold">
-                    {(a.durationSec / 60).toFixed(1)} min
+                    {formatDuration(a.durationSeconds)}
                   </span>
                 </div>
               </div>
@@ -495,6 +475,11 @@ const [fromUtc, toUtc] = useMemo(() => {
             </CardContent>
           </Card>
         ))}
+        {hasMore && (
+          <Button variant="outline" className="w-full border-gray-300" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? "Loading..." : "Load more"}
+          </Button>
+        )}
       </div>
     )}
   </CardContent>
@@ -512,7 +497,7 @@ const [fromUtc, toUtc] = useMemo(() => {
         <CardContent className="h-64 md:h-80 p-3 md:p-4">
           
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={filtered}>
+            <AreaChart data={alerts}>
               <defs>
                 <linearGradient id="colorDev" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#2563eb" stopOpacity={0.8} />
@@ -544,6 +529,66 @@ const [fromUtc, toUtc] = useMemo(() => {
 </div>
 
         </div>
+
+        {/* Recurrence - when and where alerts keep coming back */}
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+          <Card className="border-gray-200 shadow-sm lg:col-span-2">
+            <CardContent className="p-4 space-y-3">
+              <h2 className="text-lg font-bold text-gray-900">Alerts by Hour ({zoneLabel})</h2>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={byHour}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="label" stroke="#6b7280" fontSize={11} />
+                    <YAxis allowDecimals={false} stroke="#6b7280" />
+                    <Tooltip formatter={(value) => [value, "Alerts"]} labelFormatter={(label) => `${label}:00`} />
+                    <Bar dataKey="count" fill="#2563eb" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="border-gray-200 shadow-sm lg:col-span-3">
+            <CardContent className="p-4 space-y-3">
+              <h2 className="text-lg font-bold text-gray-900">Alerts by Signal</h2>
+              <div className="max-h-56 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-xs text-gray-500 text-left">
+                    <tr>
+                      <th className="py-1">Asset / Signal</th>
+                      <th className="py-1 text-right">Alerts</th>
+                      <th className="py-1 text-right">Critical</th>
+                      <th className="py-1 text-right">Out of Limits</th>
+                      <th className="py-1 text-right">Mean Gap</th>
+                      <th className="py-1 text-right">Last Alert</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(analytics?.bySignal ?? []).map(s => (
+                      <tr key={`${s.assetId}:${s.signalTypeId}`} className="border-t">
+                        <td className="py-1">
+                          <span className="font-medium">{s.assetName}</span>
+                          <span className="text-gray-500"> / {s.signalName}</span>
+                        </td>
+                        <td className="py-1 text-right">{s.count}</td>
+                        <td className="py-1 text-right">{s.critical}</td>
+                        <td className="py-1 text-right">{formatDuration(s.outOfLimitSeconds)}</td>
+                        <td className="py-1 text-right">
+                          {s.meanTimeBetweenAlertsSeconds === null ? "-" : formatDuration(s.meanTimeBetweenAlertsSeconds)}
+                        </td>
+                        <td className="py-1 text-right font-mono text-xs">{formatLocalTime(s.lastAlertUtc)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {!analytics?.bySignal.length && (
+                  <p className="text-gray-500 text-sm text-center py-6">No alerts in this window</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
       </div>
     </div>
   );
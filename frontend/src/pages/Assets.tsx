@@ -94,7 +94,6 @@ export default function Assets() {
       console.error("Failed to load assets:", err);
 
       const message =
-        err?.response?.data?.message ||
         err?.message ||
         "Failed to load assets. Please try again.";
 
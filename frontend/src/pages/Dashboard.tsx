@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
   Building2,
   Cpu,
@@ -8,12 +8,17 @@ import {
   Activity,
   CheckCircle2,
   Clock,
+  WifiOff,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { getDevices, getDeletedDevices,getAvgApiResponseTime } from "@/api/deviceApi";
 import { getAssetHierarchy } from "@/api/assetApi";
 import { useAuth } from "@/context/AuthContext";
-import { useNotifications } from "@/context/NotificationContext";
+import { useAlertAnalytics } from "@/hooks/use-alerts";
+import { useDeviceLiveness } from "@/hooks/use-device-liveness";
+import { LIVENESS_DOT, LIVENESS_LABELS, type Liveness } from "@/lib/liveness";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { formatDuration, formatInZone, startOfTodayIn } from "@/lib/time";
 
 // KPI Card Component
 const KPICard = ({ title, value, icon, trend, trendUp, status, borderColor }: any) => (
@@ -54,6 +59,7 @@ const StatBox = ({ label, value, icon, colorClass, borderColor }: any) => (
 );
 
 export default function Dashboard() {
+  const timeZone = useTimeZone();
   const [totalDevices, setTotalDevices] = useState(0);
   const [deletedDevices, setDeletedDevices] = useState(0);
   const [totalAssets, setTotalAssets] = useState(0);
@@ -61,10 +67,23 @@ export default function Dashboard() {
   const [plantCount, setPlantCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<any>(null);
-  const { unreadCount } = useNotifications();
-  const alertsToday = unreadCount;
+  // Today so far in the user's zone, against the same stretch of yesterday
+  const [todayWindow, yesterdayWindow] = useMemo(() => {
+    const start = startOfTodayIn(timeZone).getTime();
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+    return [
+      { fromUtc: new Date(start).toISOString(), toUtc: new Date(now).toISOString() },
+      { fromUtc: new Date(start - day).toISOString(), toUtc: new Date(now - day).toISOString() },
+    ];
+  }, [timeZone]);
+  const { analytics: alertsToday } = useAlertAnalytics(todayWindow);
+  const { analytics: alertsYesterday } = useAlertAnalytics(yesterdayWindow);
+  const alertsDelta = alertsToday && alertsYesterday ? alertsToday.total - alertsYesterday.total : null;
+  const topAlertSignal = alertsToday?.bySignal[0];
   const [avgResponse, setAvgResponse] = useState<number>(0);
   const { user,loading: authLoading } = useAuth();
+  const { devices: liveness, offlineCount } = useDeviceLiveness();
   const isAdmin = user?.role === "Admin";
   let navigate = useNavigate();
 
@@ -128,6 +147,13 @@ export default function Dashboard() {
   if (error) return <div className="text-center text-red-600">{error}</div>;
 
   const activeDevices = totalDevices ;
+
+  // Live from the device heartbeats, not from the paged device list
+  const livenessCounts = [...liveness.values()].reduce(
+    (acc, d) => ({ ...acc, [d.liveness]: acc[d.liveness] + 1 }),
+    { live: 0, stale: 0, offline: 0, unknown: 0 } as Record<Liveness, number>
+  );
+  const offlineDevices = [...liveness.values()].filter(d => d.liveness === "offline");
   const uptime = 99.8;
   const efficiency = 94.2;
 
@@ -157,9 +183,9 @@ export default function Dashboard() {
         </div>
         <div id="kpi-devices">
           {isAdmin ? (
-            <KPICard title="Active Devices" value={activeDevices} icon={<Cpu className="w-6 h-6" />} status={`${deletedDevices} offline`} borderColor="border-primary" />
+            <KPICard title="Active Devices" value={activeDevices} icon={<Cpu className="w-6 h-6" />} status={`${offlineCount} offline · ${deletedDevices} deleted`} borderColor="border-primary" />
           ) : (
-            <KPICard title="Active Devices" value={deletedDevices} icon={<Cpu className="w-6 h-6" />} borderColor="border-primary" />
+            <KPICard title="Active Devices" value={activeDevices} icon={<Cpu className="w-6 h-6" />} status={`${offlineCount} offline`} borderColor="border-primary" />
           )}
         </div>
         <div
@@ -169,7 +195,19 @@ export default function Dashboard() {
               lg:col-span-1
             "
           >
-          <KPICard title="Alerts Today" value={alertsToday} icon={<AlertTriangle className="w-6 h-6  text-red-500" />} trend="-3 from yesterday" trendUp={false} borderColor="border-red-400" />
+          <KPICard
+            title="Alerts Today"
+            value={alertsToday?.total ?? "-"}
+            icon={<AlertTriangle className="w-6 h-6  text-red-500" />}
+            trend={alertsDelta === null ? undefined : `${alertsDelta > 0 ? "+" : ""}${alertsDelta} vs. this time yesterday`}
+            trendUp={alertsDelta !== null && alertsDelta <= 0}
+            status={
+              topAlertSignal
+                ? `Most: ${topAlertSignal.assetName} / ${topAlertSignal.signalName} (${topAlertSignal.count}) · ${formatDuration(alertsToday?.totalOutOfLimitSeconds ?? 0)} out of limits`
+                : undefined
+            }
+            borderColor="border-red-400"
+          />
         </div>
       </div>
 
@@ -185,7 +223,7 @@ export default function Dashboard() {
           <StatBox label="Avg Response Time" value={`${avgResponse.toFixed(2)} ms`} icon={<Clock className="w-5 h-5 text-amber-500" />} colorClass="bg-amber-500/20" borderColor="border-amber-500" />
         </div>
         <div id="stat-critical">
-          <StatBox label="Critical Issues" value="0" icon={<AlertTriangle className="w-5 h-5 text-red-500" />} colorClass="bg-red-500/20" borderColor="border-red-500" />
+          <StatBox label="Devices Offline" value={offlineCount} icon={<WifiOff className="w-5 h-5 text-red-500" />} colorClass="bg-red-500/20" borderColor="border-red-500" />
         </div>
       </div>
 
@@ -193,7 +231,27 @@ export default function Dashboard() {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
         <div id="chart-device-status" className="bg-white/5 border border-primary rounded-xl p-4">
           <h3 className="font-semibold mb-3">Device Status</h3>
-          {/* Device status bars */}
+          <div className="grid grid-cols-4 gap-2 mb-3">
+            {(Object.keys(livenessCounts) as Liveness[]).map(state => (
+              <div key={state} className="flex items-center gap-2 text-sm">
+                <span className={`w-2 h-2 rounded-full ${LIVENESS_DOT[state]}`} />
+                <span className="text-muted-foreground">{LIVENESS_LABELS[state]}</span>
+                <span className="font-semibold">{livenessCounts[state]}</span>
+              </div>
+            ))}
+          </div>
+          {offlineDevices.length > 0 && (
+            <ul className="text-sm space-y-1">
+              {offlineDevices.map(d => (
+                <li key={d.deviceId} className="flex justify-between text-red-600">
+                  <span>{d.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {d.lastSeen ? `last seen ${formatInZone(d.lastSeen, "hh:mm:ss a", timeZone)}` : "never seen"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
         <div id="chart-performance" className="bg-white/5 border border-primary rounded-xl p-4">
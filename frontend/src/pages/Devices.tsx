@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Settings,
@@ -11,6 +11,7 @@ import {
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { getDevices, deleteDevice } from "@/api/deviceApi";
+import { toggleSelectedDevice, useSelectedDevices } from "@/hooks/selectedDevicesStorage";
 import {
   Dialog,
   DialogContent,
@@ -44,10 +45,6 @@ interface Device {
   };
 }
 
-type SelectedDevice = { deviceId: string; name: string };
-
-const SESSION_KEY = "selectedDeviceIds";
-
 export default function Devices() {
   const [devices, setDevices] = useState<Device[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
@@ -64,40 +61,8 @@ export default function Devices() {
   const { user } = useAuth(); 
 
 
-  function readSelectedDevices(): SelectedDevice[] {
-    try {
-      const raw = sessionStorage.getItem(SESSION_KEY);
-      if (!raw) return [];
-      const parsed = JSON.parse(raw);
-      if (!Array.isArray(parsed)) return [];
-      return parsed
-        .map((x) => {
-          if (x && typeof x === "object") {
-            const id = String((x as any).deviceId ?? (x as any).id ?? "");
-            const name = String((x as any).name ?? (x as any).displayName ?? "");
-            if (id) return { deviceId: id, name };
-          }
-          return null;
-        })
-        .filter((x): x is SelectedDevice => x !== null);
-    } catch {
-      return [];
-    }
-  }
-
-  const [sessionSelectedDevices, setSessionSelectedDevices] = useState<SelectedDevice[]>(
-    () => readSelectedDevices()
-  );
-
-  useEffect(() => {
-    function onStorage(e: StorageEvent) {
-      if (e.key === SESSION_KEY) {
-        setSessionSelectedDevices(readSelectedDevices());
-      }
-    }
-    window.addEventListener("storage", onStorage);
-    return () => window.removeEventListener("storage", onStorage);
-  }, []);
+  // Shared with the Signals page; updates live in this tab and others
+  const sessionSelectedDevices = useSelectedDevices();
 
   useEffect(() => {
     const handler = setTimeout(() => setDebouncedSearch(searchTerm), 500);
@@ -132,7 +97,7 @@ export default function Devices() {
       toast.success(`Device "${selectedDevice.name}" deleted successfully!`);
     } catch (err:any) {
       console.error("Error deleting device:", err);
-      toast.error( err?.response?.data?.error || "Failed to delete device. Please try again.");
+      toast.error(err?.message || "Failed to delete device. Please try again.");
     } finally {
       setOpenDialog(false);
       setSelectedDevice(null);
@@ -142,23 +107,6 @@ export default function Devices() {
   const pageNumbers = [];
   for (let i = 1; i <= totalPages; i++) pageNumbers.push(i);
 
-  const toggleSelectedDevice = useCallback((name: string, deviceId: string) => {
-    let current = readSelectedDevices();
-    const exists = current.some((sd) => sd.deviceId === deviceId);
-    if (exists) {
-      current = current.filter((sd) => sd.deviceId !== deviceId);
-    } else {
-      current = [...current, { deviceId, name }];
-    }
-    try {
-      sessionStorage.setItem(SESSION_KEY, JSON.stringify(current));
-    } catch (e) {
-      console.warn("Failed to write sessionStorage", e);
-    }
-    setSessionSelectedDevices(current);
-    return !exists;
-  }, []);
-
   function isDeviceSelected(deviceId: string) {
     return sessionSelectedDevices.some((sd) => sd.deviceId === deviceId);
   }
@@ -288,7 +236,7 @@ export default function Devices() {
                           variant={isSelected ? "destructive" : "outline"}
                           size="sm"
                           title={isSelected ? "Unsubscribe" : "Subscribe"}
-                          onClick={() => toggleSelectedDevice(d.name, d.deviceId)}
+                          onClick={() => toggleSelectedDevice(d.deviceId, d.name)}
                           className="flex items-center gap-1"
                         >
                           <View className="h-4 w-4" />
@@ -98,11 +98,7 @@ export default function Gateways() {
       const updated = await getGateways();
       setGateways(updated);
     } catch (err: any) {
-      toast.error(
-        err?.response?.data?.error ||
-        err?.response?.data ||
-        "Failed to add gateway"
-      );
+      toast.error(err?.message || "Failed to add gateway");
     } finally {
       setSaving(false);
     }
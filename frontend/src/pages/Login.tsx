@@ -58,10 +58,7 @@ const Login: React.FC = () => {
         setMode("login");
       }
     } catch (err: any) {
-      const msg =
-        err?.response?.data?.message ||
-        err?.response?.data?.data?.message ||
-        (err?.message ?? "Something went wrong. Please try again.");
+      const msg = err?.message ?? "Something went wrong. Please try again.";
       toast.error(msg);
       console.error("Auth Error:", err);
     } finally {
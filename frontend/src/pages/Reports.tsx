@@ -7,7 +7,9 @@ import { Popover, PopoverTrigger, PopoverContent } from "@/components/ui/popover
 import { Calendar } from "@/components/ui/calendar";
 import { format } from "date-fns";
 import { getAssetHierarchy, getAssetConfig, getSignalOnAsset,getRequestedReports,requestAssetReport,downloadAssetReport } from "@/api/assetApi";
-import { getDeviceById } from "@/api/deviceApi";
+import { getDevicesByIds } from "@/api/deviceApi";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { formatDateTime, timeZoneAbbreviation, zonedToUtc } from "@/lib/time";
 
 export default function Reports() {
   const [startDate, setStartDate] = useState("");
@@ -26,6 +28,7 @@ export default function Reports() {
   const [isLoadingReports, setIsLoadingReports] = useState(false);
   const dropdownRef = useRef(null);
   const signalDropdownRef = useRef(null);
+  const timeZone = useTimeZone();
 
   // Load all assets on mount
   useEffect(() => {
@@ -78,8 +81,8 @@ export default function Reports() {
         return;
       }
       const deviceId = mappings[0].deviceId;
-      const device = await getDeviceById(deviceId);
-      setAssignedDeviceName(device?.name || "None");
+      const devices = await getDevicesByIds([deviceId]);
+      setAssignedDeviceName(devices.get(deviceId)?.name || "None");
     } catch (err) {
       console.error("Failed to resolve device", err);
       setAssignedDeviceName("None");
@@ -116,8 +119,9 @@ export default function Reports() {
     return;
   }
 
-  const start = new Date(startDate);
-  const end = new Date(endDate);
+  // Picked days start at midnight in the user's zone
+  const start = zonedToUtc(startDate, timeZone);
+  const end = zonedToUtc(endDate, timeZone);
 
   if (end < start) {
     toast.error("End date cannot be earlier than start date");
@@ -173,18 +177,6 @@ export default function Reports() {
   }
 };
 
-const formatToIST = (utcDate) =>
-  new Date(utcDate + "Z").toLocaleString("en-IN", {
-    timeZone: "Asia/Kolkata",
-    year: "numeric",
-    month: "short",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-
   // Toggle signal selection
   const toggleSignalSelection = (signalId) => {
     setSelectedSignalIds((prev) => {
@@ -243,7 +235,7 @@ const formatToIST = (utcDate) =>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {/* START DATE */}
           <div>
-            <label className="block text-sm font-medium mb-2">Start Date</label>
+            <label className="block text-sm font-medium mb-2">Start Date ({timeZoneAbbreviation(timeZone)})</label>
             <Popover open={startDateOpen} onOpenChange={setStartDateOpen}>
               <PopoverTrigger asChild>
                 <Button variant="outline" className="report-start-date w-full justify-start">
@@ -269,7 +261,7 @@ const formatToIST = (utcDate) =>
 
           {/* END DATE */}
           <div>
-            <label className="block text-sm font-medium mb-2">End Date</label>
+            <label className="block text-sm font-medium mb-2">End Date ({timeZoneAbbreviation(timeZone)})</label>
             <Popover open={endDateOpen} onOpenChange={setEndDateOpen}>
               <PopoverTrigger asChild>
                 <Button variant="outline" className="report-end-date w-full justify-start">
@@ -465,7 +457,7 @@ const formatToIST = (utcDate) =>
                     <td className="hidden md:table-cell px-6 py-4 text-sm">{report.assetName}</td>
                     <td className="hidden md:table-cell px-6 py-4 text-sm">
                       {/* {new Date(report.requestedAt).toLocaleString()} */}
-                      {formatToIST(report.requestedAt)}
+                      {formatDateTime(report.requestedAt, timeZone)}
                     </td>
                     <td className="hidden md:table-cell px-6 py-4 text-sm">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadge(report.status)}`}>
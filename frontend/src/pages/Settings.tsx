@@ -1,11 +1,64 @@
+import { useMemo } from "react";
+import { toast } from "react-toastify";
+import { Clock } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { setTimeZonePreference, useTimeZonePreference } from "@/hooks/timeZoneStorage";
+import { BROWSER_TIME_ZONE, formatDateTime, listTimeZones, PLANT_TIME_ZONE, timeZoneAbbreviation } from "@/lib/time";
 
 export default function Settings() {
+  const preference = useTimeZonePreference();
+  const timeZones = useMemo(listTimeZones, []);
+  const effective = preference || PLANT_TIME_ZONE;
+
+  const changeTimeZone = (timeZone: string) => {
+    setTimeZonePreference(timeZone);
+    toast.success(timeZone ? `Times are now shown in ${timeZone}` : `Times now follow the plant (${PLANT_TIME_ZONE})`);
+  };
 
   return (
-  
-    <div className="flex flex-col items-center justify-center h-full w-full">
-      <h1>Settings</h1>
-      <p className="text-sm text-muted-foreground text-center mb-2">Under Development</p>
+    <div className="p-6 flex justify-center">
+      <Card className="w-full max-w-xl bg-card border border-border shadow-xl rounded-2xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <Clock className="h-5 w-5" />
+            Time Zone
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Alerts, reports, notifications and trends are shown in this zone, and the dates you pick are read in it.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="time-zone">Display time zone</Label>
+            <select
+              id="time-zone"
+              value={preference}
+              onChange={(e) => changeTimeZone(e.target.value)}
+              className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">Plant default ({PLANT_TIME_ZONE})</option>
+              {timeZones.map((tz) => (
+                <option key={tz} value={tz}>
+                  {tz}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="rounded-md border border-border p-3 text-sm space-y-1">
+            <p>
+              <span className="text-muted-foreground">Current time: </span>
+              <span className="font-semibold">
+                {formatDateTime(new Date(), effective)} ({timeZoneAbbreviation(effective)})
+              </span>
+            </p>
+            {effective !== BROWSER_TIME_ZONE && (
+              <p className="text-muted-foreground">This device is set to {BROWSER_TIME_ZONE}.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
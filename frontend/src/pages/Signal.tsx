@@ -1,949 +1,633 @@
-
-import React, { useEffect, useMemo, useState,useRef } from "react";
-import { useLocation } from "react-router-dom";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { toast } from "react-toastify";
+import { BarChart3, Check, ChevronLeft, ChevronRight, Link2, Pin, Plus, Ruler, Undo2, XCircle, ZoomOut } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
-import { getAssetHierarchy, getSignalOnAsset } from "@/api/assetApi";
-import { getDeviceById } from "@/api/deviceApi";
-import { getTelemetryData,getRawTelemetryData, TimeRange } from "@/api/telemetryApi";
-import type { Asset, SignalType } from "@/api/assetApi";
-import { getMappingById } from "@/api/assetApi";
 import { Button } from "@/components/ui/button";
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Calendar } from "@/components/ui/calendar";
-import { Calendar as CalendarIcon, Pin, XCircle } from "lucide-react";
-import { format } from "date-fns";
+import { getAssetHierarchy, getCachedSignalTypes, type Asset, type IMapping, type SignalType } from "@/api/assetApi";
+import { useAssetSignals, useTrendData } from "@/hooks/use-trend-data";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { formatInZone } from "@/lib/time";
+import { colorForString } from "@/lib/colors";
+import { effectiveThresholds } from "@/lib/thresholds";
 import {
-  LineChart,
-  Line,
-  CartesianGrid,
-  XAxis,
-  YAxis,
-  Tooltip,
-  ResponsiveContainer,
-  Legend,
-  ReferenceArea,
-  ReferenceLine,
-  Dot,
-} from "recharts";
-
+  referenceAt,
+  seriesKey,
+  TREND_RANGE_LABELS,
+  type ReferencePoint,
+  type TrendAssetSelection,
+  type TrendRange,
+  type TrendSeries,
+} from "@/lib/trend";
+import { decodeTrendView, encodeTrendView } from "@/lib/trendUrl";
+import { axisOfKey, groupAxes, type AxisSettings, type TrendLayout } from "@/lib/trendAxes";
+import type { MeasureCursors } from "@/lib/measure";
+import { ROLLING_WINDOWS, summarizeSeries } from "@/lib/seriesStats";
+import { DEFAULT_MAX_POINTS, RESOLUTION_OPTIONS } from "@/lib/downsample";
+import { TrendRangePicker } from "@/components/trend/TrendRangePicker";
+import { TrendAssetPanel } from "@/components/trend/TrendAssetPanel";
+import { TrendChart } from "@/components/trend/TrendChart";
+import { TrendAxesControls } from "@/components/trend/TrendAxesControls";
+import { ZoomBreadcrumb } from "@/components/trend/ZoomBreadcrumb";
+import { MeasurementTable } from "@/components/trend/MeasurementTable";
+import { SeriesStatsPanel, type SeriesStatsEntry } from "@/components/trend/SeriesStatsPanel";
+import { SavedViewsPanel } from "@/components/trend/SavedViewsPanel";
+import { TrendExportMenu } from "@/components/trend/TrendExportMenu";
+import type { ExportSeries } from "@/lib/trendExport";
+import {
+  defaultTrendViewFor,
+  findTrendView,
+  readTrendViews,
+  saveTrendView,
+  type SavedTrendView,
+} from "@/hooks/trendViewsStorage";
+import { newItemId } from "@/hooks/preferenceStorage";
+import { useFormulas, type SavedFormula } from "@/hooks/formulaStorage";
+import { FormulaPanel } from "@/components/trend/FormulaPanel";
+import { FormulaEditorDialog } from "@/components/trend/FormulaEditorDialog";
 
 /* ------------------------------ Helpers ------------------------------ */
-function mulberry32(a: number) {
-  return function () {
-    let t = (a += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
-
-function hashStringToInt(s: string) {
-  let h = 2166136261 >>> 0;
-  for (let i = 0; i < s.length; i++) {
-    h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+// Only equipment-level assets carry signals
+const flattenAssets = (assets: Asset[]): Asset[] => {
+  const out: Asset[] = [];
+  const stack = [...assets];
+  while (stack.length) {
+    const a = stack.shift()!;
+    if (a.level > 2) out.push(a);
+    if (a.childrens?.length) stack.unshift(...a.childrens);
   }
-  return h >>> 0;
-}
-
+  return out;
+};
 
-function colorForString(str: string) {
-  const seed = hashStringToInt(str);
-  const rnd = mulberry32(seed);
-  const r = Math.floor(rnd() * 200) + 20;
-  const g = Math.floor(rnd() * 200) + 20;
-  const b = Math.floor(rnd() * 200) + 20;
-  return `rgb(${r}, ${g}, ${b})`;
+const toSeries = (asset: Asset | undefined, signals: IMapping[], selected: string[]): TrendSeries[] =>
+  asset
+    ? signals
+        .filter(s => selected.includes(s.signalTypeId))
+        .map(s => ({
+          assetId: asset.assetId,
+          assetName: asset.name,
+          signalTypeId: s.signalTypeId,
+          signalName: s.signalName,
+          unit: s.signalUnit,
+        }))
+    : [];
+
+const NO_SERIES: TrendSeries[] = [];
+
+const NO_CURSORS: MeasureCursors = { a: null, b: null };
+
+const toggle = (list: string[], id: string) => (list.includes(id) ? list.filter(x => x !== id) : [...list, id]);
+
+// Opened from the asset tree with one asset, or with a group of siblings sharing a signal,
+// or from an asset page with one of the user's saved views
+interface TrendLocationState {
+  asset?: Asset | null;
+  assets?: Asset[];
+  signalTypeId?: string;
+  savedViewId?: string;
 }
 
+// An explicitly requested view, else the default the user starred for the asset handed over
+const initialSavedView = (state: TrendLocationState | null): SavedTrendView | null => {
+  const doc = readTrendViews();
+  return findTrendView(doc, state?.savedViewId) ?? (state?.assets?.length ? null : defaultTrendViewFor(doc, state?.asset?.assetId));
+};
 
-/* ---------------------------- Types & Component ---------------------------- */
-export default function Signals() {
-  const { state } = useLocation();
-  const passedAsset = (state as any)?.asset as Asset | undefined | null;
-  const [mainAsset, setMainAsset] = useState<Asset | null>(passedAsset ?? null);
-  const [deviceName, setDeviceName] = useState("Loading...");
-  const [allAssets, setAllAssets] = useState<Asset[]>([]);
-  const [compareAssetId, setCompareAssetId] = useState("");
-  const [mainSignals, setMainSignals] = useState<SignalType[]>([]);
-  const [compareSignals, setCompareSignals] = useState<SignalType[]>([]);
-  const [compareDeviceName, setCompareDeviceName] = useState("Loading...");
-  const [timeRange, setTimeRange] = useState<"24h" | "7d" | "today" | "custom">("today");
-  const [customStart, setCustomStart] = useState<Date | null>(null);
-  const [customEnd, setCustomEnd] = useState<Date | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [fullTelemetryData, setFullTelemetryData] = useState<any[]>([]);
-  const [displayedTelemetryData, setDisplayedTelemetryData] = useState<any[]>([]);
-  const [fetchingData, setFetchingData] = useState(false);
-  const [selectedSignals, setSelectedSignals] = useState<SignalType[]>([]);
-  const [compareSelectedSignals, setCompareSelectedSignals] = useState<SignalType[]>([]);
-  const [refAreaLeft, setRefAreaLeft] = useState<number | undefined>(undefined);
-  const [refAreaRight, setRefAreaRight] = useState<number | undefined>(undefined);
-  const [mainSignalDropdownOpen, setMainSignalDropdownOpen] = useState(false);
-  const [compareSignalDropdownOpen, setCompareSignalDropdownOpen] = useState(false);
-  const mainSignalDropdownRef = useRef<HTMLDivElement | null>(null);
-  const compareSignalDropdownRef = useRef<HTMLDivElement | null>(null);
-  const [isRawView, setIsRawView] = useState(false);
-  const [signalColors, setSignalColors] = useState<{ [key: string]: string }>({});
-
-
-
- 
-  // Reference Point States
-  const [referencePoint, setReferencePoint] = useState<{
-    time: number;
-    values: { [key: string]: number };
-  } | null>(null);
-  const [isSelectingReference, setIsSelectingReference] = useState(false);
+const parseIso = (v: string | null) => (v ? new Date(v) : null);
 
+const initialSelections = (state: TrendLocationState | null): TrendAssetSelection[] => {
+  if (state?.assets?.length) {
+    return state.assets.map(a => ({ assetId: a.assetId, signalTypeIds: state.signalTypeId ? [state.signalTypeId] : [] }));
+  }
+  return [{ assetId: state?.asset?.assetId ?? "", signalTypeIds: [] }];
+};
 
-  const flattenAssets = (assets: Asset[]): Asset[] => {
-    const out: Asset[] = [];
-    const stack = [...assets];
-    while (stack.length) {
-      const a = stack.shift()!;
-      if (a.level > 2) out.push(a);
-      if (a.childrens?.length) stack.unshift(...a.childrens);
-    }
-    return out;
-  };
+/* ---------------------------- Trend Workspace ---------------------------- */
+export default function Signal() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const navState = location.state as TrendLocationState | null;
+  const timeZone = useTimeZone();
 
+  // A shared link wins over the asset handed over by the tree
+  const [urlView] = useState(() => decodeTrendView(new URLSearchParams(location.search)));
+  const [savedView] = useState(() => (urlView ? null : initialSavedView(navState)));
 
-  /* ---------------- Load asset hierarchy ---------------- */
+  const [allAssets, setAllAssets] = useState<Asset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selections, setSelections] = useState<TrendAssetSelection[]>(
+    () => urlView?.selections ?? savedView?.selections ?? initialSelections(navState)
+  );
+  const [range, setRange] = useState<TrendRange>(urlView?.range ?? savedView?.range ?? "today");
+  const [customStart, setCustomStart] = useState<Date | null>(
+    urlView?.customStart ?? parseIso(savedView?.customStart ?? null)
+  );
+  const [customEnd, setCustomEnd] = useState<Date | null>(urlView?.customEnd ?? parseIso(savedView?.customEnd ?? null));
+  const [copied, setCopied] = useState(false);
+  const [activeViewId, setActiveViewId] = useState<string | null>(savedView?.id ?? null);
+  const [signalColors, setSignalColors] = useState<Record<string, string>>(savedView?.colors ?? {});
+  const [hiddenKeys, setHiddenKeys] = useState<Set<string>>(() => new Set(savedView?.hidden));
+  const [axisSettings, setAxisSettings] = useState<Record<string, AxisSettings>>(savedView?.axes ?? {});
+  const [layout, setLayout] = useState<TrendLayout>(savedView?.layout ?? "overlay");
+  const [maxPoints, setMaxPoints] = useState(DEFAULT_MAX_POINTS);
+  const [showBands, setShowBands] = useState(false);
+  const [rollingWindowMs, setRollingWindowMs] = useState(0);
+  const [signalTypes, setSignalTypes] = useState<Map<string, SignalType>>(new Map());
+  const [referencePoint, setReferencePoint] = useState<ReferencePoint | null>(null);
+  const [selectingReference, setSelectingReference] = useState(false);
+  const [measuring, setMeasuring] = useState(false);
+  const [cursors, setCursors] = useState<MeasureCursors>(NO_CURSORS);
+
+  /* ---------------- Load asset hierarchy & threshold defaults ---------------- */
   useEffect(() => {
-    const loadHierarchy = async () => {
-      setLoading(true);
-      try {
-        const hierarchy = await getAssetHierarchy();
-        setAllAssets(flattenAssets(hierarchy || []));
-      } catch (err) {
+    getAssetHierarchy()
+      .then(hierarchy => setAllAssets(flattenAssets(hierarchy || [])))
+      .catch(err => {
         console.error("Failed to load asset hierarchy", err);
         setAllAssets([]);
-      } finally {
-        setLoading(false);
-      }
-    };
-    loadHierarchy();
+      })
+      .finally(() => setLoading(false));
+
+    getCachedSignalTypes()
+      .then(types => setSignalTypes(new Map(types.map(t => [t.signalTypeID, t]))))
+      .catch(err => console.error("Failed to fetch signal types", err));
   }, []);
 
-useEffect(() => {
-  const handler = (e: MouseEvent) => {
-    if (
-      mainSignalDropdownRef.current &&
-      !mainSignalDropdownRef.current.contains(e.target as Node)
-    ) {
-      setMainSignalDropdownOpen(false);
-    }
+  // Assets handed over by the tree may sit above the equipment level
+  const assetById = useMemo(() => {
+    const passed = navState?.assets ?? (navState?.asset ? [navState.asset] : []);
+    return new Map([...passed, ...allAssets].map(a => [a.assetId, a]));
+  }, [navState, allAssets]);
 
-    if (
-      compareSignalDropdownRef.current &&
-      !compareSignalDropdownRef.current.contains(e.target as Node)
-    ) {
-      setCompareSignalDropdownOpen(false);
-    }
-  };
+  const assetSignals = useAssetSignals(selections.map(s => s.assetId));
 
-  document.addEventListener("mousedown", handler);
-  return () => document.removeEventListener("mousedown", handler);
-}, []);
+  const series = useMemo(
+    () =>
+      selections.flatMap(sel =>
+        toSeries(assetById.get(sel.assetId), assetSignals.get(sel.assetId)?.signals ?? [], sel.signalTypeIds)
+      ),
+    [selections, assetById, assetSignals]
+  );
 
+  /* ---------------- Formula series ---------------- */
+  const allFormulas = useFormulas();
+  const [editingFormula, setEditingFormula] = useState<SavedFormula | "new" | null>(null);
 
+  const assetFormulas = useMemo(
+    () => allFormulas.filter(f => selections.some(sel => sel.assetId === f.assetId)),
+    [allFormulas, selections]
+  );
 
-  /* ---------------- Load main asset signals & device ---------------- */
-  useEffect(() => {
-    const loadMainSignals = async () => {
-      if (!mainAsset) {
-        setDeviceName("Not Assigned");
-        setMainSignals([]);
-        return;
+  // A formula is drawn only when every input signal is plotted
+  const { activeFormulas, unavailableFormulas } = useMemo(() => {
+    const plotted = (assetId: string, signalTypeId: string) =>
+      series.some(s => s.assetId === assetId && s.signalTypeId === signalTypeId);
+    const unavailable = new Map<string, string>();
+    assetFormulas.forEach(f => {
+      const missing = Object.values(f.inputs).filter(i => !plotted(i.assetId, i.signalTypeId));
+      if (missing.length) {
+        const names = missing.map(i => signalTypes.get(i.signalTypeId)?.signalName ?? "an input signal");
+        unavailable.set(f.id, `Plot ${names.join(", ")} to draw this formula`);
       }
-      try {
-        const signalOnAsset = await getSignalOnAsset(mainAsset.assetId);
-        if (signalOnAsset?.length > 0) {
-          setMainSignals(signalOnAsset);
-          const deviceNames = await fetchDevicesForAsset(mainAsset.assetId);
-          setDeviceName(deviceNames.join(", "));
-        } else {
-          setMainSignals([]);
-          setDeviceName("Not Assigned");
-        }
-      } catch (err) {
-        console.error("Failed to fetch main asset signals", err);
-        setMainSignals([]);
-        setDeviceName("Error");
-      }
-    };
-    loadMainSignals();
-  }, [mainAsset]);
-
-
-  // reset signals for main when main asset changes
-  useEffect(() => {
-    setSelectedSignals([]);
-  }, [mainAsset]);
-
+    });
+    return { activeFormulas: assetFormulas.filter(f => !unavailable.has(f.id)), unavailableFormulas: unavailable };
+  }, [assetFormulas, series, signalTypes]);
+
+  // Hold the fetch until every selected asset has resolved, so a restored zoom applies to the full set
+  const ready = !loading && selections.every(sel => !sel.signalTypeIds.length || assetSignals.has(sel.assetId));
+
+  const {
+    data,
+    rows,
+    resolution,
+    loading: fetchingData,
+    isRawView,
+    zoomWindow,
+    zoomStack,
+    zoomTo,
+    zoomBack,
+    zoomToLevel,
+    zoomOut,
+    pan,
+    canPan,
+  } = useTrendData(
+    ready ? series : NO_SERIES,
+    range,
+    customStart,
+    customEnd,
+    { initialZoom: urlView?.zoom ?? null, maxPoints, formulas: activeFormulas, rollingWindowMs }
+  );
+  const keys = useMemo(() => data.map(d => d.key), [data]);
 
-  // reset signals for compare when compare asset changes
+  /* ---------------- Restore the shared reference point ---------------- */
+  const pendingReference = useRef(urlView?.referenceTime ?? null);
   useEffect(() => {
-    setCompareSelectedSignals([]);
-  }, [compareAssetId]);
-
+    const time = pendingReference.current;
+    if (time === null || fetchingData || !rows.length) return;
+    if (urlView?.zoom && !isRawView) return;
+    pendingReference.current = null;
+    setReferencePoint(referenceAt(rows, keys, time));
+  }, [rows, keys, fetchingData, isRawView, urlView]);
+
+  /* ---------------- Mirror the view into the URL ---------------- */
+  const search = encodeTrendView({
+    selections,
+    range,
+    customStart,
+    customEnd,
+    zoom: zoomWindow,
+    referenceTime: referencePoint?.time ?? null,
+  }).toString();
 
-  /* ---------------- Compare asset signals & device ---------------- */
   useEffect(() => {
-    const loadCompareSignals = async () => {
-      if (!compareAssetId) {
-        setCompareSignals([]);
-        setCompareDeviceName("Not Assigned");
-        return;
-      }
-      try {
-        const mappings = await getSignalOnAsset(compareAssetId);
-        setCompareSignals(mappings);
-        const deviceNames = await fetchDevicesForAsset(compareAssetId);
-        setCompareDeviceName(deviceNames.join(", "));
-      } catch (err) {
-        console.error("Failed to fetch compare asset signals", err);
-        setCompareSignals([]);
-        setCompareDeviceName("Error");
-      }
-    };
-    loadCompareSignals();
-  }, [compareAssetId]);
-
-  const toggleMainSignalSelection = (signal: SignalType) => {
-  setSelectedSignals(prev => {
-    const exists = prev.some(s => s.signalTypeId === signal.signalTypeId);
-    if (exists) {
-      return prev.filter(s => s.signalTypeId !== signal.signalTypeId);
-    }
-    return [...prev, signal];
-  });
-};
-
-const toggleCompareSignalSelection = (signal: SignalType) => {
-  setCompareSelectedSignals(prev => {
-    const exists = prev.some(s => s.signalTypeId === signal.signalTypeId);
-    return exists
-      ? prev.filter(s => s.signalTypeId !== signal.signalTypeId)
-      : [...prev, signal];
-  });
-};
-
+    if (search === location.search.replace(/^\?/, "")) return;
+    // Keep the router state so assets handed over by the tree stay resolvable
+    navigate({ search }, { replace: true, state: location.state });
+  }, [search, location.search, location.state, navigate]);
 
-
-
-  const fetchDevicesForAsset = async (assetId: string): Promise<string[]> => {
+  const copyLink = async () => {
     try {
-      const mappings = await getMappingById(assetId);
-      const uniqueDeviceIds = Array.from(new Set(mappings.map(m => m.deviceId).filter(Boolean)));
-      const deviceNames = await Promise.all(
-        uniqueDeviceIds.map(async (deviceId) => {
-          try {
-            const device = await getDeviceById(deviceId);
-            return device?.name ?? device?.data?.name ?? "Not Assigned";
-          } catch {
-            return "Unknown Device";
-          }
-        })
-      );
-      return deviceNames;
-    } catch (err) {
-      console.error(`Failed to fetch devices for asset ${assetId}`, err);
-      return ["Error"];
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      toast.success("Link to this view copied to clipboard");
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error("Failed to copy to clipboard");
     }
   };
 
+  // Limits per plotted series, resolved the same way as the alert pipeline
+  const seriesThresholds = useMemo(
+    () =>
+      series
+        .map(s => {
+          const mapping = assetSignals.get(s.assetId)?.signals.find(m => m.signalTypeId === s.signalTypeId);
+          return { key: seriesKey(s), thresholds: effectiveThresholds(mapping ?? {}, signalTypes.get(s.signalTypeId)) };
+        })
+        .filter(t => t.thresholds.min !== undefined || t.thresholds.max !== undefined),
+    [series, assetSignals, signalTypes]
+  );
 
-  /* ---------------- Fetch Telemetry Data (uses backend aggregated data) ---------------- */
-  useEffect(() => {
-    const fetchTelemetryData = async () => {
-      if (selectedSignals.length === 0 && compareSelectedSignals.length === 0) {
-        setFullTelemetryData([]);
-        setDisplayedTelemetryData([]);
-        return;
-      }
-      if (!mainAsset && !compareAssetId) {
-        setFullTelemetryData([]);
-        setDisplayedTelemetryData([]);
-        return;
-      }
-      setFetchingData(true);
-      try {
-        // Determine time range
-        let apiTimeRange: TimeRange;
-        let startDate: string | undefined;
-        let endDate: string | undefined;
-        if (timeRange === "24h") {
-          apiTimeRange = TimeRange.Last24Hours;
-        } else if (timeRange === "7d") {
-          apiTimeRange = TimeRange.Last7Days;
-        } else if (timeRange === "today") {
-          apiTimeRange = TimeRange.Custom;
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          startDate = today.toISOString();
-          endDate = new Date().toISOString();
-        } else if (timeRange === "custom") {
-          apiTimeRange = TimeRange.Custom;
-          startDate = customStart?.toISOString();
-          endDate = customEnd?.toISOString();
-        } else {
-          apiTimeRange = TimeRange.Last24Hours;
-        }
-
-
-        // Combine all selected signals from both assets
-        const allSignals = [...selectedSignals, ...compareSelectedSignals];
-        const dataPromises = allSignals.map(async (signal) => {
-          try {
-            const response = await getTelemetryData({
-              assetId: signal.assetId,
-              signalTypeId: signal.signalTypeId,
-              timeRange: apiTimeRange,
-              startDate,
-              endDate,
-            });
-            return {
-              ...response,
-              signalKey: `${signal.assetId}-${signal.signalName}`,
-              signalName: signal.signalName,
-              assetName: allAssets.find(a => a.assetId === signal.assetId)?.name || "Unknown",
-            };
-          } catch (error) {
-            console.error(`Failed to fetch data for signal ${signal.signalName}:`, error);
-            return null;
-          }
-        });
-
-
-        const results = await Promise.all(dataPromises);
-        const validResults = results.filter(r => r !== null);
-
-
-        // Transform data for recharts - NO aggregation, just use backend data as-is
-        if (validResults.length > 0) {
-          const timeMap = new Map<number, any>();
-          validResults.forEach((result: any) => {
-            result.values.forEach((point: any) => {
-              const timeKey = new Date(point.time).getTime();
-              if (!timeMap.has(timeKey)) {
-                timeMap.set(timeKey, { time: timeKey });
-              }
-              const dataPoint = timeMap.get(timeKey);
-              const key = `${result.assetName}-${result.signalName}`;
-              dataPoint[key] = point.value;
-            });
-          });
-          const chartData = Array.from(timeMap.values()).sort((a, b) => a.time - b.time);
-          setFullTelemetryData(chartData);
-          setDisplayedTelemetryData(chartData);
-        } else {
-          setFullTelemetryData([]);
-          setDisplayedTelemetryData([]);
-        }
-      } catch (error) {
-        console.error("Failed to fetch telemetry data:", error);
-        setFullTelemetryData([]);
-        setDisplayedTelemetryData([]);
-      } finally {
-        setFetchingData(false);
-      }
-    };
-    fetchTelemetryData();
-  }, [mainAsset, compareAssetId, timeRange, customStart, customEnd, allAssets, selectedSignals, compareSelectedSignals]);
-
-
-  /* ---------------- Chart Keys ---------------- */
-  const mainKeys = useMemo(() => {
-    if (!mainAsset) return [];
-    return selectedSignals.map(s => `${mainAsset.name}-${s.signalName}`);
-  }, [mainAsset, selectedSignals]);
-
-
-  const compareKeys = useMemo(() => {
-    if (!compareAssetId) return [];
-    const assetObj = allAssets.find(a => a.assetId === compareAssetId);
-    if (!assetObj) return [];
-    return compareSelectedSignals.map(s => `${assetObj.name}-${s.signalName}`);
-  }, [compareAssetId, compareSelectedSignals, allAssets]);
+  // Mapped unit first; the telemetry response fills in mappings saved without one
+  const axes = useMemo(
+    () => groupAxes(data.map(d => ({ key: d.key, unit: d.series.unit || d.response.unit || "" })), axisSettings),
+    [data, axisSettings]
+  );
 
+  // Every signal offered by at least one of the charted assets
+  const sharedSignalOptions = useMemo(() => {
+    const byType = new Map<string, string>();
+    selections.forEach(sel =>
+      assetSignals.get(sel.assetId)?.signals.forEach(m => byType.set(m.signalTypeId, m.signalName))
+    );
+    return Array.from(byType, ([signalTypeId, signalName]) => ({ signalTypeId, signalName }));
+  }, [selections, assetSignals]);
+
+  /* ---------------- Statistics ---------------- */
+  // Overlays share their source's colour and carry no statistics of their own
+  const overlaySource = useMemo(
+    () => new Map(data.filter(d => d.derivedFrom).map(d => [d.key, d.derivedFrom!])),
+    [data]
+  );
+  const dashedKeys = useMemo(() => new Set(overlaySource.keys()), [overlaySource]);
+
+  const statsEntries = useMemo<SeriesStatsEntry[]>(
+    () =>
+      data
+        .filter(d => !d.derivedFrom)
+        .flatMap(d => {
+          const summary = summarizeSeries(d.response.values, d.response.stats);
+          return summary ? [{ key: d.key, unit: d.series.unit || d.response.unit || "", summary }] : [];
+        }),
+    [data]
+  );
 
-  const allKeys = useMemo(() => [...mainKeys, ...compareKeys], [mainKeys, compareKeys]);
+  const bands = useMemo(
+    () =>
+      showBands ? statsEntries.map(({ key, summary }) => ({ key, mean: summary.mean, stdDev: summary.stdDev })) : [],
+    [showBands, statsEntries]
+  );
 
+  const statsWindowLabel = zoomWindow
+    ? `Zoomed window: ${formatInZone(zoomWindow.start, "MMM dd HH:mm:ss", timeZone)} – ${formatInZone(zoomWindow.end, "MMM dd HH:mm:ss", timeZone)}`
+    : TREND_RANGE_LABELS[range];
+
+  /* ---------------- Export ---------------- */
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  // Exactly what is on screen: hidden series are left out
+  const exportSeries = useMemo<ExportSeries[]>(
+    () =>
+      data
+        .filter(d => !hiddenKeys.has(d.key))
+        .map(d => ({
+          key: d.key,
+          assetName: d.series.assetName,
+          signalName: d.series.signalName,
+          unit: d.series.unit || d.response.unit || "",
+          values: d.response.values,
+        })),
+    [data, hiddenKeys]
+  );
 
-  /* ---------------- Reference Point Functions ---------------- */
-  const handleChartClick = (e: any) => {
-    if (!isSelectingReference || !e || !e.activeLabel) return;
-   
-    const clickedTime = e.activeLabel;
-    const dataPoint = displayedTelemetryData.find(d => d.time === clickedTime);
-   
-    if (dataPoint) {
-      const values: { [key: string]: number } = {};
-      allKeys.forEach(key => {
-        if (dataPoint[key] != null) {
-          values[key] = dataPoint[key];
-        }
-      });
-     
-      setReferencePoint({
-        time: clickedTime,
-        values,
-      });
-      setIsSelectingReference(false);
-    }
+  const colorOf = (key: string): string => {
+    const source = overlaySource.get(key);
+    return signalColors[key] ?? (source ? colorOf(source) : colorForString(key));
   };
+  const setColor = (key: string, color: string) => setSignalColors(prev => ({ ...prev, [key]: color }));
 
+  const toggleSeries = (key: string) =>
+    setHiddenKeys(prev => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
 
-  const clearReferencePoint = () => {
-    setReferencePoint(null);
-    setIsSelectingReference(false);
+  const updateSelection = (index: number, patch: Partial<TrendAssetSelection>) =>
+    setSelections(prev => prev.map((sel, i) => (i === index ? { ...sel, ...patch } : sel)));
+
+  const addAsset = () => setSelections(prev => [...prev, { assetId: "", signalTypeIds: [] }]);
+
+  const removeAsset = (index: number) => setSelections(prev => prev.filter((_, i) => i !== index));
+
+  const plotSignalOnAll = (signalTypeId: string) =>
+    setSelections(prev => prev.map(sel => ({ ...sel, signalTypeIds: [signalTypeId] })));
+
+  /* ---------------- Saved views ---------------- */
+  const assetName = (assetId: string) => assetById.get(assetId)?.name ?? "Unknown asset";
+
+  const saveView = (name: string, overwriteId: string | null) => {
+    const id = overwriteId ?? newItemId();
+    saveTrendView({
+      id,
+      name,
+      selections: selections.filter(s => s.assetId),
+      range,
+      customStart: customStart?.toISOString() ?? null,
+      customEnd: customEnd?.toISOString() ?? null,
+      colors: signalColors,
+      hidden: Array.from(hiddenKeys),
+      axes: axisSettings,
+      layout,
+      savedAt: new Date().toISOString(),
+    });
+    setActiveViewId(id);
+    toast.success(overwriteId ? `Updated view "${name}"` : `Saved view "${name}"`);
   };
 
-
-  const startSelectingReference = () => {
-    setIsSelectingReference(true);
+  const applyView = (view: SavedTrendView) => {
+    setSelections(view.selections.length ? view.selections : [{ assetId: "", signalTypeIds: [] }]);
+    setRange(view.range);
+    setCustomStart(parseIso(view.customStart));
+    setCustomEnd(parseIso(view.customEnd));
+    setSignalColors(view.colors);
+    setHiddenKeys(new Set(view.hidden));
+    setAxisSettings(view.axes);
+    setLayout(view.layout);
+    setActiveViewId(view.id);
+    setReferencePoint(null);
+    setSelectingReference(false);
+    zoomOut();
   };
 
-
-  /* ---------------- Zoom Functionality ---------------- */
-  const zoom = async () => {
-  if (isSelectingReference) return;
-
-  let left = refAreaLeft;
-  let right = refAreaRight;
-
-  if (!left || !right || left === right) {
-    setRefAreaLeft(undefined);
-    setRefAreaRight(undefined);
-    return;
-  }
-
-  if (left > right) [left, right] = [right, left];
-
-  setFetchingData(true);
-
-  try {
-    const startDate = new Date(left).toISOString();
-    const endDate = new Date(right).toISOString();
-
-    const allSignals = [...selectedSignals, ...compareSelectedSignals];
-
-    const rawPromises = allSignals.map(signal =>
-      getRawTelemetryData({
-        assetId: signal.assetId,
-        signalTypeId: signal.signalTypeId,
-        timeRange: TimeRange.Custom, // MUST be Custom
-        startDate,
-        endDate,
-      }).then(response => ({
-        ...response,
-        signalName: signal.signalName,
-        assetName:
-          allAssets.find(a => a.assetId === signal.assetId)?.name || "Unknown",
-      }))
-    );
-
-    const results = await Promise.all(rawPromises);
-
-    // Merge raw results into recharts format
-    const timeMap = new Map<number, any>();
-
-    results.forEach(result => {
-      result.values.forEach(point => {
-        const t = new Date(point.time).getTime();
-        if (!timeMap.has(t)) {
-          timeMap.set(t, { time: t });
-        }
-        const row = timeMap.get(t);
-        const key = `${result.assetName}-${result.signalName}`;
-        row[key] = point.value;
-      });
-    });
-
-    const rawChartData = Array.from(timeMap.values()).sort(
-      (a, b) => a.time - b.time
-    );
-
-    setDisplayedTelemetryData(rawChartData);
-    setIsRawView(true);
-  } catch (err) {
-    console.error("Failed to fetch RAW telemetry:", err);
-  } finally {
-    setFetchingData(false);
-    setRefAreaLeft(undefined);
-    setRefAreaRight(undefined);
-  }
-};
-
-const zoomOut = () => {
-  setDisplayedTelemetryData(fullTelemetryData);
-  setIsRawView(false);
-};
-
-
-
-  // /* ---------------- Signal Selection Handlers ---------------- */
-  // const handleMainSignalChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-  //   const selectedOptions = Array.from(e.target.selectedOptions);
-  //   const selectedIds = selectedOptions.map(opt => opt.value);
-  //   const selected = mainSignals.filter(s => selectedIds.includes(s.signalTypeId));
-  //   setSelectedSignals(selected);
-  // };
-
-
-  // const handleCompareSignalChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-  //   const selectedOptions = Array.from(e.target.selectedOptions);
-  //   const selectedIds = selectedOptions.map(opt => opt.value);
-  //   const selected = compareSignals.filter(s => selectedIds.includes(s.signalTypeId));
-  //   setCompareSelectedSignals(selected);
-  // };
-
-
-  /* ---------------- Custom Tooltip Component ---------------- */
-  const CustomTooltip = ({ active, payload, label }: any) => {
-    if (!active || !payload || payload.length === 0) return null;
-
-
-    return (
-      <div className="rounded-lg border border-border bg-card p-4 text-card-foreground shadow-lg">
-        <p className="font-semibold mb-2">{format(new Date(label), "MMM dd HH:mm:ss")}</p>
-       
-        {payload.map((entry: any, index: number) => {
-          const currentValue = entry.value;
-          const signalName = entry.name;
-         
-          let refValue = null;
-          let difference = null;
-          let percentChange = null;
-         
-          if (referencePoint && referencePoint.values) {
-            refValue = referencePoint.values[signalName];
-            if (refValue != null && currentValue != null) {
-              difference = currentValue - refValue;
-              percentChange = ((difference / refValue) * 100).toFixed(2);
-            }
-          }
-
-
-          return (
-            <div key={index} className="mb-2 pb-2 border-b last:border-b-0">
-              <div className="flex items-center gap-2">
-                <div
-                  className="w-3 h-3 rounded-full"
-                  style={{ backgroundColor: entry.color }}
-                />
-                <span className="font-medium">{signalName}</span>
-              </div>
-             
-              <div className="ml-5 mt-1 space-y-1 text-sm">
-                <div>
-                  <span className="text-muted-foreground">Current:</span>
-                  <span className="font-semibold">{currentValue?.toFixed(2)}</span>
-                </div>
-               
-                {refValue != null && (
-                  <>
-                    <div>
-                      <span className="text-muted-foreground">Reference: </span>
-                      <span className="font-semibold">{refValue.toFixed(2)}</span>
-                    </div>
-                    <div>
-                      <span className="text-muted-foreground">Difference: </span>
-                      <span
-                        className={`font-semibold ${
-                          difference > 0 ? "text-green-600" : difference < 0 ? "text-red-600" : ""
-                        }`}
-                      >
-                        {difference > 0 ? "+" : ""}
-                        {difference?.toFixed(2)}
-                      </span>
-                    </div>
-                    <div>
-                      <span className="text-muted-foreground">Change: </span>
-                      <span
-                        className={`font-semibold ${
-                          parseFloat(percentChange) > 0
-                            ? "text-green-600"
-                            : parseFloat(percentChange) < 0
-                            ? "text-red-600"
-                            : ""
-                        }`}
-                      >
-                        {parseFloat(percentChange) > 0 ? "+" : ""}
-                        {percentChange}%
-                      </span>
-                    </div>
-                  </>
-                )}
-              </div>
-            </div>
-          );
-        })}
-       
-        {referencePoint && (
-          <p className="mt-2 border-t pt-2 text-xs text-muted-foreground">
-            Reference Point: {format(new Date(referencePoint.time), "MMM dd HH:mm:ss")}
-          </p>
-        )}
-      </div>
-    );
+  const toggleMeasuring = () => {
+    setSelectingReference(false);
+    setMeasuring(prev => !prev);
   };
 
-
-  /* ---------------- Custom Reference Dot Component ---------------- */
-  const ReferencePointDot = (props: any) => {
-    const { cx, cy } = props;
-    return (
-      <g>
-        <circle cx={cx} cy={cy} r={8} fill="#ff6b6b" stroke="#fff" strokeWidth={2} />
-        <circle cx={cx} cy={cy} r={3} fill="#fff" />
-      </g>
-    );
+  const clearReferencePoint = () => {
+    setReferencePoint(null);
+    setSelectingReference(false);
   };
 
-
-  /* ---------------------- Small Shadcn Single Date Picker ---------------------- */
-  const today = new Date();
-  function SingleDatePicker({
-    value,
-    onChange,
-    placeholder,
-    disabled = (date: Date) => date > today,
-  }: {
-    value: Date | null;
-    onChange: (d: Date | null) => void;
-    placeholder?: string;
-    disabled?: (date: Date) => boolean;
-  }) {
-    return (
-      <Popover>
-        <PopoverTrigger asChild>
-          <Button variant="outline">
-            <CalendarIcon className="mr-2 h-4 w-4" />
-            {value ? format(value, "PPP") : placeholder ?? "Pick date"}
-          </Button>
-        </PopoverTrigger>
-        <PopoverContent className="w-auto p-0">
-          <Calendar mode="single" selected={value} onSelect={onChange} disabled={disabled} initialFocus />
-        </PopoverContent>
-      </Popover>
-    );
-  }
-
-
   /* ---------------------------- JSX ---------------------------- */
   return (
     <div className="p-4 container space-y-6 bg-background text-foreground">
-      {/* PAGE TITLE */}
-      <h1 className="text-2xl font-bold">Signal Analysis</h1>
-
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="tour-signal-title text-2xl font-bold">Signal Analysis</h1>
+        <div className="flex items-center gap-2">
+          <SavedViewsPanel
+            activeViewId={activeViewId}
+            primaryAssetId={selections[0]?.assetId ?? ""}
+            assetName={assetName}
+            onSave={saveView}
+            onOpen={applyView}
+          />
+          <Button variant="outline" onClick={copyLink} className="flex items-center gap-2">
+            {copied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+            {copied ? "Copied" : "Copy Link"}
+          </Button>
+        </div>
+      </div>
 
-      {/* TIME RANGE SECTION */}
-      <Card className="tour-time-range">
-        <CardHeader>
-          <CardTitle>Time Range</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
+      <TrendRangePicker
+        range={range}
+        onRangeChange={setRange}
+        customStart={customStart}
+        customEnd={customEnd}
+        onCustomStartChange={setCustomStart}
+        onCustomEndChange={setCustomEnd}
+      />
+
+      {/* ASSETS ON THE CHART */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="outline" onClick={addAsset} className="flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          Add Asset
+        </Button>
+        {selections.length > 1 && sharedSignalOptions.length > 0 && (
           <select
-            value={timeRange}
-            onChange={e => setTimeRange(e.target.value as any)}
-            className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            value=""
+            onChange={e => e.target.value && plotSignalOnAll(e.target.value)}
+            className="rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
           >
-            <option value="24h">Last 24 Hours</option>
-            <option value="7d">Last 7 Days</option>
-            <option value="today">Today</option>
-            <option value="custom">Custom Range</option>
+            <option value="">Same signal on all assets...</option>
+            {sharedSignalOptions.map(o => (
+              <option key={o.signalTypeId} value={o.signalTypeId}>
+                {o.signalName}
+              </option>
+            ))}
           </select>
-          {timeRange === "custom" && (
-            <div className="flex flex-col gap-2 md:flex-row md:items-center md:gap-2">
-              {/* Start Date */}
-              <SingleDatePicker
-                value={customStart}
-                onChange={setCustomStart}
-                placeholder="Start Date"
-                disabled={date => date > new Date()}
-              />
-              <span>to</span>
-              {/* End Date */}
-              <SingleDatePicker
-                value={customEnd}
-                onChange={setCustomEnd}
-                placeholder="End Date"
-                disabled={date => (customStart ? date < customStart : false) || date > new Date()}
-              />
-            </div>
-          )}
-        </CardContent>
-      </Card>
-
+        )}
+      </div>
 
-      {/* 2 CARDS: MAIN + COMPARE */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {/* MAIN ASSET CARD */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Selected Asset</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {/* Asset Dropdown */}
-            <div>
-              <label className="block mb-2 font-semibold">Select Asset:</label>
-              <select
-                value={mainAsset?.assetId ?? ""}
-                onChange={e =>
-                  setMainAsset(allAssets.find(a => a.assetId === e.target.value) ?? null)
-                }
-               className="tour-main-asset-dropdown w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
-              >
-                <option value="">--Select Asset--</option>
-                {allAssets.map(a => (
-                  <option key={a.assetId} value={a.assetId}>
-                    {a.name} (Level {a.level})
-                  </option>
-                ))}
-              </select>
-            </div>
-
-
-            {/* Signal Selection - Multiple Select */}
-              <div ref={mainSignalDropdownRef} className="relative">
-                  <label className="block mb-2 font-semibold">
-                    Signals ({selectedSignals.length} selected)
-                  </label>
-
-                  <Button
-                    variant="outline"
-                    className="w-full justify-between"
-                    onClick={() => setMainSignalDropdownOpen(o => !o)}
-                    disabled={!mainSignals.length}
-                  >
-                    {selectedSignals.length === 0
-                      ? "Select signals"
-                      : `${selectedSignals.length} signal(s) selected`}
-                  </Button>
-
-                  {mainSignalDropdownOpen && (
-                    <div className="absolute z-50 mt-1 w-full max-h-60 overflow-y-auto rounded-lg border bg-white dark:bg-gray-800 shadow-lg">
-                      {mainSignals.length === 0 ? (
-                        <p className="p-3 text-sm text-muted-foreground">
-                          No signals available
-                        </p>
-                      ) : (
-                        mainSignals.map(signal => (
-                          <div
-                            key={signal.signalTypeId}
-                            className="flex items-center gap-2 p-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700"
-                            onClick={() => toggleMainSignalSelection(signal)}
-                          >
-                            <input
-                              type="checkbox"
-                              checked={selectedSignals.some(
-                                s => s.signalTypeId === signal.signalTypeId
-                              )}
-                              readOnly
-                              className="w-4 h-4"
-                            />
-                            <span>{signal.signalName}</span>
-                          </div>
-                        ))
-                      )}
-                    </div>
-                  )}
-
-                  {selectedSignals.length > 0 && (
-  <div className="mt-2 space-y-1">
-    {selectedSignals.map(signal => {
-      const key = `${mainAsset?.name}-${signal.signalName}`;
-      return (
-        <div key={signal.signalTypeId} className="flex items-center gap-2">
-          <span className="flex-1">{signal.signalName}</span>
-          <input
-            type="color"
-            value={signalColors[key] ?? colorForString(key)}
-            onChange={e =>
-              setSignalColors(prev => ({ ...prev, [key]: e.target.value }))
-            }
-            className="w-8 h-8 p-0 border-0 rounded"
-          />
-        </div>
-      );
-    })}
-  </div>
-)}
-
-                </div>
-
-
-
-            {/* Device */}
-            <div>
-              <label className="tour-main-device block mb-2 font-semibold">Assigned Device:</label>
-              <p className="text-foreground">{deviceName ? deviceName.split(",").map((d, idx) => <span key={idx}>{d}</span>) : "Not Assigned"}</p>
-            </div>
-          </CardContent>
-        </Card>
-
-
-        {/* COMPARE ASSET CARD */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Compare Asset</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <label className="block mb-2 font-semibold">Select Asset:</label>
-              {loading ? (
-                <p>Loading...</p>
-              ) : (
-                <select
-                  value={compareAssetId}
-                  onChange={e => setCompareAssetId(e.target.value)}
-                  disabled={!mainAsset}
-                  className="tour-compare-dropdown w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
-                >
-                  <option value="">None</option>
-                  {allAssets
-                    .filter(a => a.assetId !== mainAsset?.assetId)
-                    .map(a => (
-                      <option key={a.assetId} value={a.assetId}>
-                        {a.name} (Level {a.level})
-                      </option>
-                    ))}
-                </select>
-              )}
-            </div>
-
-
-            {compareAssetId && (
-              <>
-                {/* Compare Signal Selection - Multiple Select */}
-               <div ref={compareSignalDropdownRef} className="relative">
-                <label className="block mb-2 font-semibold">
-                  Signals ({compareSelectedSignals.length} selected)
-                </label>
-
-                <Button
-                  variant="outline"
-                  className="w-full justify-between"
-                  onClick={() => setCompareSignalDropdownOpen(o => !o)}
-                  disabled={!compareSignals.length}
-                >
-                  {compareSelectedSignals.length === 0
-                    ? "Select signals"
-                    : `${compareSelectedSignals.length} signal(s) selected`}
-                </Button>
-
-                {compareSignalDropdownOpen && (
-                  <div className="absolute z-50 mt-1 w-full max-h-60 overflow-y-auto rounded-lg border bg-white dark:bg-gray-800 shadow-lg">
-                    {compareSignals.map(signal => (
-                      <div
-                        key={signal.signalTypeId}
-                        className="flex items-center gap-2 p-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700"
-                        onClick={() => toggleCompareSignalSelection(signal)}
-                      >
-                        <input
-                          type="checkbox"
-                          checked={compareSelectedSignals.some(
-                            s => s.signalTypeId === signal.signalTypeId
-                          )}
-                          readOnly
-                          className="w-4 h-4"
-                        />
-                        <span>{signal.signalName}</span>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
-              {compareSelectedSignals.length > 0 && (
-  <div className="mt-2 space-y-1">
-    {compareSelectedSignals.map(signal => {
-      const assetObj = allAssets.find(a => a.assetId === compareAssetId);
-      const key = `${assetObj?.name}-${signal.signalName}`;
-      return (
-        <div key={signal.signalTypeId} className="flex items-center gap-2">
-          <span className="flex-1">{signal.signalName}</span>
-          <input
-            type="color"
-            value={signalColors[key] ?? colorForString(key)}
-            onChange={e =>
-              setSignalColors(prev => ({ ...prev, [key]: e.target.value }))
-            }
-            className="w-8 h-8 p-0 border-0 rounded"
-          />
-        </div>
-      );
-    })}
-  </div>
-)}
-
-
-
-
-                {/* Device */}
-                <div>
-                  <label className="block mb-2 font-semibold">Assigned Device:</label>
-                  <p className="text-foreground">
-                    {compareDeviceName
-                      ? compareDeviceName.split(",").map((d, idx) => <span key={idx}>{d}</span>)
-                      : "Not Assigned"}
-                  </p>
-                </div>
-              </>
-            )}
-          </CardContent>
-        </Card>
+        {selections.map((sel, index) => {
+          const taken = new Set(selections.filter((_, i) => i !== index).map(s => s.assetId));
+          const signalsOf = assetSignals.get(sel.assetId);
+          return (
+            <TrendAssetPanel
+              key={index}
+              title={index === 0 ? "Selected Asset" : `Compare Asset ${index}`}
+              tourId={index === 0 ? "main" : index === 1 ? "compare" : undefined}
+              assets={allAssets.filter(a => !taken.has(a.assetId))}
+              assetId={sel.assetId}
+              onAssetChange={assetId => updateSelection(index, { assetId, signalTypeIds: [] })}
+              onRemove={selections.length > 1 ? () => removeAsset(index) : undefined}
+              loading={loading}
+              signals={signalsOf?.signals ?? []}
+              selected={sel.signalTypeIds}
+              onToggleSignal={id => updateSelection(index, { signalTypeIds: toggle(sel.signalTypeIds, id) })}
+              colorOf={colorOf}
+              onColorChange={setColor}
+              deviceNames={signalsOf?.deviceNames ?? []}
+            />
+          );
+        })}
       </div>
 
+      <FormulaPanel
+        formulas={assetFormulas}
+        unavailable={unavailableFormulas}
+        assetName={assetName}
+        canCreate={series.length > 0}
+        onCreate={() => setEditingFormula("new")}
+        onEdit={setEditingFormula}
+      />
 
       {/* GRAPH CARD */}
       <Card className="tour-graph-card">
         <CardHeader>
-          <CardTitle>Signals Graph</CardTitle>
-          {fetchingData && <p className="text-sm text-gray-500">Loading data...</p>}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <CardTitle>Signals Graph</CardTitle>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                Resolution
+                <select
+                  value={maxPoints}
+                  onChange={e => setMaxPoints(Number(e.target.value))}
+                  className="rounded-md border border-border bg-background px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {RESOLUTION_OPTIONS.map(n => (
+                    <option key={n} value={n}>
+                      {n ? `${n.toLocaleString()} pts / series` : "All points"}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <TrendExportMenu
+                series={exportSeries}
+                chartRef={chartRef}
+                legend={exportSeries.map(s => ({ label: s.key, color: colorOf(s.key), dashed: dashedKeys.has(s.key) }))}
+                title={`Signals Graph · ${statsWindowLabel}`}
+                info={{ window: statsWindowLabel, samples: isRawView ? "Raw" : "Aggregated" }}
+                disabled={fetchingData || exportSeries.length === 0}
+              />
+            </div>
+          </div>
+          {resolution.rawPoints > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {isRawView ? "Raw samples for the zoomed window" : "Aggregated samples"}
+              {" · "}
+              {resolution.renderedPoints < resolution.rawPoints
+                ? `plotting ${resolution.renderedPoints.toLocaleString()} of ${resolution.rawPoints.toLocaleString()} points (LTTB, min/max kept)`
+                : `plotting all ${resolution.rawPoints.toLocaleString()} points`}
+            </p>
+          )}
         </CardHeader>
         <CardContent className="bg-card text-card-foreground">
           {fetchingData ? (
             <div className="flex justify-center items-center h-96">
               <p className="text-lg">Loading telemetry data...</p>
             </div>
-          ) : fullTelemetryData.length === 0 ? (
+          ) : rows.length === 0 && !isRawView ? (
             <div className="flex h-96 items-center justify-center rounded-lg border border-border bg-card">
-                <p className="text-lg text-muted-foreground">
-                No data available. Please select an asset and signals.</p>
+              <p className="text-lg text-muted-foreground">No data available. Please select an asset and signals.</p>
             </div>
           ) : (
             <>
               <div className="mb-4 space-y-3">
                 <div className="flex flex-wrap gap-3">
-                  <Button onClick={zoomOut}>Zoom Out</Button>
+                  <Button onClick={zoomBack} disabled={!isRawView} variant="outline" className="flex items-center gap-2">
+                    <Undo2 className="w-4 h-4" />
+                    Step Back
+                  </Button>
+                  <Button onClick={zoomOut} disabled={!isRawView} variant="outline" className="flex items-center gap-2">
+                    <ZoomOut className="w-4 h-4" />
+                    Full Range
+                  </Button>
+                  <div className="flex">
+                    <Button
+                      onClick={() => pan(-1)}
+                      disabled={!canPan.left}
+                      variant="outline"
+                      className="rounded-r-none"
+                      title="Pan left by half a window"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => pan(1)}
+                      disabled={!canPan.right}
+                      variant="outline"
+                      className="rounded-l-none border-l-0"
+                      title="Pan right by half a window"
+                    >
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
                   <Button
-                    onClick={startSelectingReference}
-                    disabled={isSelectingReference}
-                    variant={isSelectingReference ? "default" : "outline"}
+                    onClick={() => {
+                      setMeasuring(false);
+                      setSelectingReference(true);
+                    }}
+                    disabled={selectingReference}
+                    variant={selectingReference ? "default" : "outline"}
                     className="flex items-center gap-2"
                   >
                     <Pin className="w-4 h-4" />
-                    {isSelectingReference ? "Click on chart to set..." : "Set Reference Point"}
+                    {selectingReference ? "Click on chart to set..." : "Set Reference Point"}
+                  </Button>
+                  <Button
+                    onClick={toggleMeasuring}
+                    variant={measuring ? "default" : "outline"}
+                    className="flex items-center gap-2"
+                  >
+                    <Ruler className="w-4 h-4" />
+                    {measuring ? "Done Measuring" : "Measure"}
+                  </Button>
+                  <Button
+                    onClick={() => setShowBands(prev => !prev)}
+                    variant={showBands ? "default" : "outline"}
+                    className="flex items-center gap-2"
+                    title="Mean line and ±1σ band per series"
+                  >
+                    <BarChart3 className="w-4 h-4" />
+                    Mean ± σ
                   </Button>
+                  <select
+                    value={rollingWindowMs}
+                    onChange={e => setRollingWindowMs(Number(e.target.value))}
+                    className="rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value={0}>No rolling average</option>
+                    {ROLLING_WINDOWS.map(w => (
+                      <option key={w.ms} value={w.ms}>
+                        Rolling average {w.label}
+                      </option>
+                    ))}
+                  </select>
+                  {measuring && (cursors.a !== null || cursors.b !== null) && (
+                    <Button onClick={() => setCursors(NO_CURSORS)} variant="ghost">
+                      Clear Cursors
+                    </Button>
+                  )}
                   {referencePoint && (
-                    <Button
-                      onClick={clearReferencePoint}
-                      variant="destructive"
-                      className="flex items-center gap-2"
-                    >
+                    <Button onClick={clearReferencePoint} variant="destructive" className="flex items-center gap-2">
                       <XCircle className="w-4 h-4" />
                       Clear Reference Point
                     </Button>
                   )}
                 </div>
-               
+
+                {isRawView && (
+                  <ZoomBreadcrumb rangeLabel={TREND_RANGE_LABELS[range]} levels={zoomStack} onSelect={zoomToLevel} />
+                )}
+
                 {referencePoint && (
                   <div className="rounded-md border border-primary/30 bg-primary/10 p-3">
                     <p className="font-semibold text-sm">
-                      Reference Point: {format(new Date(referencePoint.time), "MMM dd HH:mm:ss")}
+                      Reference Point: {formatInZone(referencePoint.time, "MMM dd HH:mm:ss", timeZone)}
                     </p>
                     <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
                       {Object.entries(referencePoint.values).map(([key, value]) => (
@@ -955,87 +639,73 @@ const zoomOut = () => {
                     </div>
                   </div>
                 )}
-               
-                {isSelectingReference && (
-                  <div className="rounded-md border border-primary/30 bg-primary/10 text-primary">
-                    <p className="text-sm font-semibold text-green-800">
-                      🎯 Click on any point in the chart below to set as reference
-                    </p>
-                  </div>
-                )}
-               
+
+                <TrendAxesControls
+                  axes={axes}
+                  settings={axisSettings}
+                  onSettingsChange={(unit, settings) => setAxisSettings(prev => ({ ...prev, [unit]: settings }))}
+                  layout={layout}
+                  onLayoutChange={setLayout}
+                />
+
                 <p className="text-sm text-muted-foreground">
-                  {isSelectingReference
+                  {selectingReference
                     ? "Click on the chart to set reference point"
-                    : "Drag on chart to zoom into a time range"}
+                    : measuring
+                    ? "Click to place cursors A and B; drag a cursor to move it."
+                    : "Drag on chart to zoom into a time range; drag again to drill further. Click a legend entry to hide or show that series."}
                 </p>
               </div>
-              <ResponsiveContainer width="100%" height={400}>
-                <LineChart
-                  data={displayedTelemetryData}
-                  onClick={handleChartClick}
-                  onMouseDown={e => !isSelectingReference && e && setRefAreaLeft(e.activeLabel as number)}
-                  onMouseMove={e => !isSelectingReference && refAreaLeft && e && setRefAreaRight(e.activeLabel as number)}
-                  onMouseUp={() => !isSelectingReference && zoom()}
-                  style={{ cursor: isSelectingReference ? "crosshair" : "default" }}
-                >
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis
-                    dataKey="time"
-                    tickFormatter={tick => format(new Date(tick), "MMM dd HH:mm")}
-                  />
-                  <YAxis />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Legend />
-                 
-                  {/* Reference Line */}
-                  {referencePoint && (
-                    <ReferenceLine
-                      x={referencePoint.time}
-                      stroke="#ff6b6b"
-                      strokeWidth={2}
-                      strokeDasharray="5 5"
-                      label={{
-                        value: "Reference",
-                        position: "top",
-                        fill: "#ff6b6b",
-                        fontSize: 12,
-                      }}
-                    />
-                  )}
-                 
-{allKeys.map(key => (
-<Line
-key={key}
-type="monotone"
-dataKey={key}
-stroke={signalColors[key] ?? colorForString(key)}
-name={key}
-dot={
-referencePoint && referencePoint.time
-? (props: any) => {
-if (props.payload.time === referencePoint.time) {
-return <ReferencePointDot {...props} />;
-}
-return <Dot {...props} r={0} />;
-}
-: false
-}
-strokeWidth={2}
-activeDot={{ r: 6 }}
-/>
-))}
 
-                 
-                  {!isSelectingReference && refAreaLeft && refAreaRight ? (
-                    <ReferenceArea x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} />
-                  ) : null}
-                </LineChart>
-              </ResponsiveContainer>
+              <div ref={chartRef}>
+                <TrendChart
+                  rows={rows}
+                  keys={keys}
+                  axes={axes}
+                  layout={layout}
+                  hidden={hiddenKeys}
+                  onToggleSeries={toggleSeries}
+                  colorOf={colorOf}
+                  thresholds={seriesThresholds}
+                  bands={bands}
+                  dashedKeys={dashedKeys}
+                  referencePoint={referencePoint}
+                  selectingReference={selectingReference}
+                  onPickReference={point => {
+                    setReferencePoint(point);
+                    setSelectingReference(false);
+                  }}
+                  onZoom={zoomTo}
+                  measuring={measuring}
+                  cursors={cursors}
+                  onCursorsChange={setCursors}
+                />
+              </div>
+
+              {measuring && (
+                <div className="mt-4">
+                  <MeasurementTable
+                    data={data}
+                    cursors={cursors}
+                    colorOf={colorOf}
+                    unitOf={key => axisOfKey(axes, key)?.unit ?? ""}
+                  />
+                </div>
+              )}
             </>
           )}
         </CardContent>
       </Card>
+
+      {!fetchingData && (
+        <SeriesStatsPanel entries={statsEntries} data={data} colorOf={colorOf} windowLabel={statsWindowLabel} />
+      )}
+
+      <FormulaEditorDialog
+        formula={editingFormula}
+        seriesOptions={series}
+        onOpenChange={open => !open && setEditingFormula(null)}
+      />
     </div>
   );
 }
@@ -1,477 +1,164 @@
-import React, { useEffect, useRef, useState } from "react";
-import * as signalR from "@microsoft/signalr";
-import type { HubConnection } from "@microsoft/signalr";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Database, AlertCircle, ChevronDown, ChevronRight } from "lucide-react";
+import { Database, AlertCircle, ChevronDown, ChevronRight, Maximize2, Siren, Volume2, VolumeX } from "lucide-react";
 import { useNavigate } from "react-router-dom";
-
-type TelemetryDto = {
-  deviceId: string;
-  deviceSlaveId: string;
-  slaveIndex: number;
-  registerAddress: number;
-  signalType: string;
-  value: number;
-  unit: string;
-  timestamp: string;
-};
-
-type RegisterState = {
-  registerAddress: number;
-  signalType: string;
-  unit: string;
-  history: number[];
-  last: number;
-};
-
-type slaveState = {
-  slaveIndex: number;
-  registers: Map<number, RegisterState>;
-};
-
-type DeviceState = {
-  slaves: Map<number, slaveState>;
-  lastUpdate: number | null;
-};
-
-type DevicesMap = Map<string, DeviceState>;
-type SelectedDevice = { deviceId: string; name: string };
-
-const SESSION_KEY = "selectedDeviceIds";
-const CONNECT_TIMEOUT_MS = 7000;
-const TELEMETRY_CACHE_KEY = "telemetryCache";
-const MAX_HISTORY = 100;
-const PERSIST_DEBOUNCE_MS = 1000;
-
-export default function Signals({ hubUrl = "0/devices/hubs/modbus" }: { hubUrl?: string }) {
-  const [connection, setConnection] = useState<HubConnection | null>(null);
-  const [devices, setDevices] = useState<DevicesMap>(() => new Map());
-  const [deviceNames, setDeviceNames] = useState<Map<string, string>>(() => new Map());
+import { useAuth } from "@/context/AuthContext";
+import { useHubEvent, useRealtime } from "@/hooks/use-realtime";
+import { useTelemetryBuffer } from "@/hooks/use-telemetry-buffer";
+import { clearSelectedDevices, useSelectedDevices } from "@/hooks/selectedDevicesStorage";
+import { useLiveHistoryWindow } from "@/hooks/liveHistoryStorage";
+import { Sparkline } from "@/components/signals/Sparkline";
+import { HistoryWindowControl } from "@/components/signals/HistoryWindowControl";
+import { RegisterChartDialog } from "@/components/signals/RegisterChartDialog";
+import { RegisterHealthBadge } from "@/components/signals/RegisterHealthBadge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useDeviceLiveness } from "@/hooks/use-device-liveness";
+import { LIVENESS_DOT, LIVENESS_LABELS, livenessOf } from "@/lib/liveness";
+import { healthStatusOf, isUnhealthy } from "@/lib/registerHealth";
+import { breachOf, describeThresholds } from "@/lib/thresholds";
+import { useLiveThresholds } from "@/hooks/use-live-thresholds";
+import { useThresholdAlarm, type LiveBreach } from "@/hooks/use-threshold-alarm";
+import type { RegisterSnapshot } from "@/workers/telemetryProtocol";
+import { useTimeZone } from "@/hooks/timeZoneStorage";
+import { formatInZone } from "@/lib/time";
+
+const TELEMETRY_CACHE_KEY = "telemetryBuffer";
+
+type PoppedOutRegister = { deviceId: string; slaveIndex: number; registerAddress: number };
+
+const registerUnhealthy = (reg: RegisterSnapshot) => isUnhealthy(healthStatusOf(reg.health ?? undefined));
+
+export default function Signals() {
+  const timeZone = useTimeZone();
+  const { hubs, manager } = useRealtime();
   const [expandedDevices, setExpandedDevices] = useState<Set<string>>(new Set());
   const [expandedslaves, setExpandedslaves] = useState<Set<string>>(new Set());
-  const connRef = useRef<HubConnection | null>(null);
-  const [startupError, setStartupError] = useState<string | null>(null);
-  const [startupErrorDetail, setStartupErrorDetail] = useState<string | null>(null);
+  const subscribedRef = useRef<Set<string>>(new Set());
   const [isRetrying, setIsRetrying] = useState(false);
-  const prevDeviceIdsRef = useRef<string[]>([]);
-  const persistTimerRef = useRef<number | null>(null);
-  const [noSelectedIDs, setNoSelectedIDs] = useState<boolean>(false);
-
-  let navigate = useNavigate();
-
-  // Persistence helpers
-  function serializeDevicesMap(dm: DevicesMap) {
-    const out: Record<string, any> = {};
-    for (const [deviceId, dev] of dm.entries()) {
-      out[deviceId] = {
-        lastUpdate: dev.lastUpdate,
-        slaves: {},
-      };
-      for (const [slaveIndex, slave] of dev.slaves.entries()) {
-        out[deviceId].slaves[slaveIndex] = {
-          slaveIndex: slave.slaveIndex,
-          registers: {},
-        };
-        for (const [regAddr, reg] of slave.registers.entries()) {
-          out[deviceId].slaves[slaveIndex].registers[regAddr] = {
-            registerAddress: reg.registerAddress,
-            signalType: reg.signalType,
-            unit: reg.unit,
-            history: reg.history.slice(-MAX_HISTORY),
-            last: reg.last,
-          };
-        }
-      }
-    }
-    return JSON.stringify(out);
-  }
-
-  function deserializeDevicesMap(raw: string | null): DevicesMap {
-    const dm: DevicesMap = new Map();
-    if (!raw) return dm;
-    try {
-      const parsed = JSON.parse(raw);
-      for (const deviceId of Object.keys(parsed)) {
-        const devObj = parsed[deviceId];
-        const slavesMap = new Map<number, slaveState>();
-        const slaves = devObj.slaves || {};
-        
-        for (const slaveKey of Object.keys(slaves)) {
-          const slaveIndex = Number(slaveKey);
-          const slaveObj = slaves[slaveKey];
-          const registersMap = new Map<number, RegisterState>();
-          const registers = slaveObj.registers || {};
-          
-          for (const regKey of Object.keys(registers)) {
-            const regAddr = Number(regKey);
-            const reg = registers[regKey];
-            registersMap.set(regAddr, {
-              registerAddress: reg.registerAddress,
-              signalType: reg.signalType || "",
-              unit: reg.unit || "",
-              history: Array.isArray(reg.history) ? reg.history.slice(-MAX_HISTORY) : [],
-              last: typeof reg.last === "number" ? reg.last : 0,
-            });
-          }
-          
-          slavesMap.set(slaveIndex, {
-            slaveIndex,
-            registers: registersMap,
+  const [poppedOut, setPoppedOut] = useState<PoppedOutRegister | null>(null);
+  const [onlyUnhealthy, setOnlyUnhealthy] = useState(false);
+  const { user } = useAuth();
+  const [historyWindow, setHistoryWindow] = useLiveHistoryWindow(user?.email ?? "anonymous");
+
+  // Selection is made on the Devices page and shared through sessionStorage
+  const selected = useSelectedDevices();
+  const selectedKey = selected.map(s => s.deviceId).join(",");
+  const noSelectedIDs = selected.length === 0;
+  const deviceNames = useMemo(
+    () => new Map(selected.map(s => [s.deviceId, s.name || s.deviceId])),
+    [selected]
+  );
+  const selectedIds = useMemo(() => (selectedKey ? selectedKey.split(",") : []), [selectedKey]);
+
+  // Ingestion, ring buffers and the session cache live in a Web Worker
+  const { devices, ingest, reset } = useTelemetryBuffer(selectedIds, {
+    persistKey: TELEMETRY_CACHE_KEY,
+    historyWindow,
+  });
+  const windowLabel = `Last ${historyWindow.size} ${historyWindow.mode}`;
+
+  // Device status comes from server heartbeats; registers are aged locally
+  // against the same poll interval so a single silent register stands out
+  const liveness = useDeviceLiveness();
+
+  // Registers mapped to an asset signal carry that signal's limits; breaches
+  // alarm locally instead of waiting for the asset-service notification
+  const limitsFor = useLiveThresholds(selectedKey);
+  const breaches = useMemo(() => {
+    const out: LiveBreach[] = [];
+    for (const deviceId of selectedIds) {
+      for (const slave of devices.get(deviceId)?.slaves ?? []) {
+        for (const reg of slave.registers) {
+          const limits = limitsFor(deviceId, slave.deviceSlaveId, reg.registerAddress);
+          const breach = breachOf(reg.last, limits?.thresholds);
+          if (!limits || !breach) continue;
+          out.push({
+            key: `${deviceId}:${slave.slaveIndex}:${reg.registerAddress}`,
+            label: `${deviceNames.get(deviceId) ?? deviceId} · ${limits.mapping.signalName}`,
+            value: reg.last,
+            unit: reg.unit || limits.mapping.signalUnit,
+            breach,
+            limit: breach === "high" ? limits.thresholds.max : limits.thresholds.min,
           });
         }
-        
-        dm.set(deviceId, { 
-          slaves: slavesMap, 
-          lastUpdate: devObj.lastUpdate ?? Date.now() 
-        });
-      }
-    } catch (e) {
-      console.warn("Failed to deserialize telemetry cache", e);
-    }
-    return dm;
-  }
-
-  function persistTelemetry(dm?: DevicesMap) {
-    if (persistTimerRef.current) window.clearTimeout(persistTimerRef.current);
-    persistTimerRef.current = window.setTimeout(() => {
-      try {
-        const toSave = serializeDevicesMap(dm ?? devices);
-        sessionStorage.setItem(TELEMETRY_CACHE_KEY, toSave);
-      } catch (e) {
-        console.warn("Failed to persist telemetry", e);
-      } finally {
-        persistTimerRef.current = null;
-      }
-    }, PERSIST_DEBOUNCE_MS);
-  }
-
-  function readSelectedDevices(): SelectedDevice[] {
-    try {
-      const raw = sessionStorage.getItem(SESSION_KEY);
-      if (raw === "") {
-        try { sessionStorage.removeItem(SESSION_KEY); } catch {}
-        return [];
-      }
-      if (!raw) return [];
-      const parsed = JSON.parse(raw);
-      if (!Array.isArray(parsed)) return [];
-      return parsed
-        .map((x) => {
-          if (x && typeof x === "object") {
-            const id = String((x as any).deviceId ?? (x as any).id ?? "");
-            const name = String((x as any).name ?? (x as any).displayName ?? "");
-            if (id) return { deviceId: id, name };
-          }
-          return null;
-        })
-        .filter((x): x is SelectedDevice => x !== null);
-    } catch {
-      return [];
-    }
-  }
-
-  function readSelectedDeviceIds(): string[] {
-    return readSelectedDevices().map(d => d.deviceId);
-  }
-
-  async function clearSelectionAndReset(redirectToDevices = false) {
-    const ids = readSelectedDeviceIds();
-    for (const id of ids) {
-      try {
-        await connRef.current?.invoke("UnsubscribeFromDevice", id);
-      } catch (err) {
-        console.warn("Failed to unsubscribe during clear:", id, err);
       }
     }
+    return out;
+  }, [selectedIds, devices, limitsFor, deviceNames]);
+  const breachKeys = new Set(breaches.map(b => b.key));
+  const { soundOn, toggleSound } = useThresholdAlarm(breaches);
 
-    try { sessionStorage.removeItem(SESSION_KEY); } catch {}
-    try { sessionStorage.removeItem(TELEMETRY_CACHE_KEY); } catch {}
+  let navigate = useNavigate();
 
-    setDevices(new Map());
-    setDeviceNames(new Map());
-    prevDeviceIdsRef.current = [];
-    setNoSelectedIDs(true);
+  function clearSelectionAndReset(redirectToDevices = false) {
+    // Emptying the selection makes the effect below leave every device group
+    clearSelectedDevices();
+    reset();
 
     if (redirectToDevices) {
       window.location.href = "/devices";
     }
   }
 
-  // Mount: load selected + telemetry
+  // Join / leave per-device hub groups as the selection changes, so the
+  // server only sends telemetry for the devices shown on this page
   useEffect(() => {
-    const selected = readSelectedDevices();
-    prevDeviceIdsRef.current = selected.map(s => s.deviceId);
-
-    if (!selected.length) {
-      setDevices(new Map());
-      setDeviceNames(new Map());
-      setNoSelectedIDs(true);
-      return;
-    }
+    const subscribed = subscribedRef.current;
+    const wanted = new Set(selectedIds);
 
-    const cached = sessionStorage.getItem(TELEMETRY_CACHE_KEY);
-    if (cached) {
-      const dm = deserializeDevicesMap(cached);
-      if (dm && dm.size) {
-        const filtered = new Map<string, DeviceState>();
-        for (const s of selected) {
-          if (dm.has(s.deviceId)) filtered.set(s.deviceId, dm.get(s.deviceId)!);
-          else filtered.set(s.deviceId, { slaves: new Map<number, slaveState>(), lastUpdate: null });
-        }
-        setDevices(filtered);
-      } else {
-        const initialPanels = new Map<string, DeviceState>();
-        for (const s of selected) initialPanels.set(s.deviceId, { slaves: new Map<number, slaveState>(), lastUpdate: null });
-        setDevices(initialPanels);
-      }
-    } else {
-      const initialPanels = new Map<string, DeviceState>();
-      for (const s of selected) initialPanels.set(s.deviceId, { slaves: new Map<number, slaveState>(), lastUpdate: null });
-      setDevices(initialPanels);
+    for (const id of [...subscribed]) {
+      if (wanted.has(id)) continue;
+      subscribed.delete(id);
+      manager.unsubscribeFromDevice(id).catch(err => console.warn("Failed to unsubscribe from device", id, err));
     }
 
-    setDeviceNames(prev => {
-      const next = new Map(prev);
-      for (const s of selected) next.set(s.deviceId, s.name || s.deviceId);
-      return next;
-    });
-    setNoSelectedIDs(false);
-  }, []);
-
-  // Track device unsubscriptions
-  useEffect(() => {
-    const checkInterval = setInterval(() => {
-      const currentStoredIds = readSelectedDeviceIds();
-      const prevIds = prevDeviceIdsRef.current;
-      
-      if (prevIds.length === 0 && currentStoredIds.length === 0) return;
-
-      const removed = prevIds.filter(id => !currentStoredIds.includes(id));
-
-      if (removed.length > 0 && connRef.current) {
-        removed.forEach(async (id) => {
-          try {
-            await connRef.current?.invoke("UnsubscribeFromDevice", id);
-            setDevices(prev => {
-              const next = new Map(prev);
-              next.delete(id);
-              return next;
-            });
-            setDeviceNames(prev => {
-              const next = new Map(prev);
-              next.delete(id);
-              return next;
-            });
-          } catch (err) {
-            console.error("Failed to unsubscribe from device:", id, err);
-          }
-        });
-      }
-
-      prevDeviceIdsRef.current = currentStoredIds;
-    }, 1000);
-
-    return () => clearInterval(checkInterval);
-  }, []);
-
-  useEffect(() => {
-    prevDeviceIdsRef.current = [...devices.keys()];
-  }, [devices]);
+    for (const id of wanted) {
+      if (subscribed.has(id)) continue;
+      subscribed.add(id);
+      manager.subscribeToDevice(id).catch(err => console.warn("Failed to subscribe to device", id, err));
+    }
+  }, [manager, selectedIds]);
 
-  // SignalR connection setup
+  // Leave every group when the page unmounts
   useEffect(() => {
-    const conn = new signalR.HubConnectionBuilder()
-      .withUrl(hubUrl)
-      .withAutomaticReconnect()
-      .build();
-
-    
-
-    connRef.current = conn;
-    setConnection(conn);
-
-    // Setup TelemetryUpdate handler
-    conn.off("TelemetryUpdate");
-    conn.on("TelemetryUpdate", (payload: TelemetryDto[] | any) => {
-      if (!Array.isArray(payload) || payload.length === 0) return;
-      
-      const first = payload[0];
-      const deviceId = (first.deviceId ?? first.DeviceId) as string;
-      if (!deviceId) return;
-
-      console.log(`TelemetryUpdate for ${deviceId}:`, payload);
-
-      setDevices(prev => {
-        const next = new Map(prev);
-        const dev = next.get(deviceId) ?? { slaves: new Map<number, slaveState>(), lastUpdate: Date.now() };
-
-        for (const itemRaw of payload) {
-          const item = {
-            deviceId: itemRaw.deviceId ?? itemRaw.DeviceId,
-            deviceSlaveId: itemRaw.deviceSlaveId ?? itemRaw.deviceSlaveId,
-            slaveIndex: itemRaw.slaveIndex ?? itemRaw.slaveIndex,
-            registerAddress: itemRaw.registerAddress ?? itemRaw.RegisterAddress,
-            signalType: itemRaw.signalType ?? itemRaw.SignalType,
-            value: itemRaw.value ?? itemRaw.Value,
-            unit: itemRaw.unit ?? itemRaw.Unit,
-            timestamp: itemRaw.timestamp ?? itemRaw.Timestamp
-          };
-
-          const slaveIndex = Number(item.slaveIndex ?? -1);
-          const registerAddress = Number(item.registerAddress ?? 0);
-          const value = Number(item.value ?? 0);
-          const unit = String(item.unit ?? "");
-          const signalType = String(item.signalType ?? "");
-
-          if (slaveIndex < 0 || registerAddress === 0) continue;
-
-          // Get or create slave
-          let slave = dev.slaves.get(slaveIndex);
-          if (!slave) {
-            slave = { slaveIndex, registers: new Map<number, RegisterState>() };
-            dev.slaves.set(slaveIndex, slave);
-          }
-
-          // Get or create register
-          let register = slave.registers.get(registerAddress);
-          if (!register) {
-            register = {
-              registerAddress,
-              signalType,
-              unit,
-              history: [],
-              last: value,
-            };
-            slave.registers.set(registerAddress, register);
-          }
-
-          // Update register
-          register.history.push(value);
-          if (register.history.length > MAX_HISTORY) register.history.shift();
-          register.last = value;
-          register.unit = unit;
-          register.signalType = signalType;
-        }
+    const subscribed = subscribedRef.current;
+    return () => {
+      for (const id of subscribed) manager.unsubscribeFromDevice(id).catch(() => {});
+      subscribed.clear();
+    };
+  }, [manager]);
 
-        dev.lastUpdate = Date.now();
-        next.set(deviceId, dev);
-        persistTelemetry(next);
-        return next;
-      });
-    });
+  // Telemetry arrives on the shared hub connection (RealtimeContext)
+  useHubEvent("telemetry", "TelemetryUpdate", (payload) => {
+    if (!Array.isArray(payload) || payload.length === 0) return;
 
-    // Start connection and auto-subscribe
-    (async () => {
-      const storedIds = readSelectedDeviceIds();
-      if (!storedIds.length) {
-        setDevices(new Map());
-        setDeviceNames(new Map());
-        setNoSelectedIDs(true);
-        return;
-      }
+    // Late batches for a group we just left are dropped here
+    const deviceId = payload[0].deviceId;
+    if (!deviceId || !subscribedRef.current.has(deviceId)) return;
 
-      const startPromise = conn.start();
-      const timeoutPromise = new Promise<never>((_, rej) => 
-        setTimeout(() => rej(new Error("connect-timeout")), CONNECT_TIMEOUT_MS)
-      );
-      
-      try {
-        await Promise.race([startPromise, timeoutPromise]);
-        setStartupError(null);
-        setStartupErrorDetail(null);
-        console.log("SignalR connected");
-      } catch (startErr: any) {
-        
-         if (String(startErr).includes("401")) {
-           navigate("/")
-           }
-
-        console.error("SignalR failed to start", startErr);
-        setStartupError("Failed to connect to realtime server. Check server/network and press Retry or go back to device list.");
-        setStartupErrorDetail(String(startErr?.message || startErr));
-        return;
-      }
+    ingest(payload);
+  });
 
-      // Subscribe to devices
-      for (const id of storedIds) {
-        try {
-          await conn.invoke("SubscribeToDevice", id);
-          console.log("Subscribed to device:", id);
-          
-          setDevices(prev => {
-            const next = new Map(prev);
-            if (!next.has(id)) next.set(id, { slaves: new Map<number, slaveState>(), lastUpdate: null });
-            return next;
-          });
-          
-          const stored = readSelectedDevices().find(s => s.deviceId === id);
-          if (stored?.name) {
-            setDeviceNames(prev => {
-              const next = new Map(prev);
-              next.set(id, stored.name);
-              return next;
-            });
-          }
-        } catch (subErr) {
-          console.warn("Failed to subscribe to device", id, subErr);
-        }
-      }
-    })();
-
-    // Setup onclose handler
-    conn.onclose((err?: any) => {
-      console.warn("SignalR connection closed", err);
-      const stored = readSelectedDeviceIds();
-      if (stored.length) {
-        setStartupError("Realtime connection closed. You can Retry or go back to device list.");
-        setStartupErrorDetail(String(err ?? ""));
-      }
-    });
+  // Surface hub outages only when something is actually being watched
+  const telemetryHub = hubs.telemetry;
+  const hubDown = telemetryHub.status === "disconnected" && !noSelectedIDs;
+  const startupError = hubDown
+    ? "Realtime connection lost. You can Retry or go back to device list."
+    : null;
+  const startupErrorDetail = hubDown ? telemetryHub.error : null;
 
-    return () => {
-      try { conn.off("TelemetryUpdate"); } catch {}
-      conn.stop().catch(() => {});
-      connRef.current = null;
-      setConnection(null);
-      setDevices(new Map());
-      setDeviceNames(new Map());
-    };
-  }, [hubUrl]);
+  useEffect(() => {
+    if (hubDown && String(telemetryHub.error).includes("401")) navigate("/");
+  }, [hubDown, telemetryHub.error]);
 
   async function handleRetry() {
-    if (!connRef.current) return;
     setIsRetrying(true);
-    setStartupError(null);
-    setStartupErrorDetail(null);
-
     try {
-      const startPromise = connRef.current.start();
-      const timeoutPromise = new Promise<never>((_, rej) => 
-        setTimeout(() => rej(new Error("connect-timeout")), CONNECT_TIMEOUT_MS)
-      );
-      await Promise.race([startPromise, timeoutPromise]);
-
-      const ids = readSelectedDeviceIds();
-      for (const id of ids) {
-        try {
-          await connRef.current.invoke("SubscribeToDevice", id);
-          setDevices(prev => {
-            const next = new Map(prev);
-            if (!next.has(id)) next.set(id, { slaves: new Map<number, slaveState>(), lastUpdate: null });
-            return next;
-          });
-        } catch (err) {
-          console.warn("Retry: failed to subscribe", id, err);
-        }
-      }
-      setStartupError(null);
-      setStartupErrorDetail(null);
-    } catch (err: any) {
-  
+      await manager.start("telemetry");
+    } catch (err) {
       console.error("Retry failed", err);
-      setStartupError("Retry failed — still cannot connect. Check server/network and try again.");
-      setStartupErrorDetail(String(err?.message || err));
     } finally {
       setIsRetrying(false);
     }
@@ -500,24 +187,21 @@ export default function Signals({ hubUrl = "0/devices/hubs/modbus" }: { hubUrl?:
     });
   }
 
-  function renderSparkline(values: number[] | undefined) {
-    if (!values || values.length === 0) return null;
-    const w = 100, h = 30, len = values.length;
-    const min = Math.min(...values), max = Math.max(...values);
-    const range = (max === min) ? (Math.abs(max) || 1) : (max - min);
-    const points = values.map((v, i) => {
-      const x = (i / Math.max(1, len - 1)) * w;
-      const y = h - ((v - min) / range) * h;
-      return `${x},${y}`;
-    }).join(" ");
-
-    return (
-      <svg width={w} height={h} className="inline-block" viewBox={`0 0 ${w} ${h}`} preserveAspectRatio="none">
-        <polyline points={points} fill="none" strokeWidth={2} className="stroke-blue-500" strokeLinecap="round" strokeLinejoin="round" />
-      </svg>
-    );
+  function findSlave(target: PoppedOutRegister | null) {
+    if (!target) return undefined;
+    return devices.get(target.deviceId)?.slaves.find(sl => sl.slaveIndex === target.slaveIndex);
   }
 
+  const poppedOutSlave = findSlave(poppedOut);
+  const poppedOutRegister = poppedOutSlave?.registers.find(r => r.registerAddress === poppedOut?.registerAddress);
+  const poppedOutLimits = poppedOut && poppedOutSlave
+    ? limitsFor(poppedOut.deviceId, poppedOutSlave.deviceSlaveId, poppedOut.registerAddress)
+    : undefined;
+
+  const anyUnhealthy = selectedIds.some(id =>
+    devices.get(id)?.slaves.some(slave => slave.registers.some(registerUnhealthy))
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100">
       <div className="max-w-7xl mx-auto p-6 space-y-6">
@@ -529,6 +213,27 @@ export default function Signals({ hubUrl = "0/devices/hubs/modbus" }: { hubUrl?:
             </h1>
             <p className="text-slate-600 mt-1">Real-time telemetry organized by slaves and registers</p>
           </div>
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="only-unhealthy"
+                checked={onlyUnhealthy}
+                onCheckedChange={(c) => setOnlyUnhealthy(!!c)}
+              />
+              <Label htmlFor="only-unhealthy" className="text-sm text-slate-700 cursor-pointer">
+                Only unhealthy registers
+              </Label>
+            </div>
+            <HistoryWindowControl value={historyWindow} onChange={setHistoryWindow} />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={toggleSound}
+              title={soundOn ? "Mute limit alarm" : "Unmute limit alarm"}
+            >
+              {soundOn ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+            </Button>
+          </div>
         </div>
 
         {startupError && (
@@ -554,6 +259,27 @@ export default function Signals({ hubUrl = "0/devices/hubs/modbus" }: { hubUrl?:
           </div>
         )}
 
+        {breaches.length > 0 && (
+          <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg shadow-sm">
+            <div className="flex items-start gap-3">
+              <Siren className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5 animate-pulse" />
+              <div className="flex-1">
+                <p className="font-medium text-red-900">
+                  {breaches.length} signal{breaches.length !== 1 ? "s" : ""} out of range
+                </p>
+                <ul className="text-sm text-red-700 mt-1 space-y-0.5">
+                  {breaches.map(b => (
+                    <li key={b.key}>
+                      {b.label}: <span className="font-mono font-semibold">{b.value.toFixed(2)}{b.unit ? ` ${b.unit}` : ""}</span>
+                      {" "}{b.breach === "high" ? "above" : "below"} {b.limit}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+
         {noSelectedIDs && (
           <Card className="border-slate-200 shadow-lg">
             <CardContent className="py-16">
@@ -566,14 +292,38 @@ export default function Signals({ hubUrl = "0/devices/hubs/modbus" }: { hubUrl?:
           </Card>
         )}
 
+        {onlyUnhealthy && !noSelectedIDs && !anyUnhealthy && (
+          <Card className="border-slate-200 shadow-lg">
+            <CardContent className="py-10 text-center text-slate-500">
+              All registers on the selected devices are reading normally.
+            </CardContent>
+          </Card>
+        )}
+
         <div className="space-y-4">
-          {[...devices.entries()].map(([deviceId, dev]) => {
+          {selectedIds.map((deviceId) => {
             const isDeviceExpanded = expandedDevices.has(deviceId);
-            const slaveCount = dev.slaves.size;
-            const totalRegisters = [...dev.slaves.values()].reduce((sum, slave) => sum + slave.registers.size, 0);
+            const allSlaves = devices.get(deviceId)?.slaves ?? [];
+            const slaveCount = allSlaves.length;
+            const totalRegisters = allSlaves.reduce((sum, slave) => sum + slave.registers.length, 0);
+            const unhealthyCount = allSlaves.reduce((sum, slave) => sum + slave.registers.filter(registerUnhealthy).length, 0);
+            const slaves = onlyUnhealthy
+              ? allSlaves
+                  .map(slave => ({ ...slave, registers: slave.registers.filter(registerUnhealthy) }))
+                  .filter(slave => slave.registers.length > 0)
+              : allSlaves;
+
+            if (onlyUnhealthy && unhealthyCount === 0) return null;
+            const heartbeat = liveness.devices.get(deviceId);
+            const pollIntervalMs = heartbeat?.pollIntervalMs;
+            const deviceState = heartbeat?.liveness
+              ?? livenessOf(devices.get(deviceId)?.lastUpdate ?? null, pollIntervalMs, liveness.now);
 
             return (
-              <Card key={deviceId} className="border-slate-200 shadow-lg overflow-hidden">
+              <Card
+                key={deviceId}
+                className={`border-slate-200 shadow-lg overflow-hidden ${breaches.some(b => b.key.startsWith(`${deviceId}:`)) ? "ring-2 ring-red-400" : ""}`}
+              >
                 <CardHeader 
                   className="cursor-pointer hover:bg-slate-50 transition-colors border-b bg-gradient-to-r from-slate-50 to-blue-50"
                   onClick={() => toggleDevice(deviceId)}
@@ -591,27 +341,31 @@ export default function Signals({ hubUrl = "0/devices/hubs/modbus" }: { hubUrl?:
                         </CardTitle>
                         <p className="text-sm text-slate-600 mt-1">
                           {slaveCount} slave{slaveCount !== 1 ? 's' : ''} • {totalRegisters} register{totalRegisters !== 1 ? 's' : ''}
+                          {unhealthyCount > 0 && (
+                            <span className="ml-2 text-red-600 font-medium">• {unhealthyCount} unhealthy</span>
+                          )}
                         </p>
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
-                      <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></span>
-                      <span className="text-sm text-slate-600">Live</span>
+                      <span className={`w-2 h-2 rounded-full ${LIVENESS_DOT[deviceState]}`}></span>
+                      <span className="text-sm text-slate-600">{LIVENESS_LABELS[deviceState]}</span>
                     </div>
                   </div>
                 </CardHeader>
 
                 {isDeviceExpanded && (
                   <CardContent className="p-0">
-                    {dev.slaves.size === 0 ? (
+                    {slaves.length === 0 ? (
                       <div className="p-8 text-center text-slate-500">
                         <p>No telemetry data received yet</p>
                       </div>
                     ) : (
                       <div className="divide-y divide-slate-200">
-                        {[...dev.slaves.entries()].map(([slaveIndex, slave]) => {
+                        {slaves.map((slave) => {
+                          const slaveIndex = slave.slaveIndex;
                           const isslaveExpanded = expandedslaves.has(`${deviceId}:${slaveIndex}`);
-                          const registerCount = slave.registers.size;
+                          const registerCount = slave.registers.length;
 
                           return (
                             <div key={slaveIndex}>
@@ -655,30 +409,64 @@ export default function Signals({ hubUrl = "0/devices/hubs/modbus" }: { hubUrl?:
                                             Unit
                                           </th>
                                           <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">
-                                            Trend
+                                            Health
+                                          </th>
+                                          <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">
+                                            Trend ({windowLabel.toLowerCase()})
                                           </th>
                                         </tr>
                                       </thead>
                                       <tbody className="divide-y divide-slate-200">
-                                        {[...slave.registers.entries()].map(([regAddr, reg]) => (
-                                          <tr key={regAddr} className="hover:bg-slate-50 transition-colors">
+                                        {slave.registers.map((reg) => {
+                                          const regState = livenessOf(reg.receivedAt || null, pollIntervalMs, liveness.now);
+                                          const isStale = regState === "stale" || regState === "offline";
+                                          const limits = limitsFor(deviceId, slave.deviceSlaveId, reg.registerAddress);
+                                          const outOfRange = breachKeys.has(`${deviceId}:${slaveIndex}:${reg.registerAddress}`);
+                                          return (
+                                          <tr
+                                            key={reg.registerAddress}
+                                            className={`transition-colors ${outOfRange ? "bg-red-50 hover:bg-red-100" : "hover:bg-slate-50"} ${isStale ? "opacity-50" : ""}`}
+                                            title={isStale ? `${LIVENESS_LABELS[regState]} — no update since ${formatInZone(reg.receivedAt, "hh:mm:ss a", timeZone)}` : undefined}
+                                          >
                                             <td className="px-4 py-4 text-sm font-mono font-medium text-slate-900">
-                                              {reg.registerAddress}
+                                              <span className="inline-flex items-center gap-2">
+                                                <span className={`w-1.5 h-1.5 rounded-full ${LIVENESS_DOT[regState]}`}></span>
+                                                {reg.registerAddress}
+                                              </span>
                                             </td>
                                             <td className="px-4 py-4 text-sm text-slate-700">
-                                              {reg.signalType || "—"}
+                                              {limits?.mapping.signalName ?? (reg.signalType || "—")}
+                                              {limits && (
+                                                <p className="text-xs text-slate-500 mt-0.5">
+                                                  Limits: {describeThresholds(limits.thresholds, reg.unit)}
+                                                </p>
+                                              )}
                                             </td>
-                                            <td className="px-4 py-4 text-sm font-mono font-semibold text-blue-600">
-                                              {typeof reg.last === "number" ? reg.last.toFixed(2) : "—"}
+                                            <td className={`px-4 py-4 text-sm font-mono font-semibold ${outOfRange ? "text-red-600 animate-pulse" : "text-blue-600"}`}>
+                                              {Number.isFinite(reg.last) ? reg.last.toFixed(2) : "—"}
                                             </td>
                                             <td className="px-4 py-4 text-sm text-slate-700">
                                               {reg.unit || "—"}
                                             </td>
                                             <td className="px-4 py-4">
-                                              {renderSparkline(reg.history)}
+                                              <RegisterHealthBadge health={reg.health} />
+                                            </td>
+                                            <td className="px-4 py-4">
+                                              <div className="flex items-center gap-2">
+                                                <Sparkline values={reg.values} min={reg.min} max={reg.max} avg={reg.avg} thresholds={limits?.thresholds} />
+                                                <Button
+                                                  variant="ghost"
+                                                  size="icon"
+                                                  title="Open live chart"
+                                                  onClick={() => setPoppedOut({ deviceId, slaveIndex, registerAddress: reg.registerAddress })}
+                                                >
+                                                  <Maximize2 className="w-4 h-4 text-slate-500" />
+                                                </Button>
+                                              </div>
                                             </td>
                                           </tr>
-                                        ))}
+                                          );
+                                        })}
                                       </tbody>
                                     </table>
                                   </div>
@@ -696,6 +484,19 @@ export default function Signals({ hubUrl = "0/devices/hubs/modbus" }: { hubUrl?:
           })}
         </div>
       </div>
+
+      <RegisterChartDialog
+        open={poppedOut !== null}
+        onOpenChange={(open) => !open && setPoppedOut(null)}
+        title={
+          poppedOut
+            ? `${getDeviceDisplayName(poppedOut.deviceId)} · slave ${poppedOut.slaveIndex} · ${poppedOutRegister?.signalType || poppedOut.registerAddress}`
+            : ""
+        }
+        register={poppedOutRegister}
+        windowLabel={windowLabel}
+        thresholds={poppedOutLimits?.thresholds}
+      />
     </div>
   );
 }
\ No newline at end of file
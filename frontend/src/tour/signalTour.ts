@@ -49,14 +49,14 @@ export const signalTour = [
     },
   },
   {
-    element: ".tour-compare-card",
+    element: ".tour-compare-asset-card",
     popover: {
       title: "Compare Asset",
       description: "Select another asset to compare its signals.",
     },
   },
   {
-    element: ".tour-compare-dropdown",
+    element: ".tour-compare-asset-dropdown",
     popover: {
       title: "Compare Asset Selection",
       description: "Choose an asset for comparison.",
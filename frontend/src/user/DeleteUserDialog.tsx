@@ -35,10 +35,7 @@ export default function DeleteUserDialog({
       onClose();
     } catch (err: any) {
       console.error(err);
-      toast.error(
-        err?.response?.data?.message ||
-          "Failed to delete user. Try again."
-      );
+      toast.error(err?.message || "Failed to delete user. Try again.");
     }
   };
 
@@ -0,0 +1,74 @@
+/* --------------------------------------------------------
+    RING BUFFER
+    Fixed-size value + timestamp history backed by typed
+    arrays: pushing never allocates and the oldest sample is
+    overwritten once the buffer is full.
+-------------------------------------------------------- */
+
+export class RingBuffer {
+  capacity: number;
+  private values: Float64Array;
+  private times: Float64Array;
+  private head = 0;
+  private size = 0;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, Math.floor(capacity));
+    this.values = new Float64Array(this.capacity);
+    this.times = new Float64Array(this.capacity);
+  }
+
+  get length() {
+    return this.size;
+  }
+
+  push(value: number, time: number) {
+    this.values[this.head] = value;
+    this.times[this.head] = time;
+    this.head = (this.head + 1) % this.capacity;
+    if (this.size < this.capacity) this.size++;
+  }
+
+  clear() {
+    this.head = 0;
+    this.size = 0;
+  }
+
+  // Keeps the newest samples that still fit
+  resize(capacity: number) {
+    const next = Math.max(1, Math.floor(capacity));
+    if (next === this.capacity) return;
+
+    const { values, timestamps } = this.toArrays();
+    const keep = Math.min(values.length, next);
+    this.capacity = next;
+    this.values = new Float64Array(next);
+    this.times = new Float64Array(next);
+    this.values.set(values.subarray(values.length - keep));
+    this.times.set(timestamps.subarray(timestamps.length - keep));
+    this.size = keep;
+    this.head = keep % next;
+  }
+
+  // Oldest → newest copies; safe to transfer to another thread.
+  // `since` drops samples older than that timestamp (ms).
+  toArrays(since = -Infinity): { values: Float64Array; timestamps: Float64Array } {
+    const start = (this.head - this.size + this.capacity) % this.capacity;
+    const values = this.unroll(this.values, start);
+    const timestamps = this.unroll(this.times, start);
+    if (since === -Infinity) return { values, timestamps };
+
+    // Timestamps arrive in order, so the window is a suffix
+    let from = 0;
+    while (from < timestamps.length && timestamps[from] < since) from++;
+    return { values: values.slice(from), timestamps: timestamps.slice(from) };
+  }
+
+  private unroll(source: Float64Array, start: number) {
+    const out = new Float64Array(this.size);
+    const firstPart = Math.min(this.size, this.capacity - start);
+    out.set(source.subarray(start, start + firstPart));
+    if (firstPart < this.size) out.set(source.subarray(0, this.size - firstPart), firstPart);
+    return out;
+  }
+}
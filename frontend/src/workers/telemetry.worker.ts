@@ -0,0 +1,245 @@
+import type { TelemetryWireDto } from "@/api/hubManager";
+import { RingBuffer } from "./ringBuffer";
+import { healthFromDto, type RegisterHealth } from "@/lib/registerHealth";
+import {
+  DEFAULT_HISTORY_WINDOW,
+  SNAPSHOT_INTERVAL_MS,
+  capacityFor,
+  type DeviceSnapshot,
+  type PersistedDevice,
+  type TelemetryWorkerRequest,
+  type TelemetryWorkerResponse,
+} from "./telemetryProtocol";
+
+/* --------------------------------------------------------
+    TELEMETRY WORKER
+    Ingests TelemetryUpdate batches off the main thread and
+    posts a snapshot of the devices that changed at most every
+    SNAPSHOT_INTERVAL_MS, instead of one React update per batch.
+-------------------------------------------------------- */
+
+// Typed locally: the app tsconfig only ships the DOM lib
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<TelemetryWorkerRequest>) => void) | null;
+  postMessage: (message: TelemetryWorkerResponse, transfer: Transferable[]) => void;
+};
+
+type RegisterBuffer = {
+  signalType: string;
+  unit: string;
+  last: number;
+  lastTimestamp: number;
+  receivedAt: number;
+  health: RegisterHealth | null;
+  history: RingBuffer;
+  // Oldest sample in the last snapshot posted; Infinity when it held none
+  snapshotFrom: number;
+};
+
+type DeviceBuffer = {
+  lastUpdate: number | null;
+  // slaveIndex → registerAddress → buffer
+  slaves: Map<number, Map<number, RegisterBuffer>>;
+  // slaveIndex → DeviceSlave id
+  slaveIds: Map<number, string>;
+};
+
+const devices = new Map<string, DeviceBuffer>();
+const dirty = new Set<string>();
+let historyWindow = DEFAULT_HISTORY_WINDOW;
+
+const registerFor = (deviceId: string, slaveIndex: number, registerAddress: number) => {
+  let device = devices.get(deviceId);
+  if (!device) {
+    device = { lastUpdate: null, slaves: new Map(), slaveIds: new Map() };
+    devices.set(deviceId, device);
+  }
+
+  let slave = device.slaves.get(slaveIndex);
+  if (!slave) {
+    slave = new Map();
+    device.slaves.set(slaveIndex, slave);
+  }
+
+  let register = slave.get(registerAddress);
+  if (!register) {
+    register = { signalType: "", unit: "", last: NaN, lastTimestamp: 0, receivedAt: 0, health: null, history: new RingBuffer(capacityFor(historyWindow)), snapshotFrom: Infinity };
+    slave.set(registerAddress, register);
+  }
+  return { device, register };
+};
+
+/* ---- Handlers ---- */
+
+// Accepts camelCase or PascalCase, depending on the hub's JSON settings
+const ingest = (batch: TelemetryWireDto[]) => {
+  const now = Date.now();
+
+  for (const raw of batch) {
+    const deviceId = String(raw.deviceId ?? raw.DeviceId ?? "");
+    const slaveIndex = Number(raw.slaveIndex ?? raw.SlaveIndex ?? -1);
+    const registerAddress = Number(raw.registerAddress ?? raw.RegisterAddress ?? 0);
+    if (!deviceId || slaveIndex < 0 || registerAddress === 0) continue;
+
+    const value = Number(raw.value ?? raw.Value ?? 0);
+    const parsedTime = Date.parse(String(raw.timestamp ?? raw.Timestamp ?? ""));
+    const time = Number.isNaN(parsedTime) ? now : parsedTime;
+
+    const { device, register } = registerFor(deviceId, slaveIndex, registerAddress);
+    const deviceSlaveId = String(raw.deviceSlaveId ?? raw.DeviceSlaveId ?? "");
+    if (deviceSlaveId) device.slaveIds.set(slaveIndex, deviceSlaveId);
+    register.health = healthFromDto(raw, now);
+    register.unit = String(raw.unit ?? raw.Unit ?? "");
+    register.signalType = String(raw.signalType ?? raw.SignalType ?? "");
+    dirty.add(deviceId);
+
+    // A failed read repeats the last good value; keep it out of the history
+    if (register.health.consecutiveFailures > 0) continue;
+
+    register.history.push(value, time);
+    register.last = value;
+    register.lastTimestamp = time;
+    register.receivedAt = now;
+    device.lastUpdate = now;
+  }
+};
+
+const retain = (deviceIds: string[]) => {
+  const keep = new Set(deviceIds);
+  for (const id of [...devices.keys()]) {
+    if (!keep.has(id)) {
+      devices.delete(id);
+      dirty.delete(id);
+    }
+  }
+};
+
+const hydrate = (persisted: PersistedDevice[]) => {
+  for (const cached of persisted) {
+    for (const reg of cached.registers) {
+      const { device, register } = registerFor(cached.deviceId, reg.slaveIndex, reg.registerAddress);
+      if (reg.deviceSlaveId) device.slaveIds.set(reg.slaveIndex, reg.deviceSlaveId);
+      const count = Math.min(reg.values.length, reg.timestamps.length);
+      // The window may not be configured yet; never truncate the cache here
+      if (register.history.capacity < count) register.history.resize(count);
+      for (let i = 0; i < count; i++) register.history.push(reg.values[i], reg.timestamps[i]);
+
+      register.signalType = reg.signalType;
+      register.unit = reg.unit;
+      if (count) {
+        register.last = reg.values[count - 1];
+        register.lastTimestamp = reg.timestamps[count - 1];
+      }
+      register.receivedAt = cached.lastUpdate ?? 0;
+      device.lastUpdate = cached.lastUpdate;
+    }
+    dirty.add(cached.deviceId);
+  }
+};
+
+const configure = (next: typeof historyWindow) => {
+  historyWindow = next;
+  const capacity = capacityFor(next);
+  for (const [deviceId, device] of devices) {
+    for (const registers of device.slaves.values()) {
+      for (const reg of registers.values()) reg.history.resize(capacity);
+    }
+    dirty.add(deviceId);
+  }
+};
+
+/* ---- Snapshots ---- */
+
+const statsOf = (values: Float64Array) => {
+  if (!values.length) return { min: NaN, max: NaN, avg: NaN };
+  let min = Infinity, max = -Infinity, sum = 0;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+    sum += v;
+  }
+  return { min, max, avg: sum / values.length };
+};
+
+// A device that has gone quiet still has samples ageing out of a minutes window
+const expireQuiet = (since: number) => {
+  for (const [deviceId, device] of devices) {
+    if (dirty.has(deviceId)) continue;
+    for (const registers of device.slaves.values()) {
+      for (const reg of registers.values()) {
+        if (reg.snapshotFrom < since) dirty.add(deviceId);
+      }
+    }
+  }
+};
+
+const flush = () => {
+  const since = historyWindow.mode === "minutes" ? Date.now() - historyWindow.size * 60_000 : -Infinity;
+  if (since !== -Infinity) expireQuiet(since);
+  if (!dirty.size) return;
+
+  const snapshots: DeviceSnapshot[] = [];
+  const transfer: Transferable[] = [];
+
+  for (const deviceId of dirty) {
+    const device = devices.get(deviceId);
+    if (!device) continue;
+
+    snapshots.push({
+      deviceId,
+      lastUpdate: device.lastUpdate,
+      slaves: [...device.slaves.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([slaveIndex, registers]) => ({
+          slaveIndex,
+          deviceSlaveId: device.slaveIds.get(slaveIndex) ?? "",
+          registers: [...registers.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([registerAddress, reg]) => {
+              const { values, timestamps } = reg.history.toArrays(since);
+              reg.snapshotFrom = timestamps.length ? timestamps[0] : Infinity;
+              transfer.push(values.buffer, timestamps.buffer);
+              return {
+                registerAddress,
+                signalType: reg.signalType,
+                unit: reg.unit,
+                last: reg.last,
+                lastTimestamp: reg.lastTimestamp,
+                receivedAt: reg.receivedAt,
+                health: reg.health,
+                values,
+                timestamps,
+                ...statsOf(values),
+              };
+            }),
+        })),
+    });
+  }
+
+  dirty.clear();
+  ctx.postMessage({ type: "snapshot", devices: snapshots }, transfer);
+};
+
+setInterval(flush, SNAPSHOT_INTERVAL_MS);
+
+ctx.onmessage = (e) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case "ingest":
+      ingest(msg.batch);
+      break;
+    case "retain":
+      retain(msg.deviceIds);
+      break;
+    case "hydrate":
+      hydrate(msg.devices);
+      break;
+    case "configure":
+      configure(msg.window);
+      break;
+    case "reset":
+      devices.clear();
+      dirty.clear();
+      break;
+  }
+};
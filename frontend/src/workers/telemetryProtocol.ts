@@ -0,0 +1,77 @@
+import type { TelemetryDto } from "@/api/hubManager";
+import type { LiveHistoryWindow } from "@/hooks/liveHistoryStorage";
+import type { RegisterHealth } from "@/lib/registerHealth";
+
+/* --------------------------------------------------------
+    TELEMETRY WORKER PROTOCOL
+    Messages exchanged between useTelemetryBuffer and
+    telemetry.worker.ts.
+-------------------------------------------------------- */
+
+export const SNAPSHOT_INTERVAL_MS = 250;
+
+// Minute windows assume at most one sample per second per register
+const MIN_POLL_INTERVAL_MS = 1000;
+
+export const DEFAULT_HISTORY_WINDOW: LiveHistoryWindow = { mode: "samples", size: 100 };
+
+export const capacityFor = (window: LiveHistoryWindow) =>
+  window.mode === "samples" ? window.size : Math.ceil((window.size * 60_000) / MIN_POLL_INTERVAL_MS);
+
+export interface RegisterSnapshot {
+  registerAddress: number;
+  signalType: string;
+  unit: string;
+  last: number;
+  lastTimestamp: number;
+  // When the browser last received a good read (epoch ms), for staleness
+  receivedAt: number;
+  // Latest read health from the poller; null until this session hears about it
+  health: RegisterHealth | null;
+  // Oldest → newest, already trimmed to the configured window
+  values: Float64Array;
+  timestamps: Float64Array;
+  // Over the window; NaN when it is empty
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export interface SlaveSnapshot {
+  slaveIndex: number;
+  // device-service DeviceSlave id (the mapping's devicePortId); "" if unknown
+  deviceSlaveId: string;
+  registers: RegisterSnapshot[];
+}
+
+export interface DeviceSnapshot {
+  deviceId: string;
+  lastUpdate: number | null;
+  slaves: SlaveSnapshot[];
+}
+
+// Plain-array form used for the sessionStorage cache
+export interface PersistedRegister {
+  registerAddress: number;
+  slaveIndex: number;
+  deviceSlaveId?: string;
+  signalType: string;
+  unit: string;
+  values: number[];
+  timestamps: number[];
+}
+
+export interface PersistedDevice {
+  deviceId: string;
+  lastUpdate: number | null;
+  registers: PersistedRegister[];
+}
+
+export type TelemetryWorkerRequest =
+  | { type: "ingest"; batch: TelemetryDto[] }
+  | { type: "retain"; deviceIds: string[] }
+  | { type: "hydrate"; devices: PersistedDevice[] }
+  | { type: "configure"; window: LiveHistoryWindow }
+  | { type: "reset" };
+
+export type TelemetryWorkerResponse = { type: "snapshot"; devices: DeviceSnapshot[] };
@@ -1,6 +1,7 @@
 ﻿using Application.DTOs;
 using Application.Interface;
 using Domain.Entities;
+using Infrastructure.Service;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.Routing;
 using System.Text;
@@ -16,18 +17,23 @@ namespace Api.Controllers
     public class AlertController : Controller
     {
 
+        private const int MaxPageSize = 200;
+
         private readonly IAlertRepository _alertRepo;
         private readonly IAlertAnalysisRepository _alertAnalysisRepo;
+        private readonly IAlertAnalyticsService _analytics;
         private readonly HttpClient _http;
 
         public AlertController(
             IAlertRepository alertRepo,
             IHttpClientFactory factory,
-            IAlertAnalysisRepository alertAnalysisRepo)
+            IAlertAnalysisRepository alertAnalysisRepo,
+            IAlertAnalyticsService analytics)
         {
             _alertRepo = alertRepo;
             _http = factory.CreateClient();
             _alertAnalysisRepo = alertAnalysisRepo;
+            _analytics = analytics;
         }
 
 
@@ -152,6 +158,96 @@ namespace Api.Controllers
             return Ok(alerts);
         }
 
+        // -----------------------------------------------------
+        // ALERTS IN A WINDOW (CURSOR PAGINATION)
+        // -----------------------------------------------------
+        [HttpGet("page")]
+        [Authorize(Roles = "Admin,Engineer,Operator")]
+        public async Task<IActionResult> GetPage(
+            [FromQuery] DateTime fromUtc,
+            [FromQuery] DateTime toUtc,
+            [FromQuery] Guid? assetId = null,
+            [FromQuery] string? signalName = null,
+            [FromQuery] string? severity = null,
+            [FromQuery] DateTime? cursor = null,
+            [FromQuery] Guid? cursorId = null,
+            [FromQuery] int limit = 50)
+        {
+            var error = ValidateFilter(fromUtc, toUtc, severity);
+            if (error != null)
+                return BadRequest(new { message = error });
+
+            var result = await _alertRepo.GetPageAsync(new AlertPageQuery
+            {
+                FromUtc = fromUtc,
+                ToUtc = toUtc,
+                AssetId = assetId,
+                SignalName = signalName,
+                Severity = severity,
+                Cursor = cursor,
+                CursorId = cursorId,
+                Limit = Math.Clamp(limit, 1, MaxPageSize)
+            });
+
+            return Ok(new
+            {
+                data = result.Items,
+                nextCursor = result.NextCursor,
+                nextCursorId = result.NextCursorId,
+                hasMore = result.HasMore
+            });
+        }
+
+        // -----------------------------------------------------
+        // ALERT ANALYTICS FOR A WINDOW
+        // -----------------------------------------------------
+        [HttpGet("analytics")]
+        [Authorize(Roles = "Admin,Engineer,Operator")]
+        public async Task<IActionResult> GetAnalytics(
+            [FromQuery] DateTime fromUtc,
+            [FromQuery] DateTime toUtc,
+            [FromQuery] Guid? assetId = null,
+            [FromQuery] string? signalName = null,
+            [FromQuery] string? severity = null,
+            [FromQuery] string timeZone = "UTC")
+        {
+            var error = ValidateFilter(fromUtc, toUtc, severity);
+            if (error != null)
+                return BadRequest(new { message = error });
+
+            TimeZoneInfo zone;
+            try
+            {
+                zone = TimeZoneInfo.FindSystemTimeZoneById(timeZone);
+            }
+            catch (Exception ex) when (ex is TimeZoneNotFoundException || ex is InvalidTimeZoneException)
+            {
+                return BadRequest(new { message = $"Unknown time zone '{timeZone}'." });
+            }
+
+            var analytics = await _analytics.GetAnalyticsAsync(new AlertFilter
+            {
+                FromUtc = fromUtc,
+                ToUtc = toUtc,
+                AssetId = assetId,
+                SignalName = signalName,
+                Severity = severity
+            }, zone);
+
+            return Ok(analytics);
+        }
+
+        private static string? ValidateFilter(DateTime fromUtc, DateTime toUtc, string? severity)
+        {
+            if (fromUtc == default || toUtc == default)
+                return "fromUtc and toUtc are required.";
+            if (fromUtc > toUtc)
+                return "fromUtc must be before toUtc.";
+            if (!string.IsNullOrEmpty(severity) && !AlertMetrics.IsSeverity(severity))
+                return "severity must be Low, Medium or Critical.";
+            return null;
+        }
+
 
        
 
@@ -87,6 +87,25 @@ namespace MappingService.Controllers
                 throw new Exception(ex.Message);
             }
         }
+        // PUT api/mapping/{mappingId}/thresholds
+        [HttpPut("{mappingId}/thresholds")]
+        [Authorize(Roles = "Admin,Engineer")]
+        public async Task<IActionResult> UpdateThresholds(Guid mappingId, [FromBody] UpdateMappingThresholdsDto dto)
+        {
+            try
+            {
+                var mapping = await _mappingService.UpdateThresholdsAsync(mappingId, dto);
+                if (mapping == null)
+                    return NotFound(new { message = "Mapping not found." });
+
+                return Ok(mapping);
+            }
+            catch (InvalidOperationException ex)
+            {
+                return BadRequest(new { message = ex.Message });
+            }
+        }
+
         [HttpDelete("/api/deletemap/{mappingId}")]
         [Authorize(Roles = "Admin")]
         public async Task<IActionResult> DeleteMappingAsync(Guid mappingId)
@@ -153,6 +153,7 @@ builder.Services.AddScoped<INotificationService, NotificationService>();
 builder.Services.AddHostedService<ExpiredNotificationCleanupService>();
 builder.Services.AddScoped<IAlertRepository, AlertRepository>();
 builder.Services.AddScoped<IAlertAnalysisRepository, AlertAnalysisRepository>();
+builder.Services.AddScoped<IAlertAnalyticsService, AlertAnalyticsService>();
 
 
 // Mapping Cache
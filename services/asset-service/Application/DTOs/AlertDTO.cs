@@ -22,7 +22,9 @@ namespace Application.DTOs
     public class AlertDto
     {
         public Guid AlertId { get; set; }
+        public Guid AssetId { get; set; }
         public string AssetName { get; set; }
+        public Guid SignalTypeId { get; set; }
         public string SignalName { get; set; }
         public DateTime AlertStartUtc { get; set; }
         public DateTime? AlertEndUtc { get; set; }
@@ -32,6 +34,81 @@ namespace Application.DTOs
         public double? MaxObservedValue { get; set; }
         public bool IsActive { get; set; }
         public bool IsAnalyzed { get; set; }
+
+        // How far the worst reading went past the breached limit, as % of that limit
+        public double DeviationPercent { get; set; }
+        public string DeviationDirection { get; set; }   // UP, DOWN or NONE
+        public string Severity { get; set; }             // Low, Medium or Critical
+        // Until now while the alert is still active
+        public double DurationSeconds { get; set; }
+    }
+
+    // Alerts that started in [FromUtc, ToUtc], optionally narrowed down
+    public class AlertFilter
+    {
+        public DateTime FromUtc { get; set; }
+        public DateTime ToUtc { get; set; }
+        public Guid? AssetId { get; set; }
+        public string? SignalName { get; set; }
+        public string? Severity { get; set; }
+    }
+
+    public class AlertPageQuery : AlertFilter
+    {
+        // (AlertStartUtc, AlertId) of the last alert already loaded; alerts often share a start time
+        public DateTime? Cursor { get; set; }
+        public Guid? CursorId { get; set; }
+        public int Limit { get; set; } = 50;
+    }
+
+    public class AlertCursorResult : CursorResult<AlertDto>
+    {
+        public Guid? NextCursorId { get; set; }
+    }
+
+    public class AlertAnalyticsDto
+    {
+        public DateTime FromUtc { get; set; }
+        public DateTime ToUtc { get; set; }
+        public string TimeZone { get; set; }
+
+        public int Total { get; set; }
+        public int Active { get; set; }
+        public double AverageDeviationPercent { get; set; }
+        // Out-of-limit time inside the window, summed over alerts
+        public double TotalOutOfLimitSeconds { get; set; }
+        // Mean gap between consecutive alerts on the same signal; null with fewer than two
+        public double? MeanTimeBetweenAlertsSeconds { get; set; }
+
+        public List<AlertSeverityCountDto> BySeverity { get; set; } = new();
+        public List<AlertSignalStatsDto> BySignal { get; set; } = new();
+        // 24 buckets, hour of day in TimeZone
+        public List<AlertHourCountDto> ByHour { get; set; } = new();
+    }
+
+    public class AlertSeverityCountDto
+    {
+        public string Severity { get; set; }
+        public int Count { get; set; }
+    }
+
+    public class AlertSignalStatsDto
+    {
+        public Guid AssetId { get; set; }
+        public string AssetName { get; set; }
+        public Guid SignalTypeId { get; set; }
+        public string SignalName { get; set; }
+        public int Count { get; set; }
+        public int Critical { get; set; }
+        public double OutOfLimitSeconds { get; set; }
+        public double? MeanTimeBetweenAlertsSeconds { get; set; }
+        public DateTime LastAlertUtc { get; set; }
+    }
+
+    public class AlertHourCountDto
+    {
+        public int Hour { get; set; }
+        public int Count { get; set; }
     }
 
 
@@ -0,0 +1,12 @@
+﻿namespace Application.DTOs
+{
+    public class UpdateMappingThresholdsDto
+    {
+        // null clears the override and falls back to the signal type's threshold
+        public double? MinThreshold { get; set; }
+        public double? MaxThreshold { get; set; }
+
+        // false stops both server alerts and the live-view alarm for this signal
+        public bool Enabled { get; set; } = true;
+    }
+}
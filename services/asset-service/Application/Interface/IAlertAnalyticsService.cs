@@ -0,0 +1,12 @@
+﻿using Application.DTOs;
+using System;
+using System.Threading.Tasks;
+
+namespace Application.Interface
+{
+    public interface IAlertAnalyticsService
+    {
+        // Counts, recurrence and out-of-limit time for the alerts matching `filter`; hours are bucketed in `timeZone`
+        Task<AlertAnalyticsDto> GetAnalyticsAsync(AlertFilter filter, TimeZoneInfo timeZone);
+    }
+}
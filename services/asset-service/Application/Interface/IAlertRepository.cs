@@ -1,4 +1,5 @@
-﻿using Domain.Entities;
+﻿using Application.DTOs;
+using Domain.Entities;
 using System;
 using System.Collections.Generic;
 using System.Linq;
@@ -23,5 +24,9 @@ namespace Application.Interface
         Task MarkAnalyzedAsync(IEnumerable<Guid> alertIds);
         Task MarkResolvedAsync(Guid alertId, DateTime resolvedAt);
         Task<List<Alert>> GetAllAsync(DateTime? fromUtc, DateTime? toUtc , Guid assetId);
+
+        // Newest first, ties broken by AlertId; the cursor is the last alert already loaded
+        Task<AlertCursorResult> GetPageAsync(AlertPageQuery query);
+        Task<List<Alert>> GetFilteredAsync(AlertFilter filter);
     }
 }
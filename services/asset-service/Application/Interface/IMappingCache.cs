@@ -17,6 +17,11 @@ namespace Application.Interface
         public string SignalUnit { get; init; }
        
         public int RegisterAddress { get; init; }
+
+        // null → use the signal type's thresholds
+        public double? MinThreshold { get; init; }
+        public double? MaxThreshold { get; init; }
+        public bool ThresholdsEnabled { get; init; } = true;
     }
 
     public interface IMappingCache
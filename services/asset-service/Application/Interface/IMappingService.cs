@@ -18,5 +18,6 @@ namespace Application.Interface
 
         Task<List<AssetSignalDeviceMapping>> GetSignalsOnAnAsset(Guid assetId);
         Task<bool> DeleteMappingAsync(Guid mappingId);
+        Task<AssetSignalDeviceMapping?> UpdateThresholdsAsync(Guid mappingId, UpdateMappingThresholdsDto dto);
     }
 }
@@ -30,6 +30,11 @@ namespace MappingService.Domain.Entities
         public int RegisterAdress { get; set; } 
         public Guid registerId { get; set; }
 
+        // Per-mapping limits; null falls back to the signal type's Min/MaxThreshold
+        public double? MinThreshold { get; set; }
+        public double? MaxThreshold { get; set; }
+        public bool ThresholdsEnabled { get; set; } = true;
+
         public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
     }
 }
@@ -0,0 +1,495 @@
+﻿// <auto-generated />
+using System;
+using Infrastructure.DBs;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Metadata;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Microsoft.EntityFrameworkCore.Storage.ValueConversion;
+
+#nullable disable
+
+namespace Infrastructure.Migrations
+{
+    [DbContext(typeof(DBContext))]
+    [Migration("20261019090000_AddMappingThresholds")]
+    partial class AddMappingThresholds
+    {
+        /// <inheritdoc />
+        protected override void BuildTargetModel(ModelBuilder modelBuilder)
+        {
+#pragma warning disable 612, 618
+            modelBuilder
+                .HasAnnotation("ProductVersion", "9.0.9")
+                .HasAnnotation("Relational:MaxIdentifierLength", 128);
+
+            SqlServerModelBuilderExtensions.UseIdentityColumns(modelBuilder);
+
+            modelBuilder.Entity("Domain.Entities.Alert", b =>
+                {
+                    b.Property<Guid>("AlertId")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<DateTime?>("AlertEndUtc")
+                        .HasColumnType("datetime2");
+
+                    b.Property<DateTime>("AlertStartUtc")
+                        .HasColumnType("datetime2");
+
+                    b.Property<Guid>("AssetId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("AssetName")
+                        .IsRequired()
+                        .HasMaxLength(200)
+                        .HasColumnType("nvarchar(200)");
+
+                    b.Property<DateTime>("CreatedUtc")
+                        .HasColumnType("datetime2");
+
+                    b.Property<bool>("IsActive")
+                        .HasColumnType("bit");
+
+                    b.Property<bool>("IsAnalyzed")
+                        .HasColumnType("bit");
+
+                    b.Property<Guid>("MappingId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<double?>("MaxObservedValue")
+                        .HasColumnType("float");
+
+                    b.Property<double>("MaxThreshold")
+                        .HasColumnType("float");
+
+                    b.Property<double?>("MinObservedValue")
+                        .HasColumnType("float");
+
+                    b.Property<double>("MinThreshold")
+                        .HasColumnType("float");
+
+                    b.Property<int>("ReminderTimeHours")
+                        .HasColumnType("int");
+
+                    b.Property<string>("SignalName")
+                        .IsRequired()
+                        .HasMaxLength(200)
+                        .HasColumnType("nvarchar(200)");
+
+                    b.Property<Guid>("SignalTypeId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<DateTime>("UpdatedUtc")
+                        .HasColumnType("datetime2");
+
+                    b.HasKey("AlertId");
+
+                    b.HasIndex("MappingId");
+
+                    b.HasIndex("AssetId", "IsAnalyzed");
+
+                    b.ToTable("Alerts");
+                });
+
+            modelBuilder.Entity("Domain.Entities.AlertAnalysis", b =>
+                {
+                    b.Property<Guid>("AlertAnalysisId")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<DateTime>("AnalyzedAtUtc")
+                        .HasColumnType("datetime2");
+
+                    b.Property<Guid>("AssetId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("AssetName")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<DateTime>("FromUtc")
+                        .HasColumnType("datetime2");
+
+                    b.Property<string>("RecommendedActions")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<DateTime>("ToUtc")
+                        .HasColumnType("datetime2");
+
+                    b.HasKey("AlertAnalysisId");
+
+                    b.ToTable("AlertAnalyses");
+                });
+
+            modelBuilder.Entity("Domain.Entities.Asset", b =>
+                {
+                    b.Property<Guid>("AssetId")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<bool>("IsDeleted")
+                        .HasColumnType("bit");
+
+                    b.Property<int>("Level")
+                        .HasColumnType("int");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(50)
+                        .HasColumnType("nvarchar(50)");
+
+                    b.Property<Guid?>("ParentId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.HasKey("AssetId");
+
+                    b.HasIndex("Name")
+                        .IsUnique();
+
+                    b.HasIndex("ParentId");
+
+                    b.ToTable("Assets");
+                });
+
+            modelBuilder.Entity("Domain.Entities.AssetConfiguration", b =>
+                {
+                    b.Property<Guid>("AssetConfigId")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<Guid>("AssetId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<Guid>("SignaTypeID")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.HasKey("AssetConfigId");
+
+                    b.HasIndex("SignaTypeID");
+
+                    b.HasIndex("AssetId", "SignaTypeID")
+                        .IsUnique();
+
+                    b.ToTable("AssetConfigurations");
+                });
+
+            modelBuilder.Entity("Domain.Entities.Notification", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<DateTime>("ExpiresAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<int>("Priority")
+                        .HasColumnType("int");
+
+                    b.Property<string>("Text")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<string>("Title")
+                        .IsRequired()
+                        .HasMaxLength(250)
+                        .HasColumnType("nvarchar(250)");
+
+                    b.HasKey("Id");
+
+                    b.ToTable("Notifications");
+                });
+
+            modelBuilder.Entity("Domain.Entities.NotificationRecipient", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<DateTime?>("AcknowledgedAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<bool>("IsAcknowledged")
+                        .HasColumnType("bit");
+
+                    b.Property<bool>("IsRead")
+                        .HasColumnType("bit");
+
+                    b.Property<Guid>("NotificationId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<DateTime?>("ReadAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<string>("UserId")
+                        .IsRequired()
+                        .HasMaxLength(200)
+                        .HasColumnType("nvarchar(200)");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("NotificationId");
+
+                    b.HasIndex("UserId", "CreatedAt");
+
+                    b.ToTable("NotificationRecipients");
+                });
+
+            modelBuilder.Entity("Domain.Entities.ReportRequest", b =>
+                {
+                    b.Property<Guid>("ReportId")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<Guid>("AssetId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("AssetName")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<string>("FileName")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<string>("FilePath")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<DateTime>("RequestedAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<string>("SignalIds")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<string>("Status")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.HasKey("ReportId");
+
+                    b.ToTable("ReportRequests");
+                });
+
+            modelBuilder.Entity("Domain.Entities.SignalData", b =>
+                {
+                    b.Property<long>("SignalDataId")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("bigint");
+
+                    SqlServerPropertyBuilderExtensions.UseIdentityColumn(b.Property<long>("SignalDataId"));
+
+                    b.Property<Guid>("AssetId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<double?>("AvgValue")
+                        .ValueGeneratedOnAddOrUpdate()
+                        .HasColumnType("float");
+
+                    b.Property<DateTime>("BucketStartUtc")
+                        .HasColumnType("datetime2");
+
+                    b.Property<int>("Count")
+                        .HasColumnType("int");
+
+                    b.Property<DateTime>("CreatedAtUtc")
+                        .HasColumnType("datetime2");
+
+                    b.Property<Guid>("DeviceId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<Guid>("DevicePortId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<double?>("MaxValue")
+                        .HasColumnType("float");
+
+                    b.Property<double?>("MinValue")
+                        .HasColumnType("float");
+
+                    b.Property<int?>("RegisterAddress")
+                        .HasColumnType("int");
+
+                    b.Property<string>("SignalName")
+                        .IsRequired()
+                        .HasMaxLength(200)
+                        .HasColumnType("nvarchar(200)");
+
+                    b.Property<Guid>("SignalTypeId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("SignalUnit")
+                        .IsRequired()
+                        .HasMaxLength(50)
+                        .HasColumnType("nvarchar(50)");
+
+                    b.Property<double>("Sum")
+                        .HasColumnType("float");
+
+                    b.HasKey("SignalDataId");
+
+                    b.HasIndex("AssetId", "BucketStartUtc")
+                        .HasDatabaseName("IX_SignalData_Asset_Bucket");
+
+                    b.HasIndex("SignalTypeId", "BucketStartUtc")
+                        .HasDatabaseName("IX_SignalData_SignalType_Bucket");
+
+                    b.HasIndex("DeviceId", "DevicePortId", "BucketStartUtc")
+                        .HasDatabaseName("IX_SignalData_Device_Bucket");
+
+                    b.HasIndex("AssetId", "SignalTypeId", "DeviceId", "DevicePortId", "BucketStartUtc")
+                        .IsUnique()
+                        .HasDatabaseName("UX_SignalData_BucketKey");
+
+                    b.ToTable("SignalData");
+                });
+
+            modelBuilder.Entity("Domain.Entities.SignalTypes", b =>
+                {
+                    b.Property<Guid>("SignalTypeID")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<int>("DefaultRegisterAdress")
+                        .HasColumnType("int");
+
+                    b.Property<double>("MaxThreshold")
+                        .HasColumnType("float");
+
+                    b.Property<double>("MinThreshold")
+                        .HasColumnType("float");
+
+                    b.Property<string>("SignalName")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<string>("SignalUnit")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.HasKey("SignalTypeID");
+
+                    b.ToTable("SignalTypes");
+                });
+
+            modelBuilder.Entity("MappingService.Domain.Entities.AssetSignalDeviceMapping", b =>
+                {
+                    b.Property<Guid>("MappingId")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<Guid>("AssetId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<Guid>("DeviceId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<Guid>("DevicePortId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<double?>("MaxThreshold")
+                        .HasColumnType("float");
+
+                    b.Property<double?>("MinThreshold")
+                        .HasColumnType("float");
+
+                    b.Property<int>("RegisterAdress")
+                        .HasColumnType("int");
+
+                    b.Property<string>("SignalName")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<Guid>("SignalTypeId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("SignalUnit")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<bool>("ThresholdsEnabled")
+                        .HasColumnType("bit");
+
+                    b.Property<Guid>("registerId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.HasKey("MappingId");
+
+                    b.HasIndex("AssetId", "SignalTypeId")
+                        .HasDatabaseName("IX_Mapping_Asset_Signal");
+
+                    b.HasIndex("DeviceId", "DevicePortId")
+                        .HasDatabaseName("IX_Mapping_Device_Port");
+
+                    b.ToTable("MappingTable");
+                });
+
+            modelBuilder.Entity("Domain.Entities.Asset", b =>
+                {
+                    b.HasOne("Domain.Entities.Asset", null)
+                        .WithMany("Childrens")
+                        .HasForeignKey("ParentId")
+                        .OnDelete(DeleteBehavior.Restrict);
+                });
+
+            modelBuilder.Entity("Domain.Entities.AssetConfiguration", b =>
+                {
+                    b.HasOne("Domain.Entities.Asset", "Asset")
+                        .WithMany("AssetConfigurations")
+                        .HasForeignKey("AssetId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.HasOne("Domain.Entities.SignalTypes", "SignalType")
+                        .WithMany("AssetConfigurations")
+                        .HasForeignKey("SignaTypeID")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Asset");
+
+                    b.Navigation("SignalType");
+                });
+
+            modelBuilder.Entity("Domain.Entities.NotificationRecipient", b =>
+                {
+                    b.HasOne("Domain.Entities.Notification", "Notification")
+                        .WithMany("Recipients")
+                        .HasForeignKey("NotificationId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Notification");
+                });
+
+            modelBuilder.Entity("Domain.Entities.Asset", b =>
+                {
+                    b.Navigation("AssetConfigurations");
+
+                    b.Navigation("Childrens");
+                });
+
+            modelBuilder.Entity("Domain.Entities.Notification", b =>
+                {
+                    b.Navigation("Recipients");
+                });
+
+            modelBuilder.Entity("Domain.Entities.SignalTypes", b =>
+                {
+                    b.Navigation("AssetConfigurations");
+                });
+#pragma warning restore 612, 618
+        }
+    }
+}
@@ -0,0 +1,50 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddMappingThresholds : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<double>(
+                name: "MaxThreshold",
+                table: "MappingTable",
+                type: "float",
+                nullable: true);
+
+            migrationBuilder.AddColumn<double>(
+                name: "MinThreshold",
+                table: "MappingTable",
+                type: "float",
+                nullable: true);
+
+            // existing mappings keep alerting on the signal type's thresholds
+            migrationBuilder.AddColumn<bool>(
+                name: "ThresholdsEnabled",
+                table: "MappingTable",
+                type: "bit",
+                nullable: false,
+                defaultValue: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "MaxThreshold",
+                table: "MappingTable");
+
+            migrationBuilder.DropColumn(
+                name: "MinThreshold",
+                table: "MappingTable");
+
+            migrationBuilder.DropColumn(
+                name: "ThresholdsEnabled",
+                table: "MappingTable");
+        }
+    }
+}
@@ -395,6 +395,12 @@ namespace Infrastructure.Migrations
                     b.Property<Guid>("DevicePortId")
                         .HasColumnType("uniqueidentifier");
 
+                    b.Property<double?>("MaxThreshold")
+                        .HasColumnType("float");
+
+                    b.Property<double?>("MinThreshold")
+                        .HasColumnType("float");
+
                     b.Property<int>("RegisterAdress")
                         .HasColumnType("int");
 
@@ -409,6 +415,9 @@ namespace Infrastructure.Migrations
                         .IsRequired()
                         .HasColumnType("nvarchar(max)");
 
+                    b.Property<bool>("ThresholdsEnabled")
+                        .HasColumnType("bit");
+
                     b.Property<Guid>("registerId")
                         .HasColumnType("uniqueidentifier");
 
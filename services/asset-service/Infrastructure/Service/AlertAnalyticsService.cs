@@ -0,0 +1,87 @@
+﻿using Application.DTOs;
+using Application.Interface;
+using Domain.Entities;
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading.Tasks;
+
+namespace Infrastructure.Service
+{
+    public class AlertAnalyticsService : IAlertAnalyticsService
+    {
+        private readonly IAlertRepository _alertRepo;
+
+        public AlertAnalyticsService(IAlertRepository alertRepo)
+        {
+            _alertRepo = alertRepo;
+        }
+
+        public async Task<AlertAnalyticsDto> GetAnalyticsAsync(AlertFilter filter, TimeZoneInfo timeZone)
+        {
+            var alerts = await _alertRepo.GetFilteredAsync(filter);
+            var now = DateTime.UtcNow;
+            var dtos = alerts.Select(a => AlertMetrics.ToDto(a, now)).ToList();
+
+            var byHour = new int[24];
+            foreach (var a in alerts)
+            {
+                var start = DateTime.SpecifyKind(a.AlertStartUtc, DateTimeKind.Utc);
+                byHour[TimeZoneInfo.ConvertTimeFromUtc(start, timeZone).Hour]++;
+            }
+
+            var bySignal = alerts
+                .Select((a, i) => (Alert: a, Dto: dtos[i]))
+                .GroupBy(x => (x.Alert.AssetId, x.Alert.SignalTypeId))
+                .Select(g =>
+                {
+                    var group = g.Select(x => x.Alert).ToList();
+                    return new AlertSignalStatsDto
+                    {
+                        AssetId = g.Key.AssetId,
+                        AssetName = group[^1].AssetName,
+                        SignalTypeId = g.Key.SignalTypeId,
+                        SignalName = group[^1].SignalName,
+                        Count = group.Count,
+                        Critical = g.Count(x => x.Dto.Severity == AlertMetrics.Critical),
+                        OutOfLimitSeconds = group.Sum(a => AlertMetrics.DurationSecondsWithin(a, filter.FromUtc, filter.ToUtc, now)),
+                        MeanTimeBetweenAlertsSeconds = MeanGapSeconds(group),
+                        LastAlertUtc = group[^1].AlertStartUtc
+                    };
+                })
+                .OrderByDescending(s => s.Count)
+                .ThenBy(s => s.AssetName)
+                .ThenBy(s => s.SignalName)
+                .ToList();
+
+            // Pooled over signals: every gap between consecutive alerts on one signal counts once
+            var gaps = bySignal.Sum(s => s.Count - 1);
+            var gapSeconds = bySignal
+                .Where(s => s.MeanTimeBetweenAlertsSeconds.HasValue)
+                .Sum(s => s.MeanTimeBetweenAlertsSeconds!.Value * (s.Count - 1));
+
+            return new AlertAnalyticsDto
+            {
+                FromUtc = filter.FromUtc,
+                ToUtc = filter.ToUtc,
+                TimeZone = timeZone.Id,
+                Total = alerts.Count,
+                Active = alerts.Count(a => a.IsActive),
+                AverageDeviationPercent = dtos.Count > 0 ? Math.Round(dtos.Average(d => d.DeviationPercent), 2) : 0,
+                TotalOutOfLimitSeconds = bySignal.Sum(s => s.OutOfLimitSeconds),
+                MeanTimeBetweenAlertsSeconds = gaps > 0 ? gapSeconds / gaps : null,
+                BySeverity = AlertMetrics.Severities
+                    .Select(s => new AlertSeverityCountDto { Severity = s, Count = dtos.Count(d => d.Severity == s) })
+                    .ToList(),
+                BySignal = bySignal,
+                ByHour = byHour.Select((count, hour) => new AlertHourCountDto { Hour = hour, Count = count }).ToList()
+            };
+        }
+
+        // Alerts arrive oldest first
+        private static double? MeanGapSeconds(List<Alert> alerts) =>
+            alerts.Count < 2
+                ? null
+                : (alerts[^1].AlertStartUtc - alerts[0].AlertStartUtc).TotalSeconds / (alerts.Count - 1);
+    }
+}
@@ -0,0 +1,102 @@
+﻿using Application.DTOs;
+using Domain.Entities;
+using System;
+using System.Linq.Expressions;
+
+namespace Infrastructure.Service
+{
+    /// <summary>
+    /// Deviation, severity and duration of an alert. The expressions translate
+    /// to SQL so the alert list can be filtered by severity in the database;
+    /// the compiled forms are used once alerts are in memory.
+    /// </summary>
+    public static class AlertMetrics
+    {
+        public const string Low = "Low";
+        public const string Medium = "Medium";
+        public const string Critical = "Critical";
+
+        public static readonly string[] Severities = { Low, Medium, Critical };
+
+        private const double MediumFrom = 10;
+        private const double CriticalFrom = 25;
+
+        // A zero limit is treated as 1 so the percentage stays finite
+        public static readonly Expression<Func<Alert, double>> DeviationPercent = a =>
+            a.MaxObservedValue > a.MaxThreshold
+                ? (a.MaxObservedValue!.Value - a.MaxThreshold) / (a.MaxThreshold == 0 ? 1 : a.MaxThreshold) * 100
+                : a.MinObservedValue < a.MinThreshold
+                    ? (a.MinThreshold - a.MinObservedValue!.Value) / (a.MinThreshold == 0 ? 1 : a.MinThreshold) * 100
+                    : 0;
+
+        private static readonly Func<Alert, double> DeviationOf = DeviationPercent.Compile();
+
+        public static string SeverityOf(double deviationPercent) =>
+            deviationPercent >= CriticalFrom ? Critical
+            : deviationPercent >= MediumFrom ? Medium
+            : Low;
+
+        public static bool IsSeverity(string? severity) =>
+            severity != null && Array.IndexOf(Severities, severity) >= 0;
+
+        public static Expression<Func<Alert, bool>> SeverityFilter(string severity)
+        {
+            var deviation = DeviationPercent.Body;
+            Expression body = severity switch
+            {
+                Critical => Expression.GreaterThanOrEqual(deviation, Expression.Constant(CriticalFrom)),
+                Medium => Expression.AndAlso(
+                    Expression.GreaterThanOrEqual(deviation, Expression.Constant(MediumFrom)),
+                    Expression.LessThan(deviation, Expression.Constant(CriticalFrom))),
+                Low => Expression.LessThan(deviation, Expression.Constant(MediumFrom)),
+                _ => throw new ArgumentException($"Unknown severity '{severity}'", nameof(severity))
+            };
+            return Expression.Lambda<Func<Alert, bool>>(body, DeviationPercent.Parameters);
+        }
+
+        public static string DirectionOf(Alert a) =>
+            a.MaxObservedValue > a.MaxThreshold ? "UP"
+            : a.MinObservedValue < a.MinThreshold ? "DOWN"
+            : "NONE";
+
+        public static DateTime EndOf(Alert a, DateTime nowUtc) => a.AlertEndUtc ?? nowUtc;
+
+        public static double DurationSeconds(Alert a, DateTime nowUtc) =>
+            Math.Max(0, (EndOf(a, nowUtc) - a.AlertStartUtc).TotalSeconds);
+
+        // The part of the alert that falls inside [fromUtc, toUtc]
+        public static double DurationSecondsWithin(Alert a, DateTime fromUtc, DateTime toUtc, DateTime nowUtc)
+        {
+            var start = a.AlertStartUtc > fromUtc ? a.AlertStartUtc : fromUtc;
+            var end = EndOf(a, nowUtc);
+            if (end > toUtc) end = toUtc;
+            return Math.Max(0, (end - start).TotalSeconds);
+        }
+
+        public static AlertDto ToDto(Alert a, DateTime nowUtc)
+        {
+            // Severity from the unrounded value so it agrees with SeverityFilter
+            var deviation = DeviationOf(a);
+            return new AlertDto
+            {
+                AlertId = a.AlertId,
+                AssetId = a.AssetId,
+                AssetName = a.AssetName,
+                SignalTypeId = a.SignalTypeId,
+                SignalName = a.SignalName,
+                AlertStartUtc = a.AlertStartUtc,
+                AlertEndUtc = a.AlertEndUtc,
+                MinThreshold = a.MinThreshold,
+                MaxThreshold = a.MaxThreshold,
+                MinObservedValue = a.MinObservedValue,
+                MaxObservedValue = a.MaxObservedValue,
+                IsActive = a.IsActive,
+                IsAnalyzed = a.IsAnalyzed,
+                DeviationPercent = Math.Round(deviation, 2),
+                DeviationDirection = DirectionOf(a),
+                Severity = SeverityOf(deviation),
+                DurationSeconds = DurationSeconds(a, nowUtc)
+            };
+        }
+    }
+}
@@ -1,4 +1,5 @@
-﻿using Application.Interface;
+﻿using Application.DTOs;
+using Application.Interface;
 using Domain.Entities;
 using Infrastructure.DBs;
 using Microsoft.EntityFrameworkCore;
@@ -145,6 +146,70 @@ namespace Infrastructure.Service
                 .ToListAsync();
         }
 
+        public async Task<AlertCursorResult> GetPageAsync(AlertPageQuery pageQuery)
+        {
+            var query = Filter(pageQuery);
+
+            if (pageQuery.Cursor.HasValue)
+            {
+                var cursor = pageQuery.Cursor.Value;
+                if (pageQuery.CursorId.HasValue)
+                {
+                    var cursorId = pageQuery.CursorId.Value;
+                    query = query.Where(x => x.AlertStartUtc < cursor
+                        || (x.AlertStartUtc == cursor && x.AlertId.CompareTo(cursorId) < 0));
+                }
+                else
+                {
+                    query = query.Where(x => x.AlertStartUtc < cursor);
+                }
+            }
+
+            var alerts = await query
+                .OrderByDescending(x => x.AlertStartUtc)
+                .ThenByDescending(x => x.AlertId)
+                .Take(pageQuery.Limit + 1)
+                .ToListAsync();
+
+            var hasMore = alerts.Count > pageQuery.Limit;
+
+            if (hasMore)
+                alerts.RemoveAt(alerts.Count - 1);
+
+            var now = DateTime.UtcNow;
+            return new AlertCursorResult
+            {
+                Items = alerts.Select(a => AlertMetrics.ToDto(a, now)).ToList(),
+                HasMore = hasMore,
+                NextCursor = alerts.LastOrDefault()?.AlertStartUtc,
+                NextCursorId = alerts.LastOrDefault()?.AlertId
+            };
+        }
+
+        public Task<List<Alert>> GetFilteredAsync(AlertFilter filter)
+        {
+            return Filter(filter)
+                .OrderBy(x => x.AlertStartUtc)
+                .ToListAsync();
+        }
+
+        private IQueryable<Alert> Filter(AlertFilter filter)
+        {
+            var query = _db.Alerts.AsNoTracking()
+                .Where(x => x.AlertStartUtc >= filter.FromUtc && x.AlertStartUtc <= filter.ToUtc);
+
+            if (filter.AssetId.HasValue && filter.AssetId.Value != Guid.Empty)
+                query = query.Where(x => x.AssetId == filter.AssetId.Value);
+
+            if (!string.IsNullOrEmpty(filter.SignalName))
+                query = query.Where(x => x.SignalName == filter.SignalName);
+
+            if (!string.IsNullOrEmpty(filter.Severity))
+                query = query.Where(AlertMetrics.SeverityFilter(filter.Severity));
+
+            return query;
+        }
+
 
 
     }
@@ -188,6 +188,24 @@ namespace Infrastructure.Services
             }
         }
 
+        public async Task<AssetSignalDeviceMapping?> UpdateThresholdsAsync(Guid mappingId, UpdateMappingThresholdsDto dto)
+        {
+            if (dto == null) throw new ArgumentNullException(nameof(dto));
+            if (dto.MinThreshold.HasValue && dto.MaxThreshold.HasValue && dto.MinThreshold > dto.MaxThreshold)
+                throw new InvalidOperationException("Min threshold cannot be greater than max threshold.");
+
+            var mapping = await _db.MappingTable.FirstOrDefaultAsync(m => m.MappingId == mappingId);
+            if (mapping == null)
+                return null;
+
+            mapping.MinThreshold = dto.MinThreshold;
+            mapping.MaxThreshold = dto.MaxThreshold;
+            mapping.ThresholdsEnabled = dto.Enabled;
+            await _db.SaveChangesAsync();
+
+            return mapping;
+        }
+
 
 
     }
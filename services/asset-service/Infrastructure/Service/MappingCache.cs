@@ -39,7 +39,10 @@ namespace Infrastructure.Service
                     m.SignalTypeId,
                     m.SignalName,
                     m.SignalUnit,
-                    RegisterAddress = m.RegisterAdress
+                    RegisterAddress = m.RegisterAdress,
+                    m.MinThreshold,
+                    m.MaxThreshold,
+                    m.ThresholdsEnabled
                 })
                 .ToListAsync(ct);
 
@@ -55,7 +58,10 @@ namespace Infrastructure.Service
                     SignalUnit = r.SignalUnit,
                     DeviceId=r.DeviceId,
                     DeviceSlaveID=r.DevicePortId,
-                    RegisterAddress = r.RegisterAddress
+                    RegisterAddress = r.RegisterAddress,
+                    MinThreshold = r.MinThreshold,
+                    MaxThreshold = r.MaxThreshold,
+                    ThresholdsEnabled = r.ThresholdsEnabled
                 };
             }
 
@@ -260,9 +260,13 @@ namespace Infrastructure.Service
                         var now = DateTime.UtcNow;
                         var mappingKey = mapping.MappingId; // unique key for alert store
 
-                        bool isOutOfRange = influxDto.Value < signal.MinThreshold || influxDto.Value > signal.MaxThreshold;
+                        // per-mapping limits override the signal type; disabled limits never alert
+                        var minThreshold = mapping.MinThreshold ?? signal.MinThreshold;
+                        var maxThreshold = mapping.MaxThreshold ?? signal.MaxThreshold;
+
+                        bool isOutOfRange = mapping.ThresholdsEnabled && (influxDto.Value < minThreshold || influxDto.Value > maxThreshold);
                         var activeAlert = await _alertRepo.GetActiveAsync(mapping.MappingId);
-                        Console.WriteLine($"Value: {influxDto.Value}, MinThreshold: {signal.MinThreshold} signal name: {signal.SignalName}");
+                        Console.WriteLine($"Value: {influxDto.Value}, MinThreshold: {minThreshold} signal name: {signal.SignalName}");
                         Console.WriteLine(isOutOfRange);
 
                         if (isOutOfRange)
@@ -287,8 +291,8 @@ namespace Infrastructure.Service
                                     IsActive = true,
                                     IsAnalyzed = false,
 
-                                    MinThreshold = signal.MinThreshold,
-                                    MaxThreshold = signal.MaxThreshold,
+                                    MinThreshold = minThreshold,
+                                    MaxThreshold = maxThreshold,
 
                                     MinObservedValue = influxDto.Value,
                                     MaxObservedValue = influxDto.Value,
@@ -317,8 +321,8 @@ namespace Infrastructure.Service
                                     assetName,
                                     signal.SignalName,
                                     influxDto.Value,
-                                    signal.MinThreshold,
-                                    signal.MaxThreshold
+                                    minThreshold,
+                                    maxThreshold
                                 );
 
                                 var notificationRequest = new NotificationCreateRequest(
@@ -0,0 +1,180 @@
+﻿using Application.DTOs;
+using Domain.Entities;
+using FluentAssertions;
+using Infrastructure.Service;
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading.Tasks;
+using TataPlantAsset.Application.Tests.Fixtures;
+using Xunit;
+
+namespace TataPlantAsset.Application.Tests.Services
+{
+    public class AlertAnalyticsTests
+    {
+        private static readonly DateTime From = new(2026, 3, 1, 0, 0, 0, DateTimeKind.Utc);
+        private static readonly DateTime To = From.AddDays(1);
+
+        private readonly DbContextFixture _fixture;
+        private readonly Guid _assetId = Guid.NewGuid();
+        private readonly Guid _voltageId = Guid.NewGuid();
+        private readonly Guid _currentId = Guid.NewGuid();
+
+        public AlertAnalyticsTests()
+        {
+            _fixture = new DbContextFixture();
+        }
+
+        // Limits 100-200; `maxObserved` above 200 breaches the upper limit
+        private Alert NewAlert(Guid signalTypeId, string signalName, DateTime start, double minutes, double maxObserved) => new()
+        {
+            AlertId = Guid.NewGuid(),
+            AssetId = _assetId,
+            AssetName = "Pump 1",
+            SignalTypeId = signalTypeId,
+            SignalName = signalName,
+            MappingId = Guid.NewGuid(),
+            AlertStartUtc = start,
+            AlertEndUtc = start.AddMinutes(minutes),
+            MinThreshold = 100,
+            MaxThreshold = 200,
+            MinObservedValue = 150,
+            MaxObservedValue = maxObserved,
+            CreatedUtc = start,
+            UpdatedUtc = start
+        };
+
+        private async Task<AlertRepository> SeedAsync(params Alert[] alerts)
+        {
+            var context = _fixture.CreateContext();
+            context.Alerts.AddRange(alerts);
+            await context.SaveChangesAsync();
+            return new AlertRepository(context);
+        }
+
+        [Fact]
+        public void ToDto_Should_Derive_Deviation_Severity_And_Duration()
+        {
+            var alert = NewAlert(_voltageId, "Voltage", From, 30, 260);
+
+            var dto = AlertMetrics.ToDto(alert, DateTime.UtcNow);
+
+            dto.DeviationPercent.Should().Be(30);
+            dto.DeviationDirection.Should().Be("UP");
+            dto.Severity.Should().Be(AlertMetrics.Critical);
+            dto.DurationSeconds.Should().Be(1800);
+        }
+
+        [Fact]
+        public async Task GetPage_Should_Page_Newest_First_And_Filter_By_Severity()
+        {
+            var repo = await SeedAsync(
+                NewAlert(_voltageId, "Voltage", From.AddHours(1), 10, 260),
+                NewAlert(_voltageId, "Voltage", From.AddHours(2), 10, 225),
+                NewAlert(_voltageId, "Voltage", From.AddHours(3), 10, 205),
+                NewAlert(_currentId, "Current", From.AddHours(4), 10, 270));
+
+            var first = await repo.GetPageAsync(new AlertPageQuery { FromUtc = From, ToUtc = To, Limit = 3 });
+            first.Items.Select(a => a.AlertStartUtc.Hour).Should().Equal(4, 3, 2);
+            first.HasMore.Should().BeTrue();
+
+            var second = await repo.GetPageAsync(new AlertPageQuery { FromUtc = From, ToUtc = To, Limit = 3, Cursor = first.NextCursor, CursorId = first.NextCursorId });
+            second.Items.Select(a => a.AlertStartUtc.Hour).Should().Equal(1);
+            second.HasMore.Should().BeFalse();
+
+            var critical = await repo.GetPageAsync(new AlertPageQuery
+            {
+                FromUtc = From,
+                ToUtc = To,
+                SignalName = "Voltage",
+                Severity = AlertMetrics.Critical
+            });
+            critical.Items.Should().ContainSingle().Which.DeviationPercent.Should().Be(30);
+        }
+
+        [Fact]
+        public async Task GetPage_Should_Not_Skip_Alerts_Sharing_A_Start_Time_Across_Pages()
+        {
+            // One telemetry pass stamps every breach it handles with the same start
+            var start = From.AddHours(2);
+            var sameStart = Enumerable.Range(0, 5)
+                .Select(_ => NewAlert(_voltageId, "Voltage", start, 10, 260))
+                .ToArray();
+            var repo = await SeedAsync(sameStart.Append(NewAlert(_currentId, "Current", From.AddHours(1), 10, 260)).ToArray());
+
+            var loaded = new List<AlertDto>();
+            var query = new AlertPageQuery { FromUtc = From, ToUtc = To, Limit = 2 };
+            AlertCursorResult page;
+            do
+            {
+                page = await repo.GetPageAsync(query);
+                loaded.AddRange(page.Items);
+                query.Cursor = page.NextCursor;
+                query.CursorId = page.NextCursorId;
+            } while (page.HasMore);
+
+            loaded.Should().HaveCount(6);
+            loaded.Select(a => a.AlertId).Should().OnlyHaveUniqueItems();
+            loaded.Select(a => a.AlertId).Should().Contain(sameStart.Select(a => a.AlertId));
+            loaded.Last().SignalName.Should().Be("Current");
+        }
+
+        [Fact]
+        public async Task GetAnalytics_Should_Aggregate_By_Signal_Severity_And_Hour()
+        {
+            var repo = await SeedAsync(
+                NewAlert(_voltageId, "Voltage", From.AddHours(1), 10, 260),
+                NewAlert(_voltageId, "Voltage", From.AddHours(3), 20, 225),
+                NewAlert(_voltageId, "Voltage", From.AddHours(5), 30, 205),
+                NewAlert(_currentId, "Current", From.AddHours(1), 15, 270),
+                // Outside the window
+                NewAlert(_currentId, "Current", From.AddDays(-1), 15, 270));
+            var service = new AlertAnalyticsService(repo);
+
+            var result = await service.GetAnalyticsAsync(new AlertFilter { FromUtc = From, ToUtc = To }, TimeZoneInfo.Utc);
+
+            result.Total.Should().Be(4);
+            result.TotalOutOfLimitSeconds.Should().Be((10 + 20 + 30 + 15) * 60);
+            // Voltage gaps of 2h and 2h; Current has a single alert
+            result.MeanTimeBetweenAlertsSeconds.Should().Be(2 * 3600);
+            result.BySeverity.Single(s => s.Severity == AlertMetrics.Critical).Count.Should().Be(2);
+            result.BySeverity.Single(s => s.Severity == AlertMetrics.Medium).Count.Should().Be(1);
+            result.BySeverity.Single(s => s.Severity == AlertMetrics.Low).Count.Should().Be(1);
+
+            var voltage = result.BySignal.First();
+            voltage.SignalName.Should().Be("Voltage");
+            voltage.Count.Should().Be(3);
+            voltage.Critical.Should().Be(1);
+            voltage.LastAlertUtc.Should().Be(From.AddHours(5));
+            result.BySignal.Single(s => s.SignalName == "Current").MeanTimeBetweenAlertsSeconds.Should().BeNull();
+
+            result.ByHour.Should().HaveCount(24);
+            result.ByHour[1].Count.Should().Be(2);
+        }
+
+        [Fact]
+        public async Task GetAnalytics_Should_Bucket_Hours_In_The_Requested_Zone()
+        {
+            var repo = await SeedAsync(NewAlert(_voltageId, "Voltage", From.AddHours(1), 10, 260));
+            var service = new AlertAnalyticsService(repo);
+            var kolkata = TimeZoneInfo.FindSystemTimeZoneById("Asia/Kolkata");
+
+            var result = await service.GetAnalyticsAsync(new AlertFilter { FromUtc = From, ToUtc = To }, kolkata);
+
+            // 01:00 UTC is 06:30 in Kolkata
+            result.ByHour.Single(h => h.Count == 1).Hour.Should().Be(6);
+        }
+
+        [Fact]
+        public async Task GetAnalytics_Should_Clip_Duration_To_The_Window()
+        {
+            var repo = await SeedAsync(NewAlert(_voltageId, "Voltage", To.AddMinutes(-10), 60, 260));
+            var service = new AlertAnalyticsService(repo);
+
+            var result = await service.GetAnalyticsAsync(new AlertFilter { FromUtc = From, ToUtc = To }, TimeZoneInfo.Utc);
+
+            result.TotalOutOfLimitSeconds.Should().Be(600);
+        }
+    }
+}
@@ -0,0 +1,81 @@
+﻿using Application.DTOs;
+using FluentAssertions;
+using Infrastructure.Services;
+using MappingService.Domain.Entities;
+using System;
+using System.Threading.Tasks;
+using TataPlantAsset.Application.Tests.Fixtures;
+using Xunit;
+
+namespace TataPlantAsset.Application.Tests.Services
+{
+    public class MappingThresholdTests
+    {
+        private readonly DbContextFixture _fixture;
+
+        public MappingThresholdTests()
+        {
+            _fixture = new DbContextFixture();
+        }
+
+        private static AssetSignalDeviceMapping NewMapping() => new()
+        {
+            AssetId = Guid.NewGuid(),
+            SignalTypeId = Guid.NewGuid(),
+            DeviceId = Guid.NewGuid(),
+            DevicePortId = Guid.NewGuid(),
+            SignalName = "Voltage",
+            SignalUnit = "V",
+            RegisterAdress = 40001,
+            registerId = Guid.NewGuid()
+        };
+
+        [Fact]
+        public async Task UpdateThresholds_Should_Save_Override()
+        {
+            // Arrange
+            var context = _fixture.CreateContext();
+            var mapping = NewMapping();
+            context.MappingTable.Add(mapping);
+            await context.SaveChangesAsync();
+            var service = new AssetMappingService(context);
+
+            // Act
+            var updated = await service.UpdateThresholdsAsync(mapping.MappingId,
+                new UpdateMappingThresholdsDto { MinThreshold = 210, MaxThreshold = 240, Enabled = false });
+
+            // Assert
+            updated.Should().NotBeNull();
+            var saved = await context.MappingTable.FindAsync(mapping.MappingId);
+            saved!.MinThreshold.Should().Be(210);
+            saved.MaxThreshold.Should().Be(240);
+            saved.ThresholdsEnabled.Should().BeFalse();
+        }
+
+        [Fact]
+        public async Task UpdateThresholds_Should_Return_Null_For_Unknown_Mapping()
+        {
+            var context = _fixture.CreateContext();
+            var service = new AssetMappingService(context);
+
+            var updated = await service.UpdateThresholdsAsync(Guid.NewGuid(), new UpdateMappingThresholdsDto());
+
+            updated.Should().BeNull();
+        }
+
+        [Fact]
+        public async Task UpdateThresholds_Should_Reject_Min_Above_Max()
+        {
+            var context = _fixture.CreateContext();
+            var mapping = NewMapping();
+            context.MappingTable.Add(mapping);
+            await context.SaveChangesAsync();
+            var service = new AssetMappingService(context);
+
+            Func<Task> act = () => service.UpdateThresholdsAsync(mapping.MappingId,
+                new UpdateMappingThresholdsDto { MinThreshold = 50, MaxThreshold = 10 });
+
+            await act.Should().ThrowAsync<InvalidOperationException>();
+        }
+    }
+}
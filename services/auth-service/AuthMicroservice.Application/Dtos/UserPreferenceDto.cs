@@ -0,0 +1,8 @@
+﻿namespace AuthMicroservice.Application.Dtos
+{
+    public class UserPreferenceDto
+    {
+        // Opaque to the server; the client owns the JSON shape
+        public string Value { get; set; }
+    }
+}
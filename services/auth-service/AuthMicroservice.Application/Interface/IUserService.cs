@@ -35,6 +35,10 @@ namespace AuthMicroservice.Application.Interface
         Task<bool> GetTourStatusAsync(int userId);
         Task MarkTourCompletedAsync(int userId);
 
+        // Per-user preference documents; null when the user has not saved one
+        Task<string?> GetPreferenceAsync(string userKind, int userId, string key);
+        Task SavePreferenceAsync(string userKind, int userId, string key, string value);
+
         Task UpdateUserRoleAsync(int userId, string role);
 
     }
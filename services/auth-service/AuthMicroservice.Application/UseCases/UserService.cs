@@ -25,9 +25,10 @@ namespace AuthMicroservice.Application.UseCases
         private readonly IConfiguration _configuration;
         private readonly IUserOtpRepository _userOtpRepository;
         private readonly IEamilService _eamilService;
+        private readonly IUserPreferenceRepository _userPreferenceRepository;
         private readonly List<string> _validRoles = new() { "Admin", "User", "Operator", "Engineer" };
 
-        public UserService(IUserRepository userRepository, IOAuthUserRepository oAuthUserRepository, IMapper mapper, IConfiguration configuration, IUserOtpRepository userOtpRepository, IEamilService eamilService)
+        public UserService(IUserRepository userRepository, IOAuthUserRepository oAuthUserRepository, IMapper mapper, IConfiguration configuration, IUserOtpRepository userOtpRepository, IEamilService eamilService, IUserPreferenceRepository userPreferenceRepository)
         {
             _userRepository = userRepository;
             _oAuthUserRepository = oAuthUserRepository;
@@ -35,6 +36,7 @@ namespace AuthMicroservice.Application.UseCases
             _configuration = configuration;
             _userOtpRepository = userOtpRepository;
             _eamilService = eamilService;
+            _userPreferenceRepository = userPreferenceRepository;
         }
 
         public async Task<List<UserDto>> GetAllAsync()
@@ -264,7 +266,8 @@ namespace AuthMicroservice.Application.UseCases
                     new Claim(ClaimTypes.Name, user.Username),
                     new Claim(ClaimTypes.Role, user.Role),
                     new Claim(ClaimTypes.Email,user.Email),
-                    new Claim("UserId", user.UserId.ToString())
+                    new Claim("UserId", user.UserId.ToString()),
+                    new Claim(UserKind.ClaimType, UserKind.Local)
                 }),
                 Expires = DateTime.UtcNow.AddMinutes(15),
                 Issuer = _configuration["Jwt:Issuer"],
@@ -303,7 +306,8 @@ namespace AuthMicroservice.Application.UseCases
                     new Claim(ClaimTypes.Name, oAuthUser.Username),
                     new Claim(ClaimTypes.Role, oAuthUser.Role),
                     new Claim(ClaimTypes.Email, encryotedemail),
-                    new Claim("UserId", oAuthUser.OAuthUserId.ToString())
+                    new Claim("UserId", oAuthUser.OAuthUserId.ToString()),
+                    new Claim(UserKind.ClaimType, UserKind.OAuth)
                 }),
                 Expires = DateTime.UtcNow.AddHours(1),
                 Issuer = _configuration["Jwt:Issuer"],
@@ -329,7 +333,8 @@ namespace AuthMicroservice.Application.UseCases
                     new Claim(ClaimTypes.Name, oAuthUser.Username),
                     new Claim(ClaimTypes.Role, oAuthUser.Role),
                     new Claim(ClaimTypes.Email, oAuthUser.Email),
-                    new Claim("UserId", oAuthUser.OAuthUserId.ToString())
+                    new Claim("UserId", oAuthUser.OAuthUserId.ToString()),
+                    new Claim(UserKind.ClaimType, UserKind.OAuth)
                 }),
                 Expires = DateTime.UtcNow.AddHours(1),
                 Issuer = _configuration["Jwt:Issuer"],
@@ -398,6 +403,20 @@ namespace AuthMicroservice.Application.UseCases
             await _userRepository.UpdateAsync(user);
         }
 
+        public async Task<string?> GetPreferenceAsync(string userKind, int userId, string key)
+        {
+            var preference = await _userPreferenceRepository.GetAsync(userKind, userId, key);
+            return preference?.Value;
+        }
+
+        public async Task SavePreferenceAsync(string userKind, int userId, string key, string value)
+        {
+            if (string.IsNullOrWhiteSpace(key) || key.Length > 100)
+                throw new ArgumentException("Preference key must be 1-100 characters");
+
+            await _userPreferenceRepository.UpsertAsync(userKind, userId, key, value ?? string.Empty);
+        }
+
 
 
 
@@ -0,0 +1,12 @@
+﻿namespace AuthMicroservice.Domain.Entities
+{
+    // Users and OAuthUsers have separate identity sequences, so an id only means something with its kind
+    public static class UserKind
+    {
+        public const string Local = "Local";
+        public const string OAuth = "OAuth";
+
+        // JWT claim carrying the kind next to "UserId"
+        public const string ClaimType = "UserKind";
+    }
+}
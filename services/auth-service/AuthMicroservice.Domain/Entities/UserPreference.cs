@@ -0,0 +1,29 @@
+﻿using System;
+using System.ComponentModel.DataAnnotations;
+
+namespace AuthMicroservice.Domain.Entities
+{
+    // One client-owned JSON document per user and key (e.g. saved trend views)
+    public class UserPreference
+    {
+        [Key]
+        public Guid UserPreferenceId { get; set; }
+
+        // UserKind.Local (Users.UserId) or UserKind.OAuth (OAuthUsers.OAuthUserId)
+        [Required]
+        [MaxLength(10)]
+        public string UserKind { get; set; }
+
+        [Required]
+        public int UserId { get; set; }
+
+        [Required]
+        [MaxLength(100)]
+        public string Key { get; set; }
+
+        [Required]
+        public string Value { get; set; }
+
+        public DateTime UpdatedAt { get; set; }
+    }
+}
@@ -0,0 +1,11 @@
+﻿using System.Threading.Tasks;
+using AuthMicroservice.Domain.Entities;
+
+namespace AuthMicroservice.Domain.Interface
+{
+    public interface IUserPreferenceRepository
+    {
+        Task<UserPreference?> GetAsync(string userKind, int userId, string key);
+        Task UpsertAsync(string userKind, int userId, string key, string value);
+    }
+}
@@ -0,0 +1,48 @@
+﻿using System;
+using System.Threading.Tasks;
+using AuthMicroservice.Domain.Entities;
+using AuthMicroservice.Domain.Interface;
+using AuthMicroservice.Infrastructure.Persistance.DbContexts;
+using Microsoft.EntityFrameworkCore;
+
+namespace AuthMicroservice.Infrastructure.Implementation
+{
+    public class UserPreferenceRepository : IUserPreferenceRepository
+    {
+        private readonly UserDbContext _dbContext;
+
+        public UserPreferenceRepository(UserDbContext dbContext)
+        {
+            _dbContext = dbContext;
+        }
+
+        public async Task<UserPreference?> GetAsync(string userKind, int userId, string key)
+        {
+            return await _dbContext.UserPreferences
+                .FirstOrDefaultAsync(x => x.UserKind == userKind && x.UserId == userId && x.Key == key);
+        }
+
+        public async Task UpsertAsync(string userKind, int userId, string key, string value)
+        {
+            var entity = await GetAsync(userKind, userId, key);
+            if (entity == null)
+            {
+                await _dbContext.UserPreferences.AddAsync(new UserPreference
+                {
+                    UserPreferenceId = Guid.NewGuid(),
+                    UserKind = userKind,
+                    UserId = userId,
+                    Key = key,
+                    Value = value,
+                    UpdatedAt = DateTime.UtcNow
+                });
+            }
+            else
+            {
+                entity.Value = value;
+                entity.UpdatedAt = DateTime.UtcNow;
+            }
+            await _dbContext.SaveChangesAsync();
+        }
+    }
+}
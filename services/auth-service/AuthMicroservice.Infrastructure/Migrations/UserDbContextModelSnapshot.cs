@@ -137,6 +137,41 @@ namespace AuthMicroservice.Infrastructure.Migrations
 
                     b.ToTable("UserOtp");
                 });
+
+            modelBuilder.Entity("AuthMicroservice.Domain.Entities.UserPreference", b =>
+                {
+                    b.Property<Guid>("UserPreferenceId")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("Key")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("nvarchar(100)");
+
+                    b.Property<DateTime>("UpdatedAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<int>("UserId")
+                        .HasColumnType("int");
+
+                    b.Property<string>("UserKind")
+                        .IsRequired()
+                        .HasMaxLength(10)
+                        .HasColumnType("nvarchar(10)");
+
+                    b.Property<string>("Value")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.HasKey("UserPreferenceId");
+
+                    b.HasIndex("UserKind", "UserId", "Key")
+                        .IsUnique()
+                        .HasDatabaseName("IX_UserPreferences_UserKind_UserId_Key");
+
+                    b.ToTable("UserPreferences");
+                });
 #pragma warning restore 612, 618
         }
     }
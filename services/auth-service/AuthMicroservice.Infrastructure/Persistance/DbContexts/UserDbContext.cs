@@ -20,6 +20,8 @@ namespace AuthMicroservice.Infrastructure.Persistance.DbContexts
 
         public DbSet<UserOtp> UserOtp { get; set; }
 
+        public DbSet<UserPreference> UserPreferences { get; set; }
+
 
         protected override void OnModelCreating(ModelBuilder modelBuilder)
         {
@@ -36,6 +38,13 @@ namespace AuthMicroservice.Infrastructure.Persistance.DbContexts
                  .HasDatabaseName("IX_Users_RefreshToken");
             });
 
+            modelBuilder.Entity<UserPreference>(b =>
+            {
+                b.HasIndex(p => new { p.UserKind, p.UserId, p.Key })
+                 .IsUnique()
+                 .HasDatabaseName("IX_UserPreferences_UserKind_UserId_Key");
+            });
+
             // Optional: configure UserId PK type if needed, etc.
             base.OnModelCreating(modelBuilder);
         }
@@ -1,6 +1,7 @@
 ﻿using AuthMicroservice.Application.Dtos;
 using System.Security.Claims;
 using AuthMicroservice.Application.Interface;
+using AuthMicroservice.Domain.Entities;
 using Microsoft.AspNetCore.Authentication.Google;
 using Microsoft.AspNetCore.Authentication;
 using Microsoft.AspNetCore.Authorization;
@@ -301,6 +302,51 @@ namespace AuthMicroservice.Controllers
         }
 
 
+        // GET: api/user/preferences/{key}
+        [HttpGet("preferences/{key}")]
+        [Authorize(AuthenticationSchemes = JwtBearerDefaults.AuthenticationScheme)]
+        public async Task<IActionResult> GetPreference(string key)
+        {
+            if (!TryGetPreferenceOwner(out var userKind, out var userId)) return Unauthorized();
+
+            var value = await _userService.GetPreferenceAsync(userKind, userId, key);
+            if (value == null) return NotFound();
+
+            return Ok(new { key, value });
+        }
+
+
+        // PUT: api/user/preferences/{key}
+        [HttpPut("preferences/{key}")]
+        [Authorize(AuthenticationSchemes = JwtBearerDefaults.AuthenticationScheme)]
+        public async Task<IActionResult> SavePreference(string key, [FromBody] UserPreferenceDto dto)
+        {
+            if (!TryGetPreferenceOwner(out var userKind, out var userId)) return Unauthorized();
+
+            try
+            {
+                await _userService.SavePreferenceAsync(userKind, userId, key, dto.Value);
+                return Ok(new { key, value = dto.Value });
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(new { Message = ex.Message });
+            }
+        }
+
+        // Tokens issued before the UserKind claim existed are refused so a refresh replaces them
+        private bool TryGetPreferenceOwner(out string userKind, out int userId)
+        {
+            var identity = HttpContext.User.Identity as ClaimsIdentity;
+            userKind = identity?.FindFirst(UserKind.ClaimType)?.Value ?? string.Empty;
+            var userIdClaim = identity?.FindFirst("UserId")?.Value;
+
+            userId = 0;
+            return (userKind == UserKind.Local || userKind == UserKind.OAuth)
+                && int.TryParse(userIdClaim, out userId);
+        }
+
+
         [HttpPost("OtpVerify")]
         public async Task<IActionResult> VerifyOtp([FromBody] OtpDto dto)
         {
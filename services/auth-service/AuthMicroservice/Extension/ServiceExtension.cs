@@ -22,6 +22,7 @@ namespace AuthMicroservice.Extension
             services.AddScoped<IOAuthUserRepository, OAuthUserRepository>();
             services.AddScoped<IUserService, UserService>();
             services.AddScoped<IUserOtpRepository, UserOtpRepository>();
+            services.AddScoped<IUserPreferenceRepository, UserPreferenceRepository>();
             services.AddScoped<IEamilService, EmailService>();
 
             
@@ -5,6 +5,7 @@ using MyApp.Application.Interfaces;
 using MyApp.Domain.Entities;
 using MyApp.Infrastructure.Services;
 using System;
+using System.Collections.Generic;
 using System.Linq;
 using System.Net;
 using System.Threading;
@@ -18,6 +19,7 @@ namespace MyApp.Api.Controllers
     {
         private readonly IDeviceManager _mgr;
         private readonly ILogger<DevicesController> _log;
+        private const int MaxBatchLookup = 200;
 
         public DevicesController(IDeviceManager mgr, ILogger<DevicesController> log)
         {
@@ -36,7 +38,7 @@ namespace MyApp.Api.Controllers
                                .SelectMany(v => v.Errors)
                                .Select(e => string.IsNullOrWhiteSpace(e.ErrorMessage) ? e.Exception?.Message : e.ErrorMessage)
                                .Where(s => !string.IsNullOrWhiteSpace(s));
-                return BadRequest(ApiResponse<object>.Fail($"Validation failed: {string.Join("; ", errors)}"));
+                return BadRequest(ApiResponse<object>.Fail($"Validation failed: {string.Join("; ", errors)}", ModelStateErrors()));
             }
 
             try
@@ -113,6 +115,30 @@ namespace MyApp.Api.Controllers
             }
         }
 
+        // POST /api/devices/by-ids
+        [HttpPost("by-ids")]
+        [Authorize]
+        public async Task<IActionResult> GetByIds([FromBody] DeviceIdsRequest request, CancellationToken ct = default)
+        {
+            if (request?.DeviceIds == null || request.DeviceIds.Count == 0)
+                return BadRequest(ApiResponse<object>.Fail("DeviceIds are required."));
+
+            var ids = request.DeviceIds.Distinct().ToList();
+            if (ids.Count > MaxBatchLookup)
+                return BadRequest(ApiResponse<object>.Fail($"Cannot look up more than {MaxBatchLookup} devices at once."));
+
+            try
+            {
+                var devices = await _mgr.GetDevicesByIdsAsync(ids, ct);
+                return Ok(ApiResponse<object>.Ok(devices));
+            }
+            catch (Exception ex)
+            {
+                _log.LogError(ex, "Batch device lookup failed for {Count} ids", ids.Count);
+                return StatusCode((int)HttpStatusCode.InternalServerError, ApiResponse<object>.Fail("An unexpected error occurred."));
+            }
+        }
+
         // PUT /api/devices/{id}
         [HttpPut("{id:guid}")]
         [Authorize(Roles = "Admin , Engineer")]
@@ -126,14 +152,14 @@ namespace MyApp.Api.Controllers
             if (!TryValidateModel(request.Device, nameof(request.Device)))
             {
                 var errors = ModelState.Values.SelectMany(v => v.Errors).Select(e => e.ErrorMessage).Where(s => !string.IsNullOrWhiteSpace(s));
-                return BadRequest(ApiResponse<object>.Fail($"Validation failed for device: {string.Join("; ", errors)}"));
+                return BadRequest(ApiResponse<object>.Fail($"Validation failed for device: {string.Join("; ", errors)}", ModelStateErrors()));
             }
 
             ModelState.Clear();
             if (request.Configuration != null && !TryValidateModel(request.Configuration, nameof(request.Configuration)))
             {
                 var errors = ModelState.Values.SelectMany(v => v.Errors).Select(e => e.ErrorMessage).Where(s => !string.IsNullOrWhiteSpace(s));
-                return BadRequest(ApiResponse<object>.Fail($"Validation failed for configuration: {string.Join("; ", errors)}"));
+                return BadRequest(ApiResponse<object>.Fail($"Validation failed for configuration: {string.Join("; ", errors)}", ModelStateErrors()));
             }
 
             try
@@ -491,6 +517,13 @@ namespace MyApp.Api.Controllers
             }
         }
 
+        private Dictionary<string, string[]> ModelStateErrors() =>
+            ModelState
+                .Where(kv => kv.Value != null && kv.Value.Errors.Count > 0)
+                .ToDictionary(
+                    kv => kv.Key,
+                    kv => kv.Value!.Errors.Select(e => e.ErrorMessage).Where(m => !string.IsNullOrWhiteSpace(m)).ToArray());
+
 
 
 
@@ -13,8 +13,12 @@ namespace MyApp.Application.Dtos
             public T? Data { get; set; }
             public string? Error { get; set; }
 
+            // Field-level validation messages keyed by model path (e.g. "Device.Name")
+            public Dictionary<string, string[]>? Errors { get; set; }
+
             public static ApiResponse<T> Ok(T? data) => new ApiResponse<T> { Success = true, Data = data, Error = null };
             public static ApiResponse<T> Fail(string error) => new ApiResponse<T> { Success = false, Data = default, Error = error };
+            public static ApiResponse<T> Fail(string error, Dictionary<string, string[]> errors) => new ApiResponse<T> { Success = false, Data = default, Error = error, Errors = errors };
         }
     
 
@@ -0,0 +1,15 @@
+﻿using System;
+
+namespace MyApp.Application.Dtos
+{
+    /// <summary>
+    /// Liveness of one configured device, broadcast to every hub client.
+    /// LastSeenUtc is null until the device has returned at least one good read.
+    /// </summary>
+    public record DeviceHeartbeatDto(
+    Guid DeviceId,
+    string Name,
+    int PollIntervalMs,
+    DateTime? LastSeenUtc
+);
+}
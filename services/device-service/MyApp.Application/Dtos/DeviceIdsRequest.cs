@@ -0,0 +1,13 @@
+﻿using System;
+using System.Collections.Generic;
+
+namespace MyApp.Application.Dtos
+{
+    /// <summary>
+    /// Batch lookup request: resolve many devices in one call
+    /// </summary>
+    public class DeviceIdsRequest
+    {
+        public List<Guid> DeviceIds { get; set; } = new();
+    }
+}
@@ -6,6 +6,11 @@ using System.Threading.Tasks;
 
 namespace MyApp.Application.Dtos
 {
+    /// <summary>
+    /// One register reading. The trailing health fields describe the register's read state:
+    /// a failed read carries ConsecutiveFailures &gt; 0, the last good Value, and the Modbus
+    /// ExceptionCode when the slave answered with one. Failed reads are only pushed to SignalR.
+    /// </summary>
     public record TelemetryDto(
     Guid DeviceId,
     Guid deviceSlaveId,
@@ -14,6 +19,9 @@ namespace MyApp.Application.Dtos
     string SignalType,
     double Value,
     string Unit,
-    DateTime Timestamp
+    DateTime Timestamp,
+    DateTime? LastGoodReadUtc = null,
+    int ConsecutiveFailures = 0,
+    byte? ExceptionCode = null
 );
 }
@@ -21,6 +21,9 @@ namespace MyApp.Application.Interfaces
         // Get one device (with configuration included)
         Task<Device?> GetDeviceAsync(Guid deviceId, CancellationToken ct = default);
 
+        // Get many devices in one query (missing or deleted ids are skipped)
+        Task<List<Device>> GetDevicesByIdsAsync(IReadOnlyCollection<Guid> deviceIds, CancellationToken ct = default);
+
         // Get all devices (with configurations)
         Task<(List<Device> Devices, int TotalCount)> GetAllDevicesAsync(int pageNumber, 
       int pageSize,
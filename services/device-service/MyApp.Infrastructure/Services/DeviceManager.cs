@@ -322,6 +322,13 @@ namespace MyApp.Infrastructure.Services
                   .AsNoTracking()
                   .FirstOrDefaultAsync(d => d.DeviceId == deviceId && !d.IsDeleted, ct);
 
+        public Task<List<Device>> GetDevicesByIdsAsync(IReadOnlyCollection<Guid> deviceIds, CancellationToken ct = default)
+            => _db.Devices
+                  .Include(d => d.DeviceConfiguration)
+                  .AsNoTracking()
+                  .Where(d => deviceIds.Contains(d.DeviceId) && !d.IsDeleted)
+                  .ToListAsync(ct);
+
 
 
         public async Task<List<Device>> GetDeletedDevicesAsync(CancellationToken ct = default)
@@ -47,6 +47,12 @@ namespace MyApp.Infrastructure.Services
         // per-device loop tasks
         private readonly ConcurrentDictionary<Guid, Task> _deviceTasks = new();
 
+        // last successful poll per device (UTC) and the interval it was polled at
+        private static readonly ConcurrentDictionary<Guid, (DateTime SeenUtc, int PollIntervalMs)> _lastSeen = new();
+
+        // per-register read health: last good read (UTC + value), consecutive failed reads, last Modbus exception code
+        private static readonly ConcurrentDictionary<Guid, (DateTime? LastGoodUtc, double LastValue, int Failures, byte? ExceptionCode)> _registerHealth = new();
+
         private readonly int _failThreshold;
 
         public IHubContext<ModbusHub> Hub => _hub;
@@ -102,6 +108,8 @@ namespace MyApp.Infrastructure.Services
                             var completed = _deviceTasks.Where(kvp => kvp.Value.IsCompleted).Select(kvp => kvp.Key).ToList();
                             foreach (var k in completed) _deviceTasks.TryRemove(k, out _);
                         }
+
+                        await BroadcastHeartbeatAsync(db, stoppingToken);
                     }
                     catch (Exception ex)
                     {
@@ -126,6 +134,42 @@ namespace MyApp.Infrastructure.Services
             }
         }
 
+        /// <summary>
+        /// Sends the last successful poll time of every configured device to all clients,
+        /// so the UI can flag quiet devices without joining every device group.
+        /// Runs on the manager loop, i.e. every 5 seconds.
+        /// </summary>
+        private async Task BroadcastHeartbeatAsync(AppDbContext db, CancellationToken ct)
+        {
+            var configured = await db.Devices
+                .AsNoTracking()
+                .Where(d => !d.IsDeleted && d.DeviceConfigurationId != null)
+                .Select(d => new { d.DeviceId, d.Name, d.DeviceConfiguration!.PollIntervalMs })
+                .ToListAsync(ct);
+
+            var heartbeats = configured.Select(d =>
+            {
+                var seen = _lastSeen.TryGetValue(d.DeviceId, out var s) ? s : default;
+                // prefer the interval actually used (ProtocolSettingsJson may override the column)
+                var interval = seen.PollIntervalMs > 0 ? seen.PollIntervalMs : (d.PollIntervalMs > 0 ? d.PollIntervalMs : 1000);
+                return new DeviceHeartbeatDto(
+                    DeviceId: d.DeviceId,
+                    Name: d.Name,
+                    PollIntervalMs: interval,
+                    LastSeenUtc: seen.SeenUtc == default ? null : seen.SeenUtc
+                );
+            }).ToList();
+
+            try
+            {
+                await Hub.Clients.All.SendAsync("DeviceHeartbeat", heartbeats, ct);
+            }
+            catch (Exception hubEx)
+            {
+                _log.LogWarning(hubEx, "Failed to broadcast device heartbeat");
+            }
+        }
+
         /// <summary>
         /// Per-device loop. Calls PollSingleDeviceOnceAsync repeatedly and delays based on returned poll interval.
         /// </summary>
@@ -301,6 +345,35 @@ namespace MyApp.Infrastructure.Services
                 // tuple: (deviceSlaveId, slaveIndex, SignalType, Value, Unit, RegisterAddress)
                 var allReads = new List<(Guid deviceSlaveId, int slaveIndex, string SignalType, double Value, string Unit, int RegisterAddress)>();
 
+                // failed reads carry the register health only; they go to SignalR, never to RabbitMQ
+                var failedReads = new List<TelemetryDto>();
+
+                void RecordFailedReads(IEnumerable<dynamic> items, byte? exceptionCode)
+                {
+                    foreach (var ent in items)
+                    {
+                        var ds = (DeviceSlave)ent.DeviceSlave;
+                        var reg = (Register)ent.Register;
+                        var health = _registerHealth.AddOrUpdate(reg.RegisterId,
+                            _ => (null, 0d, 1, exceptionCode),
+                            (_, old) => (old.LastGoodUtc, old.LastValue, old.Failures + 1, exceptionCode));
+
+                        failedReads.Add(new TelemetryDto(
+                            DeviceId: device.DeviceId,
+                            deviceSlaveId: ds.deviceSlaveId,
+                            slaveIndex: ds.slaveIndex,
+                            RegisterAddress: reg.RegisterAddress,
+                            SignalType: reg.DataType ?? $"Port{ds.slaveIndex}",
+                            Value: health.LastValue,
+                            Unit: reg.Unit ?? string.Empty,
+                            Timestamp: DateTime.Now,
+                            LastGoodReadUtc: health.LastGoodUtc,
+                            ConsecutiveFailures: health.Failures,
+                            ExceptionCode: health.ExceptionCode
+                        ));
+                    }
+                }
+
                 // --- Group protoPorts by slaveIndex (unit id) so we never mix different slaves in one request ---
                 var protoGroups = protoPorts
                     .GroupBy(x => ((DeviceSlave)x.DeviceSlave).slaveIndex)
@@ -467,6 +540,7 @@ namespace MyApp.Infrastructure.Services
 
                                     // add to telemetry buffer
                                     allReads.Add((ds.deviceSlaveId, ds.slaveIndex, reg.DataType ?? $"Port{ds.slaveIndex}", finalValue, reg.Unit ?? string.Empty, reg.RegisterAddress));
+                                    _registerHealth[reg.RegisterId] = (now, finalValue, 0, null);
 
                                     // append row to buffer
                                     sb.AppendLine($"{now:O}".PadRight(30) + " | " +
@@ -489,9 +563,13 @@ namespace MyApp.Infrastructure.Services
                                 Console.Write(sb.ToString());
                             }
                         }
-                        catch (Modbus.SlaveException sex)
+                        catch (Exception sex) when (sex is Modbus.SlaveException || sex is ModbusSlaveException)
                         {
                             // _log.LogError(sex, "Modbus SlaveException device {Device} unit={UnitId} start={Start} count={Count}", device.DeviceId, unitId, r.Start, r.Count);
+                            byte? exceptionCode = sex is ModbusSlaveException mse
+                                ? mse.ExceptionCode
+                                : ((Modbus.SlaveException)sex).SlaveExceptionCode;
+                            RecordFailedReads(r.Items, exceptionCode);
 
                             var regsToConsider = r.Items.Select(it => ((Register)it.Register).RegisterId).ToList();
                             try
@@ -524,6 +602,7 @@ namespace MyApp.Infrastructure.Services
                         catch (Exception ex)
                         {
                             _log.LogError(ex, "Error reading device {Device} unit={UnitId} start={Start} count={Count}", device.DeviceId, unitId, r.Start, r.Count);
+                            RecordFailedReads(r.Items, null);
                         }
 
 
@@ -533,6 +612,9 @@ namespace MyApp.Infrastructure.Services
 
                 // Prepare telemetry DTOs and push them to SignalR (no DB save)
                 if (allReads.Count > 0)
+                    _lastSeen[device.DeviceId] = (DateTime.UtcNow, pollIntervalMs);
+
+                if (allReads.Count > 0 || failedReads.Count > 0)
                 {
                     try
                     {
@@ -547,16 +629,16 @@ namespace MyApp.Infrastructure.Services
                                 SignalType: r.SignalType,
                                 Value: r.Value,
                                 Unit: r.Unit,
-                                Timestamp: DateTime.Now
-
+                                Timestamp: DateTime.Now,
+                                LastGoodReadUtc: now
                             );
                         }).ToList();
 
-                        if (telemetryDtos.Any())
+                        if (telemetryDtos.Any() || failedReads.Any())
                         {
                             try
                             {
-                                await Hub.Clients.Group(device.DeviceId.ToString()).SendAsync("TelemetryUpdate", telemetryDtos, ct);
+                                await Hub.Clients.Group(device.DeviceId.ToString()).SendAsync("TelemetryUpdate", telemetryDtos.Concat(failedReads).ToList(), ct);
                             }
                             catch (Exception hubEx)
                             {
@@ -585,7 +667,7 @@ namespace MyApp.Infrastructure.Services
                         _log.LogWarning(hubEx, "Failed to prepare telemetry for device {Device}", device.DeviceId);
                     }
 
-                    _log.LogDebug("Prepared {Count} telemetry rows for device {Device}", allReads.Count, device.DeviceId);
+                    _log.LogDebug("Prepared {Count} telemetry rows ({Failed} failed reads) for device {Device}", allReads.Count, failedReads.Count, device.DeviceId);
                 }
             }
             catch (SocketException s_ex)
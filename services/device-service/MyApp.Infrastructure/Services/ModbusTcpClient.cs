@@ -77,7 +77,7 @@ namespace MyApp.Infrastructure.Services
             {
                 // exception response
                 byte exCode = pdu.Length >= 2 ? pdu[1] : (byte)0;
-                throw new InvalidOperationException($"Modbus slave exception: code {exCode}");
+                throw new ModbusSlaveException(exCode);
             }
 
             byte byteCount = pdu[1];
@@ -94,4 +94,19 @@ namespace MyApp.Infrastructure.Services
             return regs;
         }
     }
+
+    /// <summary>
+    /// Exception response from a Modbus slave (function code with the high bit set).
+    /// ExceptionCode is the raw Modbus code, e.g. 2 = illegal data address.
+    /// </summary>
+    public class ModbusSlaveException : InvalidOperationException
+    {
+        public byte ExceptionCode { get; }
+
+        public ModbusSlaveException(byte exceptionCode)
+            : base($"Modbus slave exception: code {exceptionCode}")
+        {
+            ExceptionCode = exceptionCode;
+        }
+    }
 }